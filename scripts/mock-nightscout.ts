@@ -0,0 +1,225 @@
+/**
+ * Mock Nightscout Server for MeData
+ *
+ * Serves a minimal subset of the Nightscout v1 API backed by generated data,
+ * so the Nightscout CGM integration can be tested without a real site.
+ * Treatments are kept in memory for the lifetime of the process.
+ *
+ * Usage: npx tsx scripts/mock-nightscout.ts [port]
+ *
+ * Auth:
+ * - API secret: "mock-secret" (sent as SHA1 hex in the `api-secret` header)
+ * - Token: "mock-token" (sent as `?token=` query parameter)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+
+const PORT = Number(process.argv[2]) || 1337;
+const API_SECRET = 'mock-secret';
+const API_SECRET_HASH = createHash('sha1').update(API_SECRET).digest('hex');
+const TOKEN = 'mock-token';
+
+const READING_INTERVAL_MS = 5 * 60 * 1000;
+const HISTORY_MS = 24 * 60 * 60 * 1000;
+
+interface Entry {
+  _id: string;
+  type: 'sgv';
+  sgv: number;
+  date: number;
+  dateString: string;
+  direction: string;
+  delta: number;
+  device: string;
+}
+
+interface Treatment {
+  _id: string;
+  eventType: string;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+const treatments = new Map<string, Treatment>();
+
+/**
+ * Glucose curve in mg/dL: slow daily wave plus a faster meal-like wave
+ */
+function glucoseAt(time: number): number {
+  const hours = time / (60 * 60 * 1000);
+  return Math.round(120 + 40 * Math.sin((hours / 24) * 2 * Math.PI) + 25 * Math.sin(hours));
+}
+
+function directionFor(delta: number): string {
+  const perMinute = delta / 5;
+  if (perMinute > 3) return 'DoubleUp';
+  if (perMinute > 2) return 'SingleUp';
+  if (perMinute > 1) return 'FortyFiveUp';
+  if (perMinute >= -1) return 'Flat';
+  if (perMinute >= -2) return 'FortyFiveDown';
+  if (perMinute >= -3) return 'SingleDown';
+  return 'DoubleDown';
+}
+
+/**
+ * Generate entries up to now, newest first (as Nightscout returns them)
+ */
+function generateEntries(): Entry[] {
+  const now = Math.floor(Date.now() / READING_INTERVAL_MS) * READING_INTERVAL_MS;
+  const entries: Entry[] = [];
+
+  for (let t = now; t >= now - HISTORY_MS; t -= READING_INTERVAL_MS) {
+    const sgv = glucoseAt(t);
+    const delta = sgv - glucoseAt(t - READING_INTERVAL_MS);
+    entries.push({
+      _id: t.toString(16),
+      type: 'sgv',
+      sgv,
+      date: t,
+      dateString: new Date(t).toISOString(),
+      direction: directionFor(delta),
+      delta,
+      device: 'mock-cgm'
+    });
+  }
+
+  return entries;
+}
+
+function isAuthorised(req: IncomingMessage, url: URL): boolean {
+  return req.headers['api-secret'] === API_SECRET_HASH || url.searchParams.get('token') === TOKEN;
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Handle /api/v1/treatments: GET (date range), POST (array), PUT (by _id), DELETE /:id
+ */
+async function handleTreatments(req: IncomingMessage, res: ServerResponse, url: URL) {
+  const idMatch = url.pathname.match(/^\/api\/v1\/treatments\/([^/.]+)$/);
+
+  if (req.method === 'GET') {
+    const gte = url.searchParams.get('find[created_at][$gte]');
+    const lte = url.searchParams.get('find[created_at][$lte]');
+    const count = Number(url.searchParams.get('count')) || 10;
+    const from = gte ? Date.parse(gte) : 0;
+    const to = lte ? Date.parse(lte) : Infinity;
+
+    const results = [...treatments.values()]
+      .filter((t) => {
+        const time = Date.parse(t.created_at);
+        return time >= from && time <= to;
+      })
+      .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+      .slice(0, count);
+    sendJSON(res, 200, results);
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const body = await readBody(req);
+    const items = (Array.isArray(body) ? body : [body]) as Treatment[];
+    const created = items.map((item) => {
+      const treatment = { ...item, _id: randomBytes(12).toString('hex') };
+      treatments.set(treatment._id, treatment);
+      return treatment;
+    });
+    sendJSON(res, 200, created);
+    return;
+  }
+
+  if (req.method === 'PUT') {
+    const treatment = (await readBody(req)) as Treatment;
+    if (!treatment?._id || !treatments.has(treatment._id)) {
+      sendJSON(res, 404, { status: 404, message: 'Treatment not found' });
+      return;
+    }
+    treatments.set(treatment._id, treatment);
+    sendJSON(res, 200, treatment);
+    return;
+  }
+
+  if (req.method === 'DELETE' && idMatch) {
+    const existed = treatments.delete(idMatch[1]);
+    sendJSON(res, existed ? 200 : 404, { n: existed ? 1 : 0 });
+    return;
+  }
+
+  sendJSON(res, 405, { status: 405, message: 'Method not allowed' });
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  // Allow the dev server origin to call the mock directly
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'api-secret, content-type, accept');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+  if (!isAuthorised(req, url)) {
+    sendJSON(res, 401, { status: 401, message: 'Unauthorized' });
+    return;
+  }
+
+  if (url.pathname === '/api/v1/status.json' || url.pathname === '/api/v1/status') {
+    sendJSON(res, 200, {
+      status: 'ok',
+      name: 'nightscout',
+      version: '15.0.0-mock',
+      serverTime: new Date().toISOString(),
+      settings: { units: 'mmol', customTitle: 'Mock Nightscout' }
+    });
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/v1/entries')) {
+    const gte = Number(url.searchParams.get('find[date][$gte]')) || 0;
+    const lte = Number(url.searchParams.get('find[date][$lte]')) || Infinity;
+    const count = Number(url.searchParams.get('count')) || 10;
+
+    const entries = generateEntries()
+      .filter((e) => e.date >= gte && e.date <= lte)
+      .slice(0, count);
+    sendJSON(res, 200, entries);
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/v1/treatments')) {
+    handleTreatments(req, res, url).catch(() => {
+      sendJSON(res, 400, { status: 400, message: 'Invalid request body' });
+    });
+    return;
+  }
+
+  sendJSON(res, 404, { status: 404, message: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Nightscout listening on http://localhost:${PORT}`);
+  console.log(`API secret: ${API_SECRET} | token: ${TOKEN}`);
+});
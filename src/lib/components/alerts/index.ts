@@ -0,0 +1,4 @@
+export { default as PredictiveAlertSettings } from './PredictiveAlertSettings.svelte';
+export { default as AlertHistoryList } from './AlertHistoryList.svelte';
+export { default as RescueCarbsCard } from './RescueCarbsCard.svelte';
+export { default as KetoneAlertCard } from './KetoneAlertCard.svelte';
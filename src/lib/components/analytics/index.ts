@@ -0,0 +1,6 @@
+export { default as BacktestReportView } from './BacktestReportView.svelte';
+export { default as GlycaemicMetricsView } from './GlycaemicMetricsView.svelte';
+export { default as AGPChart } from './AGPChart.svelte';
+export { default as PatternInsightsView } from './PatternInsightsView.svelte';
+export { default as GlycationGapView } from './GlycationGapView.svelte';
+export { default as LabA1cChart } from './LabA1cChart.svelte';
@@ -8,3 +8,4 @@ export { default as GraphRegionSelector } from './GraphRegionSelector.svelte';
 export { default as AxisRangeInput } from './AxisRangeInput.svelte';
 export { default as ExtractionPreview } from './ExtractionPreview.svelte';
 export { default as TimeSeriesConfirm } from './TimeSeriesConfirm.svelte';
+export { default as CGMConnectionSettings } from './CGMConnectionSettings.svelte';
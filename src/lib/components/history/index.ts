@@ -0,0 +1,2 @@
+export { default as DeletedEventList } from './DeletedEventList.svelte';
+export { default as EventRevisionList } from './EventRevisionList.svelte';
@@ -0,0 +1 @@
+export { default as MealSuggestionList } from './MealSuggestionList.svelte';
@@ -0,0 +1 @@
+export { default as TherapyProfileSettings } from './TherapyProfileSettings.svelte';
@@ -0,0 +1 @@
+export { default as WhatIfChart } from './WhatIfChart.svelte';
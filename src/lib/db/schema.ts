@@ -4,8 +4,11 @@ import type {
   MealPreset,
   TestDatasetEntry,
   ValidationResult,
-  CorrectionHistoryEntry
+  CorrectionHistoryEntry,
+  AlertRecord,
+  EventRevision
 } from '$lib/types';
+import { normaliseBSLEvent } from '$lib/utils';
 
 /**
  * Database schema for MeData
@@ -17,6 +20,8 @@ export class MeDataDB extends Dexie {
   testDataset!: EntityTable<TestDatasetEntry, 'id'>;
   validationResults!: EntityTable<ValidationResult, 'testEntryId'>;
   correctionHistory!: EntityTable<CorrectionHistoryEntry, 'id'>;
+  alertHistory!: EntityTable<AlertRecord, 'id'>;
+  eventHistory!: EntityTable<EventRevision, 'id'>;
 
   constructor() {
     super('medata');
@@ -39,6 +44,50 @@ export class MeDataDB extends Dexie {
       // Correction history from user edits
       correctionHistory: 'id, eventId, aiProvider, category, timestamp, [aiProvider+timestamp]'
     });
+
+    // Version 3: Store BSL readings in mmol/L
+    this.version(3)
+      .stores({
+        events: 'id, timestamp, eventType, [eventType+timestamp], createdAt',
+        presets: 'id, name, createdAt',
+        testDataset: 'id, category, source, createdAt',
+        validationResults: 'testEntryId, aiProvider, timestamp, [aiProvider+timestamp]',
+        correctionHistory: 'id, eventId, aiProvider, category, timestamp, [aiProvider+timestamp]'
+      })
+      .upgrade((tx) =>
+        tx
+          .table('events')
+          .where('eventType')
+          .equals('bsl')
+          .modify((event: PhysiologicalEvent) => {
+            const normalised = normaliseBSLEvent(event);
+            event.value = normalised.value;
+            event.metadata = normalised.metadata;
+          })
+      );
+
+    // Version 4: Add predictive alert history
+    this.version(4).stores({
+      events: 'id, timestamp, eventType, [eventType+timestamp], createdAt',
+      presets: 'id, name, createdAt',
+      testDataset: 'id, category, source, createdAt',
+      validationResults: 'testEntryId, aiProvider, timestamp, [aiProvider+timestamp]',
+      correctionHistory: 'id, eventId, aiProvider, category, timestamp, [aiProvider+timestamp]',
+      // Alerts fired (or suppressed) by the alert engine
+      alertHistory: 'id, type, firedAt, [type+firedAt]'
+    });
+
+    // Version 5: Add event audit trail and soft deletes
+    this.version(5).stores({
+      events: 'id, timestamp, eventType, [eventType+timestamp], createdAt, deletedAt',
+      presets: 'id, name, createdAt',
+      testDataset: 'id, category, source, createdAt',
+      validationResults: 'testEntryId, aiProvider, timestamp, [aiProvider+timestamp]',
+      correctionHistory: 'id, eventId, aiProvider, category, timestamp, [aiProvider+timestamp]',
+      alertHistory: 'id, type, firedAt, [type+firedAt]',
+      // Previous versions of edited and deleted events
+      eventHistory: 'id, eventId, changedAt, [eventId+changedAt], [action+changedAt]'
+    });
   }
 }
 
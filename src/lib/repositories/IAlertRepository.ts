@@ -0,0 +1,17 @@
+import type { AlertRecord, AlertType } from '$lib/types';
+
+/**
+ * Repository interface for the predictive alert history
+ */
+export interface IAlertRepository {
+  add(record: Omit<AlertRecord, 'id'>): Promise<AlertRecord>;
+  update(id: string, updates: Partial<Omit<AlertRecord, 'id'>>): Promise<AlertRecord>;
+
+  // Query operations
+  getRecent(limit?: number): Promise<AlertRecord[]>;
+  getLatestByType(type: AlertType): Promise<AlertRecord | null>;
+
+  // Bulk operations
+  deleteOlderThan(date: Date): Promise<number>;
+  clear(): Promise<void>;
+}
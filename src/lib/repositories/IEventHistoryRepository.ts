@@ -0,0 +1,16 @@
+import type { EventRevision, EventRevisionAction } from '$lib/types';
+
+/**
+ * Repository interface for the event audit trail
+ */
+export interface IEventHistoryRepository {
+  add(revision: Omit<EventRevision, 'id'>): Promise<EventRevision>;
+  getById(id: string): Promise<EventRevision | null>;
+
+  // Query operations
+  getByEventId(eventId: string): Promise<EventRevision[]>;
+  getByAction(action: EventRevisionAction): Promise<EventRevision[]>;
+
+  // Bulk operations
+  clear(): Promise<void>;
+}
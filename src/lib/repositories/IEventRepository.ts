@@ -9,8 +9,13 @@ export interface IEventRepository {
   create(event: CreateEventInput): Promise<PhysiologicalEvent>;
   getById(id: string): Promise<PhysiologicalEvent | null>;
   update(id: string, updates: UpdateEventInput): Promise<PhysiologicalEvent>;
+  put(event: PhysiologicalEvent): Promise<void>;
   delete(id: string): Promise<void>;
 
+  // Soft deletes: hidden from queries until purged (getById still returns them)
+  softDelete(id: string): Promise<PhysiologicalEvent>;
+  purgeDeleted(before: Date): Promise<number>;
+
   // Query operations
   getByDateRange(start: Date, end: Date): Promise<PhysiologicalEvent[]>;
   getByType(type: EventType, limit?: number): Promise<PhysiologicalEvent[]>;
@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from 'uuid';
+import Dexie from 'dexie';
+import { getDb } from '$lib/db';
+import type { AlertRecord, AlertType } from '$lib/types';
+import type { IAlertRepository } from './IAlertRepository';
+
+/**
+ * IndexedDB implementation of the alert history repository using Dexie.js
+ */
+export class IndexedDBAlertRepository implements IAlertRepository {
+  private get db() {
+    return getDb();
+  }
+
+  async add(input: Omit<AlertRecord, 'id'>): Promise<AlertRecord> {
+    const record: AlertRecord = { ...input, id: uuidv4() };
+    await this.db.alertHistory.add(record);
+    return record;
+  }
+
+  async update(id: string, updates: Partial<Omit<AlertRecord, 'id'>>): Promise<AlertRecord> {
+    const existing = await this.db.alertHistory.get(id);
+    if (!existing) {
+      throw new Error(`Alert with id ${id} not found`);
+    }
+
+    const updated: AlertRecord = { ...existing, ...updates };
+    await this.db.alertHistory.put(updated);
+    return updated;
+  }
+
+  async getRecent(limit: number = 50): Promise<AlertRecord[]> {
+    return this.db.alertHistory.orderBy('firedAt').reverse().limit(limit).toArray();
+  }
+
+  async getLatestByType(type: AlertType): Promise<AlertRecord | null> {
+    const record = await this.db.alertHistory
+      .where('[type+firedAt]')
+      .between([type, Dexie.minKey], [type, Dexie.maxKey])
+      .last();
+    return record ?? null;
+  }
+
+  async deleteOlderThan(date: Date): Promise<number> {
+    return this.db.alertHistory.where('firedAt').below(date).delete();
+  }
+
+  async clear(): Promise<void> {
+    await this.db.alertHistory.clear();
+  }
+}
@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from 'uuid';
+import Dexie from 'dexie';
+import { getDb } from '$lib/db';
+import type { EventRevision, EventRevisionAction } from '$lib/types';
+import type { IEventHistoryRepository } from './IEventHistoryRepository';
+
+/**
+ * IndexedDB implementation of the event audit trail using Dexie.js
+ */
+export class IndexedDBEventHistoryRepository implements IEventHistoryRepository {
+  private get db() {
+    return getDb();
+  }
+
+  async add(input: Omit<EventRevision, 'id'>): Promise<EventRevision> {
+    const revision: EventRevision = { ...input, id: uuidv4() };
+    await this.db.eventHistory.add(revision);
+    return revision;
+  }
+
+  async getById(id: string): Promise<EventRevision | null> {
+    const revision = await this.db.eventHistory.get(id);
+    return revision ?? null;
+  }
+
+  /**
+   * Revisions of an event, newest first
+   */
+  async getByEventId(eventId: string): Promise<EventRevision[]> {
+    return this.db.eventHistory
+      .where('[eventId+changedAt]')
+      .between([eventId, Dexie.minKey], [eventId, Dexie.maxKey])
+      .reverse()
+      .toArray();
+  }
+
+  /**
+   * Revisions with an action across all events, newest first
+   */
+  async getByAction(action: EventRevisionAction): Promise<EventRevision[]> {
+    return this.db.eventHistory
+      .where('[action+changedAt]')
+      .between([action, Dexie.minKey], [action, Dexie.maxKey])
+      .reverse()
+      .toArray();
+  }
+
+  async clear(): Promise<void> {
+    await this.db.eventHistory.clear();
+  }
+}
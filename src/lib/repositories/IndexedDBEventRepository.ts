@@ -3,6 +3,13 @@ import { getDb } from '$lib/db';
 import type { PhysiologicalEvent, CreateEventInput, UpdateEventInput, EventType } from '$lib/types';
 import type { IEventRepository } from './IEventRepository';
 
+/**
+ * Events that have not been soft-deleted
+ */
+function isLive(event: PhysiologicalEvent): boolean {
+  return !event.deletedAt;
+}
+
 /**
  * IndexedDB implementation of the event repository using Dexie.js
  */
@@ -45,16 +52,39 @@ export class IndexedDBEventRepository implements IEventRepository {
     return updated;
   }
 
+  async put(event: PhysiologicalEvent): Promise<void> {
+    await this.db.events.put(event);
+  }
+
   async delete(id: string): Promise<void> {
     await this.db.events.delete(id);
   }
 
+  async softDelete(id: string): Promise<PhysiologicalEvent> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error(`Event with id ${id} not found`);
+    }
+
+    const deleted: PhysiologicalEvent = { ...existing, deletedAt: new Date() };
+    await this.db.events.put(deleted);
+    return deleted;
+  }
+
+  async purgeDeleted(before: Date): Promise<number> {
+    return this.db.events.where('deletedAt').below(before).delete();
+  }
+
   async getByDateRange(start: Date, end: Date): Promise<PhysiologicalEvent[]> {
-    return this.db.events.where('timestamp').between(start, end, true, true).sortBy('timestamp');
+    return this.db.events
+      .where('timestamp')
+      .between(start, end, true, true)
+      .filter(isLive)
+      .sortBy('timestamp');
   }
 
   async getByType(type: EventType, limit?: number): Promise<PhysiologicalEvent[]> {
-    const query = this.db.events.where('eventType').equals(type).reverse();
+    const query = this.db.events.where('eventType').equals(type).reverse().filter(isLive);
 
     if (limit) {
       return query.limit(limit).sortBy('timestamp');
@@ -64,7 +94,7 @@ export class IndexedDBEventRepository implements IEventRepository {
   }
 
   async getRecent(limit: number): Promise<PhysiologicalEvent[]> {
-    return this.db.events.orderBy('timestamp').reverse().limit(limit).toArray();
+    return this.db.events.orderBy('timestamp').reverse().filter(isLive).limit(limit).toArray();
   }
 
   async bulkCreate(inputs: CreateEventInput[]): Promise<PhysiologicalEvent[]> {
@@ -81,7 +111,7 @@ export class IndexedDBEventRepository implements IEventRepository {
   }
 
   async exportAll(): Promise<PhysiologicalEvent[]> {
-    return this.db.events.toArray();
+    return this.db.events.filter(isLive).toArray();
   }
 
   async importBulk(events: PhysiologicalEvent[]): Promise<void> {
@@ -3,23 +3,31 @@ export type { IEventRepository } from './IEventRepository';
 export type { ISettingsRepository } from './ISettingsRepository';
 export type { IPresetRepository } from './IPresetRepository';
 export type { IValidationRepository } from './IValidationRepository';
+export type { IAlertRepository } from './IAlertRepository';
+export type { IEventHistoryRepository } from './IEventHistoryRepository';
 
 // Implementations
 export { IndexedDBEventRepository } from './IndexedDBEventRepository';
 export { LocalStorageSettingsRepository } from './LocalStorageSettingsRepository';
 export { IndexedDBPresetRepository } from './IndexedDBPresetRepository';
 export { IndexedDBValidationRepository } from './IndexedDBValidationRepository';
+export { IndexedDBAlertRepository } from './IndexedDBAlertRepository';
+export { IndexedDBEventHistoryRepository } from './IndexedDBEventHistoryRepository';
 
 // Factory functions for default implementations
 import { IndexedDBEventRepository } from './IndexedDBEventRepository';
 import { LocalStorageSettingsRepository } from './LocalStorageSettingsRepository';
 import { IndexedDBPresetRepository } from './IndexedDBPresetRepository';
 import { IndexedDBValidationRepository } from './IndexedDBValidationRepository';
+import { IndexedDBAlertRepository } from './IndexedDBAlertRepository';
+import { IndexedDBEventHistoryRepository } from './IndexedDBEventHistoryRepository';
 
 let eventRepository: IndexedDBEventRepository | null = null;
 let settingsRepository: LocalStorageSettingsRepository | null = null;
 let presetRepository: IndexedDBPresetRepository | null = null;
 let validationRepository: IndexedDBValidationRepository | null = null;
+let alertRepository: IndexedDBAlertRepository | null = null;
+let eventHistoryRepository: IndexedDBEventHistoryRepository | null = null;
 
 export function getEventRepository(): IndexedDBEventRepository {
   if (!eventRepository) {
@@ -48,3 +56,17 @@ export function getValidationRepository(): IndexedDBValidationRepository {
   }
   return validationRepository;
 }
+
+export function getAlertRepository(): IndexedDBAlertRepository {
+  if (!alertRepository) {
+    alertRepository = new IndexedDBAlertRepository();
+  }
+  return alertRepository;
+}
+
+export function getEventHistoryRepository(): IndexedDBEventHistoryRepository {
+  if (!eventHistoryRepository) {
+    eventHistoryRepository = new IndexedDBEventHistoryRepository();
+  }
+  return eventHistoryRepository;
+}
@@ -153,6 +153,7 @@ export interface SessionData {
 export interface SessionStatusResponse {
   authenticated: boolean;
   expiresAt: string | null; // ISO timestamp
+  credentialId: string | null; // Credential that signed in, recorded in the event audit trail
 }
 
 /**
@@ -3,39 +3,385 @@ import type {
   CreateEventInput,
   UpdateEventInput,
   EventType,
+  EventMetadataMap,
   InsulinType,
+  InsulinProductId,
+  BolusDelivery,
   BSLUnit,
   BSLDataSource,
   InsulinMetadata,
   BSLMetadata,
   MealMetadata,
   ExerciseMetadata,
-  ExerciseIntensity
+  ExerciseIntensity,
+  TempBasalMode,
+  TempBasalMetadata,
+  ConditionType,
+  ConditionMetadata,
+  CyclePhase,
+  KetoneUnit,
+  KetoneSampleType,
+  KetoneDataSource,
+  KetoneMetadata,
+  UrineKetoneLevel,
+  HbA1cUnit,
+  LabResultMetadata,
+  EventChange,
+  EventChangeListener,
+  EventRevision,
+  EventRevisionAction
 } from '$lib/types';
-import type { IEventRepository } from '$lib/repositories';
+import type { CGMTrendDirection } from '$lib/types/cgm-api';
+import type { IEventHistoryRepository, IEventRepository } from '$lib/repositories';
+import { URINE_KETONE_MMOL, toStoredBSL } from '$lib/utils';
+import { DEFAULT_TREND_WINDOW_MINUTES, calculateBSLTrends, getConditionEndTime } from './modeling';
+import { type EventTypeRegistry, getEventTypeRegistry } from './events';
+
+const TREND_WINDOW_MS = DEFAULT_TREND_WINDOW_MINUTES * 60 * 1000;
+
+/**
+ * How long a deleted event can be brought back with undo
+ * Soft-deleted events are purged once this has passed, on the next delete or
+ * when the app starts. They can still be restored from the audit trail.
+ */
+export const DELETE_UNDO_WINDOW_MS = 15 * 1000;
+
+/**
+ * Fields that differ between two versions of an event
+ * Sync bookkeeping (synced, remoteId) and timestamps of the write itself
+ * are not compared.
+ *
+ * @returns 'value', 'timestamp', 'eventType' and 'metadata.<field>' names
+ */
+function diffEventFields(before: PhysiologicalEvent, after: PhysiologicalEvent): string[] {
+  const changed: string[] = [];
+  if (before.eventType !== after.eventType) changed.push('eventType');
+  if (before.value !== after.value) changed.push('value');
+  if (new Date(before.timestamp).getTime() !== new Date(after.timestamp).getTime()) {
+    changed.push('timestamp');
+  }
+
+  const beforeMetadata = before.metadata ?? {};
+  const afterMetadata = after.metadata ?? {};
+  const fields = new Set([...Object.keys(beforeMetadata), ...Object.keys(afterMetadata)]);
+  for (const field of fields) {
+    if (JSON.stringify(beforeMetadata[field]) !== JSON.stringify(afterMetadata[field])) {
+      changed.push(`metadata.${field}`);
+    }
+  }
+  return changed;
+}
 
 /**
  * Business logic layer for physiological events
  * Framework-agnostic - returns Promises, no Svelte imports
  */
 export class EventService {
-  constructor(private repository: IEventRepository) {}
+  private listeners = new Set<EventChangeListener>();
+
+  private credentialId: string | null = null;
+
+  constructor(
+    private repository: IEventRepository,
+    private registry: EventTypeRegistry = getEventTypeRegistry(),
+    private history: IEventHistoryRepository | null = null
+  ) {}
+
+  /**
+   * Set who is making changes, recorded in the audit trail
+   *
+   * @param credentialId - WebAuthn credential ID of the session, or null when signed out
+   */
+  setCredentialId(credentialId: string | null): void {
+    this.credentialId = credentialId;
+  }
+
+  /**
+   * Subscribe to event writes (create, update, delete)
+   * Used by background services such as remote sync to react to new data.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: EventChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: EventChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (e) {
+        console.warn('Event change listener failed:', e);
+      }
+    }
+  }
+
+  /**
+   * Check an event against its registered type
+   *
+   * @throws Error listing every problem found
+   */
+  private assertValid(eventType: EventType, value: number, metadata: Record<string, unknown>) {
+    const errors = this.registry.validate(eventType, value, metadata);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${eventType} event: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Add an entry to the audit trail, if one is kept
+   */
+  private async recordRevision(
+    eventId: string,
+    action: EventRevisionAction,
+    previous: PhysiologicalEvent | null,
+    changedFields: string[] = []
+  ): Promise<void> {
+    await this.history?.add({
+      eventId,
+      action,
+      previous,
+      changedFields,
+      changedBy: this.credentialId,
+      changedAt: new Date()
+    });
+  }
+
+  /**
+   * Recalculate trends around a BSL reading's old and new times
+   *
+   * @returns The reading with its refreshed trend, if it changed
+   */
+  private async refreshTrendsAround(
+    event: PhysiologicalEvent,
+    previous: PhysiologicalEvent | null
+  ): Promise<PhysiologicalEvent> {
+    if (event.eventType !== 'bsl' && previous?.eventType !== 'bsl') return event;
+    const times = [event.timestamp, previous?.timestamp ?? event.timestamp].map((t) =>
+      new Date(t).getTime()
+    );
+    const refreshed = await this.refreshBSLTrends(
+      new Date(Math.min(...times)),
+      new Date(Math.max(...times))
+    );
+    return refreshed.find((e) => e.id === event.id) ?? event;
+  }
 
   // CRUD operations
   async createEvent(input: CreateEventInput): Promise<PhysiologicalEvent> {
-    return this.repository.create(input);
+    this.assertValid(input.eventType, input.value, input.metadata);
+    const event = await this.repository.create(input);
+    this.notify({ type: 'created', event });
+    return event;
   }
 
   async getEvent(id: string): Promise<PhysiologicalEvent | null> {
-    return this.repository.getById(id);
+    const event = await this.repository.getById(id);
+    return event && !event.deletedAt ? event : null;
   }
 
+  /**
+   * Update an event. Edits mark the event as not synced so they propagate
+   * to any remote copy, unless the caller sets `synced` explicitly.
+   * The previous version is kept in the audit trail.
+   *
+   * @throws Error if the event has been deleted
+   */
   async updateEvent(id: string, updates: UpdateEventInput): Promise<PhysiologicalEvent> {
-    return this.repository.update(id, updates);
+    const existing = await this.repository.getById(id);
+    if (existing?.deletedAt) {
+      throw new Error(`Event with id ${id} has been deleted`);
+    }
+    if (existing && (updates.eventType || updates.value !== undefined || updates.metadata)) {
+      this.assertValid(
+        updates.eventType ?? existing.eventType,
+        updates.value ?? existing.value,
+        updates.metadata ?? existing.metadata
+      );
+    }
+    let event = await this.repository.update(id, { synced: false, ...updates });
+
+    // Writes that only mark sync state are not revisions
+    const changedFields = existing ? diffEventFields(existing, event) : [];
+    if (changedFields.length > 0) {
+      await this.recordRevision(id, 'update', existing, changedFields);
+    }
+
+    // A moved or corrected reading changes its own trend and those after it
+    if (event.eventType === 'bsl' && (updates.value !== undefined || updates.timestamp)) {
+      event = await this.refreshTrendsAround(event, existing);
+    }
+
+    this.notify({ type: 'updated', event });
+    return event;
   }
 
+  /**
+   * Soft-delete an event. It is hidden straight away and can be brought back
+   * with undoDelete for DELETE_UNDO_WINDOW_MS, then is purged.
+   */
   async deleteEvent(id: string): Promise<void> {
-    return this.repository.delete(id);
+    await this.purgeDeletedEvents();
+
+    const existing = await this.repository.getById(id);
+    if (!existing || existing.deletedAt) return;
+
+    await this.repository.softDelete(id);
+    await this.recordRevision(id, 'delete', existing);
+    if (existing.eventType === 'bsl') {
+      const timestamp = new Date(existing.timestamp);
+      await this.refreshBSLTrends(timestamp, timestamp);
+    }
+    this.notify({ type: 'deleted', event: existing });
+  }
+
+  /**
+   * Bring back an event deleted within the undo window
+   * Any remote copy has already been queued for deletion, so the event
+   * returns unsynced and is pushed as a new remote record.
+   *
+   * @throws Error if the event is not deleted or the undo window has passed
+   */
+  async undoDelete(id: string): Promise<PhysiologicalEvent> {
+    const existing = await this.repository.getById(id);
+    if (!existing?.deletedAt) {
+      throw new Error(`Event with id ${id} is not deleted`);
+    }
+    if (Date.now() - new Date(existing.deletedAt).getTime() > DELETE_UNDO_WINDOW_MS) {
+      throw new Error('Too late to undo this delete');
+    }
+
+    const { deletedAt: _deletedAt, remoteId: _remoteId, ...rest } = existing;
+    let event: PhysiologicalEvent = { ...rest, synced: false };
+    await this.repository.put(event);
+    await this.recordRevision(id, 'undelete', existing);
+    event = await this.refreshTrendsAround(event, null);
+
+    this.notify({ type: 'created', event });
+    return event;
+  }
+
+  /**
+   * Put back the version of an event saved in a revision
+   * The current version is kept in the audit trail first. An event that
+   * has since been deleted or purged is brought back.
+   *
+   * @param revisionId - Revision whose previous version to restore
+   * @throws Error if the revision is unknown or has no previous version
+   */
+  async restoreRevision(revisionId: string): Promise<PhysiologicalEvent> {
+    const revision = await this.history?.getById(revisionId);
+    if (!revision) {
+      throw new Error(`Revision with id ${revisionId} not found`);
+    }
+    if (!revision.previous) {
+      throw new Error('This revision has no earlier version to restore');
+    }
+
+    const current = await this.repository.getById(revision.eventId);
+    const isLive = current !== null && !current.deletedAt;
+    const {
+      deletedAt: _deletedAt,
+      remoteId: _remoteId,
+      synced: _synced,
+      ...restored
+    } = revision.previous;
+    this.assertValid(restored.eventType, restored.value, restored.metadata);
+
+    // A live event keeps its remote record, which the restore then updates
+    let event: PhysiologicalEvent = {
+      ...restored,
+      ...(isLive && current.remoteId && { remoteId: current.remoteId }),
+      synced: false,
+      updatedAt: new Date()
+    };
+    await this.repository.put(event);
+    await this.recordRevision(
+      revision.eventId,
+      'restore',
+      current,
+      current ? diffEventFields(current, event) : []
+    );
+    event = await this.refreshTrendsAround(event, isLive ? current : null);
+
+    this.notify({ type: isLive ? 'updated' : 'created', event });
+    return event;
+  }
+
+  /**
+   * Revisions of an event, newest first
+   */
+  async getEventHistory(eventId: string): Promise<EventRevision[]> {
+    return this.history?.getByEventId(eventId) ?? [];
+  }
+
+  /**
+   * Events deleted and not brought back, newest delete first
+   * Each is the event's latest delete revision, holding the event as it was.
+   */
+  async getDeletedEvents(): Promise<EventRevision[]> {
+    const deletes = (await this.history?.getByAction('delete')) ?? [];
+    const seen = new Set<string>();
+    const deleted: EventRevision[] = [];
+    for (const revision of deletes) {
+      if (seen.has(revision.eventId)) continue;
+      seen.add(revision.eventId);
+      const current = await this.repository.getById(revision.eventId);
+      if (!current || current.deletedAt) deleted.push(revision);
+    }
+    return deleted;
+  }
+
+  /**
+   * Permanently remove events deleted longer ago than the undo window
+   * Their revisions stay in the audit trail.
+   *
+   * @returns Number of events removed
+   */
+  async purgeDeletedEvents(): Promise<number> {
+    return this.repository.purgeDeleted(new Date(Date.now() - DELETE_UNDO_WINDOW_MS));
+  }
+
+  /**
+   * Recalculate stored trends for BSL readings between `start` and `end`,
+   * and for readings shortly after whose trend window includes them.
+   * Readings with a trend reported by the CGM are left as they are.
+   *
+   * Trends are derived data, so updates are not reported to subscribers.
+   *
+   * @returns Readings whose trend changed
+   */
+  async refreshBSLTrends(start: Date, end: Date): Promise<PhysiologicalEvent[]> {
+    const affectedEnd = new Date(end.getTime() + TREND_WINDOW_MS);
+    const events = await this.repository.getByDateRange(
+      new Date(start.getTime() - TREND_WINDOW_MS),
+      affectedEnd
+    );
+    const trends = calculateBSLTrends(events);
+
+    const updated: PhysiologicalEvent[] = [];
+    for (const event of events) {
+      if (event.eventType !== 'bsl') continue;
+      const timestamp = new Date(event.timestamp);
+      if (timestamp < start || timestamp > affectedEnd) continue;
+
+      const metadata = event.metadata as BSLMetadata;
+      if (metadata.trendSource === 'device') continue;
+
+      const trend = trends.get(event.id);
+      const trendRate = trend ? Math.round(trend.rate * 1000) / 1000 : undefined;
+      if (metadata.trend === trend?.trend && metadata.trendRate === trendRate) continue;
+
+      const { trend: _trend, trendRate: _trendRate, trendSource: _source, ...rest } = metadata;
+      const nextMetadata: BSLMetadata = trend
+        ? { ...rest, trend: trend.trend, trendRate, trendSource: 'calculated' }
+        : rest;
+      updated.push(await this.repository.update(event.id, { metadata: nextMetadata }));
+    }
+    return updated;
   }
 
   // Query operations
@@ -47,17 +393,56 @@ export class EventService {
     return this.repository.getByType(type, limit);
   }
 
+  /**
+   * Events in a date range, plus sick days and cycle phases logged before it
+   * that are still running at its start. Predictions over a recent window
+   * need these, as a condition logged days ago can still apply.
+   */
+  async getEventsWithActiveConditions(start: Date, end: Date): Promise<PhysiologicalEvent[]> {
+    const [events, conditions] = await Promise.all([
+      this.repository.getByDateRange(start, end),
+      this.repository.getByType('condition')
+    ]);
+    const running = conditions.filter(
+      (e) => new Date(e.timestamp) < start && getConditionEndTime(e) > start
+    );
+    return [...running, ...events];
+  }
+
   async getRecentEvents(limit: number = 20): Promise<PhysiologicalEvent[]> {
     return this.repository.getRecent(limit);
   }
 
+  /**
+   * Log an event of any registered type
+   * Types without a helper below are logged through this.
+   *
+   * @param eventType - Registered event type
+   * @param value - Event value
+   * @param metadata - Metadata for the type
+   * @param timestamp - Event time
+   */
+  async logEvent<T extends EventType>(
+    eventType: T,
+    value: number,
+    metadata: EventMetadataMap[T],
+    timestamp: Date = new Date()
+  ): Promise<PhysiologicalEvent> {
+    return this.createEvent({ timestamp, eventType, value, metadata });
+  }
+
   // Convenience methods for specific event types
   async logInsulin(
     units: number,
     type: InsulinType,
-    timestamp: Date = new Date()
+    timestamp: Date = new Date(),
+    options?: { product?: InsulinProductId; delivery?: BolusDelivery }
   ): Promise<PhysiologicalEvent> {
-    const metadata: InsulinMetadata = { type };
+    const metadata: InsulinMetadata = {
+      type,
+      ...(options?.product && { product: options.product }),
+      ...(options?.delivery && options.delivery.type !== 'normal' && { delivery: options.delivery })
+    };
     return this.createEvent({
       timestamp,
       eventType: 'insulin',
@@ -73,17 +458,19 @@ export class EventService {
     options?: { isFingerPrick?: boolean; device?: string; source?: BSLDataSource }
   ): Promise<PhysiologicalEvent> {
     const metadata: BSLMetadata = {
-      unit,
+      unit: 'mmol/L',
       source: options?.source ?? 'manual',
       ...(options?.isFingerPrick !== undefined && { isFingerPrick: options.isFingerPrick }),
       ...(options?.device && { device: options.device })
     };
-    return this.createEvent({
+    const event = await this.createEvent({
       timestamp,
       eventType: 'bsl',
-      value,
+      value: toStoredBSL(value, unit),
       metadata
     });
+    const refreshed = await this.refreshBSLTrends(event.timestamp, event.timestamp);
+    return refreshed.find((e) => e.id === event.id) ?? event;
   }
 
   async logMeal(
@@ -122,27 +509,168 @@ export class EventService {
     });
   }
 
+  /**
+   * Log a pump temp basal or suspend
+   *
+   * @param mode - Percentage of the scheduled rate, absolute rate or suspend
+   * @param value - Percentage or units per hour (ignored for suspend)
+   * @param durationMinutes - How long it runs, unless replaced by a later temp basal
+   */
+  async logTempBasal(
+    mode: TempBasalMode,
+    value: number,
+    durationMinutes: number,
+    timestamp: Date = new Date()
+  ): Promise<PhysiologicalEvent> {
+    const metadata: TempBasalMetadata = { mode, durationMinutes, source: 'manual' };
+    return this.createEvent({
+      timestamp,
+      eventType: 'temp-basal',
+      value: mode === 'suspend' ? 0 : value,
+      metadata
+    });
+  }
+
+  /**
+   * Log a sick day or menstrual cycle phase
+   *
+   * @param condition - Sick day or menstrual cycle
+   * @param durationHours - How long it applies (a later cycle phase replaces the current one)
+   * @param metadata - Cycle phase, insulin need multiplier for this event, notes
+   */
+  async logCondition(
+    condition: ConditionType,
+    durationHours: number,
+    metadata: { phase?: CyclePhase; sensitivityMultiplier?: number; notes?: string } = {},
+    timestamp: Date = new Date()
+  ): Promise<PhysiologicalEvent> {
+    const fullMetadata: ConditionMetadata = {
+      condition,
+      durationHours,
+      ...(condition === 'menstrual-cycle' && metadata.phase && { phase: metadata.phase }),
+      ...(metadata.sensitivityMultiplier !== undefined && {
+        sensitivityMultiplier: metadata.sensitivityMultiplier
+      }),
+      ...(metadata.notes && { notes: metadata.notes })
+    };
+    return this.createEvent({
+      timestamp,
+      eventType: 'condition',
+      value: durationHours,
+      metadata: fullMetadata
+    });
+  }
+
+  /**
+   * Log a ketone reading
+   * Urine strips are logged by level; the value is set to the level's
+   * approximate blood equivalent in mmol/L.
+   *
+   * @param value - Blood ketone reading (ignored for urine with a level)
+   * @param unit - Blood ketone unit
+   * @param timestamp - Reading time
+   * @param options - Sample type, urine strip level, meter and source
+   */
+  async logKetone(
+    value: number,
+    unit: KetoneUnit = 'mmol/L',
+    timestamp: Date = new Date(),
+    options?: {
+      sampleType?: KetoneSampleType;
+      urineLevel?: UrineKetoneLevel;
+      device?: string;
+      source?: KetoneDataSource;
+    }
+  ): Promise<PhysiologicalEvent> {
+    const sampleType = options?.sampleType ?? 'blood';
+    const urineLevel = sampleType === 'urine' ? options?.urineLevel : undefined;
+    const metadata: KetoneMetadata = {
+      sampleType,
+      unit: urineLevel ? 'mmol/L' : unit,
+      source: options?.source ?? 'manual',
+      ...(urineLevel && { urineLevel }),
+      ...(options?.device && { device: options.device })
+    };
+    return this.createEvent({
+      timestamp,
+      eventType: 'ketone',
+      value: urineLevel ? URINE_KETONE_MMOL[urineLevel] : value,
+      metadata
+    });
+  }
+
+  /**
+   * Log an HbA1c lab result
+   *
+   * @param value - HbA1c in the unit the lab reported
+   * @param unit - Percent or mmol/mol
+   * @param timestamp - Time the sample was taken
+   * @param options - Lab and notes
+   */
+  async logLabResult(
+    value: number,
+    unit: HbA1cUnit = '%',
+    timestamp: Date = new Date(),
+    options?: { lab?: string; notes?: string }
+  ): Promise<PhysiologicalEvent> {
+    const metadata: LabResultMetadata = {
+      test: 'hba1c',
+      unit,
+      ...(options?.lab && { lab: options.lab }),
+      ...(options?.notes && { notes: options.notes })
+    };
+    return this.createEvent({
+      timestamp,
+      eventType: 'lab-result',
+      value,
+      metadata
+    });
+  }
+
   /**
    * Log multiple BSL readings at once (e.g., from image import)
    */
   async bulkLogBSL(
-    readings: Array<{ value: number; unit: BSLUnit; timestamp: Date; source?: BSLDataSource }>
+    readings: Array<{
+      value: number;
+      unit: BSLUnit;
+      timestamp: Date;
+      source?: BSLDataSource;
+      device?: string;
+      trend?: CGMTrendDirection; // Reported by the CGM
+      trendRate?: number; // mmol/L per minute
+    }>
   ): Promise<PhysiologicalEvent[]> {
     const events: PhysiologicalEvent[] = [];
     for (const reading of readings) {
+      const hasDeviceTrend = reading.trend !== undefined && reading.trend !== 'unknown';
       const metadata: BSLMetadata = {
-        unit: reading.unit,
-        source: reading.source || 'cgm-image'
+        unit: 'mmol/L',
+        source: reading.source || 'cgm-image',
+        ...(reading.device && { device: reading.device }),
+        ...(hasDeviceTrend && {
+          trend: reading.trend,
+          trendRate: reading.trendRate,
+          trendSource: 'device' as const
+        })
       };
       const event = await this.createEvent({
         timestamp: reading.timestamp,
         eventType: 'bsl',
-        value: reading.value,
+        value: toStoredBSL(reading.value, reading.unit),
         metadata
       });
       events.push(event);
     }
-    return events;
+
+    if (events.length === 0) return events;
+    const times = events.map((e) => new Date(e.timestamp).getTime());
+    const refreshed = await this.refreshBSLTrends(
+      new Date(times.reduce((a, b) => Math.min(a, b))),
+      new Date(times.reduce((a, b) => Math.max(a, b)))
+    );
+    const refreshedById = new Map(refreshed.map((e) => [e.id, e]));
+    return events.map((e) => refreshedById.get(e.id) ?? e);
   }
 
   // Bulk operations
@@ -155,7 +683,8 @@ export class EventService {
   }
 
   async clearAllEvents(): Promise<void> {
-    return this.repository.clear();
+    await this.repository.clear();
+    await this.history?.clear();
   }
 
   // Utility methods
@@ -4,10 +4,19 @@ import type {
   FoundryConfig,
   AzureConfig,
   BedrockConfig,
-  LocalModelConfig
+  LocalModelConfig,
+  TherapyProfile,
+  UserModelParameters
 } from '$lib/types';
 import type { ISettingsRepository } from '$lib/repositories';
 import { mergeWithEnvSettings } from '$lib/config';
+import {
+  createDefaultTherapyProfile,
+  createTherapyProfileVersion,
+  getTherapyProfileAt,
+  resolveUserModelParameters,
+  validateTherapyProfile
+} from './modeling';
 
 /**
  * Business logic layer for user settings
@@ -27,7 +36,7 @@ export class SettingsService {
    * User-configured values take precedence over env vars.
    */
   async getSettings(): Promise<UserSettings> {
-    const userSettings = await this.repository.get();
+    const userSettings = await this.migrate(await this.repository.get());
     return mergeWithEnvSettings(userSettings);
   }
 
@@ -48,6 +57,55 @@ export class SettingsService {
     return this.repository.clear();
   }
 
+  // Therapy profile management
+
+  /**
+   * Gets the therapy profile version active at a point in time
+   */
+  async getTherapyProfile(atTime: Date = new Date()): Promise<TherapyProfile | undefined> {
+    const settings = await this.getSettings();
+    return getTherapyProfileAt(settings.therapyProfiles, atTime);
+  }
+
+  /**
+   * Gets model parameters (ICR, ISF, target, DIA) for a point in time,
+   * using the profile version and time block active then
+   */
+  async getModelParameters(atTime: Date = new Date()): Promise<UserModelParameters> {
+    const settings = await this.getSettings();
+    return resolveUserModelParameters(settings.therapyProfiles, atTime);
+  }
+
+  /**
+   * Saves a therapy profile as a new version, effective now.
+   * Earlier versions are kept so past predictions can be re-evaluated.
+   */
+  async saveTherapyProfile(
+    profile: Omit<TherapyProfile, 'version' | 'effectiveFrom'>
+  ): Promise<UserSettings> {
+    const errors = validateTherapyProfile(profile);
+    if (errors.length > 0) {
+      throw new Error(`Invalid therapy profile: ${errors.join('; ')}`);
+    }
+
+    const settings = await this.getUserSettings();
+    const profiles = settings.therapyProfiles ?? [];
+    return this.updateSettings({
+      therapyProfiles: [...profiles, createTherapyProfileVersion(profiles, profile)]
+    });
+  }
+
+  /**
+   * Brings stored settings up to date.
+   * Users without a therapy profile get version 1 created from the model defaults.
+   */
+  private async migrate(settings: UserSettings): Promise<UserSettings> {
+    if (settings.therapyProfiles && settings.therapyProfiles.length > 0) {
+      return settings;
+    }
+    return this.repository.update({ therapyProfiles: [createDefaultTherapyProfile()] });
+  }
+
   // API Key management for direct API providers
   async setApiKey(provider: AIProvider, key: string): Promise<UserSettings> {
     const keyMap: Partial<Record<AIProvider, keyof UserSettings>> = {
@@ -0,0 +1,366 @@
+/**
+ * Predictive Alert Engine
+ *
+ * Re-runs the BSL prediction whenever a BSL, insulin, temp basal, meal or
+ * condition (sick day, cycle phase) event is logged or synced, and raises an
+ * alert when the forecast crosses the user's hypo or hyper threshold within
+ * the lookahead window.
+ *
+ * For each alert type the most severe predicted excursion is taken, then:
+ * - Duplicates are dropped: the same type is not raised again within
+ *   `repeatAfterMinutes` unless it escalates to a higher severity
+ * - Snoozed types and quiet hours are recorded but not notified
+ *   (urgent alerts still notify during quiet hours if allowed)
+ * - Every raised alert is persisted to the alert history
+ *
+ * Framework-agnostic: delivery goes through an `AlertNotifier` and state
+ * changes are reported through `onStateChange`, see `alertsStore` for the
+ * reactive wrapper.
+ */
+
+import type { EventService } from '$lib/services/EventService';
+import type { IAlertRepository } from '$lib/repositories';
+import type {
+  AlertEngineState,
+  AlertRecord,
+  AlertSettings,
+  AlertSeverity,
+  AlertSuppressionReason,
+  EventChange,
+  EventType,
+  PhysiologicalEvent,
+  PredictedAlert,
+  UserModelParameters
+} from '$lib/types';
+import {
+  DEFAULT_USER_PARAMETERS,
+  EVENT_LOOKBACK_MS,
+  buildEventWindow,
+  checkForAlerts,
+  generateBSLTimeSeries
+} from '$lib/services/modeling';
+import { getBSLValueMmolL } from '$lib/utils';
+
+const TRIGGER_EVENT_TYPES: EventType[] = ['bsl', 'insulin', 'meal', 'temp-basal', 'condition'];
+
+// Batch CGM syncs and imports that write many readings at once
+const EVALUATE_DEBOUNCE_MS = 2000;
+
+// Without a reading this recent the forecast starts from a guess
+const MAX_READING_AGE_MS = 3 * 60 * 60 * 1000;
+
+const HISTORY_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { warning: 0, alert: 1, urgent: 2 };
+
+/**
+ * Delivers alerts to the user, e.g. as Web Notifications
+ */
+export interface AlertNotifier {
+  /** Whether notifications can currently be shown */
+  canNotify(): boolean;
+  /** Show the alert, resolving to whether it was shown */
+  notify(record: AlertRecord): Promise<boolean>;
+}
+
+export interface AlertEngineOptions {
+  notifier?: AlertNotifier;
+  getParameters?: (atTime: Date) => UserModelParameters;
+  onAlert?: (record: AlertRecord) => void;
+  onStateChange?: (state: AlertEngineState) => void;
+}
+
+/**
+ * Whether a time falls within quiet hours
+ * The window may wrap midnight (start later than end).
+ *
+ * @param time - Time to check (local time)
+ * @param start - Start of quiet hours, 'HH:mm'
+ * @param end - End of quiet hours, 'HH:mm'
+ * @returns True if within quiet hours
+ */
+export function isWithinQuietHours(time: Date, start: string, end: string): boolean {
+  const toMinutes = (value: string) => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const minute = time.getHours() * 60 + time.getMinutes();
+  const startMinute = toMinutes(start);
+  const endMinute = toMinutes(end);
+
+  if (startMinute === endMinute) return false;
+  if (startMinute < endMinute) return minute >= startMinute && minute < endMinute;
+  return minute >= startMinute || minute < endMinute;
+}
+
+/**
+ * Pick the most severe alert of each type, earliest first on ties
+ *
+ * @param alerts - Alerts from checkForAlerts, in time order
+ * @param minSeverity - Ignore alerts below this severity
+ * @returns At most one alert per type
+ */
+export function selectAlerts(
+  alerts: PredictedAlert[],
+  minSeverity: AlertSeverity = 'warning'
+): PredictedAlert[] {
+  const selected = new Map<PredictedAlert['type'], PredictedAlert>();
+
+  for (const alert of alerts) {
+    if (SEVERITY_RANK[alert.severity] < SEVERITY_RANK[minSeverity]) continue;
+    const current = selected.get(alert.type);
+    if (!current || SEVERITY_RANK[alert.severity] > SEVERITY_RANK[current.severity]) {
+      selected.set(alert.type, alert);
+    }
+  }
+
+  return [...selected.values()];
+}
+
+export class AlertEngine {
+  private state: AlertEngineState = {
+    active: false,
+    evaluating: false,
+    lastEvaluatedAt: null,
+    activeAlerts: [],
+    error: null
+  };
+
+  private unsubscribe: (() => void) | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingTriggerId: string | undefined;
+  private running: Promise<AlertRecord[]> | null = null;
+  private rerun = false;
+
+  constructor(
+    private eventService: EventService,
+    private repository: IAlertRepository,
+    private settings: AlertSettings,
+    private options: AlertEngineOptions = {}
+  ) {}
+
+  getState(): AlertEngineState {
+    return { ...this.state };
+  }
+
+  /**
+   * Start listening for new events, beginning with an immediate evaluation
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.eventService.subscribe((change) => this.handleChange(change));
+    this.setState({ active: true });
+
+    this.repository
+      .deleteOlderThan(new Date(Date.now() - HISTORY_RETENTION_MS))
+      .catch((e) => console.warn('Failed to prune alert history:', e));
+    this.evaluateNow().catch((e) => console.warn('Alert evaluation failed:', e));
+  }
+
+  /**
+   * Stop listening. An evaluation already in progress is allowed to finish.
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.setState({ active: false, activeAlerts: [] });
+  }
+
+  /**
+   * Replace the settings used from the next evaluation on
+   */
+  updateSettings(settings: AlertSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Evaluate immediately. Calls during an evaluation queue one more run.
+   *
+   * @param triggerEventId - Event that prompted the evaluation, kept in the history
+   * @returns Alerts recorded by this evaluation
+   */
+  async evaluateNow(triggerEventId?: string): Promise<AlertRecord[]> {
+    if (this.running) {
+      this.rerun = true;
+      this.pendingTriggerId = triggerEventId ?? this.pendingTriggerId;
+      return this.running;
+    }
+
+    this.running = this.run(triggerEventId).finally(() => {
+      this.running = null;
+      if (this.rerun && this.unsubscribe) {
+        this.rerun = false;
+        const nextTrigger = this.pendingTriggerId;
+        this.pendingTriggerId = undefined;
+        this.evaluateNow(nextTrigger).catch((e) => console.warn('Alert evaluation failed:', e));
+      }
+    });
+    return this.running;
+  }
+
+  private handleChange(change: EventChange): void {
+    if (change.type === 'deleted') return;
+    if (!TRIGGER_EVENT_TYPES.includes(change.event.eventType)) return;
+    // Backfilled history (imports, first CGM sync) does not change the forecast
+    if (Date.now() - new Date(change.event.timestamp).getTime() > EVENT_LOOKBACK_MS) return;
+
+    this.pendingTriggerId = change.event.id;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const triggerId = this.pendingTriggerId;
+      this.pendingTriggerId = undefined;
+      this.evaluateNow(triggerId).catch((e) => console.warn('Alert evaluation failed:', e));
+    }, EVALUATE_DEBOUNCE_MS);
+  }
+
+  private async run(triggerEventId?: string): Promise<AlertRecord[]> {
+    this.setState({ evaluating: true });
+
+    try {
+      const now = new Date();
+      const events = await this.eventService.getEventsWithActiveConditions(
+        new Date(now.getTime() - EVENT_LOOKBACK_MS),
+        now
+      );
+
+      const latestReading = events
+        .filter((e) => e.eventType === 'bsl')
+        .reduce<PhysiologicalEvent | null>(
+          (latest, e) =>
+            !latest || new Date(e.timestamp) > new Date(latest.timestamp) ? e : latest,
+          null
+        );
+      if (
+        !latestReading ||
+        now.getTime() - new Date(latestReading.timestamp).getTime() > MAX_READING_AGE_MS
+      ) {
+        this.setState({ evaluating: false, lastEvaluatedAt: now, activeAlerts: [], error: null });
+        return [];
+      }
+
+      const endTime = new Date(now.getTime() + this.settings.lookaheadMinutes * 60 * 1000);
+      const params = this.options.getParameters?.(now) ?? DEFAULT_USER_PARAMETERS;
+      const timeSeries = generateBSLTimeSeries(
+        buildEventWindow(events, now, endTime),
+        now,
+        endTime,
+        params
+      );
+      const alerts = selectAlerts(
+        checkForAlerts(timeSeries, this.settings.hypoThreshold, this.settings.hyperThreshold),
+        this.settings.minSeverity
+      );
+
+      const records: AlertRecord[] = [];
+      for (const alert of alerts) {
+        const record = await this.raise(alert, now, {
+          triggerEventId,
+          currentBSL: getBSLValueMmolL(latestReading)
+        });
+        if (record) records.push(record);
+      }
+
+      this.setState({ evaluating: false, lastEvaluatedAt: now, activeAlerts: alerts, error: null });
+      return records;
+    } catch (e) {
+      this.setState({
+        evaluating: false,
+        error: e instanceof Error ? e.message : 'Alert evaluation failed'
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Record an alert and notify unless it is a duplicate, snoozed or quiet
+   */
+  private async raise(
+    alert: PredictedAlert,
+    now: Date,
+    context: Pick<AlertRecord, 'triggerEventId' | 'currentBSL'>
+  ): Promise<AlertRecord | null> {
+    const suppressedReason = this.getSuppressionReason(alert, now);
+
+    const previous = await this.repository.getLatestByType(alert.type);
+    if (previous && this.isDuplicate(previous, alert, now, suppressedReason)) {
+      return null;
+    }
+
+    let record = await this.repository.add({
+      ...alert,
+      ...context,
+      firedAt: now,
+      notified: false,
+      suppressedReason
+    });
+
+    if (!suppressedReason && this.options.notifier) {
+      const shown = await this.options.notifier.notify(record);
+      record = await this.repository.update(record.id, {
+        notified: shown,
+        suppressedReason: shown ? undefined : 'no-permission'
+      });
+    }
+
+    this.options.onAlert?.(record);
+    return record;
+  }
+
+  private getSuppressionReason(
+    alert: PredictedAlert,
+    now: Date
+  ): AlertSuppressionReason | undefined {
+    const snoozedUntil = this.settings.snoozedUntil?.[alert.type];
+    if (snoozedUntil && new Date(snoozedUntil) > now) return 'snoozed';
+
+    const { quietHours } = this.settings;
+    if (
+      quietHours.enabled &&
+      isWithinQuietHours(now, quietHours.start, quietHours.end) &&
+      !(quietHours.allowUrgent && alert.severity === 'urgent')
+    ) {
+      return 'quiet-hours';
+    }
+
+    if (!this.options.notifier?.canNotify()) return 'no-permission';
+    return undefined;
+  }
+
+  /**
+   * A repeat of the previous alert of this type, within the repeat window,
+   * that has not escalated. A suppressed alert does not hold back one that
+   * can now be notified (e.g. once quiet hours end).
+   */
+  private isDuplicate(
+    previous: AlertRecord,
+    alert: PredictedAlert,
+    now: Date,
+    suppressedReason: AlertSuppressionReason | undefined
+  ): boolean {
+    const withinWindow =
+      now.getTime() - new Date(previous.firedAt).getTime() <
+      this.settings.repeatAfterMinutes * 60 * 1000;
+    const escalated = SEVERITY_RANK[alert.severity] > SEVERITY_RANK[previous.severity];
+    const sameOutcome = previous.notified || previous.suppressedReason === suppressedReason;
+
+    return withinWindow && !escalated && sameOutcome;
+  }
+
+  private setState(updates: Partial<AlertEngineState>): void {
+    this.state = { ...this.state, ...updates };
+    this.options.onStateChange?.(this.getState());
+  }
+}
+
+export function createAlertEngine(
+  eventService: EventService,
+  repository: IAlertRepository,
+  settings: AlertSettings,
+  options?: AlertEngineOptions
+): AlertEngine {
+  return new AlertEngine(eventService, repository, settings, options);
+}
@@ -0,0 +1,127 @@
+/**
+ * Web Notification delivery for predictive alerts
+ *
+ * Shows alerts through the service worker registration so they carry
+ * Snooze/Open actions and appear while the app is in the background.
+ * Falls back to a page notification when no service worker is registered
+ * (e.g. in development).
+ *
+ * Notification clicks are handled in `src/service-worker.ts`, which posts an
+ * `AlertNotificationMessage` back to the open app.
+ */
+
+import type { AlertRecord, AlertType, BSLUnit } from '$lib/types';
+import { fromMmolL } from '$lib/utils';
+import type { AlertNotifier } from './AlertEngine';
+
+/**
+ * Data attached to each alert notification
+ */
+export interface AlertNotificationData {
+  alertId: string;
+  alertType: AlertType;
+}
+
+/**
+ * Message posted by the service worker when an alert notification is clicked
+ */
+export interface AlertNotificationMessage extends AlertNotificationData {
+  type: 'alert-notification';
+  action: 'open' | 'snooze';
+}
+
+export type AlertNotificationPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Current notification permission
+ */
+export function getNotificationPermission(): AlertNotificationPermission {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+/**
+ * Ask the user for notification permission
+ * Must be called from a user gesture in most browsers.
+ */
+export async function requestNotificationPermission(): Promise<AlertNotificationPermission> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+}
+
+/**
+ * Check whether a service worker message is an alert notification click
+ */
+export function isAlertNotificationMessage(data: unknown): data is AlertNotificationMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { type?: unknown }).type === 'alert-notification'
+  );
+}
+
+/**
+ * Title and body text for an alert
+ */
+export function formatAlertNotification(
+  record: AlertRecord,
+  unit: BSLUnit
+): { title: string; body: string } {
+  const minutes = Math.max(
+    0,
+    Math.round(
+      (new Date(record.predictedTime).getTime() - new Date(record.firedAt).getTime()) / 60000
+    )
+  );
+  const level = record.type === 'hypo' ? 'Low' : 'High';
+  const title =
+    record.severity === 'urgent' ? `Urgent: ${level} BSL predicted` : `${level} BSL predicted`;
+  const when = minutes === 0 ? 'now' : `in ${minutes} min`;
+
+  return {
+    title,
+    body: `BSL forecast to reach ${fromMmolL(record.predictedBSL, unit)} ${unit} ${when} (${Math.round(record.probability * 100)}% chance).`
+  };
+}
+
+export class NotificationAlertNotifier implements AlertNotifier {
+  constructor(private getUnit: () => BSLUnit) {}
+
+  canNotify(): boolean {
+    return getNotificationPermission() === 'granted';
+  }
+
+  async notify(record: AlertRecord): Promise<boolean> {
+    if (!this.canNotify()) return false;
+
+    const { title, body } = formatAlertNotification(record, this.getUnit());
+    const data: AlertNotificationData = { alertId: record.id, alertType: record.type };
+    const options: NotificationOptions = {
+      body,
+      data,
+      // One notification per alert type - a newer alert replaces the old one
+      tag: `medata-alert-${record.type}`,
+      icon: '/apple-touch-icon-default.png',
+      requireInteraction: record.severity === 'urgent'
+    };
+
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration();
+      if (registration) {
+        await registration.showNotification(title, {
+          ...options,
+          actions: [
+            { action: 'snooze', title: 'Snooze' },
+            { action: 'open', title: 'Open' }
+          ]
+        } as NotificationOptions);
+      } else {
+        new Notification(title, options);
+      }
+      return true;
+    } catch (e) {
+      console.warn('Failed to show alert notification:', e);
+      return false;
+    }
+  }
+}
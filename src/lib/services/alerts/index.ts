@@ -0,0 +1,25 @@
+/**
+ * Predictive alerts
+ *
+ * Re-runs the BSL forecast as events arrive and notifies the user of
+ * predicted hypos and highs.
+ */
+
+export {
+  AlertEngine,
+  createAlertEngine,
+  isWithinQuietHours,
+  selectAlerts,
+  type AlertEngineOptions,
+  type AlertNotifier
+} from './AlertEngine';
+export {
+  NotificationAlertNotifier,
+  formatAlertNotification,
+  getNotificationPermission,
+  requestNotificationPermission,
+  isAlertNotificationMessage,
+  type AlertNotificationData,
+  type AlertNotificationMessage,
+  type AlertNotificationPermission
+} from './NotificationAlertNotifier';
@@ -14,6 +14,7 @@ import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simp
 export interface LoginVerifyResponse {
   verified: boolean;
   expiresAt: string;
+  credentialId: string;
 }
 
 export interface LogoutResponse {
@@ -8,6 +8,7 @@
 import type { ICGMApiService, CGMApiConfig, CGMApiProvider } from '$lib/types/cgm-api';
 import { LibreLinkApiService } from './LibreLinkApiService';
 import { DexcomShareApiService } from './DexcomShareApiService';
+import { NightscoutApiService } from './NightscoutApiService';
 
 /**
  * Creates the appropriate CGM API service based on provider type
@@ -25,8 +26,9 @@ export function createCGMApiService(config: CGMApiConfig): ICGMApiService | null
       }
       break;
     case 'nightscout':
-      // Nightscout support can be added in future
-      console.warn('Nightscout API not yet implemented');
+      if (config.nightscout?.url) {
+        return new NightscoutApiService(config.nightscout);
+      }
       break;
   }
   return null;
@@ -0,0 +1,233 @@
+/**
+ * CGM Sync Engine
+ * Task 22: Direct CGM API integration - background sync
+ *
+ * Polls the configured CGM API every `syncIntervalMinutes` for readings newer
+ * than the last sync and stores them as BSL events (source: 'api'), keeping
+ * the trend arrow reported by the CGM.
+ *
+ * - Readings already stored (from an earlier sync, CSV or image import) are
+ *   skipped using the import DuplicateDetector.
+ * - Failures back off exponentially, capped at one hour. Auth failures drop
+ *   the session so the next attempt logs in again, and back off for longer
+ *   because they rarely fix themselves within minutes.
+ *
+ * Framework-agnostic: state changes are reported through `onStateChange`,
+ * see `cgmSyncStore` for the reactive wrapper.
+ */
+
+import type { EventService } from '$lib/services/EventService';
+import type {
+  ICGMApiService,
+  CGMSyncState,
+  CGMSyncResult,
+  CGMSyncErrorType
+} from '$lib/types/cgm-api';
+import type { ParsedCSVRow } from '$lib/types/import';
+import { findDuplicates, filterRowsByStrategy } from '$lib/services/import/DuplicateDetector';
+import { toMmolL } from '$lib/utils';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+const INITIAL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Shorter than the CGM reading interval so consecutive readings are never merged
+const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+
+export interface CGMSyncEngineOptions {
+  intervalMinutes?: number;
+  lastSyncTimestamp?: Date | string; // Settings loaded from storage hold dates as strings
+  onSynced?: (result: CGMSyncResult, lastReadingAt: Date | null) => void | Promise<void>;
+  onStateChange?: (state: CGMSyncState) => void;
+}
+
+export class CGMSyncEngine {
+  private state: CGMSyncState;
+  private intervalMs: number;
+  private active = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<CGMSyncResult | null> | null = null;
+
+  constructor(
+    private api: ICGMApiService,
+    private eventService: EventService,
+    private options: CGMSyncEngineOptions = {}
+  ) {
+    this.intervalMs = (options.intervalMinutes || DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+    this.state = {
+      status: 'stopped',
+      lastSyncAt: null,
+      lastReadingAt: options.lastSyncTimestamp ? new Date(options.lastSyncTimestamp) : null,
+      error: null,
+      errorType: null,
+      consecutiveFailures: 0,
+      nextAttemptAt: null
+    };
+  }
+
+  getState(): CGMSyncState {
+    return { ...this.state };
+  }
+
+  /**
+   * Start polling, beginning with an immediate sync
+   */
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.setState({ status: 'idle' });
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling. A sync already in progress is allowed to finish.
+   */
+  stop(): void {
+    this.active = false;
+    this.clearTimer();
+    this.setState({ status: 'stopped', nextAttemptAt: null });
+  }
+
+  /**
+   * Sync immediately, then continue on the normal schedule
+   *
+   * @returns Sync result, or null if the attempt failed (see state.error)
+   */
+  async syncNow(): Promise<CGMSyncResult | null> {
+    if (this.running) return this.running;
+
+    this.clearTimer();
+    this.running = this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async run(): Promise<CGMSyncResult | null> {
+    this.setState({ status: 'syncing', nextAttemptAt: null });
+
+    try {
+      const result = await this.syncOnce();
+      this.setState({
+        status: this.active ? 'idle' : 'stopped',
+        lastSyncAt: result.syncedAt,
+        error: null,
+        errorType: null,
+        consecutiveFailures: 0
+      });
+      if (this.active) this.schedule(this.intervalMs);
+      return result;
+    } catch (e) {
+      const errorType = this.classifyError(e);
+      const consecutiveFailures = this.state.consecutiveFailures + 1;
+
+      if (errorType === 'auth') {
+        await this.api.disconnect();
+      }
+
+      this.setState({
+        status: this.active ? 'backoff' : 'stopped',
+        error: e instanceof Error ? e.message : 'CGM sync failed',
+        errorType,
+        consecutiveFailures
+      });
+      if (this.active) this.schedule(this.getBackoffDelay(errorType, consecutiveFailures));
+      return null;
+    }
+  }
+
+  private async syncOnce(): Promise<CGMSyncResult> {
+    const startDate = this.state.lastReadingAt ?? new Date(Date.now() - INITIAL_LOOKBACK_MS);
+    const fetchResult = await this.api.getReadings({ startDate });
+
+    const rows: ParsedCSVRow[] = fetchResult.readings.map((reading, index) => ({
+      timestamp: reading.timestamp,
+      value: reading.value,
+      unit: reading.unit,
+      device: fetchResult.deviceInfo?.modelName,
+      rawRow: {},
+      lineNumber: index + 1
+    }));
+
+    const duplicates = await findDuplicates(rows, DUPLICATE_WINDOW_MS);
+    const { toImport } = filterRowsByStrategy(rows, duplicates, 'skip');
+
+    await this.eventService.bulkLogBSL(
+      toImport.map((row) => {
+        const reading = fetchResult.readings[row.lineNumber - 1];
+        return {
+          value: row.value,
+          unit: row.unit,
+          timestamp: row.timestamp,
+          source: 'api' as const,
+          device: row.device,
+          trend: reading.trend,
+          trendRate:
+            reading.trendRate !== undefined ? toMmolL(reading.trendRate, reading.unit) : undefined
+        };
+      })
+    );
+
+    const latest = rows.reduce<Date | null>(
+      (max, row) => (!max || row.timestamp > max ? row.timestamp : max),
+      this.state.lastReadingAt
+    );
+    this.setState({ lastReadingAt: latest });
+
+    const result: CGMSyncResult = {
+      fetched: rows.length,
+      imported: toImport.length,
+      duplicates: duplicates.length,
+      syncedAt: new Date()
+    };
+    await this.options.onSynced?.(result, latest);
+    return result;
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.setState({ nextAttemptAt: new Date(Date.now() + delayMs) });
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.syncNow();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Exponential backoff from the sync interval. Auth failures start 4x higher.
+   */
+  private getBackoffDelay(errorType: CGMSyncErrorType, failures: number): number {
+    const exponent = errorType === 'auth' ? failures + 1 : failures - 1;
+    return Math.min(this.intervalMs * 2 ** exponent, MAX_BACKOFF_MS);
+  }
+
+  private classifyError(error: unknown): CGMSyncErrorType {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/auth|login|401|403|unauthori[sz]ed/i.test(message)) return 'auth';
+    // fetch() rejects with a TypeError when the network request itself fails
+    if (error instanceof TypeError || /network|failed to fetch|timed? ?out/i.test(message)) {
+      return 'network';
+    }
+    return 'other';
+  }
+
+  private setState(updates: Partial<CGMSyncState>): void {
+    this.state = { ...this.state, ...updates };
+    this.options.onStateChange?.(this.getState());
+  }
+}
+
+export function createCGMSyncEngine(
+  api: ICGMApiService,
+  eventService: EventService,
+  options?: CGMSyncEngineOptions
+): CGMSyncEngine {
+  return new CGMSyncEngine(api, eventService, options);
+}
@@ -0,0 +1,369 @@
+/**
+ * Nightscout API Service
+ * Task 22: Direct CGM API integration - Nightscout
+ *
+ * Connects to a self-hosted Nightscout site to fetch glucose entries
+ * uploaded by any supported CGM (xDrip+, Loop, AndroidAPS, etc.).
+ *
+ * Supports both authentication schemes offered by the v1 API:
+ * - API secret: sent as a SHA1 hex digest in the `api-secret` header
+ * - Access token: sent as the `token` query parameter
+ *
+ * Treatments (boluses, carbs, exercise) can also be read and written for
+ * two-way sync - see NightscoutTreatmentSync.
+ *
+ * The site URL may point at any host (including http://localhost), so the
+ * service can be exercised against `scripts/mock-nightscout.ts`.
+ */
+
+import type {
+  ICGMApiService,
+  CGMAuthSession,
+  CGMGlucoseReading,
+  CGMFetchResult,
+  CGMConnectionStatus,
+  CGMFetchOptions,
+  NightscoutConfig,
+  NightscoutTreatment
+} from '$lib/types/cgm-api';
+import { nightscoutDirectionToTrend } from '$lib/types/cgm-api';
+import type { BSLUnit } from '$lib/types/events';
+
+/**
+ * Nightscout entry document (sgv/mbg records from /api/v1/entries)
+ */
+interface NightscoutEntry {
+  _id?: string;
+  type?: 'sgv' | 'mbg' | 'cal';
+  sgv?: number; // mg/dL
+  mbg?: number; // mg/dL (meter/finger-prick)
+  date: number; // epoch ms
+  dateString?: string;
+  direction?: string;
+  delta?: number; // mg/dL change since previous reading
+  device?: string;
+}
+
+/**
+ * Nightscout status document (/api/v1/status)
+ */
+interface NightscoutStatusResponse {
+  status: string;
+  name?: string;
+  version?: string;
+  serverTime?: string;
+  settings?: {
+    units?: string;
+    customTitle?: string;
+  };
+}
+
+// Nightscout uploads one reading every 5 minutes
+const READING_INTERVAL_MINUTES = 5;
+
+export class NightscoutApiService implements ICGMApiService {
+  private config: NightscoutConfig;
+  private session: CGMAuthSession | null = null;
+  private baseUrl: string;
+
+  constructor(config: NightscoutConfig) {
+    this.config = config;
+    this.baseUrl = config.url.trim().replace(/\/+$/, '');
+  }
+
+  async authenticate(): Promise<CGMAuthSession> {
+    let token = '';
+    if (this.config.apiSecret) {
+      token = await this.hashApiSecret(this.config.apiSecret);
+    } else if (this.config.token) {
+      token = this.config.token;
+    }
+
+    this.session = {
+      provider: 'nightscout',
+      token
+    };
+
+    // Verify the credentials against the status endpoint
+    try {
+      await this.fetchStatus();
+    } catch (error) {
+      this.session = null;
+      throw error;
+    }
+
+    return this.session;
+  }
+
+  isAuthenticated(): boolean {
+    return this.session !== null;
+  }
+
+  async getCurrentReading(): Promise<CGMGlucoseReading | null> {
+    const result = await this.getReadings({ maxCount: 1 });
+    return result.currentReading || null;
+  }
+
+  async getReadings(options?: CGMFetchOptions): Promise<CGMFetchResult> {
+    if (!this.isAuthenticated()) {
+      await this.authenticate();
+    }
+
+    const params = new URLSearchParams();
+    if (options?.startDate) {
+      params.set('find[date][$gte]', String(options.startDate.getTime()));
+    }
+    if (options?.endDate) {
+      params.set('find[date][$lte]', String(options.endDate.getTime()));
+    }
+    params.set('count', String(this.getRequestCount(options)));
+
+    const response = await this.request(`/api/v1/entries/sgv.json?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Nightscout entries: ${response.status}`);
+    }
+
+    const data: NightscoutEntry[] = await response.json();
+
+    const readings: CGMGlucoseReading[] = data
+      .filter((entry) => typeof entry.sgv === 'number' && entry.sgv > 0)
+      .map((entry) => ({
+        timestamp: new Date(entry.date),
+        value: this.convertToMmol(entry.sgv!),
+        unit: 'mmol/L' as BSLUnit,
+        trend: nightscoutDirectionToTrend(entry.direction),
+        trendRate:
+          typeof entry.delta === 'number'
+            ? Math.round((entry.delta / 18.0182 / READING_INTERVAL_MINUTES) * 1000) / 1000
+            : undefined,
+        source: 'cgm' as const
+      }));
+
+    // Nightscout returns newest first
+    readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const currentReading = readings.length > 0 ? readings[readings.length - 1] : undefined;
+    const latestDevice = data.find((entry) => entry.device)?.device;
+
+    return {
+      provider: 'nightscout',
+      readings,
+      currentReading,
+      deviceInfo: latestDevice ? { modelName: latestDevice } : undefined,
+      fetchedAt: new Date(),
+      nextExpectedReading: currentReading
+        ? new Date(currentReading.timestamp.getTime() + READING_INTERVAL_MINUTES * 60 * 1000)
+        : undefined
+    };
+  }
+
+  async getConnectionStatus(): Promise<CGMConnectionStatus> {
+    try {
+      if (!this.isAuthenticated()) {
+        await this.authenticate();
+      }
+
+      const status = await this.fetchStatus();
+
+      return {
+        provider: 'nightscout',
+        isConnected: true,
+        lastSuccessfulSync: new Date(),
+        patientName: status.settings?.customTitle || status.name
+      };
+    } catch (error) {
+      return {
+        provider: 'nightscout',
+        isConnected: false,
+        error: error instanceof Error ? error.message : 'Connection failed'
+      };
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.authenticate();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.session = null;
+  }
+
+  getProviderName(): string {
+    return 'Nightscout';
+  }
+
+  /**
+   * Fetch treatments created within the given date range
+   */
+  async getTreatments(options?: CGMFetchOptions): Promise<NightscoutTreatment[]> {
+    if (!this.isAuthenticated()) {
+      await this.authenticate();
+    }
+
+    const params = new URLSearchParams();
+    if (options?.startDate) {
+      params.set('find[created_at][$gte]', options.startDate.toISOString());
+    }
+    if (options?.endDate) {
+      params.set('find[created_at][$lte]', options.endDate.toISOString());
+    }
+    params.set('count', String(options?.maxCount ?? 1000));
+
+    const response = await this.request(`/api/v1/treatments.json?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Nightscout treatments: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Create a treatment and return it with its Nightscout _id
+   */
+  async createTreatment(treatment: NightscoutTreatment): Promise<NightscoutTreatment> {
+    if (!this.isAuthenticated()) {
+      await this.authenticate();
+    }
+
+    const response = await this.request('/api/v1/treatments.json', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([treatment])
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create Nightscout treatment: ${response.status}`);
+    }
+
+    const created: NightscoutTreatment[] = await response.json();
+    if (!created[0]?._id) {
+      throw new Error('Nightscout did not return an id for the created treatment');
+    }
+    return created[0];
+  }
+
+  /**
+   * Replace an existing treatment (matched by _id)
+   */
+  async updateTreatment(treatment: NightscoutTreatment): Promise<void> {
+    if (!treatment._id) {
+      throw new Error('Cannot update a Nightscout treatment without an _id');
+    }
+    if (!this.isAuthenticated()) {
+      await this.authenticate();
+    }
+
+    const response = await this.request('/api/v1/treatments.json', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(treatment)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update Nightscout treatment: ${response.status}`);
+    }
+  }
+
+  /**
+   * Delete a treatment by _id. Missing treatments are treated as deleted.
+   */
+  async deleteTreatment(id: string): Promise<void> {
+    if (!this.isAuthenticated()) {
+      await this.authenticate();
+    }
+
+    const response = await this.request(`/api/v1/treatments/${encodeURIComponent(id)}`, {
+      method: 'DELETE'
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete Nightscout treatment: ${response.status}`);
+    }
+  }
+
+  /**
+   * Perform an authenticated request against the Nightscout site
+   */
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...(init.headers as Record<string, string> | undefined)
+    };
+
+    let url = `${this.baseUrl}${path}`;
+    if (this.config.apiSecret && this.session?.token) {
+      headers['api-secret'] = this.session.token;
+    } else if (this.config.token) {
+      url += `${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(this.config.token)}`;
+    }
+
+    return fetch(url, { ...init, headers });
+  }
+
+  private async fetchStatus(): Promise<NightscoutStatusResponse> {
+    const response = await this.request('/api/v1/status.json');
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `Nightscout authentication failed: ${response.status}. Check the API secret or token.`
+      );
+    }
+    if (!response.ok) {
+      throw new Error(`Nightscout status check failed: ${response.status}`);
+    }
+
+    const status: NightscoutStatusResponse = await response.json();
+    if (status.status !== 'ok') {
+      throw new Error(`Nightscout site reported status "${status.status}"`);
+    }
+    return status;
+  }
+
+  /**
+   * Number of entries to request
+   * Nightscout defaults to 10 entries, so date ranges need an explicit count
+   */
+  private getRequestCount(options?: CGMFetchOptions): number {
+    if (options?.maxCount) return options.maxCount;
+    if (options?.startDate) {
+      const end = options.endDate?.getTime() ?? Date.now();
+      const minutes = Math.max(0, (end - options.startDate.getTime()) / 60000);
+      return Math.ceil(minutes / READING_INTERVAL_MINUTES) + 1;
+    }
+    return 288; // Default to 24 hours of readings (5 min intervals)
+  }
+
+  /**
+   * Nightscout expects the SHA1 hex digest of the API secret.
+   * Secrets that are already a 40-character hex digest are passed through.
+   */
+  private async hashApiSecret(secret: string): Promise<string> {
+    if (/^[a-f0-9]{40}$/i.test(secret)) {
+      return secret.toLowerCase();
+    }
+    const data = new TextEncoder().encode(secret);
+    const hashBuffer = await crypto.subtle.digest('SHA-1', data);
+    return Array.from(new Uint8Array(hashBuffer))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Convert mg/dL to mmol/L
+   * Nightscout always stores sgv values in mg/dL regardless of display units
+   */
+  private convertToMmol(mgdl: number): number {
+    return Math.round((mgdl / 18.0182) * 10) / 10;
+  }
+}
+
+export function createNightscoutApiService(config: NightscoutConfig): NightscoutApiService {
+  return new NightscoutApiService(config);
+}
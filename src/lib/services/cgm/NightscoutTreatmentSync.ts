@@ -0,0 +1,604 @@
+/**
+ * Nightscout Treatment Sync
+ *
+ * Two-way sync of insulin, meal and exercise events with Nightscout treatments.
+ *
+ * Mapping:
+ * - Bolus + meal within 15 minutes <-> "Meal Bolus" (insulin + carbs)
+ * - Bolus on its own              <-> "Correction Bolus"
+ * - Meal on its own               <-> "Carb Correction"
+ * - Exercise                      <-> "Exercise" (duration)
+ *
+ * Local events track their remote copy with `remoteId` (the treatment _id)
+ * and `synced`. Any local edit clears `synced`, so the next push writes it
+ * back to Nightscout. Pulls only overwrite events that have no unpushed
+ * local changes, so local edits win conflicts.
+ *
+ * Basal insulin is not synced - Nightscout models basal as profiles and
+ * temp basals rather than discrete treatments.
+ */
+
+import type { EventService } from '$lib/services/EventService';
+import type {
+  EventChange,
+  PhysiologicalEvent,
+  ExerciseIntensity,
+  ExerciseMetadata,
+  MealMetadata
+} from '$lib/types/events';
+import type {
+  NightscoutTreatment,
+  NightscoutTreatmentType,
+  TreatmentSyncResult
+} from '$lib/types/cgm-api';
+import type { NightscoutApiService } from './NightscoutApiService';
+
+const STORAGE_KEY = 'medata_nightscout_sync';
+
+const ENTERED_BY = 'MeData';
+const SYNCED_TREATMENT_TYPES: NightscoutTreatmentType[] = [
+  'Meal Bolus',
+  'Correction Bolus',
+  'Carb Correction',
+  'Exercise'
+];
+
+const MEAL_BOLUS_PAIRING_MS = 15 * 60 * 1000;
+const PUSH_DEBOUNCE_MS = 2000;
+const PUSH_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const PULL_WINDOW_MS = 24 * 60 * 60 * 1000;
+const PULL_OVERLAP_MS = 60 * 60 * 1000;
+const PULL_MAX_COUNT = 1000;
+
+/**
+ * Persisted sync state
+ */
+interface SyncState {
+  lastSyncedAt?: string;
+  pendingDeletes: string[]; // Treatment _ids deleted locally but not yet on Nightscout
+}
+
+export class NightscoutTreatmentSync {
+  private lastSyncedAt: Date | null = null;
+  private pendingDeletes = new Set<string>();
+  private loaded = false;
+
+  private unsubscribe: (() => void) | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<TreatmentSyncResult> | null = null;
+
+  // Local ids being deleted because the treatment was deleted on Nightscout
+  private remoteDeletes = new Set<string>();
+
+  constructor(
+    private eventService: EventService,
+    private api: NightscoutApiService,
+    private intervalMinutes: number = 5
+  ) {}
+
+  /**
+   * Start listening for local changes and syncing periodically
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.eventService.subscribe((change) => this.handleChange(change));
+    this.syncTimer = setInterval(
+      () => {
+        this.sync().catch((e) => console.warn('Nightscout treatment sync failed:', e));
+      },
+      this.intervalMinutes * 60 * 1000
+    );
+
+    this.sync().catch((e) => console.warn('Nightscout treatment sync failed:', e));
+  }
+
+  /**
+   * Stop listening and cancel any scheduled sync
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    if (this.syncTimer) clearInterval(this.syncTimer);
+    this.pushTimer = null;
+    this.syncTimer = null;
+  }
+
+  getLastSyncedAt(): Date | null {
+    this.load();
+    return this.lastSyncedAt;
+  }
+
+  /**
+   * Push local changes, then pull remote changes.
+   * Concurrent calls share the run in progress.
+   */
+  async sync(): Promise<TreatmentSyncResult> {
+    if (this.running) return this.running;
+
+    this.running = this.runSync().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async runSync(): Promise<TreatmentSyncResult> {
+    this.load();
+
+    const result: TreatmentSyncResult = {
+      pushed: 0,
+      pulled: 0,
+      updated: 0,
+      deleted: 0,
+      errors: [],
+      syncedAt: new Date()
+    };
+
+    await this.push(result);
+    await this.pull(result);
+
+    if (result.errors.length === 0) {
+      this.lastSyncedAt = result.syncedAt;
+    }
+    this.save();
+
+    return result;
+  }
+
+  /**
+   * React to local event writes
+   */
+  private handleChange(change: EventChange): void {
+    const { event } = change;
+    if (!this.isTreatmentEvent(event)) return;
+
+    if (change.type === 'deleted') {
+      if (this.remoteDeletes.has(event.id) || !event.remoteId) return;
+      this.handleLocalDelete(event).catch((e) =>
+        console.warn('Failed to queue Nightscout treatment delete:', e)
+      );
+      return;
+    }
+
+    // Writes made by the sync itself are marked as synced
+    if (event.synced === true) return;
+    this.schedulePush();
+  }
+
+  /**
+   * A deleted event may share its treatment with another event (Meal Bolus).
+   * If so the remaining event is re-pushed, otherwise the treatment is deleted.
+   */
+  private async handleLocalDelete(event: PhysiologicalEvent): Promise<void> {
+    const siblings = (await this.getEventsAround(event.timestamp)).filter(
+      (e) => e.id !== event.id && e.remoteId === event.remoteId
+    );
+
+    if (siblings.length > 0) {
+      for (const sibling of siblings) {
+        await this.eventService.updateEvent(sibling.id, { synced: false });
+      }
+    } else {
+      this.load();
+      this.pendingDeletes.add(event.remoteId!);
+      this.save();
+      this.schedulePush();
+    }
+  }
+
+  private schedulePush(): void {
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.sync().catch((e) => console.warn('Nightscout treatment sync failed:', e));
+    }, PUSH_DEBOUNCE_MS);
+  }
+
+  // ==================== Push ====================
+
+  private async push(result: TreatmentSyncResult): Promise<void> {
+    for (const id of [...this.pendingDeletes]) {
+      try {
+        await this.api.deleteTreatment(id);
+        this.pendingDeletes.delete(id);
+        result.deleted++;
+      } catch (e) {
+        result.errors.push(this.errorMessage('delete', e));
+      }
+    }
+
+    const now = new Date();
+    const candidates = (
+      await this.eventService.getEventsByDateRange(new Date(now.getTime() - PUSH_LOOKBACK_MS), now)
+    ).filter((e) => this.isTreatmentEvent(e));
+
+    const handled = new Set<string>();
+
+    for (const event of candidates) {
+      if (event.synced === true || handled.has(event.id)) continue;
+
+      const group = this.groupForPush(event, candidates, handled);
+      group.forEach((e) => handled.add(e.id));
+
+      try {
+        const treatment = this.toTreatment(group);
+        let remoteId = event.remoteId;
+
+        if (remoteId) {
+          await this.api.updateTreatment({ ...treatment, _id: remoteId });
+        } else {
+          remoteId = (await this.api.createTreatment(treatment))._id!;
+        }
+
+        for (const e of group) {
+          await this.eventService.updateEvent(e.id, { synced: true, remoteId });
+        }
+        result.pushed++;
+      } catch (e) {
+        result.errors.push(this.errorMessage('push', e));
+      }
+    }
+  }
+
+  /**
+   * Events that make up one treatment: everything sharing the remote id,
+   * or a new bolus paired with a new meal logged close to it
+   */
+  private groupForPush(
+    event: PhysiologicalEvent,
+    candidates: PhysiologicalEvent[],
+    handled: Set<string>
+  ): PhysiologicalEvent[] {
+    if (event.remoteId) {
+      return candidates.filter((e) => e.remoteId === event.remoteId);
+    }
+    if (event.eventType === 'exercise') {
+      return [event];
+    }
+
+    const partnerType = event.eventType === 'insulin' ? 'meal' : 'insulin';
+    const partner = candidates
+      .filter(
+        (e) =>
+          e.eventType === partnerType &&
+          !e.remoteId &&
+          !handled.has(e.id) &&
+          Math.abs(e.timestamp.getTime() - event.timestamp.getTime()) <= MEAL_BOLUS_PAIRING_MS
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(a.timestamp.getTime() - event.timestamp.getTime()) -
+          Math.abs(b.timestamp.getTime() - event.timestamp.getTime())
+      )[0];
+
+    return partner ? [event, partner] : [event];
+  }
+
+  private toTreatment(group: PhysiologicalEvent[]): NightscoutTreatment {
+    const insulin = group.find((e) => e.eventType === 'insulin');
+    const meal = group.find((e) => e.eventType === 'meal');
+    const exercise = group.find((e) => e.eventType === 'exercise');
+
+    // The earliest event anchors the treatment so pulls can shift the group as a whole
+    const createdAt = new Date(Math.min(...group.map((e) => e.timestamp.getTime())));
+    const base = { created_at: createdAt.toISOString(), enteredBy: ENTERED_BY };
+
+    if (exercise) {
+      const metadata = exercise.metadata as ExerciseMetadata;
+      const notes = [metadata.exerciseType ?? metadata.category, `${metadata.intensity} intensity`]
+        .filter(Boolean)
+        .join(', ');
+      return {
+        ...base,
+        eventType: 'Exercise',
+        duration: metadata.durationMinutes ?? exercise.value,
+        notes
+      };
+    }
+
+    const mealFields = meal ? this.mealFields(meal) : {};
+
+    if (insulin && meal) {
+      return { ...base, eventType: 'Meal Bolus', insulin: insulin.value, ...mealFields };
+    }
+    if (insulin) {
+      return { ...base, eventType: 'Correction Bolus', insulin: insulin.value };
+    }
+    return { ...base, eventType: 'Carb Correction', ...mealFields };
+  }
+
+  private mealFields(meal: PhysiologicalEvent): Partial<NightscoutTreatment> {
+    const metadata = meal.metadata as MealMetadata;
+    return {
+      carbs: meal.value,
+      ...(metadata.protein !== undefined && { protein: metadata.protein }),
+      ...(metadata.fat !== undefined && { fat: metadata.fat }),
+      ...(metadata.description && { notes: metadata.description })
+    };
+  }
+
+  // ==================== Pull ====================
+
+  private async pull(result: TreatmentSyncResult): Promise<void> {
+    const now = new Date();
+    let start = new Date(now.getTime() - PULL_WINDOW_MS);
+    if (this.lastSyncedAt && this.lastSyncedAt.getTime() - PULL_OVERLAP_MS < start.getTime()) {
+      start = new Date(this.lastSyncedAt.getTime() - PULL_OVERLAP_MS);
+    }
+
+    let treatments: NightscoutTreatment[];
+    try {
+      treatments = await this.api.getTreatments({
+        startDate: start,
+        endDate: now,
+        maxCount: PULL_MAX_COUNT
+      });
+    } catch (e) {
+      result.errors.push(this.errorMessage('pull', e));
+      return;
+    }
+
+    const local = await this.eventService.getEventsByDateRange(
+      new Date(start.getTime() - MEAL_BOLUS_PAIRING_MS),
+      now
+    );
+    const byRemoteId = new Map<string, PhysiologicalEvent[]>();
+    for (const event of local) {
+      if (!event.remoteId || !this.isTreatmentEvent(event)) continue;
+      const group = byRemoteId.get(event.remoteId) ?? [];
+      group.push(event);
+      byRemoteId.set(event.remoteId, group);
+    }
+
+    const seen = new Set<string>();
+
+    for (const treatment of treatments) {
+      if (!treatment._id) continue;
+      seen.add(treatment._id);
+
+      if (!SYNCED_TREATMENT_TYPES.includes(treatment.eventType as NightscoutTreatmentType)) {
+        continue;
+      }
+      if (this.pendingDeletes.has(treatment._id)) continue;
+
+      try {
+        const existing = byRemoteId.get(treatment._id);
+        if (!existing) {
+          await this.createFromTreatment(treatment);
+          result.pulled++;
+        } else if (existing.every((e) => e.synced === true)) {
+          result.updated += await this.applyTreatment(treatment, existing);
+        }
+      } catch (e) {
+        result.errors.push(this.errorMessage('pull', e));
+      }
+    }
+
+    // A full (non-truncated) page lets us detect treatments deleted on Nightscout
+    if (treatments.length >= PULL_MAX_COUNT) return;
+
+    for (const [remoteId, group] of byRemoteId) {
+      if (seen.has(remoteId) || this.pendingDeletes.has(remoteId)) continue;
+      if (group.some((e) => e.synced !== true || e.timestamp < start)) continue;
+
+      for (const event of group) {
+        try {
+          this.remoteDeletes.add(event.id);
+          await this.eventService.deleteEvent(event.id);
+          result.deleted++;
+        } catch (e) {
+          result.errors.push(this.errorMessage('delete', e));
+        } finally {
+          this.remoteDeletes.delete(event.id);
+        }
+      }
+    }
+  }
+
+  private async createFromTreatment(treatment: NightscoutTreatment): Promise<void> {
+    const timestamp = new Date(treatment.created_at);
+    const remote = { synced: true, remoteId: treatment._id };
+
+    if (treatment.eventType === 'Exercise') {
+      const duration = treatment.duration ?? 0;
+      const metadata: ExerciseMetadata = {
+        intensity: this.parseIntensity(treatment.notes),
+        durationMinutes: duration,
+        source: 'nightscout'
+      };
+      await this.eventService.createEvent({
+        timestamp,
+        eventType: 'exercise',
+        value: duration,
+        metadata,
+        ...remote
+      });
+      return;
+    }
+
+    if (treatment.insulin && treatment.insulin > 0) {
+      await this.eventService.createEvent({
+        timestamp,
+        eventType: 'insulin',
+        value: treatment.insulin,
+        metadata: { type: 'bolus', source: 'nightscout' },
+        ...remote
+      });
+    }
+
+    if (treatment.carbs && treatment.carbs > 0) {
+      await this.eventService.createEvent({
+        timestamp,
+        eventType: 'meal',
+        value: treatment.carbs,
+        metadata: this.mealMetadataFrom(treatment, {}),
+        ...remote
+      });
+    }
+  }
+
+  /**
+   * Bring local events in line with an edited treatment
+   *
+   * @returns Number of local events changed
+   */
+  private async applyTreatment(
+    treatment: NightscoutTreatment,
+    group: PhysiologicalEvent[]
+  ): Promise<number> {
+    let changed = 0;
+    const remote = { synced: true, remoteId: treatment._id };
+
+    // Shift the whole group so its earliest event matches created_at
+    const anchor = Math.min(...group.map((e) => e.timestamp.getTime()));
+    const shift = new Date(treatment.created_at).getTime() - anchor;
+    const shifted = (e: PhysiologicalEvent) => new Date(e.timestamp.getTime() + shift);
+
+    const apply = async (event: PhysiologicalEvent, value: number, metadata = event.metadata) => {
+      if (shift === 0 && value === event.value && metadata === event.metadata) return;
+      await this.eventService.updateEvent(event.id, {
+        timestamp: shifted(event),
+        value,
+        metadata,
+        synced: true
+      });
+      changed++;
+    };
+
+    const exercise = group.find((e) => e.eventType === 'exercise');
+    if (exercise) {
+      const duration = treatment.duration ?? exercise.value;
+      const metadata =
+        duration === exercise.value
+          ? exercise.metadata
+          : { ...exercise.metadata, durationMinutes: duration };
+      await apply(exercise, duration, metadata);
+      return changed;
+    }
+
+    const timestamp = new Date(treatment.created_at);
+    const pairs: Array<['insulin' | 'meal', number | undefined]> = [
+      ['insulin', treatment.insulin],
+      ['meal', treatment.carbs]
+    ];
+
+    for (const [eventType, amount] of pairs) {
+      const event = group.find((e) => e.eventType === eventType);
+
+      if (event && amount && amount > 0) {
+        const metadata =
+          eventType === 'meal' && amount !== event.value
+            ? this.mealMetadataFrom(treatment, event.metadata)
+            : event.metadata;
+        await apply(event, amount, metadata);
+      } else if (event) {
+        // Amount removed on Nightscout
+        this.remoteDeletes.add(event.id);
+        try {
+          await this.eventService.deleteEvent(event.id);
+        } finally {
+          this.remoteDeletes.delete(event.id);
+        }
+        changed++;
+      } else if (amount && amount > 0) {
+        await this.eventService.createEvent({
+          timestamp,
+          eventType,
+          value: amount,
+          metadata:
+            eventType === 'insulin'
+              ? { type: 'bolus', source: 'nightscout' }
+              : this.mealMetadataFrom(treatment, {}),
+          ...remote
+        });
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  private mealMetadataFrom(
+    treatment: NightscoutTreatment,
+    existing: Record<string, unknown>
+  ): MealMetadata {
+    return {
+      source: 'nightscout',
+      ...existing,
+      carbs: treatment.carbs,
+      ...(treatment.protein !== undefined && { protein: treatment.protein }),
+      ...(treatment.fat !== undefined && { fat: treatment.fat }),
+      ...(treatment.notes && !existing.description && { description: treatment.notes })
+    };
+  }
+
+  private parseIntensity(notes: string | undefined): ExerciseIntensity {
+    const match = notes?.toLowerCase().match(/\b(low|moderate|high)\b/);
+    return (match?.[1] as ExerciseIntensity) ?? 'moderate';
+  }
+
+  // ==================== Helpers ====================
+
+  private isTreatmentEvent(event: PhysiologicalEvent): boolean {
+    if (event.eventType === 'insulin') return event.metadata.type === 'bolus';
+    return event.eventType === 'meal' || event.eventType === 'exercise';
+  }
+
+  private async getEventsAround(timestamp: Date): Promise<PhysiologicalEvent[]> {
+    const time = new Date(timestamp).getTime();
+    return this.eventService.getEventsByDateRange(
+      new Date(time - MEAL_BOLUS_PAIRING_MS),
+      new Date(time + MEAL_BOLUS_PAIRING_MS)
+    );
+  }
+
+  private errorMessage(action: string, error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    return `Nightscout ${action} failed: ${message}`;
+  }
+
+  /**
+   * Load sync state from localStorage
+   */
+  private load(): void {
+    if (this.loaded) return;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const state = JSON.parse(stored) as SyncState;
+        this.lastSyncedAt = state.lastSyncedAt ? new Date(state.lastSyncedAt) : null;
+        this.pendingDeletes = new Set(state.pendingDeletes ?? []);
+      }
+    } catch (e) {
+      console.warn('Failed to load Nightscout sync state:', e);
+    }
+
+    this.loaded = true;
+  }
+
+  /**
+   * Save sync state to localStorage
+   */
+  private save(): void {
+    try {
+      const state: SyncState = {
+        lastSyncedAt: this.lastSyncedAt?.toISOString(),
+        pendingDeletes: [...this.pendingDeletes]
+      };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (e) {
+      console.warn('Failed to save Nightscout sync state:', e);
+    }
+  }
+}
+
+export function createNightscoutTreatmentSync(
+  eventService: EventService,
+  api: NightscoutApiService,
+  intervalMinutes?: number
+): NightscoutTreatmentSync {
+  return new NightscoutTreatmentSync(eventService, api, intervalMinutes);
+}
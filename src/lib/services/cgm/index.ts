@@ -7,7 +7,7 @@
  * Extraction methods:
  * - ML-assisted: Uses cloud vision APIs (OpenAI, Claude, Gemini, Ollama, Foundry)
  * - Local CV: Uses browser-based computer vision (no API required)
- * - Direct API: Connects to CGM cloud services (LibreLink, Dexcom Share)
+ * - Direct API: Connects to CGM cloud services (LibreLink, Dexcom Share, Nightscout)
  *
  * Device-specific parsers:
  * - LibreGraphParser: Optimised for Freestyle Libre screenshots
@@ -31,6 +31,9 @@ export { DexcomGraphParser, createDexcomGraphParser } from './DexcomGraphParser'
 // Direct CGM API Services (Task 22)
 export { LibreLinkApiService, createLibreLinkApiService } from './LibreLinkApiService';
 export { DexcomShareApiService, createDexcomShareApiService } from './DexcomShareApiService';
+export { NightscoutApiService, createNightscoutApiService } from './NightscoutApiService';
+export { NightscoutTreatmentSync, createNightscoutTreatmentSync } from './NightscoutTreatmentSync';
+export { CGMSyncEngine, createCGMSyncEngine, type CGMSyncEngineOptions } from './CGMSyncEngine';
 export {
   createCGMApiService,
   isCGMApiConfigured,
@@ -0,0 +1,392 @@
+/**
+ * Built-in event type definitions
+ *
+ * Registered in this order, which is also the order of the /history filters.
+ * Schemas describe what the app writes. Fields filled by sync and import
+ * (sources, devices) are checked for kind only.
+ */
+
+import { TREND_ARROWS } from '$lib/types';
+import type {
+  AlcoholType,
+  BSLMetadata,
+  ConditionMetadata,
+  CyclePhase,
+  EventExportColumn,
+  EventType,
+  EventTypeDefinition,
+  EventTypeIcon,
+  ExerciseMetadata,
+  InsulinMetadata,
+  KetoneMetadata,
+  LabResultMetadata,
+  MealMetadata,
+  TempBasalMetadata
+} from '$lib/types';
+
+const INSULIN_TYPES = ['bolus', 'basal'];
+const BSL_UNITS = ['mmol/L', 'mg/dL'];
+const EXERCISE_INTENSITIES = ['low', 'moderate', 'high'];
+const TEMP_BASAL_MODES = ['percent', 'absolute', 'suspend'];
+const CONDITION_TYPES = ['sick-day', 'menstrual-cycle'];
+const KETONE_SAMPLE_TYPES = ['blood', 'urine'];
+const KETONE_UNITS = ['mmol/L', 'mg/dL'];
+const URINE_KETONE_LEVELS = ['negative', 'trace', 'small', 'moderate', 'large'];
+const LAB_TESTS = ['hba1c'];
+const HBA1C_UNITS = ['%', 'mmol/mol'];
+
+// Plausible HbA1c results, about 3-20%
+const HBA1C_RANGES = {
+  '%': { min: 3, max: 20 },
+  'mmol/mol': { min: 9, max: 195 }
+};
+
+const CYCLE_PHASE_LABELS: Record<CyclePhase, string> = {
+  menstrual: 'Menstrual',
+  follicular: 'Follicular',
+  ovulatory: 'Ovulatory',
+  luteal: 'Luteal'
+};
+
+const ALCOHOL_TYPE_LABELS: Record<AlcoholType, string> = {
+  beer: 'Beer',
+  wine: 'Wine',
+  spirit: 'Spirit',
+  mixed: 'Cocktail'
+};
+
+/**
+ * Alcohol type label, e.g. 'Cocktail' for mixed drinks
+ *
+ * @param type - Alcohol type
+ * @returns Display label, or an empty string without a type
+ */
+export function formatAlcoholType(type?: AlcoholType): string {
+  if (!type) return '';
+  return ALCOHOL_TYPE_LABELS[type] || type;
+}
+
+function formatConditionDuration(hours: number): string {
+  if (hours < 24) return `${hours} h`;
+  return hours % 24 === 0 ? `${hours / 24} d` : `${Math.floor(hours / 24)} d ${hours % 24} h`;
+}
+
+/**
+ * CSV column read straight from a metadata field
+ */
+function metadataColumn(header: string, field: string = header): EventExportColumn {
+  return {
+    header,
+    value: (event) => event.metadata?.[field] as ReturnType<EventExportColumn['value']>
+  };
+}
+
+const insulin: EventTypeDefinition<'insulin'> = {
+  type: 'insulin',
+  label: 'Insulin',
+  filterLabel: 'Insulin',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    type: { kind: 'string', required: true, values: INSULIN_TYPES },
+    product: { kind: 'string' },
+    source: { kind: 'string' },
+    delivery: { kind: 'object' }
+  },
+  format(event) {
+    const metadata = event.metadata as Partial<InsulinMetadata>;
+    const label = `${event.value} units ${metadata.type || ''}`;
+    const delivery = metadata.delivery;
+    if (delivery?.type === 'extended') {
+      return `${label} extended over ${delivery.durationMinutes} min`;
+    }
+    if (delivery?.type === 'dual-wave') {
+      return `${label} dual wave ${delivery.immediatePercent ?? 50}% now, rest over ${delivery.durationMinutes} min`;
+    }
+    return label;
+  },
+  icon: {
+    path: 'M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z',
+    className: 'bg-blue-500/20 text-blue-400'
+  },
+  exportColumns: [metadataColumn('source'), metadataColumn('insulinType', 'type')]
+};
+
+const ALCOHOL_ICON: EventTypeIcon = {
+  path: 'M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z',
+  className: 'bg-amber-500/20 text-amber-400'
+};
+
+const meal: EventTypeDefinition<'meal'> = {
+  type: 'meal',
+  label: 'Meal',
+  filterLabel: 'Meals',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    calories: { kind: 'number', min: 0 },
+    carbs: { kind: 'number', min: 0 },
+    protein: { kind: 'number', min: 0 },
+    fat: { kind: 'number', min: 0 },
+    alcohol: { kind: 'number', min: 0 },
+    description: { kind: 'string' },
+    photoUrl: { kind: 'string' },
+    items: { kind: 'array' },
+    alcoholUnits: { kind: 'number', min: 0 },
+    alcoholType: { kind: 'string', values: Object.keys(ALCOHOL_TYPE_LABELS) },
+    source: { kind: 'string' },
+    confidence: { kind: 'number', min: 0, max: 1 },
+    corrections: { kind: 'array' },
+    tags: { kind: 'array' }
+  },
+  format(event) {
+    const alcoholUnits = (event.metadata as Partial<MealMetadata>).alcoholUnits ?? 0;
+    if (alcoholUnits > 0 && event.value === 0) {
+      // Alcohol-only entry
+      return `${alcoholUnits} units alcohol`;
+    } else if (alcoholUnits > 0) {
+      // Mixed entry
+      return `${event.value}g carbs + ${alcoholUnits}u`;
+    }
+    return `${event.value}g carbs`;
+  },
+  describe: (event) => (event.metadata as Partial<MealMetadata>).description || undefined,
+  icon: {
+    path: 'M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253',
+    className: 'bg-green-500/20 text-green-400'
+  },
+  iconFor(event) {
+    return ((event.metadata as Partial<MealMetadata>).alcoholUnits ?? 0) > 0
+      ? ALCOHOL_ICON
+      : this.icon;
+  },
+  exportColumns: [
+    metadataColumn('source'),
+    metadataColumn('carbs'),
+    metadataColumn('protein'),
+    metadataColumn('fat'),
+    metadataColumn('calories'),
+    metadataColumn('description')
+  ]
+};
+
+const bsl: EventTypeDefinition<'bsl'> = {
+  type: 'bsl',
+  label: 'Blood sugar',
+  filterLabel: 'BSL',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    unit: { kind: 'string', required: true, values: BSL_UNITS },
+    source: { kind: 'string' },
+    device: { kind: 'string' },
+    isFingerPrick: { kind: 'boolean' },
+    trend: { kind: 'string', values: Object.keys(TREND_ARROWS) },
+    trendRate: { kind: 'number' },
+    trendSource: { kind: 'string', values: ['device', 'calculated'] }
+  },
+  format(event) {
+    const metadata = event.metadata as BSLMetadata;
+    const arrow = metadata.trend ? ` ${TREND_ARROWS[metadata.trend]}` : '';
+    return `${event.value} ${metadata.unit || 'mmol/L'}${arrow}`;
+  },
+  icon: {
+    path: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z',
+    className: 'bg-yellow-500/20 text-yellow-400'
+  },
+  exportColumns: [
+    metadataColumn('unit'),
+    metadataColumn('source'),
+    metadataColumn('device'),
+    metadataColumn('isFingerPrick')
+  ]
+};
+
+const ketone: EventTypeDefinition<'ketone'> = {
+  type: 'ketone',
+  label: 'Ketones',
+  filterLabel: 'Ketones',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    sampleType: { kind: 'string', required: true, values: KETONE_SAMPLE_TYPES },
+    unit: { kind: 'string', required: true, values: KETONE_UNITS },
+    urineLevel: { kind: 'string', values: URINE_KETONE_LEVELS },
+    source: { kind: 'string' },
+    device: { kind: 'string' }
+  },
+  validate(_value, metadata) {
+    return metadata.urineLevel && metadata.sampleType !== 'urine'
+      ? ['urineLevel is only for urine samples']
+      : [];
+  },
+  format(event) {
+    const metadata = event.metadata as Partial<KetoneMetadata>;
+    if (metadata.sampleType === 'urine' && metadata.urineLevel) {
+      return `Urine ketones ${metadata.urineLevel}`;
+    }
+    return `${event.value} ${metadata.unit || 'mmol/L'} blood ketones`;
+  },
+  icon: {
+    path: 'M12 3c-3.5 4.5-6 8-6 11a6 6 0 0012 0c0-3-2.5-6.5-6-11z',
+    className: 'bg-rose-500/20 text-rose-400'
+  },
+  exportColumns: [
+    metadataColumn('unit'),
+    metadataColumn('source'),
+    metadataColumn('device'),
+    metadataColumn('sampleType'),
+    metadataColumn('urineLevel')
+  ]
+};
+
+const exercise: EventTypeDefinition<'exercise'> = {
+  type: 'exercise',
+  label: 'Exercise',
+  filterLabel: 'Exercise',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    intensity: { kind: 'string', required: true, values: EXERCISE_INTENSITIES },
+    exerciseType: { kind: 'string' },
+    category: { kind: 'string' },
+    durationMinutes: { kind: 'number', min: 0 },
+    caloriesBurned: { kind: 'number', min: 0 },
+    heartRateAvg: { kind: 'number', min: 0 },
+    heartRateMax: { kind: 'number', min: 0 },
+    distanceKm: { kind: 'number', min: 0 },
+    steps: { kind: 'number', min: 0 },
+    source: { kind: 'string' },
+    deviceName: { kind: 'string' },
+    externalId: { kind: 'string' }
+  },
+  format: (event) => `${event.value} min`,
+  describe: (event) => (event.metadata as Partial<ExerciseMetadata>).exerciseType || undefined,
+  icon: {
+    path: 'M13 10V3L4 14h7v7l9-11h-7z',
+    className: 'bg-purple-500/20 text-purple-400'
+  },
+  exportColumns: [
+    metadataColumn('source'),
+    metadataColumn('intensity'),
+    metadataColumn('exerciseType'),
+    metadataColumn('durationMinutes')
+  ]
+};
+
+const tempBasal: EventTypeDefinition<'temp-basal'> = {
+  type: 'temp-basal',
+  label: 'Temp basal',
+  filterLabel: 'Temp basal',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    mode: { kind: 'string', required: true, values: TEMP_BASAL_MODES },
+    durationMinutes: { kind: 'number', required: true, min: 0 },
+    source: { kind: 'string' }
+  },
+  format(event) {
+    const metadata = event.metadata as Partial<TempBasalMetadata>;
+    const duration = `for ${metadata.durationMinutes ?? 0} min`;
+    if (metadata.mode === 'suspend') return `Pump suspended ${duration}`;
+    if (metadata.mode === 'absolute') return `Temp basal ${event.value} U/h ${duration}`;
+    return `Temp basal ${event.value}% ${duration}`;
+  },
+  icon: {
+    path: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+    className: 'bg-cyan-500/20 text-cyan-400'
+  },
+  exportColumns: [
+    metadataColumn('source'),
+    metadataColumn('tempBasalMode', 'mode'),
+    metadataColumn('durationMinutes')
+  ]
+};
+
+const condition: EventTypeDefinition<'condition'> = {
+  type: 'condition',
+  label: 'Sick day or cycle',
+  filterLabel: 'Sick & cycle',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    condition: { kind: 'string', required: true, values: CONDITION_TYPES },
+    phase: { kind: 'string', values: Object.keys(CYCLE_PHASE_LABELS) },
+    durationHours: { kind: 'number', required: true, min: 0 },
+    sensitivityMultiplier: { kind: 'number', min: 0 },
+    notes: { kind: 'string' }
+  },
+  validate(_value, metadata) {
+    return metadata.condition === 'menstrual-cycle' && !metadata.phase
+      ? ['phase is required for a menstrual cycle entry']
+      : [];
+  },
+  format(event) {
+    const metadata = event.metadata as Partial<ConditionMetadata>;
+    const label =
+      metadata.condition === 'sick-day'
+        ? 'Sick day'
+        : `${metadata.phase ? CYCLE_PHASE_LABELS[metadata.phase] : 'Cycle'} phase`;
+    const multiplier =
+      metadata.sensitivityMultiplier !== undefined
+        ? `, ${Math.round(metadata.sensitivityMultiplier * 100)}% insulin`
+        : '';
+    return `${label} for ${formatConditionDuration(event.value)}${multiplier}`;
+  },
+  describe: (event) => (event.metadata as Partial<ConditionMetadata>).notes || undefined,
+  icon: {
+    path: 'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z',
+    className: 'bg-pink-500/20 text-pink-400'
+  },
+  exportColumns: [
+    metadataColumn('condition'),
+    metadataColumn('phase'),
+    metadataColumn('sensitivityMultiplier'),
+    metadataColumn('notes')
+  ]
+};
+
+const labResult: EventTypeDefinition<'lab-result'> = {
+  type: 'lab-result',
+  label: 'Lab result',
+  filterLabel: 'Lab',
+  valueRange: { min: 0 },
+  metadataSchema: {
+    test: { kind: 'string', required: true, values: LAB_TESTS },
+    unit: { kind: 'string', required: true, values: HBA1C_UNITS },
+    lab: { kind: 'string' },
+    notes: { kind: 'string' }
+  },
+  validate(value, metadata) {
+    const { min, max } = HBA1C_RANGES[metadata.unit];
+    return value < min || value > max
+      ? [`HbA1c must be between ${min} and ${max} ${metadata.unit}`]
+      : [];
+  },
+  format(event) {
+    const metadata = event.metadata as Partial<LabResultMetadata>;
+    const unit = metadata.unit || '%';
+    return `HbA1c ${event.value}${unit === '%' ? '%' : ` ${unit}`}`;
+  },
+  describe: (event) => {
+    const metadata = event.metadata as Partial<LabResultMetadata>;
+    return [metadata.lab, metadata.notes].filter(Boolean).join(' · ') || undefined;
+  },
+  icon: {
+    path: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4',
+    className: 'bg-indigo-500/20 text-indigo-400'
+  },
+  exportColumns: [
+    metadataColumn('unit'),
+    metadataColumn('labTest', 'test'),
+    metadataColumn('lab'),
+    metadataColumn('notes')
+  ]
+};
+
+/**
+ * Built-in event types, one per EventType
+ */
+export const BUILT_IN_EVENT_TYPES: { [T in EventType]: EventTypeDefinition<T> }[EventType][] = [
+  insulin,
+  meal,
+  bsl,
+  ketone,
+  exercise,
+  tempBasal,
+  condition,
+  labResult
+];
@@ -0,0 +1,194 @@
+/**
+ * Event Type Registry
+ *
+ * Each event type declares its metadata schema and validator, a display
+ * formatter, CSV export columns and an icon. EventService validates new
+ * events against it, ExportService builds CSV columns from it and /history
+ * renders labels, icons and filters from it.
+ *
+ * To add an event type, extend `EventMetadataMap` and register a definition:
+ *
+ *   declare module '$lib/types/events' {
+ *     interface EventMetadataMap {
+ *       weight: WeightMetadata;
+ *     }
+ *   }
+ *   getEventTypeRegistry().register(weightDefinition);
+ */
+
+import type {
+  EventExportColumn,
+  EventMetadataMap,
+  EventType,
+  EventTypeDefinition,
+  EventTypeIcon,
+  MetadataFieldSchema,
+  PhysiologicalEvent
+} from '$lib/types';
+import { BUILT_IN_EVENT_TYPES } from './BuiltInEventTypes';
+
+/**
+ * Check metadata against a schema
+ *
+ * @param schema - Field schemas by name
+ * @param metadata - Metadata to check
+ * @returns Error messages, empty when valid
+ */
+export function validateEventMetadata(
+  schema: Record<string, MetadataFieldSchema>,
+  metadata: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const value = metadata[field];
+    if (value === undefined || value === null) {
+      if (fieldSchema.required) errors.push(`${field} is required`);
+      continue;
+    }
+
+    const kind = Array.isArray(value) ? 'array' : typeof value;
+    if (kind !== fieldSchema.kind) {
+      errors.push(
+        `${field} must be a${fieldSchema.kind === 'array' ? 'n' : ''} ${fieldSchema.kind}`
+      );
+      continue;
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        errors.push(`${field} must be a finite number`);
+      } else if (fieldSchema.min !== undefined && value < fieldSchema.min) {
+        errors.push(`${field} must be at least ${fieldSchema.min}`);
+      } else if (fieldSchema.max !== undefined && value > fieldSchema.max) {
+        errors.push(`${field} must be at most ${fieldSchema.max}`);
+      }
+    }
+    if (typeof value === 'string' && fieldSchema.values && !fieldSchema.values.includes(value)) {
+      errors.push(`${field} must be one of ${fieldSchema.values.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Registry of event type definitions, in registration order
+ */
+export class EventTypeRegistry {
+  private definitions = new Map<EventType, EventTypeDefinition>();
+
+  /**
+   * Add an event type
+   *
+   * @throws Error if the type is already registered
+   */
+  register<T extends EventType>(definition: EventTypeDefinition<T>): void {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Event type already registered: ${definition.type}`);
+    }
+    this.definitions.set(definition.type, definition as unknown as EventTypeDefinition);
+  }
+
+  has(type: string): type is EventType {
+    return this.definitions.has(type as EventType);
+  }
+
+  /**
+   * Definition for a type
+   *
+   * @throws Error for an unregistered type
+   */
+  get<T extends EventType>(type: T): EventTypeDefinition<T> {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unknown event type: ${type}`);
+    }
+    return definition as unknown as EventTypeDefinition<T>;
+  }
+
+  list(): EventTypeDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Check an event value and metadata against its type
+   *
+   * @returns Error messages, empty when valid
+   */
+  validate(type: EventType, value: number, metadata: Record<string, unknown>): string[] {
+    if (!this.has(type)) return [`Unknown event type: ${type}`];
+    const definition = this.get(type);
+
+    const errors: string[] = [];
+    const { min, max } = definition.valueRange ?? {};
+    if (!Number.isFinite(value)) {
+      errors.push('value must be a finite number');
+    } else if (min !== undefined && value < min) {
+      errors.push(`value must be at least ${min}`);
+    } else if (max !== undefined && value > max) {
+      errors.push(`value must be at most ${max}`);
+    }
+
+    const schemaErrors = validateEventMetadata(definition.metadataSchema, metadata);
+    errors.push(...schemaErrors);
+    if (schemaErrors.length === 0 && definition.validate) {
+      errors.push(...definition.validate(value, metadata as EventMetadataMap[EventType]));
+    }
+    return errors;
+  }
+
+  /**
+   * One-line summary of an event, or its value for an unregistered type
+   */
+  format(event: PhysiologicalEvent): string {
+    return this.has(event.eventType)
+      ? this.get(event.eventType).format(event)
+      : String(event.value);
+  }
+
+  describe(event: PhysiologicalEvent): string | undefined {
+    return this.has(event.eventType) ? this.get(event.eventType).describe?.(event) : undefined;
+  }
+
+  icon(event: PhysiologicalEvent): EventTypeIcon | undefined {
+    if (!this.has(event.eventType)) return undefined;
+    const definition = this.get(event.eventType);
+    return definition.iconFor?.(event) ?? definition.icon;
+  }
+
+  /**
+   * CSV export headers from every type, in order of first appearance
+   */
+  exportHeaders(): string[] {
+    const headers = new Set<string>();
+    for (const definition of this.definitions.values()) {
+      for (const column of definition.exportColumns) headers.add(column.header);
+    }
+    return [...headers];
+  }
+
+  /**
+   * Value of an export column for an event
+   *
+   * @returns The value, or undefined when the event's type has no such column
+   */
+  exportValue(event: PhysiologicalEvent, header: string): ReturnType<EventExportColumn['value']> {
+    if (!this.has(event.eventType)) return undefined;
+    return this.get(event.eventType)
+      .exportColumns.find((column) => column.header === header)
+      ?.value(event);
+  }
+}
+
+let registryInstance: EventTypeRegistry | null = null;
+
+/**
+ * Get the event type registry, with the built-in types registered
+ */
+export function getEventTypeRegistry(): EventTypeRegistry {
+  if (!registryInstance) {
+    registryInstance = new EventTypeRegistry();
+    for (const definition of BUILT_IN_EVENT_TYPES) {
+      registryInstance.register(definition);
+    }
+  }
+  return registryInstance;
+}
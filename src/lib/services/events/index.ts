@@ -0,0 +1,10 @@
+/**
+ * Event type registry barrel export
+ */
+
+export {
+  EventTypeRegistry,
+  getEventTypeRegistry,
+  validateEventMetadata
+} from './EventTypeRegistry';
+export { BUILT_IN_EVENT_TYPES, formatAlcoholType } from './BuiltInEventTypes';
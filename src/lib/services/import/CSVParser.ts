@@ -20,6 +20,8 @@ import type {
   BSLMetadata
 } from '$lib/types';
 import { getEventRepository } from '$lib/repositories';
+import { getEventService } from '$lib/services';
+import { toStoredBSL } from '$lib/utils';
 import { parseLibreCSV, isLibreCSV } from './LibreCSVParser';
 import { parseDexcomCSV, isDexcomCSV } from './DexcomCSVParser';
 import { parseGenericCSV, validateGenericRows, suggestColumnMapping } from './GenericCSVParser';
@@ -168,9 +170,10 @@ export class CSVParser implements IImportService {
       duplicateStrategy
     );
 
-    // Delete existing events if strategy requires
+    // Delete existing events if strategy requires, keeping them in the audit trail
+    const eventService = getEventService();
     for (const event of toDelete) {
-      await repository.delete(event.id);
+      await eventService.deleteEvent(event.id);
     }
 
     // Convert rows to events and import
@@ -178,7 +181,7 @@ export class CSVParser implements IImportService {
 
     for (const row of toImport) {
       const metadata: BSLMetadata = {
-        unit: row.unit,
+        unit: 'mmol/L',
         source: 'csv-import',
         device: row.device
       };
@@ -186,7 +189,7 @@ export class CSVParser implements IImportService {
       const event = await repository.create({
         timestamp: row.timestamp,
         eventType: 'bsl',
-        value: row.value,
+        value: toStoredBSL(row.value, row.unit),
         metadata
       });
 
@@ -0,0 +1,518 @@
+/**
+ * Clinic Report Builder
+ *
+ * Builds a printable report for endocrinologist visits as a single
+ * self-contained HTML document: styles and charts (inline SVG) are embedded,
+ * so it opens offline and prints to PDF from any browser.
+ *
+ * Pages:
+ * 1. Glucose summary (time in range, mean, GMI, CV) and AGP
+ * 2. Daily glucose profiles
+ * 3. Insulin and carb totals, hypo episodes and therapy settings
+ */
+
+import type {
+  AGPPoint,
+  BSLUnit,
+  ClinicReportOptions,
+  GlycaemicMetrics,
+  InsulinMetadata,
+  PhysiologicalEvent,
+  TherapyProfile
+} from '$lib/types';
+import {
+  BASAL_STEP_MINUTES,
+  GLYCAEMIC_TARGETS,
+  GLYCAEMIC_THRESHOLDS,
+  calculateGlycaemicMetrics,
+  calculateNetBasalDoses,
+  getDailyBasalTotal,
+  getInsulinProduct,
+  getScheduledBasalRate,
+  getTherapyProfileAt
+} from '../modeling';
+import { fromMmolL, getBSLValueMmolL } from '$lib/utils';
+
+/**
+ * Highest BSL shown on charts (mmol/L)
+ */
+const CHART_MAX_BSL = 22;
+
+const RANGE_COLOURS = {
+  veryHigh: '#f97316',
+  high: '#eab308',
+  inRange: '#22c55e',
+  low: '#f87171',
+  veryLow: '#b91c1c'
+};
+
+const REPORT_STYLES = `
+  @page { size: A4; margin: 15mm; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; margin: 0; font-size: 11pt; }
+  .page { padding: 8mm 0; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  h2 { font-size: 13pt; margin: 16pt 0 6pt; border-bottom: 1px solid #d1d5db; padding-bottom: 3pt; }
+  .meta { color: #6b7280; font-size: 9pt; margin: 0; }
+  table { border-collapse: collapse; width: 100%; font-size: 9.5pt; }
+  th, td { text-align: left; padding: 3pt 6pt; border-bottom: 1px solid #e5e7eb; }
+  th { color: #4b5563; font-weight: 600; }
+  td.num, th.num { text-align: right; }
+  tfoot td { font-weight: 600; }
+  .summary { display: flex; gap: 16pt; align-items: stretch; }
+  .tir-bar { width: 28pt; display: flex; flex-direction: column; border: 1px solid #d1d5db; }
+  .stats { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6pt; margin-top: 10pt; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 4pt; padding: 6pt; text-align: center; }
+  .stat .value { font-size: 14pt; font-weight: 700; }
+  .stat .label { color: #6b7280; font-size: 8.5pt; }
+  .days { display: grid; grid-template-columns: repeat(2, 1fr); gap: 6pt; }
+  .day { border: 1px solid #e5e7eb; border-radius: 4pt; padding: 4pt; page-break-inside: avoid; }
+  .day .label { font-size: 8.5pt; color: #4b5563; }
+  .warnings { background: #fef9c3; padding: 6pt 10pt; border-radius: 4pt; font-size: 9pt; }
+  .muted { color: #6b7280; }
+  svg { display: block; width: 100%; height: auto; }
+`;
+
+/**
+ * Escape text for HTML
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatPercent(value: number): string {
+  return value > 0 && value < 1 ? '&lt;1%' : `${Math.round(value)}%`;
+}
+
+/**
+ * Local calendar day key (YYYY-MM-DD) for grouping
+ */
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local days covered by the period, oldest first
+ */
+function listDays(startTime: Date, endTime: Date): Date[] {
+  const days: Date[] = [];
+  const day = new Date(startTime.getFullYear(), startTime.getMonth(), startTime.getDate());
+  while (day <= endTime) {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Chart frame with target range band, grid lines and axis labels
+ */
+function chartFrame(width: number, height: number, unit: BSLUnit, showLabels: boolean) {
+  const left = showLabels ? 30 : 2;
+  const bottom = showLabels ? 16 : 2;
+  const plotWidth = width - left - 4;
+  const plotHeight = height - bottom - 4;
+  const x = (minuteOfDay: number) => left + (minuteOfDay / (24 * 60)) * plotWidth;
+  const y = (bsl: number) => 4 + (1 - Math.min(bsl, CHART_MAX_BSL) / CHART_MAX_BSL) * plotHeight;
+
+  const parts = [
+    `<rect x="${left}" y="${y(GLYCAEMIC_THRESHOLDS.high)}" width="${plotWidth}" height="${y(GLYCAEMIC_THRESHOLDS.low) - y(GLYCAEMIC_THRESHOLDS.high)}" fill="#dcfce7"/>`
+  ];
+  for (const level of [GLYCAEMIC_THRESHOLDS.low, GLYCAEMIC_THRESHOLDS.high]) {
+    parts.push(
+      `<line x1="${left}" x2="${left + plotWidth}" y1="${y(level)}" y2="${y(level)}" stroke="#86efac" stroke-width="0.75"/>`
+    );
+    if (showLabels) {
+      parts.push(
+        `<text x="${left - 3}" y="${y(level) + 3}" text-anchor="end" font-size="8" fill="#6b7280">${fromMmolL(level, unit)}</text>`
+      );
+    }
+  }
+  if (showLabels) {
+    for (const hour of [0, 6, 12, 18, 24]) {
+      parts.push(
+        `<text x="${x(hour * 60)}" y="${height - 3}" text-anchor="middle" font-size="8" fill="#6b7280">${String(hour % 24).padStart(2, '0')}:00</text>`
+      );
+    }
+  }
+
+  return { x, y, frame: parts.join('') };
+}
+
+/**
+ * AGP chart: 5-95% and 25-75% bands with the median line
+ */
+function renderAGPChart(agp: AGPPoint[], unit: BSLUnit): string {
+  const width = 640;
+  const height = 240;
+  const { x, y, frame } = chartFrame(width, height, unit, true);
+  if (agp.length < 2) {
+    return `<svg viewBox="0 0 ${width} ${height}">${frame}</svg>`;
+  }
+
+  const binMinutes = agp[1].minuteOfDay - agp[0].minuteOfDay;
+  const at = (p: AGPPoint, value: number) =>
+    `${x(p.minuteOfDay + binMinutes / 2).toFixed(1)},${y(value).toFixed(1)}`;
+  const band = (lower: 'p5' | 'p25', upper: 'p95' | 'p75') =>
+    [...agp.map((p) => at(p, p[upper])), ...[...agp].reverse().map((p) => at(p, p[lower]))].join(
+      ' '
+    );
+
+  return `<svg viewBox="0 0 ${width} ${height}" role="img" aria-label="Ambulatory glucose profile">
+    ${frame}
+    <polygon points="${band('p5', 'p95')}" fill="#bfdbfe"/>
+    <polygon points="${band('p25', 'p75')}" fill="#60a5fa"/>
+    <polyline points="${agp.map((p) => at(p, p.p50)).join(' ')}" fill="none" stroke="#1e3a8a" stroke-width="2"/>
+  </svg>`;
+}
+
+/**
+ * One day's BSL trace
+ */
+function renderDayChart(readings: Array<{ timestamp: Date; value: number }>, unit: BSLUnit) {
+  const width = 300;
+  const height = 70;
+  const { x, y, frame } = chartFrame(width, height, unit, false);
+  const points = readings
+    .map((r) => {
+      const minuteOfDay = r.timestamp.getHours() * 60 + r.timestamp.getMinutes();
+      return `${x(minuteOfDay).toFixed(1)},${y(r.value).toFixed(1)}`;
+    })
+    .join(' ');
+
+  const trace =
+    readings.length > 1
+      ? `<polyline points="${points}" fill="none" stroke="#1d4ed8" stroke-width="1"/>`
+      : readings
+          .map((r) => {
+            const minuteOfDay = r.timestamp.getHours() * 60 + r.timestamp.getMinutes();
+            return `<circle cx="${x(minuteOfDay)}" cy="${y(r.value)}" r="1.5" fill="#1d4ed8"/>`;
+          })
+          .join('');
+
+  return `<svg viewBox="0 0 ${width} ${height}">${frame}${trace}</svg>`;
+}
+
+function renderSummary(metrics: GlycaemicMetrics, unit: BSLUnit): string {
+  const ranges = [
+    {
+      key: 'veryHigh',
+      label: `Very high (&gt;${fromMmolL(GLYCAEMIC_THRESHOLDS.veryHigh, unit)})`,
+      target: `&lt;${GLYCAEMIC_TARGETS.veryHigh}%`
+    },
+    {
+      key: 'high',
+      label: `High (${fromMmolL(GLYCAEMIC_THRESHOLDS.high, unit)}-${fromMmolL(GLYCAEMIC_THRESHOLDS.veryHigh, unit)})`,
+      target: `&lt;${GLYCAEMIC_TARGETS.aboveRange}%`
+    },
+    {
+      key: 'inRange',
+      label: `In range (${fromMmolL(GLYCAEMIC_THRESHOLDS.low, unit)}-${fromMmolL(GLYCAEMIC_THRESHOLDS.high, unit)})`,
+      target: `&gt;${GLYCAEMIC_TARGETS.inRange}%`
+    },
+    {
+      key: 'low',
+      label: `Low (${fromMmolL(GLYCAEMIC_THRESHOLDS.veryLow, unit)}-${fromMmolL(GLYCAEMIC_THRESHOLDS.low, unit)})`,
+      target: `&lt;${GLYCAEMIC_TARGETS.belowRange}%`
+    },
+    {
+      key: 'veryLow',
+      label: `Very low (&lt;${fromMmolL(GLYCAEMIC_THRESHOLDS.veryLow, unit)})`,
+      target: `&lt;${GLYCAEMIC_TARGETS.veryLow}%`
+    }
+  ] as const;
+
+  const bar = ranges
+    .map(
+      (r) =>
+        `<div style="height:${metrics.timeInRanges[r.key]}%;background:${RANGE_COLOURS[r.key]}"></div>`
+    )
+    .join('');
+  const rows = ranges
+    .map(
+      (r) =>
+        `<tr><td><span style="color:${RANGE_COLOURS[r.key]}">&#9632;</span> ${r.label}</td><td class="num">${formatPercent(metrics.timeInRanges[r.key])}</td><td class="num muted">${r.target}</td></tr>`
+    )
+    .join('');
+
+  const stats = [
+    { label: `Mean (${unit})`, value: String(fromMmolL(metrics.meanBSL, unit)) },
+    { label: 'GMI', value: `${metrics.gmi.toFixed(1)}%` },
+    {
+      label: `CV (target &le;${GLYCAEMIC_TARGETS.coefficientOfVariation}%)`,
+      value: `${Math.round(metrics.coefficientOfVariation)}%`
+    },
+    { label: `SD (${unit})`, value: String(fromMmolL(metrics.standardDeviation, unit)) },
+    { label: 'Readings', value: String(metrics.readingCount) },
+    { label: 'CGM data', value: `${Math.round(metrics.coveragePercent)}%` }
+  ]
+    .map(
+      (s) =>
+        `<div class="stat"><div class="value">${s.value}</div><div class="label">${s.label}</div></div>`
+    )
+    .join('');
+
+  return `<div class="summary">
+    <div class="tir-bar">${bar}</div>
+    <table><thead><tr><th>Range (${unit})</th><th class="num">Time</th><th class="num">Target</th></tr></thead><tbody>${rows}</tbody></table>
+  </div>
+  <div class="stats">${stats}</div>`;
+}
+
+/**
+ * Pump basal delivered over part of a day: the schedule of the profile active
+ * then, plus the net change from temp basals and suspends
+ *
+ * @returns Units delivered (0 without a basal schedule)
+ */
+function calculatePumpBasal(
+  events: PhysiologicalEvent[],
+  profiles: TherapyProfile[] | undefined,
+  from: Date,
+  to: Date,
+  wholeDay: boolean
+): number {
+  const schedule = getTherapyProfileAt(profiles, from)?.basalSchedule;
+  if (!schedule || schedule.length === 0 || to <= from) return 0;
+
+  let scheduled = 0;
+  if (wholeDay) {
+    scheduled = getDailyBasalTotal(schedule);
+  } else {
+    const stepMs = BASAL_STEP_MINUTES * 60 * 1000;
+    for (let t = from.getTime(); t < to.getTime(); t += stepMs) {
+      const minutes = Math.min(stepMs, to.getTime() - t) / (60 * 1000);
+      scheduled += (getScheduledBasalRate(schedule, new Date(t)) * minutes) / 60;
+    }
+  }
+
+  const net = calculateNetBasalDoses(events, schedule, from, to).reduce(
+    (sum, dose) => sum + dose.units,
+    0
+  );
+  return Math.max(0, scheduled + net);
+}
+
+function renderDailyTotals(
+  events: PhysiologicalEvent[],
+  days: Date[],
+  startTime: Date,
+  endTime: Date,
+  profiles: TherapyProfile[] | undefined,
+  atTime: Date
+): string {
+  const totals = new Map(days.map((d) => [dayKey(d), { bolus: 0, basal: 0, carbs: 0 }]));
+
+  // Pump basal is not logged as doses. Days still in progress count up to now.
+  const deliveredUntil = new Date(Math.min(endTime.getTime(), atTime.getTime()));
+  let pumpBasal = false;
+  for (const d of days) {
+    const dayEnd = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1);
+    const from = new Date(Math.max(d.getTime(), startTime.getTime()));
+    const to = new Date(Math.min(dayEnd.getTime(), deliveredUntil.getTime() + 1));
+    const wholeDay = from.getTime() === d.getTime() && to.getTime() === dayEnd.getTime();
+    const units = calculatePumpBasal(events, profiles, from, to, wholeDay);
+    if (units > 0) pumpBasal = true;
+    totals.get(dayKey(d))!.basal += units;
+  }
+
+  for (const event of events) {
+    const timestamp = new Date(event.timestamp);
+    if (timestamp < startTime || timestamp > endTime) continue;
+    const day = totals.get(dayKey(timestamp));
+    if (!day) continue;
+
+    if (event.eventType === 'insulin') {
+      const type = (event.metadata as InsulinMetadata | undefined)?.type ?? 'bolus';
+      day[type] += event.value;
+    } else if (event.eventType === 'meal') {
+      day.carbs += event.value;
+    }
+  }
+
+  const rows = days
+    .map((d) => {
+      const t = totals.get(dayKey(d))!;
+      return `<tr><td>${formatDate(d)}</td><td class="num">${t.bolus.toFixed(1)}</td><td class="num">${t.basal.toFixed(1)}</td><td class="num">${(t.bolus + t.basal).toFixed(1)}</td><td class="num">${Math.round(t.carbs)}</td></tr>`;
+    })
+    .join('');
+
+  const all = [...totals.values()];
+  const average = (pick: (t: (typeof all)[number]) => number) =>
+    all.length > 0 ? all.reduce((sum, t) => sum + pick(t), 0) / all.length : 0;
+  const bolus = average((t) => t.bolus);
+  const basal = average((t) => t.basal);
+  const total = bolus + basal;
+
+  return `<table>
+    <thead><tr><th>Day</th><th class="num">Bolus (u)</th><th class="num">Basal (u)</th><th class="num">Total (u)</th><th class="num">Carbs (g)</th></tr></thead>
+    <tbody>${rows}</tbody>
+    <tfoot><tr><td>Daily average</td><td class="num">${bolus.toFixed(1)}</td><td class="num">${basal.toFixed(1)}</td><td class="num">${total.toFixed(1)}</td><td class="num">${Math.round(average((t) => t.carbs))}</td></tr></tfoot>
+  </table>
+  <p class="meta">Bolus ${total > 0 ? Math.round((bolus / total) * 100) : 0}% / basal ${total > 0 ? Math.round((basal / total) * 100) : 0}% of total daily dose. Days with nothing logged count as zero.${pumpBasal ? ' Pump basal is the scheduled basal adjusted for temp basals and suspends.' : ''}</p>`;
+}
+
+function renderHypoEpisodes(metrics: GlycaemicMetrics, unit: BSLUnit): string {
+  if (metrics.hypoEpisodes.length === 0) {
+    return '<p class="muted">No hypo episodes of 15 minutes or more.</p>';
+  }
+  const rows = metrics.hypoEpisodes
+    .map(
+      (e) =>
+        `<tr><td>${formatDate(e.startTime)}</td><td>${formatTime(e.startTime)}</td><td class="num">${Math.round(e.durationMinutes)} min</td><td class="num">${fromMmolL(e.extremeBSL, unit)}</td><td>${e.level === 2 ? 'Level 2' : 'Level 1'}</td></tr>`
+    )
+    .join('');
+  return `<table>
+    <thead><tr><th>Day</th><th>Start</th><th class="num">Duration</th><th class="num">Lowest (${unit})</th><th>Level</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+function renderTherapySettings(
+  profiles: TherapyProfile[] | undefined,
+  startTime: Date,
+  endTime: Date,
+  unit: BSLUnit
+): string {
+  const sorted = [...(profiles ?? [])].sort(
+    (a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime()
+  );
+
+  // Versions in effect at some point during the period
+  const used = sorted.filter((profile, i) => {
+    const from = new Date(profile.effectiveFrom);
+    const next = sorted[i + 1];
+    const until = next ? new Date(next.effectiveFrom) : null;
+    return from <= endTime && (!until || until > startTime);
+  });
+
+  if (used.length === 0) {
+    return '<p class="muted">No therapy profile has been set up.</p>';
+  }
+
+  return used
+    .map((profile) => {
+      const from = new Date(profile.effectiveFrom);
+      const since = from.getTime() === 0 ? 'initial' : `from ${formatDate(from)}`;
+      const rows = profile.segments
+        .map(
+          (s) =>
+            `<tr><td>${escapeHTML(s.startTime)}</td><td class="num">1:${s.insulinToCarbRatio}</td><td class="num">${fromMmolL(s.insulinSensitivityFactor, unit)}</td><td class="num">${fromMmolL(s.targetLow, unit)}-${fromMmolL(s.targetHigh, unit)}</td></tr>`
+        )
+        .join('');
+      const details = [
+        `Insulin duration ${profile.durationOfInsulinActionHours} h`,
+        profile.insulinProduct
+          ? `Rapid-acting: ${escapeHTML(getInsulinProduct(profile.insulinProduct)?.name ?? profile.insulinProduct)}`
+          : null,
+        profile.note ? escapeHTML(profile.note) : null
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      return `<p><strong>Version ${profile.version}</strong> <span class="muted">(${since})</span></p>
+      <table>
+        <thead><tr><th>From</th><th class="num">Carb ratio (g/u)</th><th class="num">Correction (${unit}/u)</th><th class="num">Target (${unit})</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <p class="meta">${details}</p>`;
+    })
+    .join('');
+}
+
+/**
+ * Build the clinic report as a self-contained HTML document
+ *
+ * @param events - Events covering the period
+ * @param options - Period, display unit and therapy profiles
+ * @returns HTML document
+ */
+export function buildClinicReportHTML(
+  events: PhysiologicalEvent[],
+  options: ClinicReportOptions
+): string {
+  const { startTime, endTime, unit } = options;
+  const generatedAt = new Date();
+  const metrics = calculateGlycaemicMetrics(events, { startTime, endTime, atTime: generatedAt });
+  const days = listDays(startTime, endTime);
+
+  // Readings by local day for the daily profiles
+  const readingsByDay = new Map<string, Array<{ timestamp: Date; value: number }>>();
+  for (const event of events) {
+    if (event.eventType !== 'bsl') continue;
+    const timestamp = new Date(event.timestamp);
+    if (timestamp < startTime || timestamp > endTime) continue;
+    const key = dayKey(timestamp);
+    if (!readingsByDay.has(key)) readingsByDay.set(key, []);
+    readingsByDay.get(key)!.push({ timestamp, value: getBSLValueMmolL(event) });
+  }
+  for (const readings of readingsByDay.values()) {
+    readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  const dailyProfiles = days
+    .map((d) => {
+      const readings = readingsByDay.get(dayKey(d)) ?? [];
+      return `<div class="day"><div class="label">${formatDate(d)}</div>${renderDayChart(readings, unit)}</div>`;
+    })
+    .join('');
+
+  const period = `${formatDate(startTime)} - ${formatDate(endTime)}`;
+  const warnings =
+    metrics.warnings.length > 0
+      ? `<div class="warnings">${metrics.warnings.map(escapeHTML).join('<br>')}</div>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Clinic report ${escapeHTML(period)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<section class="page">
+  <h1>Glucose report</h1>
+  <p class="meta">${escapeHTML(period)} (${days.length} days) · BSL in ${unit} · generated ${escapeHTML(generatedAt.toLocaleString())}</p>
+  ${warnings}
+  <h2>Glucose summary</h2>
+  ${renderSummary(metrics, unit)}
+  <h2>Ambulatory glucose profile</h2>
+  ${renderAGPChart(metrics.agp, unit)}
+  <p class="meta">Median (dark line), 25-75% (dark band) and 5-95% (light band) of readings by time of day, all days combined. Green band: target range.</p>
+</section>
+<section class="page">
+  <h2>Daily glucose profiles</h2>
+  <div class="days">${dailyProfiles}</div>
+</section>
+<section class="page">
+  <h2>Insulin and carbohydrates</h2>
+  ${renderDailyTotals(events, days, startTime, endTime, options.therapyProfiles, generatedAt)}
+  <h2>Hypo episodes</h2>
+  ${renderHypoEpisodes(metrics, unit)}
+  <h2>Therapy settings</h2>
+  ${renderTherapySettings(options.therapyProfiles, startTime, endTime, unit)}
+</section>
+</body>
+</html>`;
+}
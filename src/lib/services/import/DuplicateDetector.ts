@@ -2,11 +2,12 @@
  * Workstream D: Duplicate Detection Service
  * Branch: dev-4
  *
- * Detects duplicate BSL readings when importing CSV data.
+ * Detects duplicate BSL readings when importing CSV data or syncing from a CGM API.
  */
 
 import type { ParsedCSVRow, DuplicateMatch, PhysiologicalEvent } from '$lib/types';
 import { getEventService } from '$lib/services';
+import { getBSLValueMmolL, toStoredBSL } from '$lib/utils';
 
 /**
  * Time window for near-duplicate detection (5 minutes in ms)
@@ -17,9 +18,14 @@ const NEAR_DUPLICATE_WINDOW_MS = 5 * 60 * 1000;
  * Find duplicates between import rows and existing events
  *
  * @param rows - Parsed CSV rows to check
+ * @param nearWindowMs - Time window for near-duplicates. CGM sync uses a window
+ *   shorter than the reading interval so consecutive readings are not merged.
  * @returns Array of duplicate matches
  */
-export async function findDuplicates(rows: ParsedCSVRow[]): Promise<DuplicateMatch[]> {
+export async function findDuplicates(
+  rows: ParsedCSVRow[],
+  nearWindowMs: number = NEAR_DUPLICATE_WINDOW_MS
+): Promise<DuplicateMatch[]> {
   if (rows.length === 0) return [];
 
   const eventService = getEventService();
@@ -30,8 +36,8 @@ export async function findDuplicates(rows: ParsedCSVRow[]): Promise<DuplicateMat
   const maxTime = Math.max(...timestamps);
 
   // Expand range to account for near-duplicates
-  const rangeStart = new Date(minTime - NEAR_DUPLICATE_WINDOW_MS);
-  const rangeEnd = new Date(maxTime + NEAR_DUPLICATE_WINDOW_MS);
+  const rangeStart = new Date(minTime - nearWindowMs);
+  const rangeEnd = new Date(maxTime + nearWindowMs);
 
   // Fetch existing BSL events in this range
   const existingEvents = await eventService.getEventsByDateRange(rangeStart, rangeEnd);
@@ -42,7 +48,7 @@ export async function findDuplicates(rows: ParsedCSVRow[]): Promise<DuplicateMat
   const duplicates: DuplicateMatch[] = [];
 
   for (const row of rows) {
-    const match = findMatchingEvent(row, bslEvents);
+    const match = findMatchingEvent(row, bslEvents, nearWindowMs);
     if (match) {
       duplicates.push(match);
     }
@@ -56,20 +62,25 @@ export async function findDuplicates(rows: ParsedCSVRow[]): Promise<DuplicateMat
  *
  * @param row - Parsed CSV row
  * @param existingEvents - Existing BSL events to check against
+ * @param nearWindowMs - Time window for near-duplicates
  * @returns DuplicateMatch if found, null otherwise
  */
 function findMatchingEvent(
   row: ParsedCSVRow,
-  existingEvents: PhysiologicalEvent[]
+  existingEvents: PhysiologicalEvent[],
+  nearWindowMs: number
 ): DuplicateMatch | null {
   const rowTime = row.timestamp.getTime();
+  // Compare as stored, in mmol/L
+  const rowValue = toStoredBSL(row.value, row.unit);
 
   for (const event of existingEvents) {
     const eventTime = new Date(event.timestamp).getTime();
     const timeDiff = Math.abs(rowTime - eventTime);
+    const valueDiff = Math.abs(getBSLValueMmolL(event) - rowValue);
 
     // Check for exact match (same timestamp and value)
-    if (timeDiff === 0 && Math.abs(event.value - row.value) < 0.01) {
+    if (timeDiff === 0 && valueDiff < 0.01) {
       return {
         importRow: row,
         existingEvent: event,
@@ -78,10 +89,10 @@ function findMatchingEvent(
       };
     }
 
-    // Check for near-duplicate (within 5 min window and similar value)
-    if (timeDiff <= NEAR_DUPLICATE_WINDOW_MS) {
+    // Check for near-duplicate (within the window and similar value)
+    if (timeDiff <= nearWindowMs) {
       // Values should be within 0.5 mmol/L to be considered near-duplicate
-      if (Math.abs(event.value - row.value) < 0.5) {
+      if (valueDiff < 0.5) {
         return {
           importRow: row,
           existingEvent: event,
@@ -2,12 +2,21 @@
  * Workstream D: Export Service
  * Branch: dev-4
  *
- * Handles exporting data to JSON and CSV formats.
+ * Handles exporting data to JSON and CSV formats, and the printable
+ * clinic report (HTML).
  * Implements IExportService interface.
  */
 
-import type { PhysiologicalEvent, IExportService, ImportResult } from '$lib/types';
+import type {
+  PhysiologicalEvent,
+  IExportService,
+  ImportResult,
+  ClinicReportOptions
+} from '$lib/types';
 import { getEventRepository } from '$lib/repositories';
+import { normaliseBSLEvent } from '$lib/utils';
+import { getEventTypeRegistry } from '../events';
+import { buildClinicReportHTML } from './ClinicReportBuilder';
 
 /**
  * Export Service
@@ -40,67 +49,66 @@ export class ExportService implements IExportService {
 
   /**
    * Export events to CSV format
+   * Type-specific columns come from the event type registry; a column is
+   * empty for events whose type does not have it.
    *
    * @param events - Events to export
    * @returns Blob containing CSV data
    */
   exportToCSV(events: PhysiologicalEvent[]): Blob {
+    const registry = getEventTypeRegistry();
+    const typeHeaders = registry.exportHeaders();
+
     // CSV header
     const headers = [
       'id',
       'timestamp',
       'eventType',
       'value',
-      'unit',
-      'source',
-      'device',
-      'isFingerPrick',
-      'insulinType',
-      'carbs',
-      'protein',
-      'fat',
-      'calories',
-      'description',
+      ...typeHeaders,
       'createdAt',
       'updatedAt'
     ];
 
     // Build CSV rows
-    const rows = events.map((event) => {
-      const meta = event.metadata || {};
-      return [
+    const rows = events.map((event) =>
+      [
         event.id,
         new Date(event.timestamp).toISOString(),
         event.eventType,
         event.value,
-        meta.unit || '',
-        meta.source || '',
-        meta.device || '',
-        meta.isFingerPrick ?? '',
-        meta.type || '', // insulin type
-        meta.carbs || '',
-        meta.protein || '',
-        meta.fat || '',
-        meta.calories || '',
-        String(meta.description || '').replace(/"/g, '""'), // Escape quotes
+        ...typeHeaders.map((header) => registry.exportValue(event, header) ?? ''),
         new Date(event.createdAt).toISOString(),
         new Date(event.updatedAt).toISOString()
       ]
         .map((val) => {
-          // Quote fields that contain commas, quotes, or newlines
+          // Quote fields that contain commas, quotes, or newlines, escaping quotes
           const str = String(val);
           if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-            return `"${str}"`;
+            return `"${str.replace(/"/g, '""')}"`;
           }
           return str;
         })
-        .join(',');
-    });
+        .join(',')
+    );
 
     const csv = [headers.join(','), ...rows].join('\n');
     return new Blob([csv], { type: 'text/csv' });
   }
 
+  /**
+   * Export a printable clinic report for a date range
+   * Self-contained HTML with embedded charts; print from the browser for PDF.
+   *
+   * @param events - Events covering the period
+   * @param options - Period, display unit and therapy profiles
+   * @returns Blob containing the HTML report
+   */
+  exportClinicReport(events: PhysiologicalEvent[], options: ClinicReportOptions): Blob {
+    const html = buildClinicReportHTML(events, options);
+    return new Blob([html], { type: 'text/html' });
+  }
+
   /**
    * Generate a full backup of all events
    *
@@ -147,6 +155,7 @@ export class ExportService implements IExportService {
         createdAt: string;
         updatedAt: string;
         synced?: boolean;
+        remoteId?: string;
       }>;
     };
 
@@ -162,17 +171,23 @@ export class ExportService implements IExportService {
 
     const repository = getEventRepository();
 
-    // Convert dates back to Date objects
-    const events: PhysiologicalEvent[] = data.events.map((e) => ({
-      id: e.id,
-      timestamp: new Date(e.timestamp),
-      eventType: e.eventType as PhysiologicalEvent['eventType'],
-      value: e.value,
-      metadata: e.metadata,
-      createdAt: new Date(e.createdAt),
-      updatedAt: new Date(e.updatedAt),
-      synced: e.synced
-    }));
+    // Convert dates back to Date objects, skipping types this app does not know
+    const registry = getEventTypeRegistry();
+    const known = data.events.filter((e) => registry.has(e.eventType));
+    // Backups from before BSL readings were normalised may hold mg/dL
+    const events: PhysiologicalEvent[] = known.map((e) =>
+      normaliseBSLEvent({
+        id: e.id,
+        timestamp: new Date(e.timestamp),
+        eventType: e.eventType as PhysiologicalEvent['eventType'],
+        value: e.value,
+        metadata: e.metadata,
+        createdAt: new Date(e.createdAt),
+        updatedAt: new Date(e.updatedAt),
+        synced: e.synced,
+        remoteId: e.remoteId
+      })
+    );
 
     // Import all events
     let imported = 0;
@@ -184,7 +199,10 @@ export class ExportService implements IExportService {
           timestamp: event.timestamp,
           eventType: event.eventType,
           value: event.value,
-          metadata: event.metadata
+          metadata: event.metadata,
+          // Keep sync state so restored events are not pushed to Nightscout again
+          synced: event.synced,
+          remoteId: event.remoteId
         });
         imported++;
       } catch {
@@ -194,7 +212,7 @@ export class ExportService implements IExportService {
 
     return {
       imported,
-      skipped: 0,
+      skipped: data.events.length - known.length,
       failed,
       duplicatesHandled: 0,
       events: []
@@ -14,3 +14,4 @@ export {
 } from './GenericCSVParser';
 export { findDuplicates, filterRowsByStrategy, getDuplicateStats } from './DuplicateDetector';
 export { ExportService, getExportService, downloadBlob, generateFilename } from './ExportService';
+export { buildClinicReportHTML } from './ClinicReportBuilder';
@@ -1,9 +1,12 @@
-export { EventService } from './EventService';
+export { EventService, DELETE_UNDO_WINDOW_MS } from './EventService';
 export { SettingsService } from './SettingsService';
 export { VisionService, VisionServiceError, getVisionService } from './VisionService';
 export { BSLRecognitionService, getBSLRecognitionService } from './BSLRecognitionService';
 export { ValidationService } from './ValidationService';
 
+// Event type registry
+export * from './events';
+
 // Modeling services
 export * from './modeling';
 
@@ -11,7 +14,9 @@ export * from './modeling';
 import { EventService } from './EventService';
 import { SettingsService } from './SettingsService';
 import { ValidationService } from './ValidationService';
+import { getEventTypeRegistry } from './events';
 import {
+  getEventHistoryRepository,
   getEventRepository,
   getSettingsRepository,
   getValidationRepository
@@ -23,7 +28,11 @@ let validationService: ValidationService | null = null;
 
 export function getEventService(): EventService {
   if (!eventService) {
-    eventService = new EventService(getEventRepository());
+    eventService = new EventService(
+      getEventRepository(),
+      getEventTypeRegistry(),
+      getEventHistoryRepository()
+    );
   }
   return eventService;
 }
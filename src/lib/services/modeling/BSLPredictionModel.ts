@@ -1,21 +1,28 @@
 /**
  * BSL Prediction Model
  *
- * Combines insulin, carbohydrate, alcohol, and circadian models to predict
+ * Combines insulin, carbohydrate, alcohol, exercise, and circadian models to predict
  * blood sugar levels over time. Uses physiological events to forecast BSL
  * and generate prediction curves with confidence intervals.
  *
  * The model works by:
  * 1. Starting from a known BSL measurement
- * 2. Adding expected glucose from carbs being absorbed
- * 3. Subtracting expected BSL drop from active insulin
- * 4. Adjusting for alcohol effects on insulin sensitivity
- * 5. Adding circadian drift (dawn phenomenon, etc.)
+ * 2. Adding expected glucose from carbs being absorbed, including the delayed
+ *    carb equivalents of fat and protein
+ * 3. Subtracting expected BSL drop from active insulin, including the net
+ *    effect of pump temp basals and suspends against the basal schedule
+ * 4. Adjusting for alcohol and exercise effects on insulin sensitivity, and
+ *    for sick days and menstrual cycle phases that raise insulin need
+ * 5. Subtracting glucose taken up by working muscle during and after exercise
+ * 6. Adding circadian drift (dawn phenomenon, etc.)
+ * 7. For the first 30 minutes, blending towards the current trend (momentum),
+ *    fading linearly from the trend alone at the reading to the model alone
  *
- * Confidence intervals widen over time due to:
- * - Uncertainty in user parameters (ICR, CF)
- * - Variability in absorption rates
- * - Unmeasured factors (stress, activity, etc.)
+ * Confidence intervals come from an ensemble (see PredictionEnsembleModel):
+ * each member re-runs steps 2-7 with sampled ICR, CF, absorption speed and
+ * meal carb errors, plus unmodelled variation. Bands are the 10th-90th
+ * percentiles, and alerts report the share of members beyond a threshold.
+ * Without an ensemble (memberCount 0) the interval widens at a fixed rate.
  */
 
 import type { PhysiologicalEvent, BSLMetadata } from '../../types/events';
@@ -25,14 +32,31 @@ import type {
   BSLTimeSeries,
   BSLTimeSeriesPoint,
   MetabolicState,
+  PredictedAlert,
   UserModelParameters,
-  EventWindow
+  EventWindow,
+  PredictionEnsembleOptions
 } from '../../types/modeling';
 
 import { calculateActiveInsulin, estimateInsulinBSLEffect } from './InsulinDecayModel';
 import { calculateActiveCarbs, estimateCarbBSLEffect } from './CarbAbsorptionModel';
 import { calculateBloodAlcohol } from './AlcoholMetabolismModel';
+import { calculateExerciseEffect, estimateExerciseBSLEffect } from './ExerciseEffectModel';
 import { interpolateCircadianFactors, estimateCircadianBSLDrift } from './CircadianModel';
+import { calculateConditionState, getConditionEndTime } from './ConditionSensitivityModel';
+import { calculateBSLTrend } from './BSLTrendModel';
+import { EXERCISE_LOOKBACK_MS, INSULIN_LOOKBACK_MS } from './EventLookback';
+import {
+  type EnsembleMember,
+  getEnsembleNoiseSd,
+  perturbMealEvents,
+  sampleEnsembleMembers,
+  sampleStandardNormal,
+  standardNormalCdf,
+  summarisePercentiles,
+  ENSEMBLE_PARAMS
+} from './PredictionEnsembleModel';
+import { getBSLValueMmolL } from '../../utils/bslUnits';
 
 /**
  * Default user parameters if not provided
@@ -46,13 +70,24 @@ export const DEFAULT_USER_PARAMETERS: UserModelParameters = {
 };
 
 /**
- * Confidence interval parameters
+ * Momentum (trend extrapolation) only applies this far past the last reading
+ */
+const MOMENTUM_HORIZON_MINUTES = 30;
+
+/**
+ * Predictions are floored here (severe hypo)
+ */
+const MIN_PREDICTED_BSL = 2.0;
+
+/**
+ * Confidence interval parameters for predictions without an ensemble
  */
 const CONFIDENCE_PARAMS = {
   baseUncertainty: 0.5, // Base uncertainty in mmol/L
   timeDecayFactor: 0.02, // Uncertainty grows by this per minute
   maxUncertainty: 5.0, // Cap on uncertainty
   alcoholUncertaintyBoost: 0.3, // Additional uncertainty with alcohol
+  exerciseUncertaintyBoost: 0.3, // Additional uncertainty after exercise
   noRecentBSLPenalty: 1.0 // Extra uncertainty if no recent BSL
 };
 
@@ -70,7 +105,11 @@ export function calculateMetabolicState(
   userParams: UserModelParameters = DEFAULT_USER_PARAMETERS
 ): MetabolicState {
   // Calculate active insulin
-  const insulin = calculateActiveInsulin(events.insulinEvents, atTime);
+  const insulin = calculateActiveInsulin(events.insulinEvents, atTime, {
+    bolusDurationMinutes: userParams.insulinDurationMinutes,
+    defaultBolusProduct: userParams.insulinProduct,
+    basalSchedule: userParams.basalSchedule
+  });
 
   // Calculate active carbs
   const carbs = calculateActiveCarbs(events.mealEvents, atTime);
@@ -78,9 +117,19 @@ export function calculateMetabolicState(
   // Calculate alcohol effects
   const alcohol = calculateBloodAlcohol(events.mealEvents, atTime, userParams.bodyWeightKg);
 
+  // Calculate exercise effects
+  const exercise = calculateExerciseEffect(events.exerciseEvents, atTime);
+
   // Calculate circadian factors
   const circadian = interpolateCircadianFactors(atTime, userParams.circadianAdjustments);
 
+  // Calculate sick day and cycle phase effects
+  const conditions = calculateConditionState(
+    events.conditionEvents,
+    atTime,
+    userParams.sensitivityMultipliers
+  );
+
   // Find last known BSL
   let lastBSL: MetabolicState['lastBSL'] | undefined;
   const bslEvents = events.bslEvents
@@ -91,9 +140,10 @@ export function calculateMetabolicState(
     const latest = bslEvents[0];
     const metadata = latest.metadata as BSLMetadata | undefined;
     lastBSL = {
-      value: latest.value,
+      value: getBSLValueMmolL(latest),
       timestamp: new Date(latest.timestamp),
-      source: metadata?.source || 'manual'
+      source: metadata?.source || 'manual',
+      trendRate: metadata?.trendRate ?? calculateLastBSLTrendRate(bslEvents)
     };
   }
 
@@ -102,11 +152,38 @@ export function calculateMetabolicState(
     insulin,
     carbs,
     alcohol,
+    exercise,
     circadian,
+    conditions,
     lastBSL
   };
 }
 
+/**
+ * Rate of change at the latest reading, for readings stored without one
+ *
+ * @param bslEvents - BSL events up to the prediction time, newest first
+ * @returns Rate in mmol/L per minute, or undefined without enough recent readings
+ */
+function calculateLastBSLTrendRate(bslEvents: PhysiologicalEvent[]): number | undefined {
+  const readings = bslEvents
+    .map((e) => ({ timestamp: new Date(e.timestamp), value: getBSLValueMmolL(e) }))
+    .reverse();
+  return calculateBSLTrend(readings, readings.length - 1)?.rate;
+}
+
+/**
+ * Weight of the trend extrapolation in the momentum blend
+ *
+ * @returns 1 at the reading, falling to 0 at the momentum horizon (0 without a trend)
+ */
+function getMomentumWeight(state: MetabolicState, lastBSLTime: Date, targetTime: Date): number {
+  const minutesAhead = (targetTime.getTime() - lastBSLTime.getTime()) / (60 * 1000);
+  if (state.lastBSL?.trendRate === undefined) return 0;
+  if (minutesAhead < 0 || minutesAhead >= MOMENTUM_HORIZON_MINUTES) return 0;
+  return 1 - minutesAhead / MOMENTUM_HORIZON_MINUTES;
+}
+
 /**
  * Calculate prediction factors for BSL change
  *
@@ -123,12 +200,21 @@ export function calculatePredictionFactors(
   userParams: UserModelParameters = DEFAULT_USER_PARAMETERS
 ): BSLPredictionFactors {
   // Insulin effect: IOB * correction factor = BSL drop
-  // Adjusted for alcohol sensitivity
+  // Adjusted for alcohol sensitivity, and for sick days and cycle phases
+  // (needing 20% more insulin means each unit does 1/1.2 as much)
+  const sensitivityModifier =
+    state.alcohol.insulinSensitivityModifier / state.conditions.insulinNeedMultiplier;
   const insulinDropBase = estimateInsulinBSLEffect(
-    state.insulin.totalIOB,
+    state.insulin.totalIOB - state.insulin.netBasalIOB,
     userParams.correctionFactor
   );
-  const insulinEffect = -insulinDropBase * state.alcohol.insulinSensitivityModifier;
+  const insulinEffect = -insulinDropBase * sensitivityModifier;
+
+  // Net basal effect: temp basals above the schedule lower BSL, low temps and
+  // suspends (negative net IOB) let it rise
+  const basalEffect =
+    -estimateInsulinBSLEffect(state.insulin.netBasalIOB, userParams.correctionFactor) *
+    sensitivityModifier;
 
   // Carb effect: COB converted to equivalent insulin * CF = BSL rise
   const carbRise = estimateCarbBSLEffect(
@@ -144,6 +230,13 @@ export function calculatePredictionFactors(
   const alcoholEffect =
     state.alcohol.alcoholInSystem > 0 ? -state.alcohol.alcoholInSystem * 0.05 : 0;
 
+  // Exercise effect: muscle glucose uptake plus the extra drop from active
+  // insulin while sensitivity is raised (modifier < 1 = more sensitive)
+  const exerciseUptake = estimateExerciseBSLEffect(state.exercise, lastBSLTime, targetTime);
+  const exerciseSensitivityEffect =
+    (insulinEffect + basalEffect) * (1 / state.exercise.insulinSensitivityModifier - 1);
+  const exerciseEffect = exerciseUptake + exerciseSensitivityEffect;
+
   // Circadian drift (dawn phenomenon, etc.)
   const circadianAdjustment = estimateCircadianBSLDrift(lastBSLTime, targetTime);
 
@@ -151,12 +244,33 @@ export function calculatePredictionFactors(
   // Small positive drift if no insulin on board
   const baselineDrift = state.insulin.totalIOB < 0.5 ? 0.1 : 0;
 
+  // Momentum: close to the reading the current trend is a better guide than
+  // the model, so blend from the trend extrapolation towards the modelled change
+  let momentumEffect = 0;
+  const trendWeight = getMomentumWeight(state, lastBSLTime, targetTime);
+  if (trendWeight > 0) {
+    const modelledChange =
+      insulinEffect +
+      basalEffect +
+      carbEffect +
+      alcoholEffect +
+      exerciseEffect +
+      circadianAdjustment +
+      baselineDrift;
+    const minutesAhead = (targetTime.getTime() - lastBSLTime.getTime()) / (60 * 1000);
+    momentumEffect =
+      trendWeight * ((state.lastBSL?.trendRate ?? 0) * minutesAhead - modelledChange);
+  }
+
   return {
     insulinEffect,
+    basalEffect,
     carbEffect,
     alcoholEffect,
+    exerciseEffect,
     circadianAdjustment,
-    baselineDrift
+    baselineDrift,
+    momentumEffect
   };
 }
 
@@ -165,6 +279,7 @@ export function calculatePredictionFactors(
  *
  * @param minutesFromBaseline - Minutes since last known BSL
  * @param hasAlcohol - Whether alcohol is in system
+ * @param hasExercise - Whether recent exercise is still affecting BSL
  * @param hasRecentBSL - Whether we have a recent BSL reading
  * @param confidence - Base confidence level
  * @returns Lower and upper bounds multiplier
@@ -172,6 +287,7 @@ export function calculatePredictionFactors(
 function calculateConfidenceInterval(
   minutesFromBaseline: number,
   hasAlcohol: boolean,
+  hasExercise: boolean,
   hasRecentBSL: boolean,
   baseValue: number
 ): { lower: number; upper: number; confidence: number } {
@@ -185,6 +301,11 @@ function calculateConfidenceInterval(
     uncertainty += CONFIDENCE_PARAMS.alcoholUncertaintyBoost;
   }
 
+  // Exercise response varies with fitness, glycogen stores and timing
+  if (hasExercise) {
+    uncertainty += CONFIDENCE_PARAMS.exerciseUncertaintyBoost;
+  }
+
   // No recent BSL means we're less confident
   if (!hasRecentBSL) {
     uncertainty += CONFIDENCE_PARAMS.noRecentBSLPenalty;
@@ -204,21 +325,27 @@ function calculateConfidenceInterval(
 }
 
 /**
- * Predict BSL at a future time
- *
- * @param events - Event window with insulin, meals, BSL
- * @param targetTime - Time to predict BSL for
- * @param userParams - User-specific parameters
- * @returns BSL prediction with confidence interval
+ * Deterministic prediction from a metabolic state
  */
-export function predictBSL(
-  events: EventWindow,
-  targetTime: Date,
-  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS
-): BSLPrediction {
-  // Get current metabolic state
-  const state = calculateMetabolicState(events, targetTime, userParams);
+interface ModelPrediction {
+  predictedBSL: number;
+  currentBSL: number;
+  lastBSLTime: Date;
+  minutesFromBaseline: number;
+  factors: BSLPredictionFactors;
+  hasAlcohol: boolean;
+  hasExercise: boolean;
+  hasRecentBSL: boolean;
+}
 
+/**
+ * Run the model once with the user's parameters
+ */
+function calculateModelPrediction(
+  state: MetabolicState,
+  targetTime: Date,
+  userParams: UserModelParameters
+): ModelPrediction {
   // Determine baseline BSL
   const hasRecentBSL = state.lastBSL !== undefined;
   const currentBSL = state.lastBSL?.value ?? userParams.targetBSL;
@@ -231,27 +358,150 @@ export function predictBSL(
   // Sum all effects
   const totalChange =
     factors.insulinEffect +
+    factors.basalEffect +
     factors.carbEffect +
     factors.alcoholEffect +
+    factors.exerciseEffect +
     factors.circadianAdjustment +
-    factors.baselineDrift;
-
-  const predictedBSL = Math.max(2.0, currentBSL + totalChange); // Floor at 2.0 (severe hypo)
+    factors.baselineDrift +
+    factors.momentumEffect;
 
-  // Calculate confidence interval
-  const hasAlcohol = state.alcohol.alcoholInSystem > 0;
-  const { lower, upper, confidence } = calculateConfidenceInterval(
+  return {
+    predictedBSL: Math.max(MIN_PREDICTED_BSL, currentBSL + totalChange),
+    currentBSL,
+    lastBSLTime,
     minutesFromBaseline,
-    hasAlcohol,
-    hasRecentBSL,
-    predictedBSL
+    factors,
+    hasAlcohol: state.alcohol.alcoholInSystem > 0,
+    hasExercise: state.exercise.sessionContributions.length > 0,
+    hasRecentBSL
+  };
+}
+
+/**
+ * BSL change predicted by one ensemble member, before unmodelled variation
+ *
+ * Insulin effects scale with the member's correction factor; carbs on board
+ * are recalculated from the member's view of the meals. Momentum blends
+ * towards the trend, so it takes up part of any difference from the model.
+ */
+function calculateMemberChange(
+  model: ModelPrediction,
+  state: MetabolicState,
+  events: EventWindow,
+  member: EnsembleMember,
+  targetTime: Date,
+  userParams: UserModelParameters
+): number {
+  const { factors } = model;
+  const cfScale = member.correctionFactorScale;
+
+  const cob = calculateActiveCarbs(
+    perturbMealEvents(events.mealEvents, member, targetTime),
+    targetTime
+  ).totalCOB;
+  const carbEffect =
+    estimateCarbBSLEffect(
+      cob,
+      userParams.insulinToCarbRatio * member.insulinToCarbRatioScale,
+      userParams.correctionFactor * cfScale
+    ) / state.circadian.combinedFactor;
+
+  const insulinEffect = factors.insulinEffect * cfScale;
+  const basalEffect = factors.basalEffect * cfScale;
+  // Only the raised-sensitivity part of the exercise effect depends on the CF
+  const exerciseEffect =
+    factors.exerciseEffect +
+    (insulinEffect + basalEffect - factors.insulinEffect - factors.basalEffect) *
+      (1 / state.exercise.insulinSensitivityModifier - 1);
+
+  const otherEffects = factors.alcoholEffect + factors.circadianAdjustment + factors.baselineDrift;
+  const modelledChange = insulinEffect + basalEffect + carbEffect + exerciseEffect + otherEffects;
+  const baseModelledChange =
+    factors.insulinEffect +
+    factors.basalEffect +
+    factors.carbEffect +
+    factors.exerciseEffect +
+    otherEffects;
+
+  const momentumEffect =
+    factors.momentumEffect -
+    getMomentumWeight(state, model.lastBSLTime, targetTime) * (modelledChange - baseModelledChange);
+
+  return modelledChange + momentumEffect;
+}
+
+/**
+ * Confidence from the width of the 10th-90th percentile band
+ */
+function calculateBandConfidence(lower: number, upper: number): number {
+  return Math.max(0.2, 1 - (upper - lower) / (CONFIDENCE_PARAMS.maxUncertainty * 2));
+}
+
+/**
+ * Predict BSL at a future time
+ *
+ * @param events - Event window with insulin, meals, BSL
+ * @param targetTime - Time to predict BSL for
+ * @param userParams - User-specific parameters
+ * @param ensemble - Ensemble size and seed (memberCount 0 for a fixed-width interval)
+ * @returns BSL prediction with confidence interval
+ */
+export function predictBSL(
+  events: EventWindow,
+  targetTime: Date,
+  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
+  ensemble: PredictionEnsembleOptions = {}
+): BSLPrediction {
+  // Get current metabolic state
+  const state = calculateMetabolicState(events, targetTime, userParams);
+  const model = calculateModelPrediction(state, targetTime, userParams);
+  const { predictedBSL, currentBSL, factors } = model;
+
+  const members = sampleEnsembleMembers(events.mealEvents, ensemble);
+  if (members.length === 0) {
+    const { lower, upper, confidence } = calculateConfidenceInterval(
+      model.minutesFromBaseline,
+      model.hasAlcohol,
+      model.hasExercise,
+      model.hasRecentBSL,
+      predictedBSL
+    );
+    return {
+      predictedBSL,
+      currentBSL,
+      confidenceInterval: [Math.max(MIN_PREDICTED_BSL, lower), upper],
+      confidence,
+      factors,
+      predictionTime: new Date(),
+      targetTime
+    };
+  }
+
+  // Unmodelled variation since the reading, plus more without one
+  const noiseSd = Math.hypot(
+    getEnsembleNoiseSd(model.minutesFromBaseline, model),
+    model.hasRecentBSL ? 0 : ENSEMBLE_PARAMS.noRecentBSLSd
   );
+  const values = members
+    .map((member) =>
+      Math.max(
+        MIN_PREDICTED_BSL,
+        currentBSL +
+          calculateMemberChange(model, state, events, member, targetTime, userParams) +
+          member.readingError +
+          noiseSd * sampleStandardNormal(member.random)
+      )
+    )
+    .sort((a, b) => a - b);
+  const percentiles = summarisePercentiles(values);
 
   return {
     predictedBSL,
     currentBSL,
-    confidenceInterval: [Math.max(2.0, lower), upper],
-    confidence,
+    confidenceInterval: [percentiles.p10, percentiles.p90],
+    confidence: calculateBandConfidence(percentiles.p10, percentiles.p90),
+    percentiles,
     factors,
     predictionTime: new Date(),
     targetTime
@@ -261,33 +511,92 @@ export function predictBSL(
 /**
  * Generate BSL time series for charting
  *
+ * Each ensemble member follows its own path through the series, so the
+ * bands at neighbouring points are consistent.
+ *
  * @param events - Event window
  * @param startTime - Start of prediction window
  * @param endTime - End of prediction window
  * @param userParams - User parameters
  * @param resolutionMinutes - Time step (default 5 minutes)
- * @returns BSL time series with predictions at each point
+ * @param ensemble - Ensemble size and seed (memberCount 0 for fixed-width bands)
+ * @returns BSL time series with 10/50/90 percentile bands at each point
  */
 export function generateBSLTimeSeries(
   events: EventWindow,
   startTime: Date,
   endTime: Date,
   userParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
-  resolutionMinutes: number = 5
+  resolutionMinutes: number = 5,
+  ensemble: PredictionEnsembleOptions = {}
 ): BSLTimeSeries {
   const points: BSLTimeSeriesPoint[] = [];
   const stepMs = resolutionMinutes * 60 * 1000;
 
+  const members = sampleEnsembleMembers(events.mealEvents, ensemble);
+  // Unmodelled variation accumulated by each member since the reading
+  const walks = members.map(() => 0);
+  let walkReadingTime: number | undefined;
+  let walkMinutes = 0;
+
   for (let t = startTime.getTime(); t <= endTime.getTime(); t += stepMs) {
     const timestamp = new Date(t);
-    const prediction = predictBSL(events, timestamp, userParams);
     const state = calculateMetabolicState(events, timestamp, userParams);
+    const model = calculateModelPrediction(state, timestamp, userParams);
+
+    if (members.length === 0) {
+      const { lower, upper } = calculateConfidenceInterval(
+        model.minutesFromBaseline,
+        model.hasAlcohol,
+        model.hasExercise,
+        model.hasRecentBSL,
+        model.predictedBSL
+      );
+      points.push({
+        timestamp,
+        predictedBSL: model.predictedBSL,
+        lowerBound: Math.max(MIN_PREDICTED_BSL, lower),
+        upperBound: upper,
+        median: model.predictedBSL,
+        state
+      });
+      continue;
+    }
+
+    // Continue each walk from the previous point, or start afresh from a new reading
+    const readingTime = model.lastBSLTime.getTime();
+    const minutes = Math.max(0, model.minutesFromBaseline);
+    const restart = readingTime !== walkReadingTime;
+    const stepSd = restart
+      ? Math.hypot(
+          getEnsembleNoiseSd(minutes, model),
+          model.hasRecentBSL ? 0 : ENSEMBLE_PARAMS.noRecentBSLSd
+        )
+      : getEnsembleNoiseSd(Math.max(0, minutes - walkMinutes), model);
+    walkReadingTime = readingTime;
+    walkMinutes = minutes;
+
+    const samples = members
+      .map((member, i) => {
+        walks[i] = (restart ? 0 : walks[i]) + stepSd * sampleStandardNormal(member.random);
+        return Math.max(
+          MIN_PREDICTED_BSL,
+          model.currentBSL +
+            calculateMemberChange(model, state, events, member, timestamp, userParams) +
+            member.readingError +
+            walks[i]
+        );
+      })
+      .sort((a, b) => a - b);
+    const percentiles = summarisePercentiles(samples);
 
     points.push({
       timestamp,
-      predictedBSL: prediction.predictedBSL,
-      lowerBound: prediction.confidenceInterval[0],
-      upperBound: prediction.confidenceInterval[1],
+      predictedBSL: model.predictedBSL,
+      lowerBound: percentiles.p10,
+      upperBound: percentiles.p90,
+      median: percentiles.p50,
+      samples,
       state
     });
   }
@@ -313,19 +622,23 @@ export function buildEventWindow(
   startTime: Date,
   endTime: Date
 ): EventWindow {
-  // For insulin and meals, look back further (they have lasting effects)
-  const insulinLookback = 24 * 60 * 60 * 1000; // 24 hours
-  const mealLookback = 6 * 60 * 60 * 1000; // 6 hours
+  // For insulin, meals and exercise, look back further (they have lasting effects)
+  const insulinLookback = INSULIN_LOOKBACK_MS; // Longest acting product
+  const mealLookback = 10 * 60 * 60 * 1000; // 10 hours (fat and protein absorb late)
+  const exerciseLookback = EXERCISE_LOOKBACK_MS; // 24 hours (delayed sensitivity)
   const bslLookback = 12 * 60 * 60 * 1000; // 12 hours
+  const ketoneLookback = 12 * 60 * 60 * 1000; // 12 hours
 
   const insulinStart = new Date(startTime.getTime() - insulinLookback);
   const mealStart = new Date(startTime.getTime() - mealLookback);
+  const exerciseStart = new Date(startTime.getTime() - exerciseLookback);
   const bslStart = new Date(startTime.getTime() - bslLookback);
+  const ketoneStart = new Date(startTime.getTime() - ketoneLookback);
 
   return {
     insulinEvents: events.filter(
       (e) =>
-        e.eventType === 'insulin' &&
+        (e.eventType === 'insulin' || e.eventType === 'temp-basal') &&
         new Date(e.timestamp) >= insulinStart &&
         new Date(e.timestamp) <= endTime
     ),
@@ -335,12 +648,31 @@ export function buildEventWindow(
         new Date(e.timestamp) >= mealStart &&
         new Date(e.timestamp) <= endTime
     ),
+    exerciseEvents: events.filter(
+      (e) =>
+        e.eventType === 'exercise' &&
+        new Date(e.timestamp) >= exerciseStart &&
+        new Date(e.timestamp) <= endTime
+    ),
     bslEvents: events.filter(
       (e) =>
         e.eventType === 'bsl' &&
         new Date(e.timestamp) >= bslStart &&
         new Date(e.timestamp) <= endTime
     ),
+    // Sick days and cycle phases run for days: keep any still running at the start
+    conditionEvents: events.filter(
+      (e) =>
+        e.eventType === 'condition' &&
+        new Date(e.timestamp) <= endTime &&
+        getConditionEndTime(e) > startTime
+    ),
+    ketoneEvents: events.filter(
+      (e) =>
+        e.eventType === 'ketone' &&
+        new Date(e.timestamp) >= ketoneStart &&
+        new Date(e.timestamp) <= endTime
+    ),
     startTime,
     endTime
   };
@@ -365,7 +697,8 @@ export function estimateTimeToTarget(
   const maxTime = new Date(now.getTime() + maxHours * 60 * 60 * 1000);
   const stepMs = 5 * 60 * 1000; // 5 minute steps
 
-  const currentPrediction = predictBSL(events, now, userParams);
+  // Only the predicted value is needed, so skip the ensemble
+  const currentPrediction = predictBSL(events, now, userParams, { memberCount: 0 });
 
   // Check if we're already at target
   if (Math.abs(currentPrediction.predictedBSL - targetBSL) < 0.5) {
@@ -375,7 +708,7 @@ export function estimateTimeToTarget(
   const goingDown = currentPrediction.predictedBSL > targetBSL;
 
   for (let t = now.getTime() + stepMs; t <= maxTime.getTime(); t += stepMs) {
-    const prediction = predictBSL(events, new Date(t), userParams);
+    const prediction = predictBSL(events, new Date(t), userParams, { memberCount: 0 });
 
     // Check if we've crossed the target
     if (goingDown && prediction.predictedBSL <= targetBSL) {
@@ -389,6 +722,29 @@ export function estimateTimeToTarget(
   return null; // Won't reach target in time window
 }
 
+/**
+ * Probability of BSL being beyond a threshold at a time series point
+ * Uses the ensemble members, or a normal approximation of the band without them.
+ */
+function calculateExceedanceProbability(
+  point: BSLTimeSeriesPoint,
+  threshold: number,
+  direction: 'below' | 'above'
+): number {
+  if (point.samples && point.samples.length > 0) {
+    const beyond = point.samples.filter((value) =>
+      direction === 'below' ? value < threshold : value > threshold
+    );
+    return beyond.length / point.samples.length;
+  }
+
+  // The band spans the 10th-90th percentiles, 2.56 standard deviations
+  const sd = (point.upperBound - point.lowerBound) / 2.563;
+  const below =
+    sd > 0 ? standardNormalCdf((threshold - point.median) / sd) : Number(point.median < threshold);
+  return direction === 'below' ? below : 1 - below;
+}
+
 /**
  * Check for predicted hypo/hyper events
  *
@@ -401,23 +757,11 @@ export function checkForAlerts(
   timeSeries: BSLTimeSeries,
   hypoThreshold: number = 4.0,
   hyperThreshold: number = 10.0
-): Array<{
-  type: 'hypo' | 'hyper';
-  predictedTime: Date;
-  predictedBSL: number;
-  confidence: number;
-  severity: 'warning' | 'alert' | 'urgent';
-}> {
-  const alerts: Array<{
-    type: 'hypo' | 'hyper';
-    predictedTime: Date;
-    predictedBSL: number;
-    confidence: number;
-    severity: 'warning' | 'alert' | 'urgent';
-  }> = [];
+): PredictedAlert[] {
+  const alerts: PredictedAlert[] = [];
 
   for (const point of timeSeries.points) {
-    // Check lower bound for hypo (more conservative)
+    // Check lower bound for hypo (more conservative): at least 10% of members low
     if (point.lowerBound < hypoThreshold) {
       let severity: 'warning' | 'alert' | 'urgent' = 'warning';
       if (point.predictedBSL < 3.5) severity = 'urgent';
@@ -427,8 +771,7 @@ export function checkForAlerts(
         type: 'hypo',
         predictedTime: point.timestamp,
         predictedBSL: point.predictedBSL,
-        confidence:
-          1 - (point.upperBound - point.lowerBound) / (CONFIDENCE_PARAMS.maxUncertainty * 2),
+        probability: calculateExceedanceProbability(point, hypoThreshold, 'below'),
         severity
       });
     }
@@ -443,8 +786,7 @@ export function checkForAlerts(
         type: 'hyper',
         predictedTime: point.timestamp,
         predictedBSL: point.predictedBSL,
-        confidence:
-          1 - (point.upperBound - point.lowerBound) / (CONFIDENCE_PARAMS.maxUncertainty * 2),
+        probability: calculateExceedanceProbability(point, hyperThreshold, 'above'),
         severity
       });
     }
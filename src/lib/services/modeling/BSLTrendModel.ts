@@ -0,0 +1,145 @@
+/**
+ * BSL Trend Model
+ *
+ * Rate of change and trend arrow for any BSL reading. CGM APIs report their
+ * own trend; this provides the same for CSV imports, screenshot captures and
+ * manual entries.
+ *
+ * - The rate is the least-squares slope of the readings in the window ending
+ *   at the reading, which smooths out sensor noise and display rounding
+ * - Only the reading and earlier readings are used, so a stored trend never
+ *   depends on data that arrived later and predictions stay causal
+ * - A gap longer than `maxGapMinutes` between consecutive readings ends the
+ *   window. Fewer than two readings, or a span shorter than
+ *   `minSpanMinutes`, gives no trend.
+ * - Rates are capped at a physiological maximum so two finger-pricks a
+ *   few minutes apart cannot produce an extreme trend
+ *
+ * Arrows use the Dexcom rate bands of 1, 2 and 3 mg/dL/min.
+ */
+
+import type { CGMTrendDirection } from '../../types/cgm-api';
+import type { PhysiologicalEvent } from '../../types/events';
+import type { BSLTrend, BSLTrendOptions } from '../../types/modeling';
+
+import { MGDL_PER_MMOL, getBSLValueMmolL } from '../../utils/bslUnits';
+
+/**
+ * Trend arrow bands (mmol/L per minute)
+ */
+export const TREND_RATE_THRESHOLDS = {
+  slow: 1 / MGDL_PER_MMOL, // 1 mg/dL/min
+  moderate: 2 / MGDL_PER_MMOL, // 2 mg/dL/min
+  fast: 3 / MGDL_PER_MMOL // 3 mg/dL/min
+};
+
+/**
+ * Fastest plausible rate of change (mmol/L per minute, about 6 mg/dL/min)
+ */
+const MAX_RATE = 0.33;
+
+/**
+ * Default trend window. A changed reading can affect the trend of readings
+ * up to this long after it.
+ */
+export const DEFAULT_TREND_WINDOW_MINUTES = 15;
+const DEFAULT_MAX_GAP_MINUTES = 20;
+const DEFAULT_MIN_SPAN_MINUTES = 4;
+
+/**
+ * Classify a rate of change as a trend arrow
+ *
+ * @param rate - Rate of change in mmol/L per minute
+ * @returns Trend direction
+ */
+export function classifyTrend(rate: number): CGMTrendDirection {
+  if (!Number.isFinite(rate)) return 'unknown';
+
+  const magnitude = Math.abs(rate);
+  if (magnitude < TREND_RATE_THRESHOLDS.slow) return 'stable';
+
+  const rising = rate > 0;
+  if (magnitude < TREND_RATE_THRESHOLDS.moderate) return rising ? 'rising-slow' : 'falling-slow';
+  if (magnitude < TREND_RATE_THRESHOLDS.fast) return rising ? 'rising' : 'falling';
+  return rising ? 'rising-fast' : 'falling-fast';
+}
+
+/**
+ * Calculate the trend at one reading from it and the readings before it
+ *
+ * @param readings - Readings in mmol/L, oldest first
+ * @param index - Index of the reading to calculate the trend for
+ * @param options - Window and gap handling
+ * @returns Trend, or null if there are too few recent readings
+ */
+export function calculateBSLTrend(
+  readings: Array<{ timestamp: Date; value: number }>,
+  index: number,
+  options: BSLTrendOptions = {}
+): BSLTrend | null {
+  const windowMs = (options.windowMinutes ?? DEFAULT_TREND_WINDOW_MINUTES) * 60 * 1000;
+  const maxGapMs = (options.maxGapMinutes ?? DEFAULT_MAX_GAP_MINUTES) * 60 * 1000;
+  const minSpanMinutes = options.minSpanMinutes ?? DEFAULT_MIN_SPAN_MINUTES;
+
+  const current = readings[index];
+  if (!current) return null;
+  const endMs = current.timestamp.getTime();
+
+  // Walk back until the window or a gap ends it
+  let first = index;
+  while (first > 0) {
+    const previousMs = readings[first - 1].timestamp.getTime();
+    if (endMs - previousMs > windowMs) break;
+    if (readings[first].timestamp.getTime() - previousMs > maxGapMs) break;
+    first--;
+  }
+
+  const used = readings.slice(first, index + 1);
+  const spanMinutes = (endMs - used[0].timestamp.getTime()) / (60 * 1000);
+  if (used.length < 2 || spanMinutes < minSpanMinutes) return null;
+
+  // Least-squares slope against minutes before the reading
+  const xs = used.map((r) => (r.timestamp.getTime() - endMs) / (60 * 1000));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = used.reduce((sum, r) => sum + r.value, 0) / used.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  used.forEach((reading, i) => {
+    covariance += (xs[i] - meanX) * (reading.value - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+  });
+  if (varianceX === 0) return null;
+
+  const rate = Math.max(-MAX_RATE, Math.min(MAX_RATE, covariance / varianceX));
+
+  return {
+    trend: classifyTrend(rate),
+    rate,
+    readingCount: used.length,
+    spanMinutes
+  };
+}
+
+/**
+ * Calculate the trend at every BSL reading
+ *
+ * @param events - Events (non-BSL events are ignored)
+ * @param options - Window and gap handling
+ * @returns Trend by event id, null where there is not enough data
+ */
+export function calculateBSLTrends(
+  events: PhysiologicalEvent[],
+  options: BSLTrendOptions = {}
+): Map<string, BSLTrend | null> {
+  const readings = events
+    .filter((e) => e.eventType === 'bsl')
+    .map((e) => ({ id: e.id, timestamp: new Date(e.timestamp), value: getBSLValueMmolL(e) }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const trends = new Map<string, BSLTrend | null>();
+  readings.forEach((reading, index) => {
+    trends.set(reading.id, calculateBSLTrend(readings, index, options));
+  });
+  return trends;
+}
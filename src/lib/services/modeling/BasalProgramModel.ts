@@ -0,0 +1,209 @@
+/**
+ * Basal Program Model
+ *
+ * Models pump basal delivery: a daily schedule of rates per time block,
+ * temp basals (a percentage of the scheduled rate or an absolute rate) and
+ * suspends.
+ *
+ * The scheduled basal is assumed to balance the liver's glucose output, so
+ * it has no effect on its own. Only the deviation from the schedule matters:
+ * a high temp basal delivers extra insulin, a low temp basal or suspend
+ * delivers less, which acts as negative insulin on board. This is the net
+ * basal IOB used by Loop and OpenAPS.
+ *
+ * A temp basal runs from its timestamp for its duration, or until the next
+ * temp basal starts. Long-acting injected basal is modelled separately as
+ * insulin doses (see InsulinDecayModel).
+ */
+
+import type { PhysiologicalEvent, TempBasalMetadata } from '../../types/events';
+import type { BasalScheduleBlock } from '../../types/settings';
+
+/**
+ * Time step used to integrate basal deviations
+ */
+export const BASAL_STEP_MINUTES = 5;
+
+/**
+ * Allowed range for scheduled and absolute temp basal rates (units per hour)
+ */
+export const BASAL_RATE_LIMITS: [number, number] = [0, 35];
+
+/**
+ * Parse an 'HH:mm' block start time into minutes since midnight
+ */
+function parseBlockTime(startTime: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(startTime);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Scheduled basal rate at a time of day
+ * Before the first block start, the last block wraps around midnight.
+ *
+ * @param schedule - Basal schedule blocks
+ * @param atTime - Time to look up (only the local time of day is used)
+ * @returns Rate in units per hour (0 without a schedule)
+ */
+export function getScheduledBasalRate(
+  schedule: BasalScheduleBlock[] | undefined,
+  atTime: Date
+): number {
+  if (!schedule || schedule.length === 0) return 0;
+
+  const minutes = atTime.getHours() * 60 + atTime.getMinutes();
+  const sorted = [...schedule].sort(
+    (a, b) => (parseBlockTime(a.startTime) ?? 0) - (parseBlockTime(b.startTime) ?? 0)
+  );
+
+  let active = sorted[sorted.length - 1];
+  for (const block of sorted) {
+    if ((parseBlockTime(block.startTime) ?? 0) <= minutes) {
+      active = block;
+    }
+  }
+  return active.ratePerHour;
+}
+
+/**
+ * Total scheduled basal over a day
+ *
+ * @param schedule - Basal schedule blocks
+ * @returns Units per day
+ */
+export function getDailyBasalTotal(schedule: BasalScheduleBlock[] | undefined): number {
+  if (!schedule || schedule.length === 0) return 0;
+
+  const sorted = [...schedule]
+    .map((block) => ({ start: parseBlockTime(block.startTime) ?? 0, rate: block.ratePerHour }))
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.reduce((total, block, i) => {
+    const end = i + 1 < sorted.length ? sorted[i + 1].start : 24 * 60;
+    return total + (block.rate * (end - block.start)) / 60;
+  }, 0);
+}
+
+/**
+ * Validate a basal schedule
+ *
+ * @param schedule - Basal schedule blocks
+ * @returns Error messages (empty if valid)
+ */
+export function validateBasalSchedule(schedule: BasalScheduleBlock[]): string[] {
+  const errors: string[] = [];
+  const [minRate, maxRate] = BASAL_RATE_LIMITS;
+  const startMinutes = new Set<number>();
+
+  for (const block of schedule) {
+    const minutes = parseBlockTime(block.startTime);
+    if (minutes === null) {
+      errors.push(`Invalid basal start time "${block.startTime}"`);
+      continue;
+    }
+    if (startMinutes.has(minutes)) {
+      errors.push(`Two basal blocks start at ${block.startTime}`);
+    }
+    startMinutes.add(minutes);
+
+    if (
+      !Number.isFinite(block.ratePerHour) ||
+      block.ratePerHour < minRate ||
+      block.ratePerHour > maxRate
+    ) {
+      errors.push(`${block.startTime}: basal rate must be ${minRate}-${maxRate} units/hour`);
+    }
+  }
+
+  if (schedule.length > 0 && !startMinutes.has(0)) {
+    errors.push('The first basal block must start at 00:00');
+  }
+
+  return errors;
+}
+
+/**
+ * Delivered basal rate while a temp basal runs
+ *
+ * @param event - Temp basal event
+ * @param scheduledRate - Scheduled rate at the time (units per hour)
+ * @returns Delivered rate in units per hour
+ */
+export function getTempBasalRate(event: PhysiologicalEvent, scheduledRate: number): number {
+  const metadata = event.metadata as Partial<TempBasalMetadata>;
+  switch (metadata.mode) {
+    case 'suspend':
+      return 0;
+    case 'absolute':
+      return Math.max(0, event.value);
+    case 'percent':
+      return (scheduledRate * Math.max(0, event.value)) / 100;
+    default:
+      return scheduledRate;
+  }
+}
+
+/**
+ * Find the temp basal running at a time
+ *
+ * @param tempBasals - Temp basal events, oldest first
+ * @param atTime - Time to look up (ms)
+ * @returns Running temp basal, or undefined if the schedule applies
+ */
+function findRunningTempBasal(
+  tempBasals: PhysiologicalEvent[],
+  atTime: number
+): PhysiologicalEvent | undefined {
+  let latest: PhysiologicalEvent | undefined;
+  for (const event of tempBasals) {
+    if (new Date(event.timestamp).getTime() > atTime) break;
+    latest = event;
+  }
+  if (!latest) return undefined;
+
+  const durationMinutes = (latest.metadata as Partial<TempBasalMetadata>).durationMinutes ?? 0;
+  const endsAt = new Date(latest.timestamp).getTime() + durationMinutes * 60 * 1000;
+  return atTime < endsAt ? latest : undefined;
+}
+
+/**
+ * Net basal deliveries relative to the schedule, in steps
+ * Each step's deviation is treated as a small dose at the step midpoint.
+ *
+ * @param events - Events (only temp basal events are used)
+ * @param schedule - Basal schedule
+ * @param startTime - Start of the period
+ * @param endTime - End of the period
+ * @returns Net doses in units (negative while delivering less than scheduled)
+ */
+export function calculateNetBasalDoses(
+  events: PhysiologicalEvent[],
+  schedule: BasalScheduleBlock[] | undefined,
+  startTime: Date,
+  endTime: Date
+): Array<{ timestamp: Date; units: number }> {
+  if (!schedule || schedule.length === 0) return [];
+
+  const tempBasals = events
+    .filter((e) => e.eventType === 'temp-basal')
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (tempBasals.length === 0) return [];
+
+  const doses: Array<{ timestamp: Date; units: number }> = [];
+  const stepMs = BASAL_STEP_MINUTES * 60 * 1000;
+
+  for (let t = startTime.getTime(); t + stepMs <= endTime.getTime(); t += stepMs) {
+    const midpoint = t + stepMs / 2;
+    const tempBasal = findRunningTempBasal(tempBasals, midpoint);
+    if (!tempBasal) continue;
+
+    const scheduledRate = getScheduledBasalRate(schedule, new Date(midpoint));
+    const netRate = getTempBasalRate(tempBasal, scheduledRate) - scheduledRate;
+    if (netRate === 0) continue;
+
+    doses.push({ timestamp: new Date(midpoint), units: (netRate * BASAL_STEP_MINUTES) / 60 });
+  }
+
+  return doses;
+}
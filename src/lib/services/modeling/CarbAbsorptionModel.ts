@@ -8,6 +8,12 @@
  * - High GI foods: peak 30-45min, duration 2-3hr
  * - Medium GI foods: peak 45-60min, duration 3-4hr
  * - Low GI foods: peak 60-90min, duration 4-5hr
+ *
+ * Fat and protein are converted to Fat-Protein Units (Warsaw method,
+ * Pańkowska et al. 2009): 1 FPU is 100 kcal from fat and protein and acts
+ * like 10g of carbs that start absorbing about 90 minutes after the meal
+ * and absorb evenly over 3-8 hours depending on the FPU count. This models
+ * the late rise after meals such as pizza.
  */
 
 import type { PhysiologicalEvent, MealMetadata } from '../../types/events';
@@ -15,6 +21,7 @@ import type {
   CarbAbsorptionParams,
   CarbAbsorptionPoint,
   ActiveCarbsResult,
+  FatProteinAbsorption,
   MealContribution
 } from '../../types/modeling';
 
@@ -50,6 +57,18 @@ export const GI_ESTIMATES: Record<string, number> = {
   mixed: 55 // Mixed meals tend to be lower GI
 };
 
+/**
+ * Fat-Protein Unit conversion (Warsaw method)
+ */
+export const FPU_PARAMS = {
+  kcalPerFPU: 100,
+  carbsPerFPU: 10, // grams of carb equivalent per FPU
+  kcalPerGramFat: 9,
+  kcalPerGramProtein: 4,
+  minFPU: 1, // Smaller amounts are ignored
+  delayMinutes: 90 // Fat slows gastric emptying, so the rise starts late
+};
+
 /**
  * Calculate absorption parameters based on glycemic index
  */
@@ -215,8 +234,94 @@ export function generateAbsorptionCurve(
   return points;
 }
 
+/**
+ * Calculate Fat-Protein Units for a meal
+ *
+ * @param fat - Fat in grams
+ * @param protein - Protein in grams
+ * @returns FPU count (unrounded)
+ */
+export function calculateFatProteinUnits(fat: number = 0, protein: number = 0): number {
+  const kcal =
+    Math.max(0, fat) * FPU_PARAMS.kcalPerGramFat +
+    Math.max(0, protein) * FPU_PARAMS.kcalPerGramProtein;
+  return kcal / FPU_PARAMS.kcalPerFPU;
+}
+
+/**
+ * Absorption time for fat and protein
+ * 1 FPU -> 3hr, 2 FPU -> 4hr, 3 FPU -> 5hr, 4+ FPU -> 8hr
+ *
+ * @param fatProteinUnits - FPU count
+ * @returns Absorption duration in minutes (after the delay)
+ */
+export function getFatProteinAbsorptionMinutes(fatProteinUnits: number): number {
+  if (fatProteinUnits < 2) return 180;
+  if (fatProteinUnits < 3) return 240;
+  if (fatProteinUnits < 4) return 300;
+  return 480;
+}
+
+/**
+ * Delayed carb equivalents from a meal's fat and protein
+ *
+ * @param fat - Fat in grams
+ * @param protein - Protein in grams
+ * @returns Absorption profile, or null below the minimum FPU
+ */
+export function getFatProteinAbsorption(
+  fat: number = 0,
+  protein: number = 0
+): FatProteinAbsorption | null {
+  const fatProteinUnits = calculateFatProteinUnits(fat, protein);
+  if (fatProteinUnits < FPU_PARAMS.minFPU) return null;
+
+  return {
+    fatProteinUnits,
+    carbEquivalents: fatProteinUnits * FPU_PARAMS.carbsPerFPU,
+    delayMinutes: FPU_PARAMS.delayMinutes,
+    durationMinutes: getFatProteinAbsorptionMinutes(fatProteinUnits)
+  };
+}
+
+/**
+ * Calculate fat-protein absorption at a given time point
+ * Nothing is absorbed during the delay, then absorption is linear
+ *
+ * @param minutesFromMeal - Minutes since meal was eaten
+ * @param absorption - Fat-protein absorption profile
+ * @returns Absorption point in carb equivalents
+ */
+export function calculateFatProteinAbsorption(
+  minutesFromMeal: number,
+  absorption: FatProteinAbsorption
+): CarbAbsorptionPoint {
+  const { carbEquivalents, delayMinutes, durationMinutes } = absorption;
+  const minutesAbsorbing = minutesFromMeal - delayMinutes;
+
+  if (minutesAbsorbing < 0 || minutesAbsorbing >= durationMinutes) {
+    const complete = minutesAbsorbing >= durationMinutes;
+    return {
+      minutesFromMeal,
+      absorptionRate: 0,
+      carbsOnBoard: complete ? 0 : carbEquivalents,
+      carbsAbsorbed: complete ? carbEquivalents : 0
+    };
+  }
+
+  const carbsAbsorbed = (carbEquivalents * minutesAbsorbing) / durationMinutes;
+
+  return {
+    minutesFromMeal,
+    absorptionRate: carbEquivalents / (durationMinutes / 60),
+    carbsOnBoard: carbEquivalents - carbsAbsorbed,
+    carbsAbsorbed
+  };
+}
+
 /**
  * Calculate active carbs from multiple meals
+ * Includes carb equivalents from fat and protein
  *
  * @param mealEvents - Array of meal events
  * @param atTime - Time to calculate COB at
@@ -228,6 +333,7 @@ export function calculateActiveCarbs(
 ): ActiveCarbsResult {
   const mealContributions: MealContribution[] = [];
   let totalCOB = 0;
+  let fatProteinCOB = 0;
   let totalAbsorptionRate = 0;
   let latestAbsorptionComplete = atTime;
 
@@ -235,10 +341,11 @@ export function calculateActiveCarbs(
     if (event.eventType !== 'meal') continue;
 
     const metadata = event.metadata as MealMetadata | undefined;
-    const carbs = metadata?.carbs ?? event.value;
+    const carbs = Math.max(0, metadata?.carbs ?? event.value) || 0;
+    const fatProtein = getFatProteinAbsorption(metadata?.fat, metadata?.protein);
 
-    // Skip meals with no carbs
-    if (!carbs || carbs <= 0) continue;
+    // Skip meals with nothing to absorb
+    if (carbs <= 0 && !fatProtein) continue;
 
     const mealTime = new Date(event.timestamp);
     const minutesSinceMeal = (atTime.getTime() - mealTime.getTime()) / (1000 * 60);
@@ -250,16 +357,31 @@ export function calculateActiveCarbs(
     const glycemicIndex = estimateGlycemicIndex(metadata?.description);
     const params = getAbsorptionParams(glycemicIndex);
 
+    const mealDurationMinutes = Math.max(
+      carbs > 0 ? params.durationMinutes : 0,
+      fatProtein ? fatProtein.delayMinutes + fatProtein.durationMinutes : 0
+    );
+
     // Skip if meal is fully absorbed
-    if (minutesSinceMeal >= params.durationMinutes) continue;
+    if (minutesSinceMeal >= mealDurationMinutes) continue;
+
+    const absorption =
+      carbs > 0 ? calculateCarbAbsorption(minutesSinceMeal, carbs, glycemicIndex) : null;
+    const fatProteinAbsorption = fatProtein
+      ? calculateFatProteinAbsorption(minutesSinceMeal, fatProtein)
+      : null;
 
-    const absorption = calculateCarbAbsorption(minutesSinceMeal, carbs, glycemicIndex);
+    const remainingCOB =
+      (absorption?.carbsOnBoard ?? 0) + (fatProteinAbsorption?.carbsOnBoard ?? 0);
+    const absorptionRate =
+      (absorption?.absorptionRate ?? 0) + (fatProteinAbsorption?.absorptionRate ?? 0);
 
-    totalCOB += absorption.carbsOnBoard;
-    totalAbsorptionRate += absorption.absorptionRate;
+    totalCOB += remainingCOB;
+    fatProteinCOB += fatProteinAbsorption?.carbsOnBoard ?? 0;
+    totalAbsorptionRate += absorptionRate;
 
     // Calculate when this meal will be fully absorbed
-    const remainingMinutes = params.durationMinutes - minutesSinceMeal;
+    const remainingMinutes = mealDurationMinutes - minutesSinceMeal;
     const absorptionComplete = new Date(atTime.getTime() + remainingMinutes * 60 * 1000);
     if (absorptionComplete > latestAbsorptionComplete) {
       latestAbsorptionComplete = absorptionComplete;
@@ -269,10 +391,12 @@ export function calculateActiveCarbs(
       mealId: event.id,
       timestamp: mealTime,
       originalCarbs: carbs,
-      remainingCOB: absorption.carbsOnBoard,
-      absorptionRate: absorption.absorptionRate,
+      remainingCOB,
+      absorptionRate,
       minutesSinceMeal,
-      glycemicIndex
+      glycemicIndex,
+      fatProteinUnits: fatProtein?.fatProteinUnits,
+      remainingFatProteinCOB: fatProteinAbsorption?.carbsOnBoard
     });
   }
 
@@ -280,6 +404,7 @@ export function calculateActiveCarbs(
     totalCOB,
     absorptionRate: totalAbsorptionRate,
     mealContributions,
+    fatProteinCOB,
     estimatedAbsorptionComplete: latestAbsorptionComplete
   };
 }
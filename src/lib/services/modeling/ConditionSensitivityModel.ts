@@ -0,0 +1,161 @@
+/**
+ * Condition Sensitivity Model
+ *
+ * Models the longer-running shifts in insulin need that the meal, alcohol
+ * and exercise models do not cover:
+ * - Sick days: illness raises stress hormones, so more insulin is needed
+ *   (often 10-50% more) and ketones can build up even with normal BSL
+ * - Menstrual cycle: many people need more insulin in the luteal phase as
+ *   progesterone rises, then return to baseline once a period starts
+ *
+ * Each condition is a multiplier on insulin need: 1.2 means 20% more insulin
+ * for the same carbs or correction, i.e. each unit lowers BSL by 1/1.2 as
+ * much. The multiplier for an event is, in order of preference, the one
+ * logged with the event, the user's (or fitted) value for the condition, or
+ * the default below.
+ *
+ * Only the latest sick day and the latest cycle phase apply; a newly logged
+ * phase replaces the previous one. A sick day and a phase multiply together.
+ *
+ * References:
+ * - ISPAD Clinical Practice Consensus Guidelines 2022: Sick day management
+ * - Trout et al. - Menstrual cycle effects on insulin sensitivity in women
+ *   with type 1 diabetes
+ */
+
+import type {
+  ConditionMetadata,
+  PhysiologicalEvent,
+  SensitivityConditionKey
+} from '../../types/events';
+import type { SensitivityMultipliers } from '../../types/settings';
+import type { ConditionContribution, ConditionState } from '../../types/modeling';
+
+/**
+ * Default insulin need multipliers (1.0 = no change)
+ * Individuals vary widely; the luteal rise is absent for some people.
+ */
+export const DEFAULT_SENSITIVITY_MULTIPLIERS: Record<SensitivityConditionKey, number> = {
+  'sick-day': 1.25,
+  menstrual: 1.0,
+  follicular: 1.0,
+  ovulatory: 1.05,
+  luteal: 1.15
+};
+
+/**
+ * Sick day and cycle phase parameters
+ */
+export const CONDITION_PARAMS = {
+  minMultiplier: 0.5, // Half the usual insulin
+  maxMultiplier: 2.0, // Double the usual insulin
+  defaultSickDayHours: 24,
+  defaultCyclePhaseHours: 7 * 24
+};
+
+/**
+ * Multiplier key for a condition event
+ *
+ * @param event - Condition event
+ * @returns Sick day or cycle phase key, or null for incomplete metadata
+ */
+export function getConditionKey(event: PhysiologicalEvent): SensitivityConditionKey | null {
+  const metadata = event.metadata as Partial<ConditionMetadata>;
+  if (metadata.condition === 'sick-day') return 'sick-day';
+  if (metadata.condition === 'menstrual-cycle' && metadata.phase) return metadata.phase;
+  return null;
+}
+
+/**
+ * When a condition event ends, ignoring later phases that replace it
+ *
+ * @param event - Condition event
+ * @returns End time
+ */
+export function getConditionEndTime(event: PhysiologicalEvent): Date {
+  const metadata = event.metadata as Partial<ConditionMetadata>;
+  const hours =
+    typeof metadata.durationHours === 'number' ? metadata.durationHours : Math.max(0, event.value);
+  return new Date(new Date(event.timestamp).getTime() + hours * 60 * 60 * 1000);
+}
+
+function clampMultiplier(value: number): number {
+  return Math.min(CONDITION_PARAMS.maxMultiplier, Math.max(CONDITION_PARAMS.minMultiplier, value));
+}
+
+/**
+ * Multiplier for a condition event
+ *
+ * @param event - Condition event
+ * @param key - Condition key
+ * @param multipliers - User-set or fitted multipliers
+ * @returns Multiplier (clamped to CONDITION_PARAMS) and where it came from
+ */
+function resolveMultiplier(
+  event: PhysiologicalEvent,
+  key: SensitivityConditionKey,
+  multipliers: SensitivityMultipliers
+): Pick<ConditionContribution, 'multiplier' | 'source'> {
+  const override = (event.metadata as Partial<ConditionMetadata>).sensitivityMultiplier;
+  if (typeof override === 'number' && override > 0) {
+    return { multiplier: clampMultiplier(override), source: 'event' };
+  }
+  const userValue = multipliers[key];
+  if (typeof userValue === 'number' && userValue > 0) {
+    return { multiplier: clampMultiplier(userValue), source: 'user' };
+  }
+  return { multiplier: DEFAULT_SENSITIVITY_MULTIPLIERS[key], source: 'default' };
+}
+
+/**
+ * Calculate the sick day and cycle phase state at a time
+ *
+ * @param conditionEvents - Condition events (other event types are ignored)
+ * @param atTime - Time to calculate for
+ * @param multipliers - User-set or fitted multipliers
+ * @returns Combined insulin need multiplier and the conditions in effect
+ */
+export function calculateConditionState(
+  conditionEvents: PhysiologicalEvent[],
+  atTime: Date,
+  multipliers: SensitivityMultipliers = {}
+): ConditionState {
+  const atMs = atTime.getTime();
+  const started = conditionEvents
+    .filter((e) => e.eventType === 'condition' && new Date(e.timestamp).getTime() <= atMs)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  // Newest of each kind: a later phase replaces the previous one even if
+  // that one's duration has not run out
+  const latestSickDay = started.find((e) => getConditionKey(e) === 'sick-day');
+  const latestPhase = started.find((e) => {
+    const key = getConditionKey(e);
+    return key !== null && key !== 'sick-day';
+  });
+
+  const activeConditions: ConditionContribution[] = [];
+  for (const event of [latestSickDay, latestPhase]) {
+    if (!event) continue;
+    const key = getConditionKey(event)!;
+    const endTime = getConditionEndTime(event);
+    if (endTime.getTime() <= atMs) continue;
+
+    const metadata = event.metadata as Partial<ConditionMetadata>;
+    activeConditions.push({
+      eventId: event.id,
+      condition: key === 'sick-day' ? 'sick-day' : 'menstrual-cycle',
+      ...(metadata.phase && { phase: metadata.phase }),
+      key,
+      ...resolveMultiplier(event, key, multipliers),
+      startTime: new Date(event.timestamp),
+      endTime
+    });
+  }
+  activeConditions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+
+  return {
+    insulinNeedMultiplier: activeConditions.reduce((product, c) => product * c.multiplier, 1),
+    isSickDay: activeConditions.some((c) => c.key === 'sick-day'),
+    activeConditions
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Event Lookback
+ *
+ * How far before a point in time events still affect a prediction there,
+ * and a search for slicing time-sorted history to that lookback. Anything
+ * that loads or replays history for a prediction shares these, so it sees
+ * the same events as `buildEventWindow`.
+ */
+
+import { INSULIN_KINETICS } from './InsulinDecayModel';
+import { INSULIN_PRODUCTS } from './InsulinProductCatalogue';
+
+const LONGEST_INSULIN_DURATION_MINUTES = Math.max(
+  ...Object.values(INSULIN_KINETICS).map((kinetics) => kinetics.durationMinutes),
+  ...Object.values(INSULIN_PRODUCTS).map((product) => product.kinetics.durationMinutes)
+);
+
+/**
+ * Longest duration of action of any insulin type or product (Degludec, 42
+ * hours). A shorter lookback drops a dose while it is still on board.
+ */
+export const INSULIN_LOOKBACK_MS = LONGEST_INSULIN_DURATION_MINUTES * 60 * 1000;
+
+/**
+ * Exercise raises insulin sensitivity for up to a day
+ */
+export const EXERCISE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest lookback used by buildEventWindow (insulin and exercise)
+ */
+export const EVENT_LOOKBACK_MS = Math.max(INSULIN_LOOKBACK_MS, EXERCISE_LOOKBACK_MS);
+
+/**
+ * Index of the first time not before `time` in an ascending list
+ *
+ * @param times - Ascending times in ms
+ * @param time - Time to find
+ * @returns Index (times.length if none)
+ */
+export function lowerBound(times: number[], time: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
@@ -0,0 +1,423 @@
+/**
+ * Exercise Effect Model
+ *
+ * Models how physical activity lowers blood sugar, both during the session
+ * and through increased insulin sensitivity afterwards.
+ *
+ * Key physiological facts:
+ * - Working muscle takes up glucose independently of insulin, so BSL falls
+ *   during aerobic activity (typically 2-4 mmol/L per hour at moderate effort)
+ * - The acute uptake continues briefly after stopping while muscle glycogen
+ *   is replenished
+ * - Insulin sensitivity rises after exercise and stays elevated for up to
+ *   24 hours, causing delayed (often overnight) hypoglycemia
+ * - High-intensity and resistance work can raise BSL acutely via adrenaline,
+ *   but still increase sensitivity later
+ *
+ * The event timestamp is treated as the start of the session.
+ *
+ * References:
+ * - Riddell et al. (2017) Exercise management in type 1 diabetes: a consensus statement
+ * - ISPAD Clinical Practice Consensus Guidelines: Exercise in children and adolescents
+ */
+
+import type {
+  ExerciseCategory,
+  ExerciseIntensity,
+  ExerciseMetadata,
+  PhysiologicalEvent
+} from '../../types/events';
+import type {
+  ExerciseEffectParams,
+  ExerciseEffectResult,
+  ExerciseContribution
+} from '../../types/modeling';
+
+/**
+ * Exercise effect parameters by activity category (at moderate intensity)
+ */
+export const EXERCISE_PARAMS: Record<ExerciseCategory, ExerciseEffectParams> = {
+  walking: {
+    category: 'walking',
+    glucoseUptakePerHour: 1.5, // Gentle, steady drop
+    insulinSensitivityModifier: 0.9, // 10% increase
+    sensitivityPeakHours: 1,
+    sensitivityEffectDurationHours: 12
+  },
+  running: {
+    category: 'running',
+    glucoseUptakePerHour: 3.0, // Sustained aerobic - largest drop
+    insulinSensitivityModifier: 0.75, // 25% increase
+    sensitivityPeakHours: 2,
+    sensitivityEffectDurationHours: 24
+  },
+  cycling: {
+    category: 'cycling',
+    glucoseUptakePerHour: 3.0,
+    insulinSensitivityModifier: 0.75,
+    sensitivityPeakHours: 2,
+    sensitivityEffectDurationHours: 24
+  },
+  swimming: {
+    category: 'swimming',
+    glucoseUptakePerHour: 2.5,
+    insulinSensitivityModifier: 0.8, // 20% increase
+    sensitivityPeakHours: 2,
+    sensitivityEffectDurationHours: 24
+  },
+  weights: {
+    category: 'weights',
+    glucoseUptakePerHour: 0.5, // Resistance work - small acute effect
+    insulinSensitivityModifier: 0.85, // 15% increase
+    sensitivityPeakHours: 3,
+    sensitivityEffectDurationHours: 24
+  },
+  hiit: {
+    category: 'hiit',
+    glucoseUptakePerHour: -1.0, // Adrenaline usually raises BSL during the session
+    insulinSensitivityModifier: 0.75,
+    sensitivityPeakHours: 3,
+    sensitivityEffectDurationHours: 24
+  },
+  yoga: {
+    category: 'yoga',
+    glucoseUptakePerHour: 0.5,
+    insulinSensitivityModifier: 0.95, // 5% increase
+    sensitivityPeakHours: 1,
+    sensitivityEffectDurationHours: 6
+  },
+  sports: {
+    category: 'sports',
+    glucoseUptakePerHour: 2.5, // Intermittent - mix of aerobic and sprints
+    insulinSensitivityModifier: 0.8,
+    sensitivityPeakHours: 2,
+    sensitivityEffectDurationHours: 24
+  },
+  other: {
+    category: 'other',
+    glucoseUptakePerHour: 2.0,
+    insulinSensitivityModifier: 0.85,
+    sensitivityPeakHours: 2,
+    sensitivityEffectDurationHours: 12
+  }
+};
+
+/**
+ * Scaling of the acute and sensitivity effects by logged intensity
+ */
+export const INTENSITY_FACTORS: Record<ExerciseIntensity, number> = {
+  low: 0.5,
+  moderate: 1.0,
+  high: 1.4
+};
+
+/**
+ * Reference session length for the sensitivity effect in minutes
+ * Longer sessions deplete more glycogen and increase sensitivity further
+ */
+const REFERENCE_DURATION_MINUTES = 45;
+
+/**
+ * Time constant for acute uptake continuing after the session ends (minutes)
+ */
+const POST_EXERCISE_UPTAKE_MINUTES = 30;
+
+/**
+ * Lowest combined sensitivity modifier (caps stacking of several sessions)
+ */
+const MIN_SENSITIVITY_MODIFIER = 0.5;
+
+/**
+ * Estimate intensity scaling for a session
+ * Average heart rate, when recorded, is more reliable than the logged intensity
+ *
+ * @param metadata - Exercise metadata
+ * @returns Intensity factor (1.0 = moderate)
+ */
+export function getExerciseIntensityFactor(metadata: ExerciseMetadata): number {
+  if (metadata.heartRateAvg && metadata.heartRateAvg > 0) {
+    // ~130 bpm is typical moderate aerobic effort; resting ~60 bpm
+    const factor = (metadata.heartRateAvg - 60) / (130 - 60);
+    return Math.max(0.3, Math.min(1.6, factor));
+  }
+  return INTENSITY_FACTORS[metadata.intensity] ?? 1.0;
+}
+
+/**
+ * Cumulative acute BSL drop from a session
+ *
+ * @param minutesSinceStart - Minutes since the session started
+ * @param durationMinutes - Session duration
+ * @param uptakePerHour - Acute uptake rate during the session (mmol/L per hour)
+ * @returns BSL lowered so far in mmol/L (negative if the session raises BSL)
+ */
+export function calculateAcuteGlucoseUptake(
+  minutesSinceStart: number,
+  durationMinutes: number,
+  uptakePerHour: number
+): number {
+  if (minutesSinceStart <= 0) return 0;
+
+  const ratePerMinute = uptakePerHour / 60;
+  if (minutesSinceStart <= durationMinutes) {
+    return ratePerMinute * minutesSinceStart;
+  }
+
+  // Uptake tails off exponentially once the session ends
+  const minutesAfter = minutesSinceStart - durationMinutes;
+  const tail =
+    ratePerMinute *
+    POST_EXERCISE_UPTAKE_MINUTES *
+    (1 - Math.exp(-minutesAfter / POST_EXERCISE_UPTAKE_MINUTES));
+  return ratePerMinute * durationMinutes + tail;
+}
+
+/**
+ * Calculate exercise state at a given time
+ *
+ * @param minutesSinceStart - Minutes since the session started
+ * @param durationMinutes - Session duration
+ * @param params - Category parameters
+ * @param intensityFactor - Intensity scaling (1.0 = moderate)
+ * @returns Current uptake rate and sensitivity modifier
+ */
+export function calculateExerciseState(
+  minutesSinceStart: number,
+  durationMinutes: number,
+  params: ExerciseEffectParams,
+  intensityFactor: number = 1.0
+): {
+  uptakeRate: number;
+  glucoseLowered: number;
+  sensitivityModifier: number;
+} {
+  const uptakePerHour = params.glucoseUptakePerHour * intensityFactor;
+
+  // Acute uptake rate
+  let uptakeRate = 0;
+  if (minutesSinceStart >= 0 && minutesSinceStart <= durationMinutes) {
+    uptakeRate = uptakePerHour;
+  } else if (minutesSinceStart > durationMinutes) {
+    const minutesAfter = minutesSinceStart - durationMinutes;
+    uptakeRate = uptakePerHour * Math.exp(-minutesAfter / POST_EXERCISE_UPTAKE_MINUTES);
+  }
+
+  const glucoseLowered = calculateAcuteGlucoseUptake(
+    minutesSinceStart,
+    durationMinutes,
+    uptakePerHour
+  );
+
+  // Sensitivity effect scales with effort and session length
+  const durationScale = Math.max(0.3, Math.min(1.5, durationMinutes / REFERENCE_DURATION_MINUTES));
+  const peakIncrease = (1 - params.insulinSensitivityModifier) * intensityFactor * durationScale;
+  const peakModifier = Math.max(MIN_SENSITIVITY_MODIFIER, 1 - peakIncrease);
+
+  const effectDurationMinutes = params.sensitivityEffectDurationHours * 60;
+  const peakMinutes = durationMinutes + params.sensitivityPeakHours * 60;
+  let sensitivityModifier = 1.0;
+
+  if (minutesSinceStart > 0 && minutesSinceStart < effectDurationMinutes) {
+    if (minutesSinceStart < peakMinutes) {
+      // Ramp up through the session and recovery
+      const rampFraction = minutesSinceStart / peakMinutes;
+      sensitivityModifier = 1 - (1 - peakModifier) * rampFraction;
+    } else {
+      // Slow decay back to normal
+      const decayFraction =
+        (minutesSinceStart - peakMinutes) / Math.max(1, effectDurationMinutes - peakMinutes);
+      sensitivityModifier = peakModifier + (1 - peakModifier) * Math.min(1, decayFraction);
+    }
+  }
+
+  return {
+    uptakeRate: Math.abs(uptakeRate) < 0.01 ? 0 : uptakeRate,
+    glucoseLowered,
+    sensitivityModifier
+  };
+}
+
+/**
+ * Calculate exercise effects from exercise events
+ *
+ * @param exerciseEvents - Exercise events
+ * @param atTime - Time to calculate at
+ * @returns Exercise effect result
+ */
+export function calculateExerciseEffect(
+  exerciseEvents: PhysiologicalEvent[],
+  atTime: Date = new Date()
+): ExerciseEffectResult {
+  const sessionContributions: ExerciseContribution[] = [];
+  let isExercising = false;
+  let totalUptakeRate = 0;
+  let combinedSensitivityModifier = 1.0;
+  let latestEffectEnd: Date | null = null;
+
+  for (const event of exerciseEvents) {
+    if (event.eventType !== 'exercise') continue;
+
+    const metadata = event.metadata as ExerciseMetadata;
+    const durationMinutes = metadata.durationMinutes ?? event.value;
+    const category = metadata.category ?? 'other';
+    const params = EXERCISE_PARAMS[category] ?? EXERCISE_PARAMS.other;
+
+    const startTime = new Date(event.timestamp);
+    const minutesSinceStart = (atTime.getTime() - startTime.getTime()) / (1000 * 60);
+
+    // Skip future sessions
+    if (minutesSinceStart < 0) continue;
+
+    // Skip sessions whose effects have ended
+    const effectDurationMinutes = Math.max(
+      params.sensitivityEffectDurationHours * 60,
+      durationMinutes + POST_EXERCISE_UPTAKE_MINUTES * 4
+    );
+    if (minutesSinceStart >= effectDurationMinutes) continue;
+
+    const intensityFactor = getExerciseIntensityFactor(metadata);
+    const state = calculateExerciseState(
+      minutesSinceStart,
+      durationMinutes,
+      params,
+      intensityFactor
+    );
+
+    if (minutesSinceStart <= durationMinutes) {
+      isExercising = true;
+    }
+    totalUptakeRate += state.uptakeRate;
+
+    // Combine sensitivity modifiers (multiplicative for multiple sessions)
+    combinedSensitivityModifier *= state.sensitivityModifier;
+
+    const effectEnd = new Date(startTime.getTime() + effectDurationMinutes * 60 * 1000);
+    if (!latestEffectEnd || effectEnd > latestEffectEnd) {
+      latestEffectEnd = effectEnd;
+    }
+
+    sessionContributions.push({
+      eventId: event.id,
+      timestamp: startTime,
+      durationMinutes,
+      intensity: metadata.intensity,
+      category,
+      intensityFactor,
+      glucoseUptakePerHour: params.glucoseUptakePerHour * intensityFactor,
+      sensitivityModifier: state.sensitivityModifier,
+      minutesSinceStart
+    });
+  }
+
+  return {
+    isExercising,
+    glucoseUptakeRate: totalUptakeRate,
+    insulinSensitivityModifier: Math.max(MIN_SENSITIVITY_MODIFIER, combinedSensitivityModifier),
+    estimatedEffectEndTime: latestEffectEnd,
+    sessionContributions
+  };
+}
+
+/**
+ * Estimate acute BSL change from exercise between two times
+ * Does not include the sensitivity effect, which acts through insulin
+ *
+ * @param exercise - Exercise effect result (sessions to include)
+ * @param fromTime - Start of the interval (e.g., last BSL reading)
+ * @param toTime - End of the interval
+ * @returns BSL change in mmol/L (negative = lowering)
+ */
+export function estimateExerciseBSLEffect(
+  exercise: ExerciseEffectResult,
+  fromTime: Date,
+  toTime: Date
+): number {
+  let change = 0;
+
+  for (const session of exercise.sessionContributions) {
+    const start = session.timestamp.getTime();
+    const fromMinutes = (fromTime.getTime() - start) / (1000 * 60);
+    const toMinutes = (toTime.getTime() - start) / (1000 * 60);
+
+    const loweredBy =
+      calculateAcuteGlucoseUptake(
+        toMinutes,
+        session.durationMinutes,
+        session.glucoseUptakePerHour
+      ) -
+      calculateAcuteGlucoseUptake(
+        fromMinutes,
+        session.durationMinutes,
+        session.glucoseUptakePerHour
+      );
+
+    change -= loweredBy;
+  }
+
+  return change;
+}
+
+/**
+ * Get delayed hypoglycemia risk after exercise
+ * Long or intense sessions carry the highest overnight risk
+ *
+ * @param session - Exercise session contribution
+ * @returns Risk severity with recommendation
+ */
+export function getExerciseHypoRisk(session: ExerciseContribution): {
+  severity: 'low' | 'medium' | 'high';
+  recommendation: string;
+} {
+  const load = session.intensityFactor * (session.durationMinutes / REFERENCE_DURATION_MINUTES);
+
+  if (load < 1) {
+    return {
+      severity: 'low',
+      recommendation: 'Check BSL before bed.'
+    };
+  }
+  if (load < 2) {
+    return {
+      severity: 'medium',
+      recommendation:
+        'Delayed hypo risk tonight. Check BSL before bed and consider a bedtime snack.'
+    };
+  }
+  return {
+    severity: 'high',
+    recommendation:
+      'High delayed hypo risk for up to 24 hours. Reduce doses, check BSL overnight and keep carbs nearby.'
+  };
+}
+
+/**
+ * Project exercise effects over time for charting
+ *
+ * @param exerciseEvents - Exercise events
+ * @param startTime - Start of projection
+ * @param endTime - End of projection
+ * @param resolutionMinutes - Time step
+ * @returns Array of uptake rate and sensitivity values over time
+ */
+export function projectExerciseEffect(
+  exerciseEvents: PhysiologicalEvent[],
+  startTime: Date,
+  endTime: Date,
+  resolutionMinutes: number = 5
+): Array<{ timestamp: Date; uptakeRate: number; sensitivityModifier: number }> {
+  const projections: Array<{ timestamp: Date; uptakeRate: number; sensitivityModifier: number }> =
+    [];
+  const stepMs = resolutionMinutes * 60 * 1000;
+
+  for (let t = startTime.getTime(); t <= endTime.getTime(); t += stepMs) {
+    const atTime = new Date(t);
+    const result = calculateExerciseEffect(exerciseEvents, atTime);
+    projections.push({
+      timestamp: atTime,
+      uptakeRate: result.glucoseUptakeRate,
+      sensitivityModifier: result.insulinSensitivityModifier
+    });
+  }
+
+  return projections;
+}
@@ -0,0 +1,314 @@
+/**
+ * Glycaemic Metrics Model
+ *
+ * Standard CGM metrics for a reporting period, as used in clinic:
+ * - Time in range (TIR), below (TBR) and above (TAR) at the consensus thresholds
+ * - Mean BSL, standard deviation and coefficient of variation (CV)
+ * - Glucose Management Indicator (GMI), an HbA1c estimate from mean BSL
+ * - Hypo and hyper episodes with duration and level
+ * - Ambulatory Glucose Profile (AGP): percentile curves by time of day
+ *
+ * Range percentages are the share of readings, which matches time for
+ * evenly spaced CGM data. Finger-prick readings count the same as CGM
+ * readings, so mostly-manual periods are weighted towards when readings
+ * were taken.
+ *
+ * References:
+ * - Battelino et al. (2019) International consensus on time in range
+ * - Bergenstal et al. (2018) Glucose Management Indicator (GMI)
+ * - Danne et al. (2017) International consensus on use of CGM
+ */
+
+import type { PhysiologicalEvent } from '../../types/events';
+import type {
+  AGPPoint,
+  GlucoseEpisode,
+  GlycaemicMetrics,
+  GlycaemicMetricsOptions,
+  TimeInRanges
+} from '../../types/modeling';
+
+import { MGDL_PER_MMOL, getBSLValueMmolL } from '../../utils/bslUnits';
+import { DAY_MS } from '../../utils/dateNormalization';
+
+/**
+ * Consensus range thresholds (mmol/L)
+ */
+export const GLYCAEMIC_THRESHOLDS = {
+  veryLow: 3.0, // < 54 mg/dL
+  low: 3.9, // < 70 mg/dL
+  high: 10.0, // > 180 mg/dL
+  veryHigh: 13.9 // > 250 mg/dL
+};
+
+/**
+ * Consensus targets for the metrics (percent)
+ */
+export const GLYCAEMIC_TARGETS = {
+  inRange: 70, // > 70%
+  belowRange: 4, // < 4% below 3.9
+  veryLow: 1, // < 1% below 3.0
+  aboveRange: 25, // < 25% above 10.0
+  veryHigh: 5, // < 5% above 13.9
+  coefficientOfVariation: 36 // <= 36%
+};
+
+const DEFAULT_AGP_BIN_MINUTES = 30;
+const DEFAULT_MIN_EPISODE_MINUTES = 15;
+
+/**
+ * CGM reading interval assumed for coverage
+ */
+const CGM_INTERVAL_MINUTES = 5;
+
+/**
+ * Readings further apart than this are treated as a gap in the data
+ */
+const MAX_READING_GAP_MINUTES = 30;
+
+/**
+ * Consensus minimums for a representative report
+ */
+const MIN_REPORT_DAYS = 14;
+const MIN_COVERAGE_PERCENT = 70;
+
+/**
+ * Slack on the report length, so a range ending at 23:59:59.999 or crossing
+ * a daylight saving change still counts as whole days
+ */
+const REPORT_LENGTH_TOLERANCE_MS = 60 * 60 * 1000;
+
+/**
+ * Calculate a percentile of sorted values by linear interpolation
+ *
+ * @param sorted - Values in ascending order
+ * @param percentile - Percentile (0-100)
+ * @returns Value at the percentile
+ */
+export function calculatePercentile(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Calculate Glucose Management Indicator (estimated HbA1c)
+ *
+ * @param meanBSL - Mean BSL in mmol/L
+ * @returns GMI in percent
+ */
+export function calculateGMI(meanBSL: number): number {
+  return 3.31 + 0.02392 * meanBSL * MGDL_PER_MMOL;
+}
+
+/**
+ * Calculate time in each consensus range
+ *
+ * @param values - BSL readings in mmol/L
+ * @returns Percentage of readings in each range
+ */
+export function calculateTimeInRanges(values: number[]): TimeInRanges {
+  const counts = { veryLow: 0, low: 0, inRange: 0, high: 0, veryHigh: 0 };
+
+  for (const value of values) {
+    if (value < GLYCAEMIC_THRESHOLDS.veryLow) counts.veryLow++;
+    else if (value < GLYCAEMIC_THRESHOLDS.low) counts.low++;
+    else if (value <= GLYCAEMIC_THRESHOLDS.high) counts.inRange++;
+    else if (value <= GLYCAEMIC_THRESHOLDS.veryHigh) counts.high++;
+    else counts.veryHigh++;
+  }
+
+  const total = values.length;
+  const percent = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+  return {
+    veryLow: percent(counts.veryLow),
+    low: percent(counts.low),
+    inRange: percent(counts.inRange),
+    high: percent(counts.high),
+    veryHigh: percent(counts.veryHigh)
+  };
+}
+
+/**
+ * Find periods below or above range
+ * An episode starts at the first reading out of range and ends once BSL has
+ * been back in range for the minimum episode length, or when data stops.
+ *
+ * @param readings - Readings in mmol/L, oldest first
+ * @param type - Hypo (below 3.9) or hyper (above 10.0)
+ * @param minEpisodeMinutes - Shortest episode to report
+ * @returns Episodes, oldest first
+ */
+export function detectGlucoseEpisodes(
+  readings: Array<{ timestamp: Date; value: number }>,
+  type: 'hypo' | 'hyper',
+  minEpisodeMinutes: number = DEFAULT_MIN_EPISODE_MINUTES
+): GlucoseEpisode[] {
+  const isOut = (value: number) =>
+    type === 'hypo' ? value < GLYCAEMIC_THRESHOLDS.low : value > GLYCAEMIC_THRESHOLDS.high;
+  const isLevel2 = (value: number) =>
+    type === 'hypo' ? value < GLYCAEMIC_THRESHOLDS.veryLow : value > GLYCAEMIC_THRESHOLDS.veryHigh;
+  const isWorse = (a: number, b: number) => (type === 'hypo' ? a < b : a > b);
+
+  const episodes: GlucoseEpisode[] = [];
+  const maxGapMs = MAX_READING_GAP_MINUTES * 60 * 1000;
+  const minEpisodeMs = minEpisodeMinutes * 60 * 1000;
+
+  let start: Date | null = null;
+  let lastOut: Date | null = null;
+  let recoveredAt: Date | null = null;
+  let extreme = 0;
+  let previousTime: Date | null = null;
+
+  const close = (endTime: Date) => {
+    if (start && endTime.getTime() - start.getTime() >= minEpisodeMs) {
+      episodes.push({
+        type,
+        level: isLevel2(extreme) ? 2 : 1,
+        startTime: start,
+        endTime,
+        durationMinutes: (endTime.getTime() - start.getTime()) / (60 * 1000),
+        extremeBSL: extreme
+      });
+    }
+    start = null;
+    lastOut = null;
+    recoveredAt = null;
+  };
+
+  for (const reading of readings) {
+    // A gap in the data ends the episode at the last reading we saw
+    if (start && previousTime && reading.timestamp.getTime() - previousTime.getTime() > maxGapMs) {
+      close(recoveredAt ?? previousTime);
+    }
+    previousTime = reading.timestamp;
+
+    if (isOut(reading.value)) {
+      if (!start) {
+        start = reading.timestamp;
+        extreme = reading.value;
+      } else if (isWorse(reading.value, extreme)) {
+        extreme = reading.value;
+      }
+      lastOut = reading.timestamp;
+      recoveredAt = null;
+    } else if (start && lastOut) {
+      recoveredAt = recoveredAt ?? reading.timestamp;
+      if (reading.timestamp.getTime() - recoveredAt.getTime() >= minEpisodeMs) {
+        close(recoveredAt);
+      }
+    }
+  }
+
+  if (start) {
+    close(recoveredAt ?? previousTime!);
+  }
+
+  return episodes;
+}
+
+/**
+ * Build the Ambulatory Glucose Profile
+ * Pools all days in the period and takes percentiles for each time-of-day bin.
+ *
+ * @param readings - Readings in mmol/L
+ * @param binMinutes - Bin width in minutes
+ * @returns Percentiles for each bin with readings, from midnight
+ */
+export function calculateAGP(
+  readings: Array<{ timestamp: Date; value: number }>,
+  binMinutes: number = DEFAULT_AGP_BIN_MINUTES
+): AGPPoint[] {
+  const binCount = Math.ceil((24 * 60) / binMinutes);
+  const bins: number[][] = Array.from({ length: binCount }, () => []);
+
+  for (const reading of readings) {
+    const minuteOfDay = reading.timestamp.getHours() * 60 + reading.timestamp.getMinutes();
+    bins[Math.floor(minuteOfDay / binMinutes)].push(reading.value);
+  }
+
+  const points: AGPPoint[] = [];
+  bins.forEach((values, index) => {
+    if (values.length === 0) return;
+    const sorted = [...values].sort((a, b) => a - b);
+    points.push({
+      minuteOfDay: index * binMinutes,
+      p5: calculatePercentile(sorted, 5),
+      p25: calculatePercentile(sorted, 25),
+      p50: calculatePercentile(sorted, 50),
+      p75: calculatePercentile(sorted, 75),
+      p95: calculatePercentile(sorted, 95),
+      count: values.length
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Calculate glycaemic metrics for a period
+ *
+ * @param events - Events (non-BSL events and readings outside the period are ignored)
+ * @param options - Reporting period and options
+ * @returns Glycaemic metrics
+ */
+export function calculateGlycaemicMetrics(
+  events: PhysiologicalEvent[],
+  options: GlycaemicMetricsOptions
+): GlycaemicMetrics {
+  const { startTime, endTime } = options;
+
+  const readings = events
+    .filter((e) => e.eventType === 'bsl')
+    .map((e) => ({ timestamp: new Date(e.timestamp), value: getBSLValueMmolL(e) }))
+    .filter((r) => r.timestamp >= startTime && r.timestamp <= endTime)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const values = readings.map((r) => r.value);
+
+  const count = values.length;
+  const meanBSL = count > 0 ? values.reduce((sum, v) => sum + v, 0) / count : 0;
+  const variance =
+    count > 1 ? values.reduce((sum, v) => sum + (v - meanBSL) ** 2, 0) / (count - 1) : 0;
+  const standardDeviation = Math.sqrt(variance);
+
+  const periodMs = endTime.getTime() - startTime.getTime();
+  // Coverage only over the part of the period that has elapsed
+  const elapsedEnd = Math.min(endTime.getTime(), (options.atTime ?? endTime).getTime());
+  const elapsedMinutes = (elapsedEnd - startTime.getTime()) / (60 * 1000);
+  const coveragePercent =
+    elapsedMinutes > 0 ? Math.min(100, ((count * CGM_INTERVAL_MINUTES) / elapsedMinutes) * 100) : 0;
+
+  const minEpisodeMinutes = options.minEpisodeMinutes ?? DEFAULT_MIN_EPISODE_MINUTES;
+
+  const warnings: string[] = [];
+  if (count === 0) {
+    warnings.push('No BSL readings in this period');
+  } else {
+    if (periodMs < MIN_REPORT_DAYS * DAY_MS - REPORT_LENGTH_TOLERANCE_MS) {
+      warnings.push(`At least ${MIN_REPORT_DAYS} days are recommended for a representative report`);
+    }
+    if (coveragePercent < MIN_COVERAGE_PERCENT) {
+      warnings.push(
+        `Readings cover ${Math.round(coveragePercent)}% of the period - at least ${MIN_COVERAGE_PERCENT}% CGM wear is recommended`
+      );
+    }
+  }
+
+  return {
+    startTime,
+    endTime,
+    readingCount: count,
+    coveragePercent,
+    timeInRanges: calculateTimeInRanges(values),
+    meanBSL,
+    standardDeviation,
+    coefficientOfVariation: meanBSL > 0 ? (standardDeviation / meanBSL) * 100 : 0,
+    gmi: count > 0 ? calculateGMI(meanBSL) : 0,
+    hypoEpisodes: detectGlucoseEpisodes(readings, 'hypo', minEpisodeMinutes),
+    hyperEpisodes: detectGlucoseEpisodes(readings, 'hyper', minEpisodeMinutes),
+    agp: calculateAGP(readings, options.agpBinMinutes),
+    warnings
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Glycation Gap Model
+ *
+ * Compares lab HbA1c results with the Glucose Management Indicator (GMI)
+ * from the BSL readings in the 90 days before each test, roughly the life of
+ * a red blood cell. The difference (lab minus GMI) is the glycation gap:
+ * some people glycate haemoglobin faster or slower than average, so their
+ * lab HbA1c sits consistently above or below what mean glucose predicts.
+ *
+ * The gap is fairly stable for a person, so averaging it over recent tests
+ * gives an offset that calibrates future GMI estimates towards what the lab
+ * is likely to report. Only tests with good CGM coverage calibrate; a
+ * finger-prick mean is weighted towards when readings were taken.
+ *
+ * A large or changing gap can also come from anaemia, haemoglobin variants,
+ * blood loss or transfusion, kidney disease or pregnancy, which change red
+ * cell life rather than glucose.
+ *
+ * References:
+ * - Bergenstal et al. (2018) Glucose Management Indicator (GMI)
+ * - Cohen et al. (2003) Discordance between HbA1c and fructosamine
+ * - Beck et al. (2017) The fallacy of average: HbA1c and mean glucose
+ *
+ * IMPORTANT: This is a decision-support tool, not medical advice.
+ */
+
+import type { PhysiologicalEvent } from '../../types/events';
+import type {
+  A1cComparison,
+  A1cComparisonOptions,
+  GlycationGapCalibration,
+  GlycationGapReport
+} from '../../types/modeling';
+
+import { calculateGlycaemicMetrics } from './GlycaemicMetricsModel';
+import { DAY_MS } from '../../utils/dateNormalization';
+import { getHbA1cPercent } from '../../utils/hba1cUnits';
+
+/**
+ * Glycation gap parameters
+ */
+export const GLYCATION_GAP_PARAMS = {
+  windowDays: 90, // Readings before a lab result that GMI is calculated from
+  minCoveragePercent: 70, // Consensus CGM wear for representative metrics
+  calibrationCount: 3, // Most recent calibrating comparisons averaged
+  largeGap: 1.0, // Percentage points; worth raising with the clinic
+  maxSpread: 0.5 // Percentage points; gaps varying more than this make a poor offset
+};
+
+/**
+ * Check whether an event is an HbA1c lab result
+ */
+function isHbA1cResult(event: PhysiologicalEvent): boolean {
+  return event.eventType === 'lab-result' && event.metadata?.test === 'hba1c';
+}
+
+/**
+ * Compare one lab HbA1c with GMI from the readings before it
+ *
+ * @param labEvent - HbA1c lab result event
+ * @param events - Events including the BSL readings before the result
+ * @param options - Window and coverage options
+ * @returns Comparison, with null GMI and gap when there are no readings
+ */
+export function compareLabA1c(
+  labEvent: PhysiologicalEvent,
+  events: PhysiologicalEvent[],
+  options: A1cComparisonOptions = {}
+): A1cComparison {
+  const windowDays = options.windowDays ?? GLYCATION_GAP_PARAMS.windowDays;
+  const minCoveragePercent = options.minCoveragePercent ?? GLYCATION_GAP_PARAMS.minCoveragePercent;
+
+  const timestamp = new Date(labEvent.timestamp);
+  const labA1c = getHbA1cPercent(labEvent);
+  const metrics = calculateGlycaemicMetrics(events, {
+    startTime: new Date(timestamp.getTime() - windowDays * DAY_MS),
+    endTime: timestamp
+  });
+  const hasReadings = metrics.readingCount > 0;
+
+  return {
+    eventId: labEvent.id,
+    timestamp,
+    labA1c,
+    gmi: hasReadings ? metrics.gmi : null,
+    glycationGap: hasReadings ? labA1c - metrics.gmi : null,
+    meanBSL: hasReadings ? metrics.meanBSL : null,
+    readingCount: metrics.readingCount,
+    coveragePercent: metrics.coveragePercent,
+    reliable: hasReadings && metrics.coveragePercent >= minCoveragePercent
+  };
+}
+
+/**
+ * Average the glycation gap over the most recent reliable comparisons
+ *
+ * @param comparisons - Comparisons in any order
+ * @param calibrationCount - Most recent reliable comparisons to average (default 3)
+ * @returns Calibration, or null without a reliable comparison
+ */
+export function calculateGlycationGapCalibration(
+  comparisons: A1cComparison[],
+  calibrationCount: number = GLYCATION_GAP_PARAMS.calibrationCount
+): GlycationGapCalibration | null {
+  const recent = comparisons
+    .filter((c) => c.reliable && c.glycationGap !== null)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, Math.max(1, calibrationCount));
+  if (recent.length === 0) return null;
+
+  const gaps = recent.map((c) => c.glycationGap as number);
+  const offset = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+  const spread =
+    gaps.length > 1
+      ? Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - offset) ** 2, 0) / (gaps.length - 1))
+      : null;
+
+  return {
+    offset,
+    comparisonCount: recent.length,
+    spread,
+    latestLabTime: recent[0].timestamp
+  };
+}
+
+/**
+ * Calibrate from lab comparisons and flag unreliable ones
+ *
+ * @param comparisons - Comparisons in any order
+ * @param options - Coverage and calibration options the comparisons were made with
+ * @returns Comparisons oldest first, calibration and warnings
+ */
+export function summariseGlycationGap(
+  comparisons: A1cComparison[],
+  options: A1cComparisonOptions = {}
+): GlycationGapReport {
+  const windowDays = options.windowDays ?? GLYCATION_GAP_PARAMS.windowDays;
+  const minCoveragePercent = options.minCoveragePercent ?? GLYCATION_GAP_PARAMS.minCoveragePercent;
+
+  const sorted = [...comparisons].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const calibration = calculateGlycationGapCalibration(sorted, options.calibrationCount);
+
+  const warnings: string[] = [];
+  if (sorted.length === 0) {
+    warnings.push('No HbA1c lab results');
+  } else if (!calibration) {
+    warnings.push(
+      `No lab result has ${minCoveragePercent}% CGM coverage in the ${windowDays} days before it - GMI cannot be calibrated yet`
+    );
+  } else {
+    const unreliable = sorted.filter((c) => !c.reliable).length;
+    if (unreliable > 0) {
+      warnings.push(
+        `${unreliable} of ${sorted.length} lab results have too few readings before them to calibrate from`
+      );
+    }
+    if (Math.abs(calibration.offset) >= GLYCATION_GAP_PARAMS.largeGap) {
+      warnings.push(
+        `Lab HbA1c is ${Math.abs(calibration.offset).toFixed(1)} points ${calibration.offset > 0 ? 'above' : 'below'} GMI - worth discussing with your clinic`
+      );
+    }
+    if (calibration.spread !== null && calibration.spread > GLYCATION_GAP_PARAMS.maxSpread) {
+      warnings.push(
+        'The gap between lab HbA1c and GMI varies between tests - calibrated estimates are less certain'
+      );
+    }
+  }
+
+  return { comparisons: sorted, calibration, warnings };
+}
+
+/**
+ * Compare every HbA1c lab result with GMI and calibrate from them
+ *
+ * @param events - Events including lab results and the BSL readings before them
+ * @param options - Window, coverage and calibration options
+ * @returns Comparisons oldest first, calibration and warnings
+ */
+export function analyseGlycationGap(
+  events: PhysiologicalEvent[],
+  options: A1cComparisonOptions = {}
+): GlycationGapReport {
+  const comparisons = events
+    .filter(isHbA1cResult)
+    .map((labEvent) => compareLabA1c(labEvent, events, options));
+  return summariseGlycationGap(comparisons, options);
+}
+
+/**
+ * Calibrate a GMI with the personal glycation gap
+ *
+ * @param gmi - GMI in percent
+ * @param calibration - Calibration, or null to leave GMI unchanged
+ * @returns Estimated lab HbA1c in percent
+ */
+export function calibrateGMI(gmi: number, calibration: GlycationGapCalibration | null): number {
+  return calibration ? gmi + calibration.offset : gmi;
+}
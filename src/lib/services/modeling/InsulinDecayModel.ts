@@ -2,21 +2,39 @@
  * Insulin Decay Model
  *
  * Models the pharmacokinetics of insulin absorption and activity over time.
- * Uses exponential decay curves calibrated to insulin type (bolus vs basal).
+ * Doses logged with a product (see InsulinProductCatalogue) use that
+ * product's curve: the exponential model for products with a clear peak, or
+ * the biexponential model for near-peakless basal insulin. Doses without a
+ * product use the default curve for their insulin type (bolus vs basal).
+ *
+ * Extended and dual-wave boluses are integrated over their delivery profile:
+ * the extended part is split into small slices delivered evenly over its
+ * duration, each following the dose's curve from when it was delivered.
+ * Only insulin delivered so far counts towards IOB, as on pumps.
+ *
+ * Pump temp basals and suspends add net basal IOB: the deviation from the
+ * basal schedule, see BasalProgramModel. It is negative while the pump
+ * delivers less than scheduled.
  *
  * References:
  * - Rapid-acting insulin: onset 15min, peak 1-2hr, duration 3-5hr
  * - Long-acting insulin: onset 1-2hr, no peak, duration 20-24hr
  */
 
-import type { InsulinType, PhysiologicalEvent } from '../../types/events';
+import type { BolusDelivery, InsulinType, PhysiologicalEvent } from '../../types/events';
 import type {
   InsulinKinetics,
   InsulinActivityPoint,
+  InsulinActivityOptions,
+  InsulinCurveModel,
+  InsulinProduct,
   ActiveInsulinResult,
   DoseContribution
 } from '../../types/modeling';
 
+import { getInsulinProduct } from './InsulinProductCatalogue';
+import { calculateNetBasalDoses } from './BasalProgramModel';
+
 /**
  * Pharmacokinetic parameters for different insulin types
  */
@@ -36,31 +54,62 @@ export const INSULIN_KINETICS: Record<InsulinType, InsulinKinetics> = {
 };
 
 /**
- * Calculate insulin activity curve using a modified exponential model
- * Based on Scheiner's "Think Like a Pancreas" insulin action curves
+ * Time step used to integrate extended deliveries
+ */
+const DELIVERY_STEP_MINUTES = 5;
+
+/**
+ * Scale kinetics to a different duration of insulin action (DIA)
+ * Onset, peak and half-life scale with the duration.
+ *
+ * @param kinetics - Kinetics to scale
+ * @param durationMinutes - Target duration
+ * @returns Scaled kinetics
+ */
+export function scaleInsulinKinetics(
+  kinetics: InsulinKinetics,
+  durationMinutes: number
+): InsulinKinetics {
+  const scale = durationMinutes / kinetics.durationMinutes;
+  return {
+    onsetMinutes: kinetics.onsetMinutes * scale,
+    peakMinutes: kinetics.peakMinutes * scale,
+    durationMinutes,
+    halfLifeMinutes: kinetics.halfLifeMinutes * scale
+  };
+}
+
+/**
+ * Get kinetics for an insulin type, optionally stretched to the user's
+ * duration of insulin action (DIA). Onset, peak and half-life scale with it.
+ * DIA only applies to bolus insulin, as on pumps.
  *
- * @param minutesFromDose - Minutes since insulin was administered
  * @param insulinType - Type of insulin (bolus or basal)
+ * @param durationMinutes - User's duration of insulin action, if set
+ * @returns Insulin kinetics
+ */
+export function getInsulinKinetics(
+  insulinType: InsulinType,
+  durationMinutes?: number
+): InsulinKinetics {
+  const kinetics = INSULIN_KINETICS[insulinType];
+  if (!durationMinutes || insulinType !== 'bolus') return kinetics;
+  return scaleInsulinKinetics(kinetics, durationMinutes);
+}
+
+/**
+ * Biexponential activity curve
+ * Activity = A * (e^(-t/τ1) - e^(-t/τ2)), which rises from 0, peaks, then
+ * decays with a long tail. Suits near-peakless basal insulin.
+ *
+ * @param minutesFromDose - Minutes since insulin was administered (within duration)
+ * @param kinetics - Insulin kinetics
  * @returns Activity point with level and IOB
  */
-export function calculateInsulinActivity(
+function calculateBiexponentialActivity(
   minutesFromDose: number,
-  insulinType: InsulinType
+  kinetics: InsulinKinetics
 ): InsulinActivityPoint {
-  const kinetics = INSULIN_KINETICS[insulinType];
-
-  if (minutesFromDose < 0) {
-    return { minutesFromDose, activityLevel: 0, insulinOnBoard: 1 };
-  }
-
-  if (minutesFromDose >= kinetics.durationMinutes) {
-    return { minutesFromDose, activityLevel: 0, insulinOnBoard: 0 };
-  }
-
-  // Use a biexponential model for more realistic insulin curves
-  // Activity = A * (e^(-t/τ1) - e^(-t/τ2))
-  // This creates a curve that rises from 0, peaks, then decays
-
   const τ1 = kinetics.halfLifeMinutes * 1.4; // Slower decay constant
   const τ2 = kinetics.onsetMinutes * 0.7; // Faster onset constant
 
@@ -93,6 +142,127 @@ export function calculateInsulinActivity(
   return { minutesFromDose, activityLevel, insulinOnBoard };
 }
 
+/**
+ * Exponential activity curve (LoopKit / OpenAPS model)
+ * Defined by peak time and duration only; activity reaches exactly zero at
+ * the end of the duration, so IOB does not need a cut-off.
+ *
+ * @param minutesFromDose - Minutes since insulin was administered (within duration)
+ * @param kinetics - Insulin kinetics
+ * @returns Activity point with level and IOB
+ */
+function calculateExponentialActivity(
+  minutesFromDose: number,
+  kinetics: InsulinKinetics
+): InsulinActivityPoint {
+  const td = kinetics.durationMinutes;
+  // The model needs the peak before half the duration
+  const tp = Math.min(kinetics.peakMinutes, td * 0.45);
+  const t = minutesFromDose;
+
+  const τ = (tp * (1 - tp / td)) / (1 - (2 * tp) / td); // Time constant of decay
+  const a = (2 * τ) / td; // Rise time factor
+  const S = 1 / (1 - a + (1 + a) * Math.exp(-td / τ)); // Auxiliary scale factor
+
+  const activityAt = (x: number) => (S / (τ * τ)) * x * (1 - x / td) * Math.exp(-x / τ);
+
+  // Normalise so peak = 1
+  const activityLevel = Math.max(0, Math.min(1, activityAt(t) / activityAt(tp)));
+
+  const insulinOnBoard =
+    1 - S * (1 - a) * (((t * t) / (τ * td * (1 - a)) - t / τ - 1) * Math.exp(-t / τ) + 1);
+
+  return {
+    minutesFromDose,
+    activityLevel,
+    insulinOnBoard: Math.max(0, Math.min(1, insulinOnBoard))
+  };
+}
+
+/**
+ * Evaluate an activity curve for given kinetics
+ *
+ * @param minutesFromDose - Minutes since insulin was administered
+ * @param kinetics - Insulin kinetics
+ * @param curve - Curve model
+ * @returns Activity point with level and IOB
+ */
+function calculateCurveActivity(
+  minutesFromDose: number,
+  kinetics: InsulinKinetics,
+  curve: InsulinCurveModel
+): InsulinActivityPoint {
+  if (minutesFromDose < 0) {
+    return { minutesFromDose, activityLevel: 0, insulinOnBoard: 1 };
+  }
+
+  if (minutesFromDose >= kinetics.durationMinutes) {
+    return { minutesFromDose, activityLevel: 0, insulinOnBoard: 0 };
+  }
+
+  return curve === 'exponential'
+    ? calculateExponentialActivity(minutesFromDose, kinetics)
+    : calculateBiexponentialActivity(minutesFromDose, kinetics);
+}
+
+/**
+ * Calculate insulin activity curve using a modified exponential model
+ * Based on Scheiner's "Think Like a Pancreas" insulin action curves
+ * Used for doses without a known product.
+ *
+ * @param minutesFromDose - Minutes since insulin was administered
+ * @param insulinType - Type of insulin (bolus or basal)
+ * @param durationMinutes - User's duration of insulin action, if set
+ * @returns Activity point with level and IOB
+ */
+export function calculateInsulinActivity(
+  minutesFromDose: number,
+  insulinType: InsulinType,
+  durationMinutes?: number
+): InsulinActivityPoint {
+  return calculateCurveActivity(
+    minutesFromDose,
+    getInsulinKinetics(insulinType, durationMinutes),
+    'biexponential'
+  );
+}
+
+/**
+ * Get kinetics for a product, optionally stretched to the user's DIA
+ * As with getInsulinKinetics, DIA only applies to bolus products.
+ *
+ * @param product - Insulin product
+ * @param durationMinutes - User's duration of insulin action, if set
+ * @returns Insulin kinetics
+ */
+export function getProductKinetics(
+  product: InsulinProduct,
+  durationMinutes?: number
+): InsulinKinetics {
+  if (!durationMinutes || product.insulinType !== 'bolus') return product.kinetics;
+  return scaleInsulinKinetics(product.kinetics, durationMinutes);
+}
+
+/**
+ * Calculate insulin activity using a specific product's curve
+ *
+ * @param minutesFromDose - Minutes since insulin was administered
+ * @param product - Insulin product
+ * @param durationMinutes - User's duration of insulin action, if set
+ * @returns Activity point with level and IOB
+ */
+export function calculateProductActivity(
+  minutesFromDose: number,
+  product: InsulinProduct,
+  durationMinutes?: number
+): InsulinActivityPoint {
+  return calculateCurveActivity(
+    minutesFromDose,
+    getProductKinetics(product, durationMinutes),
+    product.curve
+  );
+}
+
 /**
  * Generate full activity curve for visualisation
  *
@@ -114,16 +284,110 @@ export function generateActivityCurve(
   return points;
 }
 
+/**
+ * Resolve the product used to model a dose
+ * Uses the product logged with the dose, then the user's default rapid-acting
+ * product for bolus doses. Returns undefined for legacy doses with neither.
+ *
+ * @param event - Insulin event
+ * @param insulinType - Type of insulin for the dose
+ * @param options - Activity options
+ * @returns Product, or undefined to use the type's default curve
+ */
+function resolveDoseProduct(
+  event: PhysiologicalEvent,
+  insulinType: InsulinType,
+  options: InsulinActivityOptions
+): InsulinProduct | undefined {
+  const logged = getInsulinProduct(event.metadata?.product as string | undefined);
+  if (logged) return logged;
+  if (insulinType === 'bolus') return getInsulinProduct(options.defaultBolusProduct);
+  return undefined;
+}
+
+/**
+ * Split a dose into the part delivered at once and the extended part
+ * Normal boluses, basal doses and profiles without a duration are delivered
+ * at once.
+ *
+ * @param units - Total dose in units
+ * @param delivery - Delivery profile, if any
+ * @returns Immediate and extended units and the extension duration
+ */
+export function getBolusDeliveryParts(
+  units: number,
+  delivery?: BolusDelivery
+): { immediateUnits: number; extendedUnits: number; durationMinutes: number } {
+  const durationMinutes = delivery?.durationMinutes ?? 0;
+  if (!delivery || delivery.type === 'normal' || durationMinutes <= 0) {
+    return { immediateUnits: units, extendedUnits: 0, durationMinutes: 0 };
+  }
+
+  const immediatePercent =
+    delivery.type === 'dual-wave' ? Math.max(0, Math.min(100, delivery.immediatePercent ?? 50)) : 0;
+  const immediateUnits = (units * immediatePercent) / 100;
+
+  return { immediateUnits, extendedUnits: units - immediateUnits, durationMinutes };
+}
+
+/**
+ * IOB and activity of a dose, integrated over its delivery profile
+ *
+ * @param minutesSinceDose - Minutes since delivery started
+ * @param units - Total dose in units
+ * @param delivery - Delivery profile, if any
+ * @param activityAt - Activity curve of the dose
+ * @returns Remaining IOB, activity in units at peak-normalised level, and units delivered
+ */
+function calculateDeliveredActivity(
+  minutesSinceDose: number,
+  units: number,
+  delivery: BolusDelivery | undefined,
+  activityAt: (minutesFromDose: number) => InsulinActivityPoint
+): { remainingIOB: number; activityUnits: number; deliveredUnits: number } {
+  const { immediateUnits, extendedUnits, durationMinutes } = getBolusDeliveryParts(units, delivery);
+
+  const immediate = activityAt(minutesSinceDose);
+  let remainingIOB = immediateUnits * immediate.insulinOnBoard;
+  let activityUnits = immediateUnits * immediate.activityLevel;
+  let deliveredUnits = immediateUnits;
+
+  if (extendedUnits > 0) {
+    const slices = Math.max(1, Math.ceil(durationMinutes / DELIVERY_STEP_MINUTES));
+    const sliceUnits = extendedUnits / slices;
+    const sliceMinutes = durationMinutes / slices;
+
+    for (let i = 0; i < slices; i++) {
+      // Each slice is delivered at the middle of its step
+      const deliveredAt = (i + 0.5) * sliceMinutes;
+      if (deliveredAt > minutesSinceDose) break;
+
+      const slice = activityAt(minutesSinceDose - deliveredAt);
+      remainingIOB += sliceUnits * slice.insulinOnBoard;
+      activityUnits += sliceUnits * slice.activityLevel;
+      deliveredUnits += sliceUnits;
+    }
+  }
+
+  return { remainingIOB, activityUnits, deliveredUnits };
+}
+
 /**
  * Calculate active insulin from multiple doses
+ * Each dose uses its product's curve; doses without a product fall back to
+ * the default curve for their insulin type. Extended and dual-wave doses are
+ * integrated over their delivery profile. Temp basal events add net basal
+ * IOB when a basal schedule is given.
  *
- * @param insulinEvents - Array of insulin events
+ * @param insulinEvents - Array of insulin and temp basal events
  * @param atTime - Time to calculate IOB at
+ * @param options - User's DIA, default bolus product and basal schedule
  * @returns Active insulin result with total IOB and breakdown
  */
 export function calculateActiveInsulin(
   insulinEvents: PhysiologicalEvent[],
-  atTime: Date = new Date()
+  atTime: Date = new Date(),
+  options: InsulinActivityOptions = {}
 ): ActiveInsulinResult {
   const doseContributions: DoseContribution[] = [];
   let totalIOB = 0;
@@ -141,14 +405,28 @@ export function calculateActiveInsulin(
     // Skip future doses
     if (minutesSinceDose < 0) continue;
 
-    const kinetics = INSULIN_KINETICS[insulinType];
-
-    // Skip if dose is past its duration
-    if (minutesSinceDose >= kinetics.durationMinutes) continue;
-
-    const activity = calculateInsulinActivity(minutesSinceDose, insulinType);
-    const remainingIOB = units * activity.insulinOnBoard;
-    const activityLevel = activity.activityLevel;
+    const product = resolveDoseProduct(event, insulinType, options);
+    const kinetics = product
+      ? getProductKinetics(product, options.bolusDurationMinutes)
+      : getInsulinKinetics(insulinType, options.bolusDurationMinutes);
+
+    const delivery = event.metadata?.delivery as BolusDelivery | undefined;
+    const { durationMinutes: deliveryMinutes } = getBolusDeliveryParts(units, delivery);
+
+    // Skip if the last of the dose is past its duration
+    const doseDurationMinutes = kinetics.durationMinutes + deliveryMinutes;
+    if (minutesSinceDose >= doseDurationMinutes) continue;
+
+    const { remainingIOB, activityUnits, deliveredUnits } = calculateDeliveredActivity(
+      minutesSinceDose,
+      units,
+      delivery,
+      (minutes) =>
+        product
+          ? calculateProductActivity(minutes, product, options.bolusDurationMinutes)
+          : calculateInsulinActivity(minutes, insulinType, options.bolusDurationMinutes)
+    );
+    const activityLevel = units > 0 ? activityUnits / units : 0;
 
     // Activity rate in units per hour (activity level is normalised 0-1)
     // At peak, roughly 50% of dose is absorbed per hour for bolus
@@ -159,7 +437,7 @@ export function calculateActiveInsulin(
     totalActivityRate += currentActivityRate;
 
     // Calculate when this dose will clear
-    const remainingMinutes = kinetics.durationMinutes - minutesSinceDose;
+    const remainingMinutes = doseDurationMinutes - minutesSinceDose;
     const clearTime = new Date(atTime.getTime() + remainingMinutes * 60 * 1000);
     if (clearTime > latestClearTime) {
       latestClearTime = clearTime;
@@ -170,17 +448,52 @@ export function calculateActiveInsulin(
       timestamp: doseTime,
       originalUnits: units,
       insulinType,
+      product: product?.id,
       remainingIOB,
       activityLevel,
-      minutesSinceDose
+      minutesSinceDose,
+      ...(deliveryMinutes > 0 && { deliveredUnits })
     });
   }
 
+  // Net basal: deviations from the schedule act like small rapid-acting doses
+  const basalProduct = getInsulinProduct(options.defaultBolusProduct);
+  const basalKinetics = basalProduct
+    ? getProductKinetics(basalProduct, options.bolusDurationMinutes)
+    : getInsulinKinetics('bolus', options.bolusDurationMinutes);
+  const netBasalDoses = calculateNetBasalDoses(
+    insulinEvents,
+    options.basalSchedule,
+    new Date(atTime.getTime() - basalKinetics.durationMinutes * 60 * 1000),
+    atTime
+  );
+
+  let netBasalIOB = 0;
+  for (const dose of netBasalDoses) {
+    const minutesSinceDose = (atTime.getTime() - dose.timestamp.getTime()) / (1000 * 60);
+    const activity = basalProduct
+      ? calculateProductActivity(minutesSinceDose, basalProduct, options.bolusDurationMinutes)
+      : calculateInsulinActivity(minutesSinceDose, 'bolus', options.bolusDurationMinutes);
+
+    netBasalIOB += dose.units * activity.insulinOnBoard;
+    totalActivityRate +=
+      activity.activityLevel * (dose.units / (basalKinetics.durationMinutes / 60)) * 2;
+
+    const clearTime = new Date(
+      dose.timestamp.getTime() + basalKinetics.durationMinutes * 60 * 1000
+    );
+    if (clearTime > latestClearTime) {
+      latestClearTime = clearTime;
+    }
+  }
+  totalIOB += netBasalIOB;
+
   return {
     totalIOB,
     activityRate: totalActivityRate,
     doseContributions,
-    estimatedClearTime: latestClearTime
+    estimatedClearTime: latestClearTime,
+    netBasalIOB
   };
 }
 
@@ -239,20 +552,22 @@ export function assessInsulinStacking(
  * @param startTime - Start of projection
  * @param endTime - End of projection
  * @param resolutionMinutes - Time step in minutes
+ * @param options - User's DIA and default bolus product
  * @returns Array of IOB values over time
  */
 export function projectInsulinActivity(
   insulinEvents: PhysiologicalEvent[],
   startTime: Date,
   endTime: Date,
-  resolutionMinutes: number = 5
+  resolutionMinutes: number = 5,
+  options: InsulinActivityOptions = {}
 ): Array<{ timestamp: Date; iob: number; activityRate: number }> {
   const projections: Array<{ timestamp: Date; iob: number; activityRate: number }> = [];
   const stepMs = resolutionMinutes * 60 * 1000;
 
   for (let t = startTime.getTime(); t <= endTime.getTime(); t += stepMs) {
     const atTime = new Date(t);
-    const result = calculateActiveInsulin(insulinEvents, atTime);
+    const result = calculateActiveInsulin(insulinEvents, atTime, options);
     projections.push({
       timestamp: atTime,
       iob: result.totalIOB,
@@ -3,32 +3,45 @@
  *
  * Calculates recommended insulin doses based on:
  * - Carbohydrate intake (using insulin-to-carb ratio)
+ * - Fat and protein (Fat-Protein Units), delivered as an extended or split bolus
  * - Current BSL and correction factor
  * - Insulin on board (IOB)
  * - Carbs on board (COB)
  * - Alcohol effects
+ * - Recent exercise
+ * - Sick days and menstrual cycle phase (with ketone advice on sick days)
+ * - Ketones, high BSL and low recent insulin (DKA risk rules)
  * - Time of day sensitivity
  *
  * Provides confidence intervals based on parameter uncertainty
  * and includes safety warnings for stacking, hypo risk, etc.
  *
+ * When a hypo is predicted it recommends the inverse: fast carbs to keep
+ * the predicted nadir above the hypo threshold, with 15/15 rule follow-up.
+ *
  * IMPORTANT: This is a decision-support tool, not medical advice.
  * Users must verify all recommendations with their healthcare provider.
  */
 
-import type { PhysiologicalEvent } from '../../types/events';
+import type { MacroData, PhysiologicalEvent, SensitivityConditionKey } from '../../types/events';
 import type {
   InsulinRecommendation,
+  BolusSplitSuggestion,
   DoseBreakdown,
+  RescueCarbOptions,
+  RescueCarbRecommendation,
   UserModelParameters,
   EventWindow
 } from '../../types/modeling';
 
 import { calculateActiveInsulin, assessInsulinStacking } from './InsulinDecayModel';
-import { calculateActiveCarbs } from './CarbAbsorptionModel';
+import { calculateActiveCarbs, getFatProteinAbsorption } from './CarbAbsorptionModel';
 import { calculateBloodAlcohol, getHypoglycemiaRiskWindow } from './AlcoholMetabolismModel';
+import { calculateExerciseEffect, getExerciseHypoRisk } from './ExerciseEffectModel';
 import { adjustDoseForTimeOfDay } from './CircadianModel';
-import { DEFAULT_USER_PARAMETERS } from './BSLPredictionModel';
+import { calculateConditionState } from './ConditionSensitivityModel';
+import { assessDKARisk, isSevereDKARisk } from './KetoneRiskModel';
+import { DEFAULT_USER_PARAMETERS, generateBSLTimeSeries } from './BSLPredictionModel';
 
 /**
  * Safety thresholds for recommendations
@@ -43,6 +56,36 @@ const SAFETY_LIMITS = {
   minConfidenceThreshold: 0.4 // Minimum confidence to show recommendation
 };
 
+/**
+ * Sick day and cycle phase names for dose warnings
+ */
+const CONDITION_WARNING_LABELS: Record<SensitivityConditionKey, string> = {
+  'sick-day': 'Sick day',
+  menstrual: 'Menstrual phase',
+  follicular: 'Follicular phase',
+  ovulatory: 'Ovulatory phase',
+  luteal: 'Luteal phase'
+};
+
+/**
+ * Rescue carb (hypo treatment) parameters
+ */
+const RESCUE_CARB_PARAMS = {
+  hypoThreshold: 4.0, // mmol/L
+  targetMargin: 0.5, // Aim this far above the threshold (mmol/L)
+  horizonMinutes: 180,
+  onsetMinutes: 15, // Fast carbs start raising BSL after about this long
+  minimumTreatment: 15, // 15/15 rule: 15 g for a current low (grams)
+  recheckMinutes: 15, // 15/15 rule: re-check after 15 minutes
+  maxRecheckMinutes: 60, // Re-check by then when no treatment is needed
+  closeCallMargin: 1.0, // Nadirs this close above the target are re-checked at the nadir (mmol/L)
+  recentReadingMinutes: 30, // Older readings are not a current BSL
+  alcoholExtraFraction: 0.25, // The liver releases less glucose with alcohol
+  severeHypoBSL: 3.0,
+  roundingGrams: 5,
+  maxCarbs: 60 // Larger needs are treated in rounds (grams)
+};
+
 /**
  * Confidence factors for recommendation uncertainty
  */
@@ -50,7 +93,8 @@ const CONFIDENCE_FACTORS = {
   parameterUncertainty: 0.15, // 15% uncertainty in user parameters
   iobUncertainty: 0.2, // 20% uncertainty in IOB calculation
   cobUncertainty: 0.25, // 25% uncertainty in COB
-  alcoholUncertainty: 0.3 // 30% additional uncertainty with alcohol
+  alcoholUncertainty: 0.3, // 30% additional uncertainty with alcohol
+  exerciseUncertainty: 0.2 // 20% additional uncertainty after exercise
 };
 
 /**
@@ -60,21 +104,33 @@ const CONFIDENCE_FACTORS = {
  * @param currentBSL - Current blood sugar level (mmol/L)
  * @param events - Event window with recent insulin/meal/BSL events
  * @param userParams - User-specific parameters
+ * @param fatProtein - Fat and protein in the meal, in grams
  * @returns Insulin recommendation with confidence interval
  */
 export function calculateMealDose(
   carbsGrams: number,
   currentBSL: number | null,
   events: EventWindow,
-  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS
+  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
+  fatProtein: Partial<Pick<MacroData, 'fat' | 'protein'>> = {}
 ): InsulinRecommendation {
   const warnings: string[] = [];
   const now = new Date();
 
   // Calculate current metabolic state
-  const iobResult = calculateActiveInsulin(events.insulinEvents, now);
+  const iobResult = calculateActiveInsulin(events.insulinEvents, now, {
+    bolusDurationMinutes: userParams.insulinDurationMinutes,
+    defaultBolusProduct: userParams.insulinProduct,
+    basalSchedule: userParams.basalSchedule
+  });
   const cobResult = calculateActiveCarbs(events.mealEvents, now);
   const alcoholResult = calculateBloodAlcohol(events.mealEvents, now, userParams.bodyWeightKg);
+  const exerciseResult = calculateExerciseEffect(events.exerciseEvents, now);
+  const conditionState = calculateConditionState(
+    events.conditionEvents,
+    now,
+    userParams.sensitivityMultipliers
+  );
 
   // 1. Carb coverage dose
   const carbCoverage = carbsGrams / userParams.insulinToCarbRatio;
@@ -131,7 +187,50 @@ export function calculateMealDose(
     }
   }
 
-  // 6. Time-of-day adjustment
+  // 6. Exercise adjustment
+  let exerciseAdjustment = 0;
+  const hasExercise = exerciseResult.sessionContributions.length > 0;
+  if (hasExercise) {
+    // Reduce dose due to increased insulin sensitivity
+    const sensitivityFactor = exerciseResult.insulinSensitivityModifier;
+    exerciseAdjustment = -(carbCoverage + correctionDose) * (1 - sensitivityFactor);
+
+    if (sensitivityFactor < 0.99) {
+      warnings.push(
+        `Recent exercise: increased insulin sensitivity. Dose reduced by ${Math.round((1 - sensitivityFactor) * 100)}%`
+      );
+    }
+
+    if (exerciseResult.isExercising) {
+      warnings.push(
+        'Exercise in progress. BSL may keep falling - consider carbs instead of insulin.'
+      );
+    } else if (exerciseResult.glucoseUptakeRate > 0.5) {
+      warnings.push('Exercise just finished. BSL may still be falling.');
+    }
+
+    // Add delayed hypo risk warning for the hardest recent session
+    const hardestSession = [...exerciseResult.sessionContributions].sort(
+      (a, b) => b.intensityFactor * b.durationMinutes - a.intensityFactor * a.durationMinutes
+    )[0];
+    const risk = getExerciseHypoRisk(hardestSession);
+    if (risk.severity !== 'low') {
+      warnings.push(risk.recommendation);
+    }
+  }
+
+  // 7. Sick day and cycle phase adjustment (raised insulin need)
+  const conditionAdjustment =
+    (carbCoverage + correctionDose) * (conditionState.insulinNeedMultiplier - 1);
+  for (const condition of conditionState.activeConditions) {
+    const change = Math.round((condition.multiplier - 1) * 100);
+    if (change === 0) continue;
+    warnings.push(
+      `${CONDITION_WARNING_LABELS[condition.key]}: insulin needs ${change > 0 ? 'raised' : 'lowered'} by ${Math.abs(change)}%`
+    );
+  }
+
+  // 8. Time-of-day adjustment
   const timeAdjust = adjustDoseForTimeOfDay(
     carbCoverage + correctionDose,
     now,
@@ -146,6 +245,8 @@ export function calculateMealDose(
     iobAdjustment +
     cobAdjustment +
     alcoholAdjustment +
+    exerciseAdjustment +
+    conditionAdjustment +
     circadianAdjustment;
 
   // Safety checks
@@ -170,6 +271,10 @@ export function calculateMealDose(
     warnings.push(stackingRisk.warning);
   }
 
+  // Active insulin beyond what the carbs and correction need also covers
+  // part of the fat and protein
+  const iobSurplus = Math.max(0, -recommendedDose);
+
   // Apply safety limits
   recommendedDose = Math.max(0, recommendedDose);
   recommendedDose = Math.min(recommendedDose, SAFETY_LIMITS.maxSingleDose);
@@ -177,12 +282,69 @@ export function calculateMealDose(
   // Round to nearest 0.5 units (most pumps/pens)
   recommendedDose = Math.round(recommendedDose * 2) / 2;
 
+  // Ketones with high BSL or low insulin: DKA risk comes before dose advice
+  const dkaRisk = assessDKARisk(events, userParams, { atTime: now, currentBSL });
+  if (isSevereDKARisk(dkaRisk.risk)) {
+    warnings.unshift(...dkaRisk.warnings);
+  } else {
+    warnings.push(...dkaRisk.warnings);
+  }
+
+  // Sick days: ketones can build up even when little insulin is needed
+  if (conditionState.isSickDay) {
+    warnings.push(
+      'Sick day: check blood ketones every 2-4 hours and keep taking basal insulin, even when not eating.'
+    );
+  }
+
+  // 9. Fat and protein: delayed carb equivalents, covered by a later part of the dose
+  const fatProteinAbsorption = getFatProteinAbsorption(fatProtein.fat, fatProtein.protein);
+  const fatProteinCoverage = fatProteinAbsorption
+    ? fatProteinAbsorption.carbEquivalents / userParams.insulinToCarbRatio
+    : 0;
+  let bolusSplit: BolusSplitSuggestion | undefined;
+  if (fatProteinAbsorption) {
+    const fpu = fatProteinAbsorption.fatProteinUnits.toFixed(1);
+    const hours = fatProteinAbsorption.durationMinutes / 60;
+
+    if (currentBSL !== null && currentBSL < SAFETY_LIMITS.hypoRiskBSL) {
+      warnings.push(
+        `High fat/protein meal (${fpu} FPU) will raise BSL later. Re-check in 2 hours and correct if rising.`
+      );
+    } else {
+      const extendedUnits =
+        Math.round(
+          Math.min(
+            Math.max(0, fatProteinCoverage - iobSurplus),
+            SAFETY_LIMITS.maxSingleDose - recommendedDose
+          ) * 2
+        ) / 2;
+
+      if (extendedUnits > 0) {
+        const immediateUnits = recommendedDose;
+        recommendedDose += extendedUnits;
+        bolusSplit = {
+          immediateUnits,
+          extendedUnits,
+          immediatePercent: Math.round((immediateUnits / recommendedDose) * 100),
+          extendedDurationMinutes: fatProteinAbsorption.durationMinutes,
+          splitDelayMinutes: fatProteinAbsorption.delayMinutes,
+          fatProteinUnits: fatProteinAbsorption.fatProteinUnits
+        };
+        warnings.push(
+          `High fat/protein meal (${fpu} FPU): take ${immediateUnits} units now and extend ${extendedUnits} units over ${hours} hours, or inject them ${fatProteinAbsorption.delayMinutes} minutes after eating.`
+        );
+      }
+    }
+  }
+
   // Calculate confidence interval
   const { lower, upper, confidence } = calculateDoseConfidence(
     recommendedDose,
     alcoholResult.alcoholInSystem > 0,
+    hasExercise,
     currentBSL === null,
-    carbsGrams
+    carbsGrams + (fatProteinAbsorption?.carbEquivalents ?? 0)
   );
 
   const breakdown: DoseBreakdown = {
@@ -191,7 +353,10 @@ export function calculateMealDose(
     iobAdjustment,
     cobAdjustment,
     alcoholAdjustment,
-    circadianAdjustment
+    exerciseAdjustment,
+    conditionAdjustment,
+    circadianAdjustment,
+    fatProteinCoverage
   };
 
   return {
@@ -200,6 +365,7 @@ export function calculateMealDose(
     confidence,
     breakdown,
     warnings,
+    bolusSplit,
     timestamp: now
   };
 }
@@ -220,12 +386,173 @@ export function calculateCorrectionDose(
   return calculateMealDose(0, currentBSL, events, userParams);
 }
 
+/**
+ * Calculate fast carbs to prevent or treat a hypo
+ *
+ * The lowest BSL predicted from the event window (insulin and carbs on
+ * board, exercise, alcohol and the current trend) sets how many grams are
+ * needed to stay above the threshold. A falling trend adds the drop before
+ * the carbs act, alcohol adds a margin because the liver releases less
+ * glucose, and a current low gets at least the 15 g of the 15/15 rule.
+ *
+ * @param events - Event window with recent insulin/meal/BSL events
+ * @param userParams - User parameters
+ * @param options - Hypo threshold, look-ahead and time
+ * @returns Carbs to take now (0 when none are needed) with re-check time and follow-up
+ */
+export function calculateRescueCarbs(
+  events: EventWindow,
+  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
+  options: RescueCarbOptions = {}
+): RescueCarbRecommendation {
+  const now = options.atTime ?? new Date();
+  const hypoThreshold = options.hypoThreshold ?? RESCUE_CARB_PARAMS.hypoThreshold;
+  const horizonMinutes = options.horizonMinutes ?? RESCUE_CARB_PARAMS.horizonMinutes;
+  const warnings: string[] = [];
+
+  // Deterministic prediction: the nadir, not its spread, sets the carbs
+  const timeSeries = generateBSLTimeSeries(
+    events,
+    now,
+    new Date(now.getTime() + horizonMinutes * 60 * 1000),
+    userParams,
+    5,
+    { memberCount: 0 }
+  );
+  const { state } = timeSeries.points[0];
+  const nadir = timeSeries.points.reduce((lowest, p) =>
+    p.predictedBSL < lowest.predictedBSL ? p : lowest
+  );
+
+  const lastBSL = state.lastBSL;
+  const isRecent =
+    lastBSL !== undefined &&
+    now.getTime() - lastBSL.timestamp.getTime() <=
+      RESCUE_CARB_PARAMS.recentReadingMinutes * 60 * 1000;
+  const currentBSL = isRecent ? lastBSL.value : null;
+  if (currentBSL === null) {
+    warnings.push('No recent BSL reading. Check BSL before treating if you can.');
+  }
+
+  // 1 g of fast carbs raises BSL by CF / ICR
+  const gramsPerMmol = userParams.insulinToCarbRatio / userParams.correctionFactor;
+  const target = hypoThreshold + RESCUE_CARB_PARAMS.targetMargin;
+
+  // 1. Lift the predicted nadir above the threshold. Predictions stop at a
+  // floor, so insulin on board not covered by carbs on board is a minimum.
+  const uncoveredIOBCarbs =
+    currentBSL !== null
+      ? state.insulin.totalIOB * userParams.insulinToCarbRatio -
+        state.carbs.totalCOB -
+        (currentBSL - target) * gramsPerMmol
+      : 0;
+  const nadirCarbs = Math.max(0, (target - nadir.predictedBSL) * gramsPerMmol, uncoveredIOBCarbs);
+  const isLow = currentBSL !== null && currentBSL < hypoThreshold;
+
+  // 2. Fall before the carbs act, beyond what the model already predicts
+  let trendCarbs = 0;
+  const trendRate = lastBSL?.trendRate;
+  if (
+    (nadirCarbs > 0 || isLow) &&
+    currentBSL !== null &&
+    trendRate !== undefined &&
+    trendRate < 0
+  ) {
+    const onsetPoint = timeSeries.points.find(
+      (p) => p.timestamp.getTime() >= now.getTime() + RESCUE_CARB_PARAMS.onsetMinutes * 60 * 1000
+    );
+    const modelledFall = onsetPoint ? currentBSL - onsetPoint.predictedBSL : 0;
+    const trendFall = -trendRate * RESCUE_CARB_PARAMS.onsetMinutes;
+    trendCarbs = Math.max(0, trendFall - modelledFall) * gramsPerMmol;
+  }
+
+  // 3. Alcohol holds back the liver's glucose output
+  let alcoholCarbs = 0;
+  if (state.alcohol.alcoholInSystem > 0 && nadirCarbs + trendCarbs > 0) {
+    alcoholCarbs = (nadirCarbs + trendCarbs) * RESCUE_CARB_PARAMS.alcoholExtraFraction;
+    warnings.push(
+      "Alcohol holds back the liver's glucose output and makes glucagon less effective. Eat some slower carbs after treating and re-check before sleeping."
+    );
+  }
+
+  // 4. A current low always gets the 15/15 rule minimum
+  const modelledCarbs = nadirCarbs + trendCarbs + alcoholCarbs;
+  const minimumTreatmentCarbs = isLow
+    ? Math.max(0, RESCUE_CARB_PARAMS.minimumTreatment - modelledCarbs)
+    : 0;
+
+  let carbsGrams =
+    Math.ceil((modelledCarbs + minimumTreatmentCarbs) / RESCUE_CARB_PARAMS.roundingGrams) *
+    RESCUE_CARB_PARAMS.roundingGrams;
+  if (carbsGrams > RESCUE_CARB_PARAMS.maxCarbs) {
+    carbsGrams = RESCUE_CARB_PARAMS.maxCarbs;
+    warnings.push(
+      `A large fall is predicted. Take ${carbsGrams} g now and keep treating if BSL is still falling at the re-check.`
+    );
+  }
+
+  if (currentBSL !== null && currentBSL < RESCUE_CARB_PARAMS.severeHypoBSL) {
+    warnings.unshift(
+      '⚠️ BSL is very low. If you cannot swallow safely, use glucagon and get help.'
+    );
+  }
+
+  const insulinOnBoard = state.insulin.totalIOB;
+  if (carbsGrams > 0 && insulinOnBoard > 1) {
+    warnings.push(
+      `${insulinOnBoard.toFixed(1)} units of insulin still active. BSL may keep falling after treating.`
+    );
+  }
+  if (carbsGrams > 0 && state.exercise.isExercising) {
+    warnings.push('Exercise in progress. Stop until BSL has recovered.');
+  }
+
+  // Re-check after 15 minutes when treating, by a close call's nadir, or within the hour
+  const minutesToNadir = (nadir.timestamp.getTime() - now.getTime()) / (60 * 1000);
+  let recheckMinutes = RESCUE_CARB_PARAMS.maxRecheckMinutes;
+  if (carbsGrams > 0) {
+    recheckMinutes = RESCUE_CARB_PARAMS.recheckMinutes;
+  } else if (nadir.predictedBSL < target + RESCUE_CARB_PARAMS.closeCallMargin) {
+    recheckMinutes = Math.round(
+      Math.min(
+        RESCUE_CARB_PARAMS.maxRecheckMinutes,
+        Math.max(RESCUE_CARB_PARAMS.recheckMinutes, minutesToNadir)
+      )
+    );
+  }
+
+  const followUp =
+    carbsGrams > 0
+      ? [
+          `Take ${carbsGrams} g of fast-acting carbs (glucose tablets, juice or a regular soft drink)`,
+          `Re-check BSL in ${RESCUE_CARB_PARAMS.recheckMinutes} minutes`,
+          `If still low, take another ${RESCUE_CARB_PARAMS.minimumTreatment} g and re-check after ${RESCUE_CARB_PARAMS.recheckMinutes} minutes`,
+          'Once back in range, eat a snack with slower carbs if your next meal is more than an hour away'
+        ]
+      : [];
+
+  return {
+    carbsGrams,
+    currentBSL,
+    predictedNadir: nadir.predictedBSL,
+    nadirTime: nadir.timestamp,
+    insulinOnBoard,
+    breakdown: { nadirCarbs, trendCarbs, alcoholCarbs, minimumTreatmentCarbs },
+    recheckMinutes,
+    recheckTime: new Date(now.getTime() + recheckMinutes * 60 * 1000),
+    followUp,
+    warnings,
+    timestamp: now
+  };
+}
+
 /**
  * Calculate confidence interval for dose recommendation
  */
 function calculateDoseConfidence(
   baseDose: number,
   hasAlcohol: boolean,
+  hasExercise: boolean,
   noBSL: boolean,
   carbsGrams: number
 ): { lower: number; upper: number; confidence: number } {
@@ -240,6 +567,11 @@ function calculateDoseConfidence(
     uncertainty += baseDose * CONFIDENCE_FACTORS.alcoholUncertainty;
   }
 
+  // Add uncertainty after exercise
+  if (hasExercise) {
+    uncertainty += baseDose * CONFIDENCE_FACTORS.exerciseUncertainty;
+  }
+
   // Add uncertainty if no BSL reading
   if (noBSL) {
     uncertainty += 1.0; // Flat 1 unit uncertainty without BSL
@@ -266,15 +598,46 @@ function calculateDoseConfidence(
  *
  * @param currentBSL - Current BSL
  * @param plannedCarbs - Planned carb intake
- * @returns Timing recommendation
+ * @param fatProtein - Planned fat and protein, in grams
+ * @returns Timing recommendation, with an extended part for high fat/protein meals
  */
 export function getTimingRecommendation(
   currentBSL: number | null,
-  _plannedCarbs: number
+  plannedCarbs: number,
+  fatProtein: Partial<Pick<MacroData, 'fat' | 'protein'>> = {}
 ): {
   minutesBefore: number;
   reason: string;
+  extendedBolus?: { immediatePercent: number; durationMinutes: number };
 } {
+  const timing = getPreMealTiming(currentBSL);
+  const fatProteinAbsorption = getFatProteinAbsorption(fatProtein.fat, fatProtein.protein);
+  if (!fatProteinAbsorption) return timing;
+
+  const hours = fatProteinAbsorption.durationMinutes / 60;
+  if (currentBSL !== null && currentBSL < 5.0) {
+    return {
+      ...timing,
+      reason: `${timing.reason}. High fat/protein meal: re-check in 2 hours and correct if rising`
+    };
+  }
+
+  // Split in proportion to the carbs and the fat-protein carb equivalents
+  const totalCarbs = Math.max(0, plannedCarbs) + fatProteinAbsorption.carbEquivalents;
+  return {
+    ...timing,
+    reason: `${timing.reason}. High fat/protein meal: cover the carbs now and extend the rest over ${hours} hours (or inject it ${fatProteinAbsorption.delayMinutes} minutes after eating)`,
+    extendedBolus: {
+      immediatePercent: Math.round((Math.max(0, plannedCarbs) / totalCarbs) * 100),
+      durationMinutes: fatProteinAbsorption.durationMinutes
+    }
+  };
+}
+
+/**
+ * Pre-meal injection timing from the current BSL
+ */
+function getPreMealTiming(currentBSL: number | null): { minutesBefore: number; reason: string } {
   if (currentBSL === null) {
     return {
       minutesBefore: 0,
@@ -454,11 +817,30 @@ export function explainRecommendation(recommendation: InsulinRecommendation): st
   if (breakdown.alcoholAdjustment !== 0) {
     lines.push(`  Alcohol adj: ${breakdown.alcoholAdjustment.toFixed(1)} units`);
   }
+  if (breakdown.exerciseAdjustment !== 0) {
+    lines.push(`  Exercise adj: ${breakdown.exerciseAdjustment.toFixed(1)} units`);
+  }
+  if (breakdown.conditionAdjustment !== 0) {
+    lines.push(
+      `  Sick day/cycle adj: ${breakdown.conditionAdjustment > 0 ? '+' : ''}${breakdown.conditionAdjustment.toFixed(1)} units`
+    );
+  }
   if (Math.abs(breakdown.circadianAdjustment) > 0.1) {
     lines.push(
       `  Time-of-day: ${breakdown.circadianAdjustment > 0 ? '+' : ''}${breakdown.circadianAdjustment.toFixed(1)} units`
     );
   }
+  if (breakdown.fatProteinCoverage > 0) {
+    lines.push(`  Fat/protein coverage: +${breakdown.fatProteinCoverage.toFixed(1)} units`);
+  }
+
+  if (recommendation.bolusSplit) {
+    const split = recommendation.bolusSplit;
+    lines.push('');
+    lines.push(
+      `Split: ${split.immediateUnits} units now, ${split.extendedUnits} units over ${split.extendedDurationMinutes / 60} hours`
+    );
+  }
 
   return lines.join('\n');
 }
@@ -0,0 +1,362 @@
+/**
+ * Ketone Risk Model
+ *
+ * Rule set for diabetic ketoacidosis (DKA) risk. Ketones build up when there
+ * is too little insulin for the body's needs, so risk rises when a raised
+ * ketone reading comes with:
+ * - High BSL (14 mmol/L or above)
+ * - Low recent insulin: a suspended pump or reduced basal, no basal dose in
+ *   the last day on injections, or a correction that has not lowered BSL
+ *   (blocked pump site, spoiled insulin)
+ * - A sick day, when stress hormones raise insulin need
+ *
+ * Blood ketones (beta-hydroxybutyrate) are banded as in the ISPAD sick day
+ * guidance: below 0.6 mmol/L normal, 0.6-1.4 elevated, 1.5-2.9 high and 3.0
+ * or above very high. Urine strip levels are mapped to approximate blood
+ * values first (see ketoneUnits). Without a recent reading, high BSL with
+ * low insulin is still flagged so ketones get checked.
+ *
+ * The result feeds dose recommendation warnings and the in-app ketone alert.
+ *
+ * References:
+ * - ISPAD Clinical Practice Consensus Guidelines 2022: Sick day management
+ * - ADA Standards of Care: Hyperglycemic crises
+ *
+ * IMPORTANT: This is a decision-support tool, not medical advice.
+ */
+
+import type { KetoneMetadata, PhysiologicalEvent } from '../../types/events';
+import type {
+  DKARiskAssessment,
+  DKARiskFactor,
+  DKARiskLevel,
+  DKARiskOptions,
+  EventWindow,
+  KetoneLevel,
+  UserModelParameters
+} from '../../types/modeling';
+
+import { calculateActiveInsulin } from './InsulinDecayModel';
+import { calculateConditionState } from './ConditionSensitivityModel';
+import { getBSLValueMmolL } from '../../utils/bslUnits';
+import { getKetoneValueMmolL } from '../../utils/ketoneUnits';
+
+/**
+ * Blood ketone thresholds (mmol/L), lower bound of each band
+ */
+export const KETONE_THRESHOLDS = {
+  elevated: 0.6,
+  high: 1.5,
+  veryHigh: 3.0
+};
+
+/**
+ * DKA rule parameters
+ */
+export const DKA_RULE_PARAMS = {
+  highBSL: 14.0, // mmol/L
+  recentKetoneHours: 4, // Older readings are re-checked rather than trusted
+  recentBSLMinutes: 60, // Latest reading counts as current within this
+  reducedBasalUnits: 0.5, // Net basal IOB at or below minus this = basal cut
+  missedBasalHours: 24, // Injections: a basal dose is expected within this
+  correctionMinUnits: 1, // Smaller boluses are not checked
+  correctionMinMinutes: 120, // A correction should be working by then
+  correctionMaxMinutes: 300,
+  preDoseReadingMinutes: 30 // Reading before the correction to compare with
+};
+
+const KETONE_LEVEL_RANK: Record<KetoneLevel, number> = {
+  normal: 0,
+  elevated: 1,
+  high: 2,
+  'very-high': 3
+};
+
+/**
+ * Band a ketone value
+ *
+ * @param valueMmolL - Blood ketones in mmol/L (or urine equivalent)
+ * @returns Ketone level
+ */
+export function classifyKetoneLevel(valueMmolL: number): KetoneLevel {
+  if (valueMmolL >= KETONE_THRESHOLDS.veryHigh) return 'very-high';
+  if (valueMmolL >= KETONE_THRESHOLDS.high) return 'high';
+  if (valueMmolL >= KETONE_THRESHOLDS.elevated) return 'elevated';
+  return 'normal';
+}
+
+function describeKetones(latest: NonNullable<DKARiskAssessment['latestKetone']>): string {
+  return latest.sampleType === 'urine' && latest.urineLevel
+    ? `Urine ketones ${latest.urineLevel}`
+    : `Ketones ${latest.valueMmolL.toFixed(1)} mmol/L`;
+}
+
+function formatHours(minutes: number): string {
+  return `${Math.round((minutes / 60) * 10) / 10} h`;
+}
+
+/**
+ * Latest ketone reading within the recent window
+ */
+function findLatestKetone(
+  ketoneEvents: PhysiologicalEvent[],
+  atMs: number
+): DKARiskAssessment['latestKetone'] {
+  const recentStart = atMs - DKA_RULE_PARAMS.recentKetoneHours * 60 * 60 * 1000;
+  const latest = ketoneEvents
+    .filter((e) => {
+      const t = new Date(e.timestamp).getTime();
+      return e.eventType === 'ketone' && t <= atMs && t >= recentStart;
+    })
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  if (!latest) return null;
+
+  const metadata = latest.metadata as Partial<KetoneMetadata>;
+  const valueMmolL = getKetoneValueMmolL(latest);
+  return {
+    eventId: latest.id,
+    valueMmolL,
+    sampleType: metadata.sampleType ?? 'blood',
+    ...(metadata.urineLevel && { urineLevel: metadata.urineLevel }),
+    level: classifyKetoneLevel(valueMmolL),
+    timestamp: new Date(latest.timestamp)
+  };
+}
+
+/**
+ * Latest BSL reading within the current-reading window
+ */
+function findCurrentBSL(bslEvents: PhysiologicalEvent[], atMs: number): number | null {
+  const latest = bslEvents
+    .filter((e) => {
+      const t = new Date(e.timestamp).getTime();
+      return t <= atMs && atMs - t <= DKA_RULE_PARAMS.recentBSLMinutes * 60 * 1000;
+    })
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  return latest ? getBSLValueMmolL(latest) : null;
+}
+
+/**
+ * Find a recent correction that has not lowered BSL
+ * A bolus given at high BSL should be working within a couple of hours; when
+ * BSL is no lower, insulin is probably not being absorbed.
+ *
+ * @returns The dose and minutes since it, or null
+ */
+function findFailedCorrection(
+  events: EventWindow,
+  currentBSL: number,
+  atMs: number
+): { units: number; minutesAgo: number } | null {
+  for (const dose of events.insulinEvents) {
+    if (dose.eventType !== 'insulin' || dose.metadata?.type === 'basal') continue;
+    if (dose.value < DKA_RULE_PARAMS.correctionMinUnits) continue;
+
+    const doseMs = new Date(dose.timestamp).getTime();
+    const minutesAgo = (atMs - doseMs) / (60 * 1000);
+    if (
+      minutesAgo < DKA_RULE_PARAMS.correctionMinMinutes ||
+      minutesAgo > DKA_RULE_PARAMS.correctionMaxMinutes
+    ) {
+      continue;
+    }
+
+    const before = events.bslEvents
+      .filter((e) => {
+        const t = new Date(e.timestamp).getTime();
+        return t <= doseMs && doseMs - t <= DKA_RULE_PARAMS.preDoseReadingMinutes * 60 * 1000;
+      })
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+    if (!before) continue;
+
+    const preDoseBSL = getBSLValueMmolL(before);
+    if (preDoseBSL >= DKA_RULE_PARAMS.highBSL && currentBSL >= preDoseBSL) {
+      return { units: dose.value, minutesAgo };
+    }
+  }
+  return null;
+}
+
+/**
+ * Assess DKA risk from recent ketones, BSL and insulin delivery
+ *
+ * @param events - Event window (ketone, BSL, insulin and condition events)
+ * @param userParams - User parameters (basal schedule marks a pump user)
+ * @param options - Time to assess at and current BSL
+ * @returns Risk level, the rules that matched and what to do
+ */
+export function assessDKARisk(
+  events: EventWindow,
+  userParams: Pick<
+    UserModelParameters,
+    'insulinDurationMinutes' | 'insulinProduct' | 'basalSchedule' | 'sensitivityMultipliers'
+  >,
+  options: DKARiskOptions = {}
+): DKARiskAssessment {
+  const atTime = options.atTime ?? new Date();
+  const atMs = atTime.getTime();
+  const onPump = (userParams.basalSchedule?.length ?? 0) > 0;
+
+  const latestKetone = findLatestKetone(events.ketoneEvents, atMs);
+  const currentBSL =
+    options.currentBSL !== undefined && options.currentBSL !== null
+      ? options.currentBSL
+      : findCurrentBSL(events.bslEvents, atMs);
+  const iob = calculateActiveInsulin(events.insulinEvents, atTime, {
+    bolusDurationMinutes: userParams.insulinDurationMinutes,
+    defaultBolusProduct: userParams.insulinProduct,
+    basalSchedule: userParams.basalSchedule
+  });
+  const conditions = calculateConditionState(
+    events.conditionEvents,
+    atTime,
+    userParams.sensitivityMultipliers
+  );
+
+  const factors: DKARiskFactor[] = [];
+  if (latestKetone && latestKetone.level !== 'normal') {
+    factors.push({
+      type: 'elevated-ketones',
+      description: `${describeKetones(latestKetone)} (${latestKetone.level.replace('-', ' ')})`
+    });
+  }
+
+  const highBSL = currentBSL !== null && currentBSL >= DKA_RULE_PARAMS.highBSL;
+  if (highBSL) {
+    factors.push({ type: 'high-bsl', description: `BSL ${currentBSL!.toFixed(1)} mmol/L` });
+  }
+
+  // Low insulin: basal cut on a pump, or missed basal on injections
+  if (onPump) {
+    const suspended = events.insulinEvents.some((e) => {
+      if (e.eventType !== 'temp-basal' || e.metadata?.mode !== 'suspend') return false;
+      const startMs = new Date(e.timestamp).getTime();
+      const durationMinutes = Number(e.metadata?.durationMinutes ?? e.value);
+      return startMs <= atMs && startMs + durationMinutes * 60 * 1000 > atMs;
+    });
+    if (suspended || iob.netBasalIOB <= -DKA_RULE_PARAMS.reducedBasalUnits) {
+      factors.push({
+        type: 'pump-suspended',
+        description: suspended ? 'Pump suspended' : 'Basal reduced by a temp basal'
+      });
+    }
+  } else {
+    const basalStart = atMs - DKA_RULE_PARAMS.missedBasalHours * 60 * 60 * 1000;
+    const hasBasal = events.insulinEvents.some((e) => {
+      const t = new Date(e.timestamp).getTime();
+      return e.eventType === 'insulin' && e.metadata?.type === 'basal' && t >= basalStart;
+    });
+    if (!hasBasal) {
+      factors.push({
+        type: 'missed-basal',
+        description: `No basal insulin in the last ${DKA_RULE_PARAMS.missedBasalHours} hours`
+      });
+    }
+  }
+
+  const failedCorrection =
+    currentBSL !== null ? findFailedCorrection(events, currentBSL, atMs) : null;
+  if (failedCorrection) {
+    factors.push({
+      type: 'correction-not-working',
+      description: `${failedCorrection.units} U correction ${formatHours(failedCorrection.minutesAgo)} ago has not lowered BSL`
+    });
+  }
+
+  if (conditions.isSickDay) {
+    factors.push({ type: 'sick-day', description: 'Sick day' });
+  }
+
+  const lowInsulin = factors.some(
+    (f) =>
+      f.type === 'pump-suspended' ||
+      f.type === 'missed-basal' ||
+      f.type === 'correction-not-working'
+  );
+  const aggravating = [highBSL, lowInsulin, conditions.isSickDay].filter(Boolean).length;
+
+  let risk: DKARiskLevel = 'none';
+  const warnings: string[] = [];
+  if (latestKetone) {
+    const described = describeKetones(latestKetone);
+    switch (KETONE_LEVEL_RANK[latestKetone.level]) {
+      case 3:
+        risk = 'urgent';
+        break;
+      case 2:
+        risk = aggravating >= 2 ? 'urgent' : 'high';
+        break;
+      case 1:
+        risk = aggravating >= 2 ? 'high' : aggravating === 1 ? 'moderate' : 'low';
+        break;
+      default:
+        risk = highBSL && lowInsulin ? 'low' : 'none';
+    }
+
+    if (risk === 'urgent') {
+      warnings.push(
+        `⚠️ ${described}${highBSL ? ' with high BSL' : ''}: risk of DKA. Seek urgent medical help now, especially if vomiting, drowsy or breathing fast.`
+      );
+    } else if (risk === 'high') {
+      warnings.push(
+        `⚠️ ${described}: take extra insulin as your sick day plan advises, drink water and re-check BSL and ketones in 1-2 hours. Seek medical help if they do not fall.`
+      );
+    } else if (risk === 'moderate') {
+      warnings.push(
+        `${described}: extra insulin may be needed. Drink water and re-check BSL and ketones in 2 hours.`
+      );
+    } else if (risk === 'low' && latestKetone.level === 'elevated') {
+      warnings.push(`${described}: slightly raised. Drink water and re-check in 2 hours.`);
+    } else if (risk === 'low') {
+      warnings.push(
+        'High BSL with low insulin: ketones are normal for now, re-check them in 2 hours.'
+      );
+    }
+  } else if (highBSL) {
+    risk = lowInsulin || conditions.isSickDay ? 'moderate' : 'low';
+    warnings.push(
+      risk === 'moderate'
+        ? `⚠️ High BSL with ${lowInsulin ? 'low insulin' : 'a sick day'}: check blood ketones now.`
+        : `BSL is ${DKA_RULE_PARAMS.highBSL} mmol/L or above: check blood ketones.`
+    );
+  }
+
+  // What to do about the insulin shortfall
+  if (risk !== 'none') {
+    for (const factor of factors) {
+      if (factor.type === 'pump-suspended') {
+        warnings.push(`${factor.description}: resume basal insulin.`);
+      } else if (factor.type === 'missed-basal') {
+        warnings.push(
+          `${factor.description}: if a basal dose was missed, take it now or ask your team how much.`
+        );
+      } else if (factor.type === 'correction-not-working') {
+        warnings.push(
+          onPump
+            ? `${factor.description}: give the next correction by pen or syringe and change the pump site.`
+            : `${factor.description}: check the insulin has not expired or been heated, and use a new pen.`
+        );
+      }
+    }
+  }
+
+  return {
+    risk,
+    latestKetone,
+    currentBSL,
+    insulinOnBoard: iob.totalIOB,
+    factors,
+    warnings,
+    timestamp: atTime
+  };
+}
+
+/**
+ * Whether a DKA risk level should be surfaced ahead of dose advice
+ *
+ * @param risk - Risk level
+ * @returns True for high and urgent risk
+ */
+export function isSevereDKARisk(risk: DKARiskLevel): boolean {
+  return risk === 'high' || risk === 'urgent';
+}
@@ -0,0 +1,370 @@
+/**
+ * Meal Detection Model
+ *
+ * Scans stored history for meals that were eaten but not logged, and for
+ * logged meals that were never bolused for. Results are suggestions for the
+ * user to review, not events.
+ *
+ * Unannounced meals are found from prediction residuals:
+ * 1. History is cut into back-to-back windows (30 minutes by default),
+ *    aligned to the clock so the same windows are found on every scan
+ * 2. For each window, `calculatePredictionFactors` is evaluated at its start
+ *    and end using only readings up to its start. Insulin, carbs and alcohol
+ *    are expressed as the effect still to come, so the change they explain
+ *    over the window is the drop in those factors from start to end. Exercise
+ *    and drift factors already cover the window.
+ * 3. The residual is the observed change minus the explained change. Runs of
+ *    windows whose residual rise exceeds `minUnexplainedRise` form one
+ *    episode.
+ * 4. Episodes close to a logged meal are skipped - those carbs were logged,
+ *    if perhaps under-counted
+ * 5. The meal is placed shortly before the rise started, and its carbs are
+ *    estimated from the unexplained rise using the ICR and correction factor,
+ *    scaled up for the carbs still to absorb when the rise ended
+ *
+ * A missed bolus is a logged meal with no bolus from shortly before to an
+ * hour after it. Meals logged as hypo treatment are not checked.
+ */
+
+import type { InsulinMetadata, MealMetadata, PhysiologicalEvent } from '../../types/events';
+import type {
+  BSLPredictionFactors,
+  MealDetectionOptions,
+  MealSuggestion,
+  UserModelParameters
+} from '../../types/modeling';
+
+import { isHypoTreatment } from '../../types/events';
+import { getBSLValueMmolL } from '../../utils/bslUnits';
+import {
+  DEFAULT_USER_PARAMETERS,
+  buildEventWindow,
+  calculateMetabolicState,
+  calculatePredictionFactors
+} from './BSLPredictionModel';
+import { calculateCarbAbsorption } from './CarbAbsorptionModel';
+import { EVENT_LOOKBACK_MS, lowerBound } from './EventLookback';
+
+/**
+ * Default detection options
+ */
+const DEFAULT_DETECTION_OPTIONS = {
+  windowMinutes: 30,
+  minUnexplainedRise: 1.5,
+  minBolusCarbs: 10
+};
+
+/**
+ * Detection timing and limits
+ */
+export const MEAL_DETECTION_PARAMS = {
+  readingToleranceMinutes: 10, // Window edges need a reading this close
+  mealLagMinutes: 15, // BSL starts rising about this long after eating
+  loggedMealBeforeMinutes: 60, // A meal logged this long before a rise explains it
+  bolusBeforeMinutes: 30, // A bolus this long before a meal covers it (pre-bolus)
+  bolusAfterMinutes: 60, // ... or this long after it
+  bolusRiseWindowMinutes: 180, // Readings this long after an unbolused meal show its rise
+  minAbsorbedFraction: 0.3, // Floor on the absorbed fraction when scaling up carbs
+  maxEstimatedCarbs: 150, // Cap on estimated carbs (grams)
+  carbRoundingGrams: 5
+};
+
+interface Reading {
+  id: string;
+  timestamp: Date;
+  value: number;
+}
+
+/**
+ * A residual window between two readings
+ */
+interface ResidualWindow {
+  start: Reading;
+  end: Reading;
+  /** Observed change minus the change the logged events explain (mmol/L) */
+  residual: number;
+}
+
+/**
+ * Reading closest to a time, within tolerance
+ */
+function findReadingNear(
+  readings: Reading[],
+  readingTimes: number[],
+  time: number,
+  toleranceMs: number
+): Reading | undefined {
+  let closest: Reading | undefined;
+  for (
+    let i = lowerBound(readingTimes, time - toleranceMs);
+    i < readings.length && readingTimes[i] <= time + toleranceMs;
+    i++
+  ) {
+    if (
+      !closest ||
+      Math.abs(readingTimes[i] - time) < Math.abs(closest.timestamp.getTime() - time)
+    ) {
+      closest = readings[i];
+    }
+  }
+  return closest;
+}
+
+/**
+ * Carbs logged for a meal event (grams)
+ */
+function getMealCarbs(event: PhysiologicalEvent): number {
+  const metadata = event.metadata as Partial<MealMetadata>;
+  return Math.max(0, metadata?.carbs ?? event.value) || 0;
+}
+
+/**
+ * Factors for insulin, carbs and alcohol still to come
+ */
+function getOnBoardEffect(factors: BSLPredictionFactors): number {
+  return factors.insulinEffect + factors.basalEffect + factors.carbEffect + factors.alcoholEffect;
+}
+
+/**
+ * BSL change over a window that the logged events do not explain
+ *
+ * @param known - Events known at the end of the window, readings only up to its start
+ * @param start - Reading at the start of the window
+ * @param end - Reading at the end of the window
+ * @param userParams - User parameters
+ * @returns Residual in mmol/L (positive = rose more than explained)
+ */
+function calculateWindowResidual(
+  known: PhysiologicalEvent[],
+  start: Reading,
+  end: Reading,
+  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS
+): number {
+  const window = buildEventWindow(known, start.timestamp, end.timestamp);
+  const atStart = calculatePredictionFactors(
+    calculateMetabolicState(window, start.timestamp, userParams),
+    start.timestamp,
+    start.timestamp,
+    userParams
+  );
+  const atEnd = calculatePredictionFactors(
+    calculateMetabolicState(window, end.timestamp, userParams),
+    start.timestamp,
+    end.timestamp,
+    userParams
+  );
+
+  const explainedChange =
+    getOnBoardEffect(atStart) -
+    getOnBoardEffect(atEnd) +
+    atEnd.exerciseEffect +
+    atEnd.circadianAdjustment +
+    atEnd.baselineDrift;
+
+  return end.value - start.value - explainedChange;
+}
+
+/**
+ * Find BSL rises the logged events do not explain
+ *
+ * @param events - Events (meals, insulin, exercise and BSL readings)
+ * @param options - Scan range, window length and thresholds
+ * @returns Unannounced meal suggestions, oldest first
+ */
+export function detectUnannouncedMeals(
+  events: PhysiologicalEvent[],
+  options: MealDetectionOptions = {}
+): MealSuggestion[] {
+  const windowMinutes = options.windowMinutes ?? DEFAULT_DETECTION_OPTIONS.windowMinutes;
+  const minRise = options.minUnexplainedRise ?? DEFAULT_DETECTION_OPTIONS.minUnexplainedRise;
+  const parametersAt = options.parametersAt ?? (() => DEFAULT_USER_PARAMETERS);
+  const windowMs = windowMinutes * 60 * 1000;
+  const toleranceMs = MEAL_DETECTION_PARAMS.readingToleranceMinutes * 60 * 1000;
+
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const times = sorted.map((e) => new Date(e.timestamp).getTime());
+  const readings: Reading[] = sorted
+    .filter((e) => e.eventType === 'bsl')
+    .map((e) => ({ id: e.id, timestamp: new Date(e.timestamp), value: getBSLValueMmolL(e) }));
+  if (readings.length < 2) return [];
+  const readingTimes = readings.map((r) => r.timestamp.getTime());
+
+  const rangeStart = Math.max(options.startTime?.getTime() ?? -Infinity, readingTimes[0]);
+  const rangeEnd = Math.min(
+    options.endTime?.getTime() ?? Infinity,
+    readingTimes[readingTimes.length - 1]
+  );
+
+  // Back-to-back windows aligned to the clock, as runs of consecutive windows
+  const runs: ResidualWindow[][] = [];
+  let run: ResidualWindow[] = [];
+  for (
+    let windowStart = Math.ceil(rangeStart / windowMs) * windowMs;
+    windowStart + windowMs <= rangeEnd + toleranceMs;
+    windowStart += windowMs
+  ) {
+    const start = findReadingNear(readings, readingTimes, windowStart, toleranceMs);
+    const end = findReadingNear(readings, readingTimes, windowStart + windowMs, toleranceMs);
+    if (!start || !end || start === end) {
+      if (run.length > 0) runs.push(run);
+      run = [];
+      continue;
+    }
+
+    const startMs = start.timestamp.getTime();
+    const endMs = end.timestamp.getTime();
+    const known = sorted
+      .slice(lowerBound(times, startMs - EVENT_LOOKBACK_MS), lowerBound(times, endMs + 1))
+      .filter((e) => e.eventType !== 'bsl' || new Date(e.timestamp).getTime() <= startMs);
+    const residual = calculateWindowResidual(known, start, end, parametersAt(start.timestamp));
+
+    if (residual >= minRise) {
+      run.push({ start, end, residual });
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length > 0) runs.push(run);
+
+  const loggedMealTimes = sorted
+    .filter((e) => e.eventType === 'meal' && getMealCarbs(e) > 0)
+    .map((e) => new Date(e.timestamp).getTime());
+
+  const suggestions: MealSuggestion[] = [];
+  for (const episode of runs) {
+    const first = episode[0];
+    const last = episode[episode.length - 1];
+    const riseStart = first.start.timestamp.getTime();
+    const riseEnd = last.end.timestamp.getTime();
+
+    // Carbs were logged for this rise
+    const explainedFrom = riseStart - MEAL_DETECTION_PARAMS.loggedMealBeforeMinutes * 60 * 1000;
+    if (loggedMealTimes.some((t) => t >= explainedFrom && t <= riseEnd)) continue;
+
+    const mealTime = new Date(riseStart - MEAL_DETECTION_PARAMS.mealLagMinutes * 60 * 1000);
+    const unexplainedRise = episode.reduce((sum, w) => sum + w.residual, 0);
+
+    // Carbs absorbed during the rise explain it; scale up for the rest
+    const userParams = parametersAt(mealTime);
+    const minutesToStart = (riseStart - mealTime.getTime()) / (60 * 1000);
+    const minutesToEnd = (riseEnd - mealTime.getTime()) / (60 * 1000);
+    const absorbedFraction = Math.max(
+      MEAL_DETECTION_PARAMS.minAbsorbedFraction,
+      calculateCarbAbsorption(minutesToEnd, 1).carbsAbsorbed -
+        calculateCarbAbsorption(minutesToStart, 1).carbsAbsorbed
+    );
+    const carbsAbsorbed =
+      (unexplainedRise * userParams.insulinToCarbRatio) / userParams.correctionFactor;
+    const rounding = MEAL_DETECTION_PARAMS.carbRoundingGrams;
+    const estimatedCarbs = Math.min(
+      MEAL_DETECTION_PARAMS.maxEstimatedCarbs,
+      Math.max(rounding, Math.round(carbsAbsorbed / absorbedFraction / rounding) * rounding)
+    );
+
+    // Larger rises over more windows are less likely to be noise
+    const strength = Math.min(1, unexplainedRise / (minRise * 4));
+    const confidence = Math.min(0.9, 0.4 + 0.4 * strength + (episode.length > 1 ? 0.1 : 0));
+
+    const supportingEventIds = [...new Set(episode.flatMap((w) => [w.start.id, w.end.id]))];
+
+    suggestions.push({
+      id: `unannounced-meal-${first.start.id}`,
+      type: 'unannounced-meal',
+      timestamp: mealTime,
+      estimatedCarbs,
+      unexplainedRise: Math.round(unexplainedRise * 10) / 10,
+      confidence: Math.round(confidence * 100) / 100,
+      supportingEventIds
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Find logged meals with no bolus around them
+ *
+ * @param events - Events (meals, insulin and BSL readings)
+ * @param options - Scan range and smallest meal checked
+ * @returns Missed bolus suggestions, oldest first
+ */
+export function detectMissedBoluses(
+  events: PhysiologicalEvent[],
+  options: MealDetectionOptions = {}
+): MealSuggestion[] {
+  const minCarbs = options.minBolusCarbs ?? DEFAULT_DETECTION_OPTIONS.minBolusCarbs;
+  const minRise = options.minUnexplainedRise ?? DEFAULT_DETECTION_OPTIONS.minUnexplainedRise;
+  const rangeStart = options.startTime?.getTime() ?? -Infinity;
+  const rangeEnd = options.endTime?.getTime() ?? Date.now();
+  const beforeMs = MEAL_DETECTION_PARAMS.bolusBeforeMinutes * 60 * 1000;
+  const afterMs = MEAL_DETECTION_PARAMS.bolusAfterMinutes * 60 * 1000;
+  const riseWindowMs = MEAL_DETECTION_PARAMS.bolusRiseWindowMinutes * 60 * 1000;
+
+  const boluses = events
+    .filter(
+      (e) => e.eventType === 'insulin' && (e.metadata as Partial<InsulinMetadata>).type !== 'basal'
+    )
+    .map((e) => new Date(e.timestamp).getTime());
+  const readings = events
+    .filter((e) => e.eventType === 'bsl')
+    .map((e) => ({ id: e.id, timestamp: new Date(e.timestamp), value: getBSLValueMmolL(e) }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const suggestions: MealSuggestion[] = [];
+  for (const meal of events) {
+    if (meal.eventType !== 'meal' || getMealCarbs(meal) < minCarbs) continue;
+    // Carbs eaten for a low are not bolused for
+    if (isHypoTreatment(meal)) continue;
+
+    const mealMs = new Date(meal.timestamp).getTime();
+    // Only meals whose bolus window has closed
+    if (mealMs < rangeStart || mealMs + afterMs > rangeEnd) continue;
+    if (boluses.some((t) => t >= mealMs - beforeMs && t <= mealMs + afterMs)) continue;
+
+    // A clear rise after the meal makes a missed bolus more likely than a missed log
+    const atMeal = readings.filter((r) => Math.abs(r.timestamp.getTime() - mealMs) <= beforeMs);
+    const after = readings.filter(
+      (r) => r.timestamp.getTime() > mealMs && r.timestamp.getTime() <= mealMs + riseWindowMs
+    );
+    const baseline = atMeal.length > 0 ? atMeal[atMeal.length - 1] : undefined;
+    const peak = after.reduce<(typeof after)[number] | undefined>(
+      (highest, r) => (!highest || r.value > highest.value ? r : highest),
+      undefined
+    );
+    const rise = baseline && peak ? peak.value - baseline.value : undefined;
+
+    suggestions.push({
+      id: `missed-bolus-${meal.id}`,
+      type: 'missed-bolus',
+      timestamp: new Date(meal.timestamp),
+      unexplainedRise: rise !== undefined ? Math.round(rise * 10) / 10 : undefined,
+      confidence: rise !== undefined && rise >= minRise * 2 ? 0.9 : 0.6,
+      mealEventId: meal.id,
+      supportingEventIds: [
+        meal.id,
+        ...(baseline && peak && rise !== undefined && rise > 0 ? [baseline.id, peak.id] : [])
+      ]
+    });
+  }
+
+  return suggestions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Scan history for unannounced meals and missed boluses
+ *
+ * @param events - Events (meals, insulin, exercise and BSL readings)
+ * @param options - Scan range, window length and thresholds
+ * @returns Suggestions, newest first
+ */
+export function detectMealSuggestions(
+  events: PhysiologicalEvent[],
+  options: MealDetectionOptions = {}
+): MealSuggestion[] {
+  return [...detectUnannouncedMeals(events, options), ...detectMissedBoluses(events, options)].sort(
+    (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+  );
+}
@@ -0,0 +1,706 @@
+/**
+ * Personal Parameter Fitting
+ *
+ * Estimates a user's insulin-to-carb ratio, correction factor and per-hour
+ * circadian adjustments from their own history, by minimising the error of
+ * `predictBSL` against BSL readings that were actually observed.
+ *
+ * How it works:
+ * 1. Each BSL reading becomes an observation: predict it from an earlier
+ *    reading 30-180 minutes before, using the insulin, meals and exercise
+ *    logged around it
+ * 2. ICR and CF are fitted together by coordinate descent (golden-section
+ *    search on a log scale) to minimise squared prediction error
+ * 3. Each hour with enough observations gets its own circadian multiplier,
+ *    fitted the same way with ICR and CF held fixed
+ * 4. A small penalty for moving away from the current value keeps
+ *    parameters the data cannot pin down where they were
+ * 5. Confidence intervals come from the curvature of the error surface at
+ *    the optimum - a flat surface means the data says little about the value
+ *
+ * Readings with no active insulin or carbs carry no information about ICR or
+ * CF, so they only count towards the data points of the parameters they can
+ * inform. Accuracy is reported in-sample: review before applying.
+ *
+ * Sick day and cycle phase multipliers are fitted separately, from readings
+ * with insulin on board while the condition was logged, with ICR and CF held
+ * at their current values.
+ */
+
+import type { PhysiologicalEvent, SensitivityConditionKey } from '../../types/events';
+import type {
+  EventWindow,
+  ParameterEstimate,
+  ParameterFitOptions,
+  ParameterFitResult,
+  PredictionAccuracy,
+  SensitivityMultiplierFitResult,
+  UserModelParameters
+} from '../../types/modeling';
+
+import {
+  DEFAULT_USER_PARAMETERS,
+  buildEventWindow,
+  calculateMetabolicState,
+  predictBSL
+} from './BSLPredictionModel';
+import { CONDITION_PARAMS, DEFAULT_SENSITIVITY_MULTIPLIERS } from './ConditionSensitivityModel';
+
+/**
+ * Default fitting options
+ */
+const DEFAULT_FIT_OPTIONS: Required<ParameterFitOptions> = {
+  minHorizonMinutes: 30,
+  maxHorizonMinutes: 180,
+  maxObservations: 500,
+  minObservationsPerHour: 8,
+  fitCircadian: true
+};
+
+/**
+ * Plausible ranges for fitted parameters
+ */
+const PARAMETER_BOUNDS = {
+  insulinToCarbRatio: [3, 40] as [number, number],
+  correctionFactor: [0.5, 8] as [number, number],
+  circadianAdjustment: [0.5, 2] as [number, number],
+  sensitivityMultiplier: [CONDITION_PARAMS.minMultiplier, CONDITION_PARAMS.maxMultiplier] as [
+    number,
+    number
+  ]
+};
+
+/**
+ * Minimum observations before a fit is attempted at all, and before
+ * ICR or CF are moved from their current values
+ */
+const MIN_TOTAL_OBSERVATIONS = 20;
+const MIN_PARAMETER_OBSERVATIONS = 10;
+
+/**
+ * Coordinate descent passes over ICR/CF and circadian adjustments
+ */
+const FIT_PASSES = 3;
+
+/**
+ * Penalty per observation for moving a parameter away from its starting value,
+ * in (mmol/L)² per squared log-ratio. Small enough that real evidence wins.
+ */
+const SHRINKAGE_WEIGHT = 0.05;
+
+/**
+ * Golden-section search iterations (bracket shrinks to ~0.01% of its width)
+ */
+const SEARCH_ITERATIONS = 20;
+
+function clamp(value: number, bounds: [number, number]): number {
+  return Math.max(bounds[0], Math.min(bounds[1], value));
+}
+
+/**
+ * Check whether a fitted value ended on the edge of its plausible range
+ * The search stops there, so the best fit lies outside the range or the
+ * model does not fit the data.
+ */
+function isAtBound(value: number, bounds: [number, number]): boolean {
+  const tolerance = (bounds[1] - bounds[0]) * 0.001;
+  return value <= bounds[0] + tolerance || value >= bounds[1] - tolerance;
+}
+
+/**
+ * Warning for a fitted value on the edge of its plausible range
+ */
+function boundWarning(label: string, value: number, bounds: [number, number]): string {
+  const edge = value <= (bounds[0] + bounds[1]) / 2 ? 'lower' : 'upper';
+  return `${label} ended at ${value}, the ${edge} limit of ${bounds[0]}-${bounds[1]}. The best fit may lie outside this range or the model may not fit your data - check logged doses and carbs before applying it.`;
+}
+
+/**
+ * A BSL reading to predict from an earlier one
+ */
+interface FitObservation {
+  window: EventWindow;
+  targetTime: Date;
+  observed: number;
+  hour: number;
+  hasCarbs: boolean;
+  hasInsulin: boolean;
+  /** Sick day and cycle phase in effect at the target time */
+  conditionKeys: SensitivityConditionKey[];
+}
+
+/**
+ * Build observations from event history
+ *
+ * @param events - Event history (any order)
+ * @param userParams - Parameters used to decide which observations are informative
+ * @param options - Fit options
+ * @returns Observations, most recent first
+ */
+function buildObservations(
+  events: PhysiologicalEvent[],
+  userParams: UserModelParameters,
+  options: Required<ParameterFitOptions>
+): FitObservation[] {
+  const bslEvents = events
+    .filter((e) => e.eventType === 'bsl')
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  const otherEvents = events.filter((e) => e.eventType !== 'bsl');
+
+  const minGapMs = options.minHorizonMinutes * 60 * 1000;
+  const maxGapMs = options.maxHorizonMinutes * 60 * 1000;
+  const observations: FitObservation[] = [];
+
+  for (let i = 0; i < bslEvents.length && observations.length < options.maxObservations; i++) {
+    const target = bslEvents[i];
+    const targetTime = new Date(target.timestamp);
+
+    // Latest earlier reading inside the horizon becomes the baseline
+    const baseline = bslEvents.slice(i + 1).find((e) => {
+      const gap = targetTime.getTime() - new Date(e.timestamp).getTime();
+      return gap >= minGapMs && gap <= maxGapMs;
+    });
+    if (!baseline) continue;
+
+    const baselineTime = new Date(baseline.timestamp);
+    const window = {
+      ...buildEventWindow(otherEvents, baselineTime, targetTime),
+      bslEvents: [baseline]
+    };
+
+    const state = calculateMetabolicState(window, targetTime, userParams);
+    observations.push({
+      window,
+      targetTime,
+      observed: target.value,
+      hour: targetTime.getHours(),
+      hasCarbs: state.carbs.totalCOB > 0,
+      hasInsulin: state.insulin.totalIOB > 0,
+      conditionKeys: state.conditions.activeConditions.map((c) => c.key)
+    });
+  }
+
+  return observations;
+}
+
+/**
+ * Fitting only compares predicted values, so the ensemble is skipped
+ */
+const NO_ENSEMBLE = { memberCount: 0 };
+
+/**
+ * Sum of squared prediction errors
+ */
+function sumSquaredError(observations: FitObservation[], userParams: UserModelParameters): number {
+  let total = 0;
+  for (const obs of observations) {
+    const error =
+      predictBSL(obs.window, obs.targetTime, userParams, NO_ENSEMBLE).predictedBSL - obs.observed;
+    total += error * error;
+  }
+  return total;
+}
+
+/**
+ * Calculate prediction accuracy for a set of observations
+ */
+function measureAccuracy(
+  observations: FitObservation[],
+  userParams: UserModelParameters
+): PredictionAccuracy {
+  if (observations.length === 0) {
+    return { mae: 0, rmse: 0, bias: 0, count: 0 };
+  }
+
+  let absTotal = 0;
+  let squaredTotal = 0;
+  let signedTotal = 0;
+  for (const obs of observations) {
+    const error =
+      predictBSL(obs.window, obs.targetTime, userParams, NO_ENSEMBLE).predictedBSL - obs.observed;
+    absTotal += Math.abs(error);
+    squaredTotal += error * error;
+    signedTotal += error;
+  }
+
+  const n = observations.length;
+  return {
+    mae: absTotal / n,
+    rmse: Math.sqrt(squaredTotal / n),
+    bias: signedTotal / n,
+    count: n
+  };
+}
+
+/**
+ * Minimise a function over [low, high] using golden-section search on a log scale
+ * Parameters here are ratios, so relative steps suit them better than absolute ones
+ *
+ * @param objective - Function to minimise
+ * @param bounds - Search range
+ * @returns Value at the minimum
+ */
+function goldenSectionSearch(
+  objective: (value: number) => number,
+  bounds: [number, number]
+): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = Math.log(bounds[0]);
+  let b = Math.log(bounds[1]);
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  let fc = objective(Math.exp(c));
+  let fd = objective(Math.exp(d));
+
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    if (fc < fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - ratio * (b - a);
+      fc = objective(Math.exp(c));
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + ratio * (b - a);
+      fd = objective(Math.exp(d));
+    }
+  }
+
+  return Math.exp((a + b) / 2);
+}
+
+/**
+ * Penalise moving away from the starting value, so parameters the data cannot
+ * pin down (a flat error surface) stay where they were instead of drifting
+ *
+ * @param objective - Sum of squared errors as a function of the parameter
+ * @param previousValue - Starting value
+ * @param dataPoints - Observations behind the objective
+ * @returns Penalised objective
+ */
+function withShrinkage(
+  objective: (value: number) => number,
+  previousValue: number,
+  dataPoints: number
+): (value: number) => number {
+  return (value) =>
+    objective(value) + dataPoints * SHRINKAGE_WEIGHT * Math.log(value / previousValue) ** 2;
+}
+
+/**
+ * Approximate 95% confidence interval from the curvature of the error surface
+ *
+ * Uses the standard least-squares approximation var(θ) ≈ 2σ² / S''(θ), where
+ * S is the sum of squared errors and σ² = S / (n - 1), on a log scale.
+ *
+ * @param objective - Sum of squared errors as a function of the parameter
+ * @param value - Fitted value
+ * @param dataPoints - Observations behind the fit
+ * @param bounds - Plausible range (used when the surface is flat or the fit ends on it)
+ * @returns Confidence interval
+ */
+function estimateConfidenceInterval(
+  objective: (value: number) => number,
+  value: number,
+  dataPoints: number,
+  bounds: [number, number]
+): [number, number] {
+  if (isAtBound(value, bounds)) {
+    return [bounds[0], bounds[1]];
+  }
+
+  const step = 0.05;
+  const logValue = Math.log(value);
+  const centre = objective(value);
+  const curvature =
+    (objective(Math.exp(logValue + step)) - 2 * centre + objective(Math.exp(logValue - step))) /
+    (step * step);
+
+  if (dataPoints < 2 || curvature <= 0) {
+    return [bounds[0], bounds[1]];
+  }
+
+  const variance = centre / (dataPoints - 1);
+  const standardError = Math.sqrt((2 * variance) / curvature);
+
+  return [
+    Math.max(bounds[0], Math.exp(logValue - 1.96 * standardError)),
+    Math.min(bounds[1], Math.exp(logValue + 1.96 * standardError))
+  ];
+}
+
+/**
+ * Measure how well parameters predict the user's history
+ *
+ * @param events - Event history
+ * @param userParams - Parameters to evaluate
+ * @param options - Fit options (horizon and observation limits)
+ * @returns Prediction accuracy
+ */
+export function evaluateParameterAccuracy(
+  events: PhysiologicalEvent[],
+  userParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
+  options: ParameterFitOptions = {}
+): PredictionAccuracy {
+  const fitOptions = { ...DEFAULT_FIT_OPTIONS, ...options };
+  return measureAccuracy(buildObservations(events, userParams, fitOptions), userParams);
+}
+
+/**
+ * Fit ICR, CF and circadian adjustments to event history
+ *
+ * @param events - Event history with BSL readings, insulin, meals and exercise
+ * @param startParams - Current parameters (starting point and fallback)
+ * @param options - Fit options
+ * @returns Fitted parameters with confidence intervals and accuracy comparison
+ */
+export function fitUserParameters(
+  events: PhysiologicalEvent[],
+  startParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
+  options: ParameterFitOptions = {}
+): ParameterFitResult {
+  const fitOptions = { ...DEFAULT_FIT_OPTIONS, ...options };
+  const warnings: string[] = [];
+  const observations = buildObservations(events, startParams, fitOptions);
+  const before = measureAccuracy(observations, startParams);
+
+  const carbObservations = observations.filter((o) => o.hasCarbs);
+  const insulinObservations = observations.filter((o) => o.hasInsulin);
+
+  const unchanged = (value: number, dataPoints: number): ParameterEstimate => ({
+    value,
+    previousValue: value,
+    confidenceInterval: [value, value],
+    dataPoints
+  });
+
+  if (observations.length < MIN_TOTAL_OBSERVATIONS) {
+    warnings.push(
+      `Insufficient data for fitting. Need at least ${MIN_TOTAL_OBSERVATIONS} BSL readings with an earlier reading ${fitOptions.minHorizonMinutes}-${fitOptions.maxHorizonMinutes} minutes before; found ${observations.length}.`
+    );
+    return {
+      insulinToCarbRatio: unchanged(startParams.insulinToCarbRatio, carbObservations.length),
+      correctionFactor: unchanged(startParams.correctionFactor, insulinObservations.length),
+      circadianAdjustments: {},
+      parameters: startParams,
+      before,
+      after: before,
+      observationCount: observations.length,
+      warnings,
+      fittedAt: new Date()
+    };
+  }
+
+  const fitICR = carbObservations.length >= MIN_PARAMETER_OBSERVATIONS;
+  const fitCF = insulinObservations.length >= MIN_PARAMETER_OBSERVATIONS;
+  if (!fitICR) {
+    warnings.push(
+      `Only ${carbObservations.length} readings with carbs on board. Insulin-to-carb ratio left unchanged.`
+    );
+  }
+  if (!fitCF) {
+    warnings.push(
+      `Only ${insulinObservations.length} readings with insulin on board. Correction factor left unchanged.`
+    );
+  }
+
+  // Group observations by hour for circadian fitting. Time-of-day sensitivity
+  // only scales the carb effect, so readings without carbs on board say nothing
+  const hourlyObservations = new Map<number, FitObservation[]>();
+  for (const obs of carbObservations) {
+    const group = hourlyObservations.get(obs.hour) ?? [];
+    group.push(obs);
+    hourlyObservations.set(obs.hour, group);
+  }
+  const circadianHours = fitOptions.fitCircadian
+    ? [...hourlyObservations.keys()]
+        .filter((h) => hourlyObservations.get(h)!.length >= fitOptions.minObservationsPerHour)
+        .sort((a, b) => a - b)
+    : [];
+
+  let params: UserModelParameters = {
+    ...startParams,
+    circadianAdjustments: { ...startParams.circadianAdjustments }
+  };
+
+  const icrObjective = (value: number) =>
+    sumSquaredError(observations, { ...params, insulinToCarbRatio: value });
+  // The carb effect scales with CF / ICR, so vary ICR alongside CF to keep
+  // carb sensitivity fixed - otherwise the two searches fight each other
+  const cfObjective = (value: number) =>
+    sumSquaredError(observations, {
+      ...params,
+      correctionFactor: value,
+      insulinToCarbRatio: (params.insulinToCarbRatio * value) / params.correctionFactor
+    });
+  // Predictions interpolate between the current and next hour, so an hour's
+  // adjustment also affects readings in the hour before it
+  const hourSubset = (hour: number) => [
+    ...hourlyObservations.get(hour)!,
+    ...(hourlyObservations.get((hour + 23) % 24) ?? [])
+  ];
+  const hourObjective = (hour: number) => (value: number) =>
+    sumSquaredError(hourSubset(hour), {
+      ...params,
+      circadianAdjustments: { ...params.circadianAdjustments, [hour]: value }
+    });
+
+  for (let pass = 0; pass < FIT_PASSES; pass++) {
+    if (fitCF) {
+      const correctionFactorValue = goldenSectionSearch(
+        withShrinkage(cfObjective, startParams.correctionFactor, insulinObservations.length),
+        PARAMETER_BOUNDS.correctionFactor
+      );
+      params = {
+        ...params,
+        correctionFactor: correctionFactorValue,
+        insulinToCarbRatio: clamp(
+          (params.insulinToCarbRatio * correctionFactorValue) / params.correctionFactor,
+          PARAMETER_BOUNDS.insulinToCarbRatio
+        )
+      };
+    }
+    if (fitICR) {
+      params = {
+        ...params,
+        insulinToCarbRatio: goldenSectionSearch(
+          withShrinkage(icrObjective, startParams.insulinToCarbRatio, carbObservations.length),
+          PARAMETER_BOUNDS.insulinToCarbRatio
+        )
+      };
+    }
+    for (const hour of circadianHours) {
+      params = {
+        ...params,
+        circadianAdjustments: {
+          ...params.circadianAdjustments,
+          [hour]: goldenSectionSearch(
+            withShrinkage(
+              hourObjective(hour),
+              startParams.circadianAdjustments?.[hour] ?? 1.0,
+              hourSubset(hour).length
+            ),
+            PARAMETER_BOUNDS.circadianAdjustment
+          )
+        }
+      };
+    }
+  }
+
+  // Round to the precision users enter in settings
+  params = {
+    ...params,
+    insulinToCarbRatio: Math.round(params.insulinToCarbRatio * 10) / 10,
+    correctionFactor: Math.round(params.correctionFactor * 10) / 10,
+    circadianAdjustments: Object.fromEntries(
+      Object.entries(params.circadianAdjustments ?? {}).map(([hour, value]) => [
+        hour,
+        Math.round(value! * 100) / 100
+      ])
+    )
+  };
+
+  const insulinToCarbRatio: ParameterEstimate = fitICR
+    ? {
+        value: params.insulinToCarbRatio,
+        previousValue: startParams.insulinToCarbRatio,
+        confidenceInterval: estimateConfidenceInterval(
+          icrObjective,
+          params.insulinToCarbRatio,
+          carbObservations.length,
+          PARAMETER_BOUNDS.insulinToCarbRatio
+        ),
+        dataPoints: carbObservations.length
+      }
+    : unchanged(startParams.insulinToCarbRatio, carbObservations.length);
+
+  const correctionFactor: ParameterEstimate = fitCF
+    ? {
+        value: params.correctionFactor,
+        previousValue: startParams.correctionFactor,
+        confidenceInterval: estimateConfidenceInterval(
+          cfObjective,
+          params.correctionFactor,
+          insulinObservations.length,
+          PARAMETER_BOUNDS.correctionFactor
+        ),
+        dataPoints: insulinObservations.length
+      }
+    : unchanged(startParams.correctionFactor, insulinObservations.length);
+
+  if (fitICR && isAtBound(insulinToCarbRatio.value, PARAMETER_BOUNDS.insulinToCarbRatio)) {
+    warnings.push(
+      boundWarning(
+        'Insulin-to-carb ratio',
+        insulinToCarbRatio.value,
+        PARAMETER_BOUNDS.insulinToCarbRatio
+      )
+    );
+  }
+  if (fitCF && isAtBound(correctionFactor.value, PARAMETER_BOUNDS.correctionFactor)) {
+    warnings.push(
+      boundWarning('Correction factor', correctionFactor.value, PARAMETER_BOUNDS.correctionFactor)
+    );
+  }
+
+  const circadianAdjustments: Partial<Record<number, ParameterEstimate>> = {};
+  for (const hour of circadianHours) {
+    const value = params.circadianAdjustments![hour]!;
+    const hourCount = hourlyObservations.get(hour)!.length;
+    circadianAdjustments[hour] = {
+      value,
+      previousValue: startParams.circadianAdjustments?.[hour] ?? 1.0,
+      confidenceInterval: estimateConfidenceInterval(
+        hourObjective(hour),
+        value,
+        hourCount,
+        PARAMETER_BOUNDS.circadianAdjustment
+      ),
+      dataPoints: hourCount
+    };
+    if (isAtBound(value, PARAMETER_BOUNDS.circadianAdjustment)) {
+      warnings.push(
+        boundWarning(
+          `Time-of-day adjustment at ${String(hour).padStart(2, '0')}:00`,
+          value,
+          PARAMETER_BOUNDS.circadianAdjustment
+        )
+      );
+    }
+  }
+
+  const after = measureAccuracy(observations, params);
+  if (after.rmse >= before.rmse) {
+    warnings.push('Fitted parameters did not improve prediction accuracy. Keep current settings.');
+  }
+
+  return {
+    insulinToCarbRatio,
+    correctionFactor,
+    circadianAdjustments,
+    parameters: params,
+    before,
+    after,
+    observationCount: observations.length,
+    warnings,
+    fittedAt: new Date()
+  };
+}
+
+/**
+ * Fit sick day and cycle phase insulin need multipliers to event history
+ *
+ * @param events - Event history with condition events, BSL readings, insulin and meals
+ * @param startParams - Current parameters; their multipliers (or the defaults) are the starting point
+ * @param options - Fit options
+ * @returns Fitted multipliers with confidence intervals and accuracy comparison
+ */
+export function fitSensitivityMultipliers(
+  events: PhysiologicalEvent[],
+  startParams: UserModelParameters = DEFAULT_USER_PARAMETERS,
+  options: ParameterFitOptions = {}
+): SensitivityMultiplierFitResult {
+  const fitOptions = { ...DEFAULT_FIT_OPTIONS, ...options };
+  const warnings: string[] = [];
+
+  // Multipliers only scale the insulin effect
+  const observations = buildObservations(events, startParams, fitOptions).filter(
+    (o) => o.conditionKeys.length > 0
+  );
+  const keyObservations = new Map<SensitivityConditionKey, FitObservation[]>();
+  for (const obs of observations.filter((o) => o.hasInsulin)) {
+    for (const key of obs.conditionKeys) {
+      const group = keyObservations.get(key) ?? [];
+      group.push(obs);
+      keyObservations.set(key, group);
+    }
+  }
+
+  const startValue = (key: SensitivityConditionKey) =>
+    startParams.sensitivityMultipliers?.[key] ?? DEFAULT_SENSITIVITY_MULTIPLIERS[key];
+  let params: UserModelParameters = {
+    ...startParams,
+    sensitivityMultipliers: { ...startParams.sensitivityMultipliers }
+  };
+  const before = measureAccuracy(observations, params);
+
+  if (observations.length === 0) {
+    warnings.push('No BSL readings during logged sick days or cycle phases.');
+  }
+  const fitKeys: SensitivityConditionKey[] = [];
+  for (const [key, group] of keyObservations) {
+    if (group.length >= MIN_PARAMETER_OBSERVATIONS) {
+      fitKeys.push(key);
+    } else {
+      warnings.push(
+        `Only ${group.length} readings with insulin on board during ${key === 'sick-day' ? 'sick days' : `the ${key} phase`}. Multiplier left unchanged.`
+      );
+    }
+  }
+
+  const keyObjective = (key: SensitivityConditionKey) => (value: number) =>
+    sumSquaredError(keyObservations.get(key)!, {
+      ...params,
+      sensitivityMultipliers: { ...params.sensitivityMultipliers, [key]: value }
+    });
+
+  // A sick day during a cycle phase informs both, so alternate between them
+  for (let pass = 0; pass < FIT_PASSES; pass++) {
+    for (const key of fitKeys) {
+      const value = goldenSectionSearch(
+        withShrinkage(keyObjective(key), startValue(key), keyObservations.get(key)!.length),
+        PARAMETER_BOUNDS.sensitivityMultiplier
+      );
+      params = {
+        ...params,
+        sensitivityMultipliers: {
+          ...params.sensitivityMultipliers,
+          // Round to whole percentages, as entered in settings
+          [key]: Math.round(value * 100) / 100
+        }
+      };
+    }
+  }
+
+  const multipliers: SensitivityMultiplierFitResult['multipliers'] = {};
+  for (const key of fitKeys) {
+    const value = params.sensitivityMultipliers![key]!;
+    const dataPoints = keyObservations.get(key)!.length;
+    multipliers[key] = {
+      value,
+      previousValue: startValue(key),
+      confidenceInterval: estimateConfidenceInterval(
+        keyObjective(key),
+        value,
+        dataPoints,
+        PARAMETER_BOUNDS.sensitivityMultiplier
+      ),
+      dataPoints
+    };
+    if (isAtBound(value, PARAMETER_BOUNDS.sensitivityMultiplier)) {
+      warnings.push(
+        boundWarning(
+          key === 'sick-day' ? 'Sick day multiplier' : `Multiplier for the ${key} phase`,
+          value,
+          PARAMETER_BOUNDS.sensitivityMultiplier
+        )
+      );
+    }
+  }
+
+  const after = measureAccuracy(observations, params);
+  if (fitKeys.length > 0 && after.rmse >= before.rmse) {
+    warnings.push('Fitted multipliers did not improve prediction accuracy. Keep current settings.');
+  }
+
+  return {
+    multipliers,
+    before,
+    after,
+    observationCount: observations.length,
+    warnings,
+    fittedAt: new Date()
+  };
+}
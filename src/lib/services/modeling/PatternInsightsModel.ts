@@ -0,0 +1,466 @@
+/**
+ * Pattern Insights Model
+ *
+ * Finds recurring patterns in a period of event history, typically the last
+ * week:
+ * - Post-meal highs: BSL above range 1-3 hours after breakfast, lunch or
+ *   dinner, counted per day (hypo treatments are not meals here)
+ * - Overnight lows after evening exercise: nights after exercise that started
+ *   in the evening, compared with the other nights
+ * - Hypos after drinking: lows from the end of a session of 3 or more units
+ *   to the end of the risk window from `getHypoglycemiaRiskWindow`
+ * - Dawn phenomenon: each night checked with `analyzeOvernightPattern`,
+ *   skipping nights with food or a bolus before 7am
+ *
+ * Each insight's strength is the 95% Wilson score lower bound of its
+ * occurrence rate, so a pattern seen on 2 of 2 days scores lower than one
+ * seen on 6 of 7. Where there is a comparison group (nights without evening
+ * exercise), its rate is subtracted, so a pattern that happens regardless of
+ * the trigger scores low.
+ *
+ * Reference:
+ * - Wilson (1927) Probable inference, the law of succession, and statistical
+ *   inference
+ */
+
+import type { InsulinMetadata, MealMetadata, PhysiologicalEvent } from '../../types/events';
+import type { PatternInsight, PatternInsightOptions } from '../../types/modeling';
+
+import { isHypoTreatment } from '../../types/events';
+import { getBSLValueMmolL } from '../../utils/bslUnits';
+import { DAY_MS } from '../../utils/dateNormalization';
+import { getHypoglycemiaRiskWindow } from './AlcoholMetabolismModel';
+import { analyzeOvernightPattern } from './CircadianModel';
+import { lowerBound } from './EventLookback';
+import { GLYCAEMIC_THRESHOLDS } from './GlycaemicMetricsModel';
+
+/**
+ * Pattern detection parameters
+ */
+export const PATTERN_INSIGHT_PARAMS = {
+  minOccurrences: 2, // Fewer occurrences are never a pattern
+  defaultMinStrength: 0.2,
+  wilsonZ: 1.96, // 95% confidence
+  minMealCarbs: 10, // Smaller meals and snacks are ignored (grams)
+  postMealFromMinutes: 60,
+  postMealToMinutes: 180,
+  minPostMealReadings: 2,
+  eveningExerciseFromHour: 16, // Exercise starting 4pm-11pm counts as evening
+  eveningExerciseToHour: 23,
+  nightToHour: 7, // Nights run from midnight to 7am
+  minNightReadings: 3,
+  minAlcoholUnits: 3,
+  drinkingSessionGapMinutes: 180, // Drinks closer together than this are one session
+  minRiskWindowReadings: 3
+};
+
+/**
+ * Meal periods checked for post-meal highs (local hours, end exclusive)
+ */
+export const MEAL_PERIODS = [
+  { name: 'breakfast', fromHour: 5, toHour: 10 },
+  { name: 'lunch', fromHour: 11, toHour: 15 },
+  { name: 'dinner', fromHour: 17, toHour: 21 }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Reading {
+  id: string;
+  time: number;
+  value: number;
+}
+
+/**
+ * Events and readings shared by the pattern detectors
+ */
+interface PatternContext {
+  readings: Reading[];
+  readingTimes: number[];
+  events: PhysiologicalEvent[];
+  /** Local midnight of each day in the period */
+  days: Date[];
+  startMs: number;
+  endMs: number;
+  minStrength: number;
+}
+
+/**
+ * Lower bound of the Wilson score interval for a proportion
+ *
+ * @param successes - Times the pattern occurred
+ * @param trials - Times it could have occurred
+ * @param z - Standard normal quantile (default 1.96 for 95%)
+ * @returns Lower bound (0-1), 0 with no trials
+ */
+export function calculateWilsonLowerBound(
+  successes: number,
+  trials: number,
+  z: number = PATTERN_INSIGHT_PARAMS.wilsonZ
+): number {
+  if (trials <= 0) return 0;
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const centre = p + z2 / (2 * trials);
+  const margin = z * Math.sqrt((p * (1 - p) + z2 / (4 * trials)) / trials);
+  return Math.max(0, (centre - margin) / (1 + z2 / trials));
+}
+
+/**
+ * Readings from `from` up to (not including) `to`
+ */
+function readingsBetween(context: PatternContext, from: number, to: number): Reading[] {
+  return context.readings.slice(
+    lowerBound(context.readingTimes, from),
+    lowerBound(context.readingTimes, to)
+  );
+}
+
+/**
+ * A day's local midnight moved to an hour
+ */
+function atHour(day: Date, hour: number): number {
+  const time = new Date(day);
+  time.setHours(hour, 0, 0, 0);
+  return time.getTime();
+}
+
+function getMealCarbs(event: PhysiologicalEvent): number {
+  const metadata = event.metadata as Partial<MealMetadata>;
+  return Math.max(0, metadata?.carbs ?? event.value) || 0;
+}
+
+function isBolus(event: PhysiologicalEvent): boolean {
+  return (
+    event.eventType === 'insulin' && (event.metadata as Partial<InsulinMetadata>).type !== 'basal'
+  );
+}
+
+/**
+ * Build an insight if it is frequent and strong enough
+ */
+function buildInsight(
+  context: PatternContext,
+  insight: Omit<PatternInsight, 'strength'>,
+  comparisonRate: number = 0
+): PatternInsight | null {
+  if (insight.occurrences < PATTERN_INSIGHT_PARAMS.minOccurrences) return null;
+
+  const lowerBoundRate = calculateWilsonLowerBound(insight.occurrences, insight.opportunities);
+  const strength = Math.round(Math.max(0, lowerBoundRate - comparisonRate) * 100) / 100;
+  if (strength < context.minStrength) return null;
+
+  return { ...insight, strength, supportingEventIds: [...new Set(insight.supportingEventIds)] };
+}
+
+/**
+ * Highs 1-3 hours after the first meal in each meal period
+ */
+function findPostMealHighs(context: PatternContext): PatternInsight[] {
+  // Rebound highs after treating a low say nothing about meal doses
+  const meals = context.events.filter(
+    (e) =>
+      e.eventType === 'meal' &&
+      !isHypoTreatment(e) &&
+      getMealCarbs(e) >= PATTERN_INSIGHT_PARAMS.minMealCarbs
+  );
+  const insights: PatternInsight[] = [];
+
+  for (const period of MEAL_PERIODS) {
+    let occurrences = 0;
+    let opportunities = 0;
+    const supportingEventIds: string[] = [];
+
+    for (const day of context.days) {
+      const from = atHour(day, period.fromHour);
+      const to = atHour(day, period.toHour);
+      const meal = meals.find((e) => {
+        const time = new Date(e.timestamp).getTime();
+        return time >= from && time < to && time >= context.startMs;
+      });
+      if (!meal) continue;
+
+      const mealMs = new Date(meal.timestamp).getTime();
+      const windowEnd = mealMs + PATTERN_INSIGHT_PARAMS.postMealToMinutes * 60 * 1000;
+      if (windowEnd > context.endMs) continue;
+
+      const after = readingsBetween(
+        context,
+        mealMs + PATTERN_INSIGHT_PARAMS.postMealFromMinutes * 60 * 1000,
+        windowEnd
+      );
+      if (after.length < PATTERN_INSIGHT_PARAMS.minPostMealReadings) continue;
+
+      opportunities++;
+      const peak = after.reduce((highest, r) => (r.value > highest.value ? r : highest));
+      if (peak.value > GLYCAEMIC_THRESHOLDS.high) {
+        occurrences++;
+        supportingEventIds.push(meal.id, peak.id);
+      }
+    }
+
+    const insight = buildInsight(context, {
+      id: `post-meal-high-${period.name}`,
+      type: 'post-meal-high',
+      title: `Post-${period.name} highs on ${occurrences} of ${opportunities} days`,
+      detail: `BSL went above range 1-3 hours after ${period.name} on ${occurrences} of the ${opportunities} days with readings after it.`,
+      action:
+        `Try bolusing 15-20 minutes before ${period.name}, and check your ${period.name} carb ` +
+        'counts and insulin-to-carb ratio.',
+      occurrences,
+      opportunities,
+      supportingEventIds
+    });
+    if (insight) insights.push(insight);
+  }
+
+  return insights;
+}
+
+/**
+ * Overnight lows after evening exercise, compared with other nights
+ */
+function findOvernightLowsAfterExercise(context: PatternContext): PatternInsight[] {
+  const exercise = context.events.filter((e) => e.eventType === 'exercise');
+
+  const exposed = { occurrences: 0, opportunities: 0 };
+  const other = { occurrences: 0, opportunities: 0 };
+  const supportingEventIds: string[] = [];
+
+  for (const morning of context.days) {
+    const nightStart = morning.getTime();
+    const nightEnd = atHour(morning, PATTERN_INSIGHT_PARAMS.nightToHour);
+    if (nightEnd > context.endMs) continue;
+
+    const night = readingsBetween(context, nightStart, nightEnd);
+    if (night.length < PATTERN_INSIGHT_PARAMS.minNightReadings) continue;
+
+    const evening = new Date(morning.getTime() - DAY_MS);
+    const eveningFrom = atHour(evening, PATTERN_INSIGHT_PARAMS.eveningExerciseFromHour);
+    const eveningTo = atHour(evening, PATTERN_INSIGHT_PARAMS.eveningExerciseToHour);
+    const sessions = exercise.filter((e) => {
+      const time = new Date(e.timestamp).getTime();
+      return time >= eveningFrom && time < eveningTo;
+    });
+
+    const lowest = night.reduce((low, r) => (r.value < low.value ? r : low));
+    const hadLow = lowest.value < GLYCAEMIC_THRESHOLDS.low;
+    const group = sessions.length > 0 ? exposed : other;
+    group.opportunities++;
+    if (hadLow) {
+      group.occurrences++;
+      if (sessions.length > 0) {
+        supportingEventIds.push(...sessions.map((e) => e.id), lowest.id);
+      }
+    }
+  }
+
+  const comparisonRate = other.opportunities > 0 ? other.occurrences / other.opportunities : 0;
+  const insight = buildInsight(
+    context,
+    {
+      id: 'overnight-low-after-exercise',
+      type: 'overnight-low-after-exercise',
+      title: `Overnight lows after evening exercise on ${exposed.occurrences} of ${exposed.opportunities} nights`,
+      detail:
+        'BSL went below range before 7am after ' +
+        `${exposed.occurrences} of ${exposed.opportunities} evening exercise sessions, ` +
+        `compared with ${other.occurrences} of ${other.opportunities} other nights.`,
+      action:
+        'After evening exercise, have a bedtime snack, consider a smaller evening bolus or ' +
+        'basal, and check BSL before bed.',
+      occurrences: exposed.occurrences,
+      opportunities: exposed.opportunities,
+      supportingEventIds
+    },
+    comparisonRate
+  );
+  return insight ? [insight] : [];
+}
+
+/**
+ * Lows in the delayed hypo risk window after drinking
+ */
+function findAlcoholHypos(context: PatternContext): PatternInsight[] {
+  const drinks = context.events
+    .filter((e) => e.eventType === 'meal' && ((e.metadata as MealMetadata).alcoholUnits ?? 0) > 0)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  // Group drinks into sessions
+  const sessions: Array<{ endMs: number; units: number; ids: string[] }> = [];
+  const gapMs = PATTERN_INSIGHT_PARAMS.drinkingSessionGapMinutes * 60 * 1000;
+  for (const drink of drinks) {
+    const time = new Date(drink.timestamp).getTime();
+    const units = (drink.metadata as MealMetadata).alcoholUnits ?? 0;
+    const current = sessions[sessions.length - 1];
+    if (current && time - current.endMs <= gapMs) {
+      current.endMs = time;
+      current.units += units;
+      current.ids.push(drink.id);
+    } else {
+      sessions.push({ endMs: time, units, ids: [drink.id] });
+    }
+  }
+
+  let occurrences = 0;
+  let opportunities = 0;
+  let heaviest: { units: number; recommendation: string } | undefined;
+  const hoursToLow: number[] = [];
+  const supportingEventIds: string[] = [];
+
+  for (const session of sessions) {
+    if (session.units < PATTERN_INSIGHT_PARAMS.minAlcoholUnits) continue;
+    if (session.endMs < context.startMs) continue;
+
+    const risk = getHypoglycemiaRiskWindow(new Date(session.endMs), session.units);
+    if (risk.riskEndTime.getTime() > context.endMs) continue;
+
+    const watched = readingsBetween(context, session.endMs, risk.riskEndTime.getTime());
+    if (watched.length < PATTERN_INSIGHT_PARAMS.minRiskWindowReadings) continue;
+
+    opportunities++;
+    const firstLow = watched.find((r) => r.value < GLYCAEMIC_THRESHOLDS.low);
+    if (!firstLow) continue;
+
+    occurrences++;
+    hoursToLow.push((firstLow.time - session.endMs) / HOUR_MS);
+    supportingEventIds.push(...session.ids, firstLow.id);
+    if (!heaviest || session.units > heaviest.units) {
+      heaviest = { units: session.units, recommendation: risk.recommendation };
+    }
+  }
+
+  if (occurrences < PATTERN_INSIGHT_PARAMS.minOccurrences || !heaviest) return [];
+
+  const earliest = Math.floor(Math.min(...hoursToLow));
+  const latest = Math.ceil(Math.max(...hoursToLow));
+  const when = earliest === latest ? `about ${earliest}` : `${earliest}-${latest}`;
+  const minUnits = PATTERN_INSIGHT_PARAMS.minAlcoholUnits;
+
+  const insight = buildInsight(context, {
+    id: 'alcohol-hypo',
+    type: 'alcohol-hypo',
+    title: `Hypos ${when} hours after ${minUnits}+ drinks on ${occurrences} of ${opportunities} occasions`,
+    detail:
+      'BSL went below range within 12 hours of drinking ' +
+      `${minUnits} or more standard drinks. Alcohol holds back the liver's glucose output ` +
+      'for hours after the last drink.',
+    action: heaviest.recommendation,
+    occurrences,
+    opportunities,
+    supportingEventIds
+  });
+  return insight ? [insight] : [];
+}
+
+/**
+ * Dawn phenomenon on nights without food or a bolus
+ */
+function findDawnPhenomenon(context: PatternContext): PatternInsight[] {
+  const overnightIntake = context.events.filter(
+    (e) => (e.eventType === 'meal' && getMealCarbs(e) > 0) || isBolus(e)
+  );
+
+  let occurrences = 0;
+  let opportunities = 0;
+  const supportingEventIds: string[] = [];
+
+  for (const morning of context.days) {
+    const nightStart = morning.getTime();
+    const nightEnd = atHour(morning, 8); // analyzeOvernightPattern reads up to 7:59am
+    if (nightEnd > context.endMs) continue;
+    if (
+      overnightIntake.some((e) => {
+        const time = new Date(e.timestamp).getTime();
+        return time >= nightStart && time < atHour(morning, PATTERN_INSIGHT_PARAMS.nightToHour);
+      })
+    ) {
+      continue;
+    }
+
+    const night = readingsBetween(context, nightStart, nightEnd);
+    const preDawn = night.filter((r) => r.time < atHour(morning, 3));
+    const dawn = night.filter((r) => r.time >= atHour(morning, 3));
+    if (
+      night.length < PATTERN_INSIGHT_PARAMS.minNightReadings ||
+      preDawn.length === 0 ||
+      dawn.length === 0
+    ) {
+      continue;
+    }
+
+    opportunities++;
+    const result = analyzeOvernightPattern(
+      night.map((r) => ({ timestamp: new Date(r.time), value: r.value }))
+    );
+    if (result.dawnPhenomenonDetected) {
+      occurrences++;
+      const lowest = preDawn.reduce((low, r) => (r.value < low.value ? r : low));
+      const highest = dawn.reduce((high, r) => (r.value > high.value ? r : high));
+      supportingEventIds.push(lowest.id, highest.id);
+    }
+  }
+
+  const insight = buildInsight(context, {
+    id: 'dawn-phenomenon',
+    type: 'dawn-phenomenon',
+    title: `Dawn phenomenon on ${occurrences} of ${opportunities} nights`,
+    detail:
+      'BSL rose by more than 1.5 mmol/L (27 mg/dL) from the early hours to 3-7am, on nights ' +
+      'with no food or bolus.',
+    action:
+      'Consider more basal insulin from about 4am to 8am, or moving your long-acting dose. ' +
+      'Review changes with your diabetes team.',
+    occurrences,
+    opportunities,
+    supportingEventIds
+  });
+  return insight ? [insight] : [];
+}
+
+/**
+ * Find recurring patterns in a period of event history
+ *
+ * @param events - Events (BSL readings, meals, insulin and exercise)
+ * @param options - Period and weakest insight reported
+ * @returns Insights, strongest first
+ */
+export function calculatePatternInsights(
+  events: PhysiologicalEvent[],
+  options: PatternInsightOptions
+): PatternInsight[] {
+  const startMs = options.startTime.getTime();
+  const endMs = options.endTime.getTime();
+  if (!(startMs < endMs)) return [];
+
+  const readings = events
+    .filter((e) => e.eventType === 'bsl')
+    .map((e) => ({ id: e.id, time: new Date(e.timestamp).getTime(), value: getBSLValueMmolL(e) }))
+    .filter((r) => r.time >= startMs && r.time <= endMs)
+    .sort((a, b) => a.time - b.time);
+
+  const days: Date[] = [];
+  const day = new Date(options.startTime);
+  day.setHours(0, 0, 0, 0);
+  for (; day.getTime() <= endMs; day.setDate(day.getDate() + 1)) {
+    days.push(new Date(day));
+  }
+
+  const context: PatternContext = {
+    readings,
+    readingTimes: readings.map((r) => r.time),
+    events,
+    days,
+    startMs,
+    endMs,
+    minStrength: options.minStrength ?? PATTERN_INSIGHT_PARAMS.defaultMinStrength
+  };
+
+  return [
+    ...findPostMealHighs(context),
+    ...findOvernightLowsAfterExercise(context),
+    ...findAlcoholHypos(context),
+    ...findDawnPhenomenon(context)
+  ].sort((a, b) => b.strength - a.strength);
+}
@@ -0,0 +1,385 @@
+/**
+ * Prediction Backtest Model
+ *
+ * Measures how accurate `predictBSL` is by replaying stored history. At each
+ * BSL reading it predicts ahead (30, 60 and 120 minutes by default) using only
+ * events logged up to that reading, then compares the prediction with the
+ * reading actually taken at that time.
+ *
+ * Meals, insulin and exercise logged after the origin are not known to the
+ * prediction, exactly as when it was shown live. Errors from unannounced
+ * meals therefore count against the model.
+ *
+ * Results are reported as:
+ * - MAE, RMSE and bias (predicted - actual) in mmol/L
+ * - Coverage of the prediction's confidence interval
+ * - Clarke and Parkes (consensus, type 1) error grid zones
+ *
+ * each broken down by time of day and by whether alcohol or exercise
+ * affected the prediction.
+ *
+ * References:
+ * - Clarke et al. (1987) Evaluating clinical accuracy of systems for
+ *   self-monitoring of blood glucose
+ * - Parkes et al. (2000); boundary coordinates from Pfützner et al. (2013)
+ *   Technical aspects of the Parkes error grid
+ */
+
+import type { PhysiologicalEvent } from '../../types/events';
+import type {
+  BacktestHorizonResult,
+  BacktestMetrics,
+  BacktestOptions,
+  BacktestReport,
+  BacktestSample,
+  ErrorGridZone,
+  TimeOfDayPeriod
+} from '../../types/modeling';
+
+import { MGDL_PER_MMOL, getBSLValueMmolL } from '../../utils/bslUnits';
+import { DEFAULT_USER_PARAMETERS, buildEventWindow, predictBSL } from './BSLPredictionModel';
+import { EVENT_LOOKBACK_MS, lowerBound } from './EventLookback';
+
+/**
+ * Default backtest options
+ */
+const DEFAULT_BACKTEST_OPTIONS = {
+  horizonsMinutes: [30, 60, 120],
+  toleranceMinutes: 10,
+  originIntervalMinutes: 15,
+  maxOrigins: 2000
+};
+
+/**
+ * Fewest samples per horizon before results are worth reading
+ */
+const MIN_SAMPLES_PER_HORIZON = 30;
+
+/**
+ * A smaller ensemble per prediction, as a backtest runs thousands of them on
+ * the main thread; enough members to estimate interval coverage
+ */
+const BACKTEST_ENSEMBLE = { memberCount: 20 };
+
+/**
+ * Error grid zones, best to worst
+ */
+export const ERROR_GRID_ZONES: ErrorGridZone[] = ['A', 'B', 'C', 'D', 'E'];
+
+const TIME_OF_DAY_PERIODS: TimeOfDayPeriod[] = ['overnight', 'morning', 'afternoon', 'evening'];
+
+/**
+ * Parkes error grid boundaries for type 1 diabetes (mg/dL)
+ * Upper boundaries give the measured value as a function of the reference;
+ * lower boundaries give the reference value as a function of the measured.
+ */
+const PARKES_TYPE1_BOUNDARIES = {
+  upper: {
+    B: [
+      [0, 50],
+      [30, 50],
+      [140, 170],
+      [280, 380],
+      [430, 550]
+    ],
+    C: [
+      [0, 60],
+      [30, 60],
+      [50, 80],
+      [70, 110],
+      [260, 550]
+    ],
+    D: [
+      [0, 100],
+      [25, 100],
+      [50, 125],
+      [80, 215],
+      [125, 550]
+    ],
+    E: [
+      [0, 150],
+      [35, 155],
+      [50, 550]
+    ]
+  },
+  lower: {
+    B: [
+      [0, 50],
+      [30, 50],
+      [145, 170],
+      [300, 385],
+      [450, 550]
+    ],
+    C: [
+      [0, 120],
+      [30, 120],
+      [130, 260],
+      [250, 550]
+    ],
+    D: [
+      [0, 250],
+      [40, 250],
+      [150, 550]
+    ]
+  }
+} satisfies {
+  upper: Record<'B' | 'C' | 'D' | 'E', number[][]>;
+  lower: Record<'B' | 'C' | 'D', number[][]>;
+};
+
+/**
+ * Interpolate a piecewise-linear boundary
+ * Beyond the last point the boundary is off the grid.
+ *
+ * @param points - Boundary points, ascending in the first coordinate
+ * @param x - Position along the first coordinate
+ * @returns Boundary value at x
+ */
+function interpolateBoundary(points: number[][], x: number): number {
+  if (x <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    if (x <= x1) {
+      return y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+    }
+  }
+  return Infinity;
+}
+
+/**
+ * Classify a prediction on the Clarke error grid
+ *
+ * @param actual - Reference BSL in mmol/L
+ * @param predicted - Predicted BSL in mmol/L
+ * @returns Clarke zone
+ */
+export function getClarkeZone(actual: number, predicted: number): ErrorGridZone {
+  const ref = actual * MGDL_PER_MMOL;
+  const pred = predicted * MGDL_PER_MMOL;
+
+  if ((ref <= 70 && pred <= 70) || (pred <= 1.2 * ref && pred >= 0.8 * ref)) return 'A';
+  if ((ref >= 180 && pred <= 70) || (ref <= 70 && pred >= 180)) return 'E';
+  if (
+    (ref >= 70 && ref <= 290 && pred >= ref + 110) ||
+    (ref >= 130 && ref <= 180 && pred <= (7 / 5) * ref - 182)
+  ) {
+    return 'C';
+  }
+  if (
+    (ref >= 240 && pred >= 70 && pred <= 180) ||
+    (ref <= 175 / 3 && pred <= 180 && pred >= 70) ||
+    (ref >= 175 / 3 && ref <= 70 && pred >= (6 / 5) * ref)
+  ) {
+    return 'D';
+  }
+  return 'B';
+}
+
+/**
+ * Classify a prediction on the Parkes (consensus) error grid for type 1 diabetes
+ *
+ * @param actual - Reference BSL in mmol/L
+ * @param predicted - Predicted BSL in mmol/L
+ * @returns Parkes zone
+ */
+export function getParkesZone(actual: number, predicted: number): ErrorGridZone {
+  const ref = Math.max(0, actual * MGDL_PER_MMOL);
+  const pred = Math.max(0, predicted * MGDL_PER_MMOL);
+  const { upper, lower } = PARKES_TYPE1_BOUNDARIES;
+
+  const above = (zone: keyof typeof upper) => pred > interpolateBoundary(upper[zone], ref);
+  const below = (zone: keyof typeof lower) => ref > interpolateBoundary(lower[zone], pred);
+
+  if (above('E')) return 'E';
+  if (above('D') || below('D')) return 'D';
+  if (above('C') || below('C')) return 'C';
+  if (above('B') || below('B')) return 'B';
+  return 'A';
+}
+
+/**
+ * Get the time-of-day period for a time
+ *
+ * @param time - Time to classify (local time)
+ * @returns Overnight (00-06), morning (06-12), afternoon (12-18) or evening (18-24)
+ */
+export function getTimeOfDayPeriod(time: Date): TimeOfDayPeriod {
+  return TIME_OF_DAY_PERIODS[Math.floor(time.getHours() / 6)];
+}
+
+/**
+ * Summarise backtest samples
+ *
+ * @param samples - Samples to summarise
+ * @returns Accuracy metrics (zeros if there are no samples)
+ */
+export function summariseBacktestSamples(samples: BacktestSample[]): BacktestMetrics {
+  const clarkeZones = { A: 0, B: 0, C: 0, D: 0, E: 0 };
+  const parkesZones = { A: 0, B: 0, C: 0, D: 0, E: 0 };
+
+  let absError = 0;
+  let squaredError = 0;
+  let signedError = 0;
+  let withinInterval = 0;
+
+  for (const sample of samples) {
+    const error = sample.predicted - sample.actual;
+    absError += Math.abs(error);
+    squaredError += error * error;
+    signedError += error;
+    if (sample.withinInterval) withinInterval++;
+    clarkeZones[sample.clarkeZone]++;
+    parkesZones[sample.parkesZone]++;
+  }
+
+  const count = samples.length;
+  return {
+    mae: count > 0 ? absError / count : 0,
+    rmse: count > 0 ? Math.sqrt(squaredError / count) : 0,
+    bias: count > 0 ? signedError / count : 0,
+    count,
+    intervalCoverage: count > 0 ? withinInterval / count : 0,
+    clarkeZones,
+    parkesZones
+  };
+}
+
+/**
+ * Replay stored history and compare predictions with actual readings
+ *
+ * @param events - Event history (any order)
+ * @param options - Backtest options
+ * @returns Backtest report with per-horizon metrics and all samples
+ */
+export function runPredictionBacktest(
+  events: PhysiologicalEvent[],
+  options: BacktestOptions = {}
+): BacktestReport {
+  const opts = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+  const parametersAt = options.parametersAt ?? (() => DEFAULT_USER_PARAMETERS);
+  const toleranceMs = opts.toleranceMinutes * 60 * 1000;
+
+  // Work on readings in mmol/L, oldest first
+  const sorted = events
+    .map((e) =>
+      e.eventType === 'bsl'
+        ? { ...e, value: getBSLValueMmolL(e), timestamp: new Date(e.timestamp) }
+        : e
+    )
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const times = sorted.map((e) => new Date(e.timestamp).getTime());
+
+  const bslEvents = sorted.filter((e) => e.eventType === 'bsl');
+  const bslTimes = bslEvents.map((e) => new Date(e.timestamp).getTime());
+
+  // Choose origins, most recent first, at least originIntervalMinutes apart
+  const origins: PhysiologicalEvent[] = [];
+  let lastOriginMs = Infinity;
+  for (let i = bslEvents.length - 1; i >= 0 && origins.length < opts.maxOrigins; i--) {
+    const time = bslTimes[i];
+    if (opts.endTime && time > opts.endTime.getTime()) continue;
+    if (opts.startTime && time < opts.startTime.getTime()) break;
+    if (lastOriginMs - time < opts.originIntervalMinutes * 60 * 1000) continue;
+    origins.push(bslEvents[i]);
+    lastOriginMs = time;
+  }
+
+  const samples: BacktestSample[] = [];
+
+  for (const origin of origins) {
+    const originTime = new Date(origin.timestamp);
+    const originMs = originTime.getTime();
+
+    // Only events logged up to the origin reading
+    const known = sorted.slice(
+      lowerBound(times, originMs - EVENT_LOOKBACK_MS),
+      lowerBound(times, originMs + 1)
+    );
+    const userParams = parametersAt(originTime);
+
+    for (const horizonMinutes of opts.horizonsMinutes) {
+      const horizonMs = originMs + horizonMinutes * 60 * 1000;
+
+      // Closest actual reading to the horizon, within tolerance
+      const index = lowerBound(bslTimes, horizonMs - toleranceMs);
+      let actual: PhysiologicalEvent | undefined;
+      for (let j = index; j < bslTimes.length && bslTimes[j] <= horizonMs + toleranceMs; j++) {
+        if (
+          !actual ||
+          Math.abs(bslTimes[j] - horizonMs) <
+            Math.abs(new Date(actual.timestamp).getTime() - horizonMs)
+        ) {
+          actual = bslEvents[j];
+        }
+      }
+      if (!actual) continue;
+
+      const targetTime = new Date(actual.timestamp);
+      const window = buildEventWindow(known, originTime, targetTime);
+      const prediction = predictBSL(window, targetTime, userParams, BACKTEST_ENSEMBLE);
+      const [low, high] = prediction.confidenceInterval;
+
+      samples.push({
+        originTime,
+        targetTime,
+        horizonMinutes,
+        predicted: prediction.predictedBSL,
+        actual: actual.value,
+        confidenceInterval: prediction.confidenceInterval,
+        withinInterval: actual.value >= low && actual.value <= high,
+        clarkeZone: getClarkeZone(actual.value, prediction.predictedBSL),
+        parkesZone: getParkesZone(actual.value, prediction.predictedBSL),
+        timeOfDay: getTimeOfDayPeriod(targetTime),
+        hasAlcohol: prediction.factors.alcoholEffect !== 0,
+        hasExercise: prediction.factors.exerciseEffect !== 0
+      });
+    }
+  }
+
+  const horizons: BacktestHorizonResult[] = opts.horizonsMinutes.map((horizonMinutes) => {
+    const horizonSamples = samples.filter((s) => s.horizonMinutes === horizonMinutes);
+    return {
+      horizonMinutes,
+      overall: summariseBacktestSamples(horizonSamples),
+      byTimeOfDay: Object.fromEntries(
+        TIME_OF_DAY_PERIODS.map((period) => [
+          period,
+          summariseBacktestSamples(horizonSamples.filter((s) => s.timeOfDay === period))
+        ])
+      ) as Record<TimeOfDayPeriod, BacktestMetrics>,
+      byContext: {
+        alcohol: summariseBacktestSamples(horizonSamples.filter((s) => s.hasAlcohol)),
+        exercise: summariseBacktestSamples(horizonSamples.filter((s) => s.hasExercise)),
+        neither: summariseBacktestSamples(
+          horizonSamples.filter((s) => !s.hasAlcohol && !s.hasExercise)
+        )
+      }
+    };
+  });
+
+  const warnings: string[] = [];
+  if (origins.length === 0) {
+    warnings.push('No BSL readings in the selected range');
+  }
+  for (const horizon of horizons) {
+    if (origins.length > 0 && horizon.overall.count < MIN_SAMPLES_PER_HORIZON) {
+      warnings.push(
+        `Only ${horizon.overall.count} readings found ${horizon.horizonMinutes} minutes after another reading - results are not reliable`
+      );
+    }
+  }
+  if (origins.length === opts.maxOrigins) {
+    warnings.push(`Limited to the most recent ${opts.maxOrigins} readings`);
+  }
+
+  return {
+    horizons,
+    samples,
+    originCount: origins.length,
+    startTime: origins.length > 0 ? new Date(origins[origins.length - 1].timestamp) : undefined,
+    endTime: origins.length > 0 ? new Date(origins[0].timestamp) : undefined,
+    warnings,
+    generatedAt: new Date()
+  };
+}
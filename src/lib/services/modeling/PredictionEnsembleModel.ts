@@ -0,0 +1,220 @@
+/**
+ * Prediction Ensemble Model
+ *
+ * Monte Carlo uncertainty for BSL predictions. Each ensemble member is one
+ * plausible version of the user's physiology and logging:
+ * - Insulin-to-carb ratio and correction factor scaled by log-normal factors
+ * - Carb absorption running faster or slower (time scaled)
+ * - Each meal's carbs, fat and protein scaled by an estimation error that is
+ *   larger for meals logged with low `confidence` (e.g. AI photo estimates)
+ * - A reading error at the starting BSL
+ * - Unmodelled variation (stress, activity, site issues) as a random walk
+ *   that grows with the square root of time, faster with alcohol or exercise
+ *
+ * The prediction model runs every member and reports percentiles, so bands
+ * widen where the forecast depends on uncertain inputs (a large meal with a
+ * rough carb estimate) rather than at a fixed rate.
+ *
+ * Members are drawn from a seeded generator, so the same events give the
+ * same bands and alerts do not flicker between evaluations.
+ */
+
+import type { MealMetadata, PhysiologicalEvent } from '../../types/events';
+import type { PredictionEnsembleOptions, PredictionPercentiles } from '../../types/modeling';
+
+import { calculatePercentile } from './GlycaemicMetricsModel';
+
+/**
+ * Ensemble sampling parameters
+ * Coefficients of variation are for log-normal factors with a median of 1.
+ */
+export const ENSEMBLE_PARAMS = {
+  defaultMemberCount: 100,
+  defaultSeed: 1,
+  insulinToCarbRatioCV: 0.1,
+  correctionFactorCV: 0.15,
+  absorptionSpeedCV: 0.25,
+  carbErrorScale: 0.6, // Carb CV = (1 - meal confidence) * scale
+  defaultMealConfidence: 0.85, // Manually logged meals without a confidence
+  readingErrorSd: 0.3, // mmol/L
+  processNoisePerSqrtMinute: 0.12, // mmol/L (about 0.9 after an hour)
+  alcoholNoiseFactor: 1.3,
+  exerciseNoiseFactor: 1.3,
+  noRecentBSLSd: 1.0 // mmol/L, when starting from the target rather than a reading
+};
+
+/**
+ * One sampled version of the user's parameters and logging
+ */
+export interface EnsembleMember {
+  insulinToCarbRatioScale: number;
+  correctionFactorScale: number;
+  /** Carb absorption speed (>1 = faster) */
+  absorptionSpeed: number;
+  /** Logged-amount scale by meal id */
+  carbScales: Map<string, number>;
+  /** Error in the starting reading (mmol/L) */
+  readingError: number;
+  /** Member's own random stream for unmodelled variation */
+  random: () => number;
+}
+
+/**
+ * Seeded uniform random generator (mulberry32)
+ *
+ * @param seed - Integer seed
+ * @returns Generator of values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ *
+ * @param random - Uniform random generator
+ * @returns Sample from N(0, 1)
+ */
+export function sampleStandardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+ *
+ * @param z - Standard score
+ * @returns P(Z <= z)
+ */
+export function standardNormalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function sampleLogNormal(random: () => number, cv: number): number {
+  return Math.exp(cv * sampleStandardNormal(random));
+}
+
+/**
+ * Coefficient of variation of a meal's logged amounts
+ */
+function getMealCarbCV(event: PhysiologicalEvent): number {
+  const confidence = (event.metadata as Partial<MealMetadata>).confidence;
+  const clamped = Math.max(
+    0,
+    Math.min(1, typeof confidence === 'number' ? confidence : ENSEMBLE_PARAMS.defaultMealConfidence)
+  );
+  return (1 - clamped) * ENSEMBLE_PARAMS.carbErrorScale;
+}
+
+/**
+ * Sample ensemble members
+ *
+ * @param mealEvents - Meals the forecast depends on
+ * @param options - Member count and seed
+ * @returns Members (empty when memberCount is 0)
+ */
+export function sampleEnsembleMembers(
+  mealEvents: PhysiologicalEvent[],
+  options: PredictionEnsembleOptions = {}
+): EnsembleMember[] {
+  const count = Math.max(0, Math.floor(options.memberCount ?? ENSEMBLE_PARAMS.defaultMemberCount));
+  const random = createSeededRandom(options.seed ?? ENSEMBLE_PARAMS.defaultSeed);
+  const meals = mealEvents.filter((e) => e.eventType === 'meal');
+
+  const members: EnsembleMember[] = [];
+  for (let i = 0; i < count; i++) {
+    members.push({
+      insulinToCarbRatioScale: sampleLogNormal(random, ENSEMBLE_PARAMS.insulinToCarbRatioCV),
+      correctionFactorScale: sampleLogNormal(random, ENSEMBLE_PARAMS.correctionFactorCV),
+      absorptionSpeed: sampleLogNormal(random, ENSEMBLE_PARAMS.absorptionSpeedCV),
+      carbScales: new Map(meals.map((e) => [e.id, sampleLogNormal(random, getMealCarbCV(e))])),
+      readingError: sampleStandardNormal(random) * ENSEMBLE_PARAMS.readingErrorSd,
+      random: createSeededRandom(Math.floor(random() * 4294967296))
+    });
+  }
+  return members;
+}
+
+/**
+ * Meal events as one member sees them at a time: amounts scaled by the
+ * member's estimation error, and eaten earlier or later so absorption has
+ * progressed at the member's speed
+ *
+ * @param mealEvents - Meal events
+ * @param member - Ensemble member
+ * @param atTime - Time the carbs on board are calculated for
+ * @returns Adjusted copies of the meal events
+ */
+export function perturbMealEvents(
+  mealEvents: PhysiologicalEvent[],
+  member: EnsembleMember,
+  atTime: Date
+): PhysiologicalEvent[] {
+  return mealEvents.map((event) => {
+    const scale = member.carbScales.get(event.id) ?? 1;
+    const metadata = event.metadata as Partial<MealMetadata>;
+    const mealMs = new Date(event.timestamp).getTime();
+    const elapsedMs = atTime.getTime() - mealMs;
+
+    return {
+      ...event,
+      timestamp:
+        elapsedMs > 0
+          ? new Date(atTime.getTime() - elapsedMs * member.absorptionSpeed)
+          : event.timestamp,
+      value: event.value * scale,
+      metadata: {
+        ...event.metadata,
+        ...(typeof metadata.carbs === 'number' ? { carbs: metadata.carbs * scale } : {}),
+        ...(typeof metadata.fat === 'number' ? { fat: metadata.fat * scale } : {}),
+        ...(typeof metadata.protein === 'number' ? { protein: metadata.protein * scale } : {})
+      }
+    };
+  });
+}
+
+/**
+ * Standard deviation of unmodelled variation after a time
+ *
+ * @param minutes - Minutes since the starting reading
+ * @param context - What adds unpredictability
+ * @returns Standard deviation in mmol/L
+ */
+export function getEnsembleNoiseSd(
+  minutes: number,
+  context: { hasAlcohol: boolean; hasExercise: boolean }
+): number {
+  let perSqrtMinute = ENSEMBLE_PARAMS.processNoisePerSqrtMinute;
+  if (context.hasAlcohol) perSqrtMinute *= ENSEMBLE_PARAMS.alcoholNoiseFactor;
+  if (context.hasExercise) perSqrtMinute *= ENSEMBLE_PARAMS.exerciseNoiseFactor;
+  return perSqrtMinute * Math.sqrt(Math.max(0, minutes));
+}
+
+/**
+ * 10th, 50th and 90th percentiles of ensemble values
+ *
+ * @param sorted - Member values in ascending order
+ * @returns Percentiles
+ */
+export function summarisePercentiles(sorted: number[]): PredictionPercentiles {
+  return {
+    p10: calculatePercentile(sorted, 10),
+    p50: calculatePercentile(sorted, 50),
+    p90: calculatePercentile(sorted, 90)
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Therapy Profile Model
+ *
+ * Resolves the user's time-segmented therapy profile (ICR, ISF, targets,
+ * DIA) into the `UserModelParameters` used by the prediction and dose models.
+ *
+ * Profiles are versioned: every change creates a new version with an
+ * `effectiveFrom` date, and older versions are kept. Resolving parameters for
+ * a past time uses the version that was active then, so past predictions can
+ * be re-evaluated with the settings the user actually had.
+ *
+ * Segments cover the day from their `startTime` until the next segment
+ * starts; the last segment wraps around to midnight. Pump users can add a
+ * basal schedule, which works the same way. Insulin need multipliers for sick
+ * days and cycle phases are set per profile version.
+ */
+
+import type { TherapyProfile, TherapySegment } from '../../types/settings';
+import type { UserModelParameters } from '../../types/modeling';
+
+import { DEFAULT_USER_PARAMETERS } from './BSLPredictionModel';
+import { INSULIN_KINETICS } from './InsulinDecayModel';
+import { getInsulinProduct } from './InsulinProductCatalogue';
+import { validateBasalSchedule } from './BasalProgramModel';
+import { CONDITION_PARAMS } from './ConditionSensitivityModel';
+
+/**
+ * Half-width of the target range created from a single target BSL (mmol/L)
+ */
+const DEFAULT_TARGET_HALF_RANGE = 1.0;
+
+/**
+ * Allowed ranges for profile values
+ */
+export const THERAPY_PROFILE_LIMITS = {
+  insulinToCarbRatio: [1, 150] as [number, number], // g/unit
+  insulinSensitivityFactor: [0.1, 20] as [number, number], // mmol/L per unit
+  target: [3.5, 15] as [number, number], // mmol/L
+  durationOfInsulinActionHours: [2, 8] as [number, number],
+  bodyWeightKg: [10, 300] as [number, number],
+  sensitivityMultiplier: [CONDITION_PARAMS.minMultiplier, CONDITION_PARAMS.maxMultiplier] as [
+    number,
+    number
+  ]
+};
+
+/**
+ * Parse an 'HH:mm' segment start time into minutes since midnight
+ *
+ * @param startTime - Time string
+ * @returns Minutes since midnight, or null if invalid
+ */
+export function parseSegmentTime(startTime: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(startTime);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Create the first profile version from model parameters
+ * Used to migrate users who have never set up a profile. Effective from the
+ * epoch so it applies to all existing history.
+ *
+ * @param params - Parameters to migrate (defaults to DEFAULT_USER_PARAMETERS)
+ * @returns Version 1 therapy profile
+ */
+export function createDefaultTherapyProfile(
+  params: UserModelParameters = DEFAULT_USER_PARAMETERS
+): TherapyProfile {
+  return {
+    version: 1,
+    effectiveFrom: new Date(0),
+    segments: [
+      {
+        startTime: '00:00',
+        insulinToCarbRatio: params.insulinToCarbRatio,
+        insulinSensitivityFactor: params.correctionFactor,
+        targetLow: params.targetBSL - DEFAULT_TARGET_HALF_RANGE,
+        targetHigh: params.targetBSL + DEFAULT_TARGET_HALF_RANGE
+      }
+    ],
+    durationOfInsulinActionHours:
+      (params.insulinDurationMinutes ?? INSULIN_KINETICS.bolus.durationMinutes) / 60,
+    bodyWeightKg: params.bodyWeightKg,
+    note: 'Created from default parameters'
+  };
+}
+
+/**
+ * Create the next profile version, effective now
+ *
+ * @param profiles - Existing profile versions
+ * @param changes - Profile values for the new version
+ * @param effectiveFrom - When the new version takes effect
+ * @returns New profile version with segments sorted by start time
+ */
+export function createTherapyProfileVersion(
+  profiles: TherapyProfile[],
+  changes: Omit<TherapyProfile, 'version' | 'effectiveFrom'>,
+  effectiveFrom: Date = new Date()
+): TherapyProfile {
+  const latestVersion = profiles.reduce((max, p) => Math.max(max, p.version), 0);
+  const byStartTime = (a: { startTime: string }, b: { startTime: string }) =>
+    (parseSegmentTime(a.startTime) ?? 0) - (parseSegmentTime(b.startTime) ?? 0);
+  return {
+    ...changes,
+    version: latestVersion + 1,
+    effectiveFrom,
+    segments: [...changes.segments].sort(byStartTime),
+    ...(changes.basalSchedule && { basalSchedule: [...changes.basalSchedule].sort(byStartTime) })
+  };
+}
+
+/**
+ * Validate a therapy profile
+ *
+ * @param profile - Profile values to check
+ * @returns Error messages (empty if valid)
+ */
+export function validateTherapyProfile(
+  profile: Pick<
+    TherapyProfile,
+    | 'segments'
+    | 'durationOfInsulinActionHours'
+    | 'bodyWeightKg'
+    | 'basalSchedule'
+    | 'sensitivityMultipliers'
+  >
+): string[] {
+  const errors: string[] = [];
+  const inRange = (value: number, [min, max]: [number, number]) =>
+    Number.isFinite(value) && value >= min && value <= max;
+
+  if (profile.segments.length === 0) {
+    errors.push('At least one time block is required');
+  }
+
+  const startMinutes = new Set<number>();
+  for (const segment of profile.segments) {
+    const minutes = parseSegmentTime(segment.startTime);
+    if (minutes === null) {
+      errors.push(`Invalid start time "${segment.startTime}"`);
+      continue;
+    }
+    if (startMinutes.has(minutes)) {
+      errors.push(`Two time blocks start at ${segment.startTime}`);
+    }
+    startMinutes.add(minutes);
+
+    const [minICR, maxICR] = THERAPY_PROFILE_LIMITS.insulinToCarbRatio;
+    if (!inRange(segment.insulinToCarbRatio, THERAPY_PROFILE_LIMITS.insulinToCarbRatio)) {
+      errors.push(`${segment.startTime}: carb ratio must be ${minICR}-${maxICR} g/unit`);
+    }
+    if (
+      !inRange(segment.insulinSensitivityFactor, THERAPY_PROFILE_LIMITS.insulinSensitivityFactor)
+    ) {
+      errors.push(`${segment.startTime}: sensitivity factor is out of range`);
+    }
+    if (
+      !inRange(segment.targetLow, THERAPY_PROFILE_LIMITS.target) ||
+      !inRange(segment.targetHigh, THERAPY_PROFILE_LIMITS.target)
+    ) {
+      errors.push(`${segment.startTime}: target is out of range`);
+    } else if (segment.targetLow > segment.targetHigh) {
+      errors.push(`${segment.startTime}: target low is above target high`);
+    }
+  }
+
+  if (profile.segments.length > 0 && !startMinutes.has(0)) {
+    errors.push('The first time block must start at 00:00');
+  }
+
+  const [minDIA, maxDIA] = THERAPY_PROFILE_LIMITS.durationOfInsulinActionHours;
+  if (
+    !inRange(
+      profile.durationOfInsulinActionHours,
+      THERAPY_PROFILE_LIMITS.durationOfInsulinActionHours
+    )
+  ) {
+    errors.push(`Duration of insulin action must be ${minDIA}-${maxDIA} hours`);
+  }
+  if (!inRange(profile.bodyWeightKg, THERAPY_PROFILE_LIMITS.bodyWeightKg)) {
+    errors.push('Body weight is out of range');
+  }
+  if (profile.basalSchedule) {
+    errors.push(...validateBasalSchedule(profile.basalSchedule));
+  }
+
+  const [minMultiplier, maxMultiplier] = THERAPY_PROFILE_LIMITS.sensitivityMultiplier;
+  for (const [key, multiplier] of Object.entries(profile.sensitivityMultipliers ?? {})) {
+    if (multiplier === undefined) continue;
+    if (!inRange(multiplier, THERAPY_PROFILE_LIMITS.sensitivityMultiplier)) {
+      errors.push(
+        `${key}: insulin need must be ${minMultiplier * 100}-${maxMultiplier * 100}% of usual`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find the profile version active at a point in time
+ * Times before the first version use the first version.
+ *
+ * @param profiles - Profile versions
+ * @param atTime - Time to look up
+ * @returns Active profile, or undefined if there are none
+ */
+export function getTherapyProfileAt(
+  profiles: TherapyProfile[] | undefined,
+  atTime: Date = new Date()
+): TherapyProfile | undefined {
+  if (!profiles || profiles.length === 0) return undefined;
+
+  // Settings loaded from storage hold dates as strings
+  const sorted = [...profiles].sort(
+    (a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime()
+  );
+
+  let active = sorted[0];
+  for (const profile of sorted) {
+    if (new Date(profile.effectiveFrom) <= atTime) {
+      active = profile;
+    }
+  }
+  return active;
+}
+
+/**
+ * Find the segment of a profile covering a time of day
+ *
+ * @param profile - Therapy profile
+ * @param atTime - Time to look up (only the local time of day is used)
+ * @returns Segment covering that time
+ */
+export function getTherapySegmentAt(
+  profile: TherapyProfile,
+  atTime: Date = new Date()
+): TherapySegment {
+  const minutes = atTime.getHours() * 60 + atTime.getMinutes();
+  const sorted = [...profile.segments].sort(
+    (a, b) => (parseSegmentTime(a.startTime) ?? 0) - (parseSegmentTime(b.startTime) ?? 0)
+  );
+
+  // Before the first segment start, the last segment wraps around midnight
+  let active = sorted[sorted.length - 1];
+  for (const segment of sorted) {
+    if ((parseSegmentTime(segment.startTime) ?? 0) <= minutes) {
+      active = segment;
+    }
+  }
+  return active;
+}
+
+/**
+ * Convert a therapy profile to model parameters for a point in time
+ *
+ * @param profile - Therapy profile
+ * @param atTime - Time to resolve the segment for
+ * @returns Model parameters
+ */
+export function therapyProfileToParameters(
+  profile: TherapyProfile,
+  atTime: Date = new Date()
+): UserModelParameters {
+  const segment = getTherapySegmentAt(profile, atTime);
+  return {
+    insulinToCarbRatio: segment.insulinToCarbRatio,
+    correctionFactor: segment.insulinSensitivityFactor,
+    targetBSL: (segment.targetLow + segment.targetHigh) / 2,
+    bodyWeightKg: profile.bodyWeightKg,
+    insulinDurationMinutes: profile.durationOfInsulinActionHours * 60,
+    // Older profiles may hold a free-text product name
+    insulinProduct: getInsulinProduct(profile.insulinProduct)?.id,
+    basalSchedule: profile.basalSchedule,
+    sensitivityMultipliers: profile.sensitivityMultipliers
+  };
+}
+
+/**
+ * Resolve model parameters from stored profile versions
+ * Falls back to DEFAULT_USER_PARAMETERS when no profile has been set up.
+ *
+ * @param profiles - Profile versions from settings
+ * @param atTime - Time to resolve for (version and time-of-day segment)
+ * @returns Model parameters
+ */
+export function resolveUserModelParameters(
+  profiles: TherapyProfile[] | undefined,
+  atTime: Date = new Date()
+): UserModelParameters {
+  const profile = getTherapyProfileAt(profiles, atTime);
+  return profile ? therapyProfileToParameters(profile, atTime) : DEFAULT_USER_PARAMETERS;
+}
@@ -0,0 +1,225 @@
+/**
+ * What-If Simulation Model
+ *
+ * Compares hypothetical meals, doses and exercise before they happen, e.g.
+ * "60 g + 5 U now" against "5 U now, eat in 15 min" against "4 U + a walk".
+ *
+ * Each scenario's events are added to the logged history in memory only and
+ * run through the same prediction as the alert engine (`buildEventWindow`,
+ * `calculateMetabolicState` via `generateBSLTimeSeries`, `checkForAlerts`).
+ * The current prediction, with logged events only, is simulated alongside so
+ * every scenario can be compared with doing nothing.
+ *
+ * All scenarios share the ensemble seed, so their bands differ because of
+ * their events rather than sampling noise.
+ */
+
+import type {
+  BolusDelivery,
+  ExerciseIntensity,
+  ExerciseMetadata,
+  InsulinMetadata,
+  InsulinProductId,
+  MealMetadata,
+  PhysiologicalEvent
+} from '../../types/events';
+import type {
+  BSLTimeSeries,
+  WhatIfEvent,
+  WhatIfOptions,
+  WhatIfScenario,
+  WhatIfScenarioResult,
+  WhatIfSimulation,
+  WhatIfSummary
+} from '../../types/modeling';
+
+import {
+  DEFAULT_USER_PARAMETERS,
+  buildEventWindow,
+  checkForAlerts,
+  generateBSLTimeSeries
+} from './BSLPredictionModel';
+
+/**
+ * Simulation defaults
+ */
+export const WHAT_IF_PARAMS = {
+  horizonMinutes: 240,
+  resolutionMinutes: 5,
+  hypoThreshold: 4.0, // mmol/L, as checkForAlerts
+  hyperThreshold: 10.0,
+  currentScenarioId: 'current'
+};
+
+/**
+ * Hypothetical meal
+ *
+ * @param offsetMinutes - Minutes after the simulation start
+ * @param carbs - Carbs in grams
+ * @param metadata - Fat, protein, GI, alcohol, etc.
+ * @returns What-if meal event
+ */
+export function createWhatIfMeal(
+  offsetMinutes: number,
+  carbs: number,
+  metadata: Partial<MealMetadata> = {}
+): WhatIfEvent {
+  const fullMetadata: MealMetadata = { carbs, ...metadata };
+  return { eventType: 'meal', offsetMinutes, value: carbs, metadata: fullMetadata };
+}
+
+/**
+ * Hypothetical bolus
+ *
+ * @param offsetMinutes - Minutes after the simulation start
+ * @param units - Units of insulin
+ * @param options - Product and extended or dual-wave delivery
+ * @returns What-if insulin event
+ */
+export function createWhatIfBolus(
+  offsetMinutes: number,
+  units: number,
+  options?: { product?: InsulinProductId; delivery?: BolusDelivery }
+): WhatIfEvent {
+  const metadata: InsulinMetadata = {
+    type: 'bolus',
+    ...(options?.product && { product: options.product }),
+    ...(options?.delivery && options.delivery.type !== 'normal' && { delivery: options.delivery })
+  };
+  return { eventType: 'insulin', offsetMinutes, value: units, metadata };
+}
+
+/**
+ * Hypothetical exercise session
+ *
+ * @param offsetMinutes - Minutes after the simulation start
+ * @param durationMinutes - Session length
+ * @param intensity - Exercise intensity
+ * @param metadata - Exercise type, heart rate, etc.
+ * @returns What-if exercise event
+ */
+export function createWhatIfExercise(
+  offsetMinutes: number,
+  durationMinutes: number,
+  intensity: ExerciseIntensity,
+  metadata: Partial<ExerciseMetadata> = {}
+): WhatIfEvent {
+  const fullMetadata: ExerciseMetadata = { intensity, durationMinutes, ...metadata };
+  return { eventType: 'exercise', offsetMinutes, value: durationMinutes, metadata: fullMetadata };
+}
+
+/**
+ * In-memory events for a scenario, timed from the simulation start
+ *
+ * @param scenario - What-if scenario
+ * @param startTime - Simulation start
+ * @returns Physiological events with ids unique to the scenario
+ */
+export function createScenarioEvents(
+  scenario: WhatIfScenario,
+  startTime: Date
+): PhysiologicalEvent[] {
+  return scenario.events.map((event, index) => ({
+    id: `what-if-${scenario.id}-${index}`,
+    timestamp: new Date(startTime.getTime() + event.offsetMinutes * 60 * 1000),
+    eventType: event.eventType,
+    value: event.value,
+    metadata: event.metadata,
+    createdAt: startTime,
+    updatedAt: startTime
+  }));
+}
+
+/**
+ * Lowest, highest and final predicted BSL and time in range
+ *
+ * @param timeSeries - Simulated curve
+ * @param hypoThreshold - Bottom of the range (mmol/L)
+ * @param hyperThreshold - Top of the range (mmol/L)
+ * @returns Summary of the curve
+ */
+export function summariseWhatIfSeries(
+  timeSeries: BSLTimeSeries,
+  hypoThreshold: number = WHAT_IF_PARAMS.hypoThreshold,
+  hyperThreshold: number = WHAT_IF_PARAMS.hyperThreshold
+): WhatIfSummary {
+  const { points } = timeSeries;
+  if (points.length === 0) {
+    throw new Error('Cannot summarise an empty time series');
+  }
+
+  let lowest = points[0];
+  let highest = points[0];
+  let inRange = 0;
+  for (const point of points) {
+    if (point.predictedBSL < lowest.predictedBSL) lowest = point;
+    if (point.predictedBSL > highest.predictedBSL) highest = point;
+    if (point.predictedBSL >= hypoThreshold && point.predictedBSL <= hyperThreshold) inRange++;
+  }
+
+  return {
+    lowestBSL: lowest.predictedBSL,
+    lowestTime: lowest.timestamp,
+    highestBSL: highest.predictedBSL,
+    highestTime: highest.timestamp,
+    endBSL: points[points.length - 1].predictedBSL,
+    timeInRange: inRange / points.length
+  };
+}
+
+/**
+ * Simulate what-if scenarios against the current prediction
+ *
+ * Nothing is saved: scenario events exist only for the simulation.
+ *
+ * @param events - Logged events, from at least a day before the start
+ * @param scenarios - Scenarios to compare
+ * @param options - Start, horizon, parameters and thresholds
+ * @returns Curves, alerts and summaries for the current prediction and each scenario
+ */
+export function simulateWhatIfScenarios(
+  events: PhysiologicalEvent[],
+  scenarios: WhatIfScenario[],
+  options: WhatIfOptions = {}
+): WhatIfSimulation {
+  const startTime = options.startTime ?? new Date();
+  const horizonMinutes = options.horizonMinutes ?? WHAT_IF_PARAMS.horizonMinutes;
+  const endTime = new Date(startTime.getTime() + horizonMinutes * 60 * 1000);
+  const resolutionMinutes = options.resolutionMinutes ?? WHAT_IF_PARAMS.resolutionMinutes;
+  const userParams = options.userParams ?? DEFAULT_USER_PARAMETERS;
+  const hypoThreshold = options.hypoThreshold ?? WHAT_IF_PARAMS.hypoThreshold;
+  const hyperThreshold = options.hyperThreshold ?? WHAT_IF_PARAMS.hyperThreshold;
+
+  // Results are told apart by scenario id
+  if (scenarios.some((s) => s.id === WHAT_IF_PARAMS.currentScenarioId)) {
+    throw new Error(`Scenario id '${WHAT_IF_PARAMS.currentScenarioId}' is reserved`);
+  }
+
+  const simulate = (scenarioId: string, name: string, extraEvents: PhysiologicalEvent[]) => {
+    const timeSeries = generateBSLTimeSeries(
+      buildEventWindow([...events, ...extraEvents], startTime, endTime),
+      startTime,
+      endTime,
+      userParams,
+      resolutionMinutes,
+      options.ensemble
+    );
+    const result: WhatIfScenarioResult = {
+      scenarioId,
+      name,
+      timeSeries,
+      alerts: checkForAlerts(timeSeries, hypoThreshold, hyperThreshold),
+      summary: summariseWhatIfSeries(timeSeries, hypoThreshold, hyperThreshold)
+    };
+    return result;
+  };
+
+  return {
+    startTime,
+    endTime,
+    current: simulate(WHAT_IF_PARAMS.currentScenarioId, 'Current', []),
+    scenarios: scenarios.map((scenario) =>
+      simulate(scenario.id, scenario.name, createScenarioEvents(scenario, startTime))
+    )
+  };
+}
@@ -7,21 +7,49 @@
 // Insulin decay model
 export {
   INSULIN_KINETICS,
+  scaleInsulinKinetics,
+  getInsulinKinetics,
   calculateInsulinActivity,
+  getProductKinetics,
+  calculateProductActivity,
   generateActivityCurve,
+  getBolusDeliveryParts,
   calculateActiveInsulin,
   estimateInsulinBSLEffect,
   assessInsulinStacking,
   projectInsulinActivity
 } from './InsulinDecayModel';
 
+// Pump basal program (schedule, temp basals, suspends)
+export {
+  BASAL_STEP_MINUTES,
+  BASAL_RATE_LIMITS,
+  getScheduledBasalRate,
+  getDailyBasalTotal,
+  validateBasalSchedule,
+  getTempBasalRate,
+  calculateNetBasalDoses
+} from './BasalProgramModel';
+
+// Insulin product catalogue
+export {
+  INSULIN_PRODUCTS,
+  getInsulinProduct,
+  getInsulinProductsByType
+} from './InsulinProductCatalogue';
+
 // Carbohydrate absorption model
 export {
   GI_ESTIMATES,
+  FPU_PARAMS,
   getAbsorptionParams,
   estimateGlycemicIndex,
   calculateCarbAbsorption,
   generateAbsorptionCurve,
+  calculateFatProteinUnits,
+  getFatProteinAbsorptionMinutes,
+  getFatProteinAbsorption,
+  calculateFatProteinAbsorption,
   calculateActiveCarbs,
   estimateCarbBSLEffect,
   projectCarbAbsorption
@@ -41,6 +69,19 @@ export {
   projectAlcoholMetabolism
 } from './AlcoholMetabolismModel';
 
+// Exercise effect model
+export {
+  EXERCISE_PARAMS,
+  INTENSITY_FACTORS,
+  getExerciseIntensityFactor,
+  calculateAcuteGlucoseUptake,
+  calculateExerciseState,
+  calculateExerciseEffect,
+  estimateExerciseBSLEffect,
+  getExerciseHypoRisk,
+  projectExerciseEffect
+} from './ExerciseEffectModel';
+
 // Circadian (time-of-day) model
 export {
   DEFAULT_CIRCADIAN_PATTERN,
@@ -53,6 +94,24 @@ export {
   analyzeOvernightPattern
 } from './CircadianModel';
 
+// Sick day and menstrual cycle sensitivity model
+export {
+  DEFAULT_SENSITIVITY_MULTIPLIERS,
+  CONDITION_PARAMS,
+  getConditionKey,
+  getConditionEndTime,
+  calculateConditionState
+} from './ConditionSensitivityModel';
+
+// Ketone and DKA risk rules
+export {
+  KETONE_THRESHOLDS,
+  DKA_RULE_PARAMS,
+  classifyKetoneLevel,
+  assessDKARisk,
+  isSevereDKARisk
+} from './KetoneRiskModel';
+
 // BSL prediction model
 export {
   DEFAULT_USER_PARAMETERS,
@@ -65,10 +124,114 @@ export {
   checkForAlerts
 } from './BSLPredictionModel';
 
+// How far back events affect a prediction
+export { INSULIN_LOOKBACK_MS, EXERCISE_LOOKBACK_MS, EVENT_LOOKBACK_MS } from './EventLookback';
+
+// What-if simulation (hypothetical meals, doses and exercise)
+export {
+  WHAT_IF_PARAMS,
+  createWhatIfMeal,
+  createWhatIfBolus,
+  createWhatIfExercise,
+  createScenarioEvents,
+  summariseWhatIfSeries,
+  simulateWhatIfScenarios
+} from './WhatIfSimulationModel';
+
+// Prediction ensemble (Monte Carlo uncertainty)
+export {
+  ENSEMBLE_PARAMS,
+  createSeededRandom,
+  sampleStandardNormal,
+  standardNormalCdf,
+  sampleEnsembleMembers,
+  perturbMealEvents,
+  getEnsembleNoiseSd,
+  summarisePercentiles
+} from './PredictionEnsembleModel';
+
+// BSL trend (rate of change)
+export {
+  TREND_RATE_THRESHOLDS,
+  DEFAULT_TREND_WINDOW_MINUTES,
+  classifyTrend,
+  calculateBSLTrend,
+  calculateBSLTrends
+} from './BSLTrendModel';
+
+// Unannounced meal and missed bolus detection
+export {
+  MEAL_DETECTION_PARAMS,
+  detectUnannouncedMeals,
+  detectMissedBoluses,
+  detectMealSuggestions
+} from './MealDetectionModel';
+
+// Pattern insights over event history
+export {
+  PATTERN_INSIGHT_PARAMS,
+  MEAL_PERIODS,
+  calculateWilsonLowerBound,
+  calculatePatternInsights
+} from './PatternInsightsModel';
+
+// Therapy profile
+export {
+  THERAPY_PROFILE_LIMITS,
+  parseSegmentTime,
+  createDefaultTherapyProfile,
+  createTherapyProfileVersion,
+  validateTherapyProfile,
+  getTherapyProfileAt,
+  getTherapySegmentAt,
+  therapyProfileToParameters,
+  resolveUserModelParameters
+} from './TherapyProfileModel';
+
+// Personal parameter fitting
+export {
+  evaluateParameterAccuracy,
+  fitUserParameters,
+  fitSensitivityMultipliers
+} from './ParameterFittingModel';
+
+// Glycaemic metrics and AGP
+export {
+  GLYCAEMIC_THRESHOLDS,
+  GLYCAEMIC_TARGETS,
+  calculatePercentile,
+  calculateGMI,
+  calculateTimeInRanges,
+  detectGlucoseEpisodes,
+  calculateAGP,
+  calculateGlycaemicMetrics
+} from './GlycaemicMetricsModel';
+
+// Lab HbA1c and glycation gap
+export {
+  GLYCATION_GAP_PARAMS,
+  compareLabA1c,
+  calculateGlycationGapCalibration,
+  summariseGlycationGap,
+  analyseGlycationGap,
+  calibrateGMI
+} from './GlycationGapModel';
+
+// Prediction backtesting
+export {
+  ERROR_GRID_ZONES,
+  getClarkeZone,
+  getParkesZone,
+  getTimeOfDayPeriod,
+  summariseBacktestSamples,
+  runPredictionBacktest
+} from './PredictionBacktestModel';
+
 // Insulin recommendation engine
 export {
   calculateMealDose,
   calculateCorrectionDose,
+  calculateRescueCarbs,
   getTimingRecommendation,
   suggestICRAdjustment,
   explainRecommendation
@@ -0,0 +1,216 @@
+import { getEventService } from '$lib/services';
+import {
+  AlertEngine,
+  NotificationAlertNotifier,
+  getNotificationPermission,
+  requestNotificationPermission,
+  type AlertNotificationMessage,
+  type AlertNotificationPermission
+} from '$lib/services/alerts';
+import { getAlertRepository } from '$lib/repositories';
+import { DEFAULT_ALERT_SETTINGS } from '$lib/types';
+import type {
+  AlertEngineState,
+  AlertRecord,
+  AlertSettings,
+  AlertType,
+  PredictedAlert
+} from '$lib/types';
+import { settingsStore } from './settings.svelte';
+
+const INACTIVE_STATE: AlertEngineState = {
+  active: false,
+  evaluating: false,
+  lastEvaluatedAt: null,
+  activeAlerts: [],
+  error: null
+};
+
+const HISTORY_LIMIT = 50;
+
+/**
+ * Fill in defaults for settings saved by an older version
+ */
+function resolveAlertSettings(settings: AlertSettings | undefined): AlertSettings {
+  return {
+    ...DEFAULT_ALERT_SETTINGS,
+    ...settings,
+    quietHours: { ...DEFAULT_ALERT_SETTINGS.quietHours, ...settings?.quietHours }
+  };
+}
+
+/**
+ * Reactive store for predictive alerts using Svelte 5 runes
+ * Wraps AlertEngine and the persisted alert history
+ */
+function createAlertsStore() {
+  let state = $state<AlertEngineState>(INACTIVE_STATE);
+  let history = $state<AlertRecord[]>([]);
+  let permission = $state<AlertNotificationPermission>(getNotificationPermission());
+  let loading = $state(false);
+  let error = $state<string | null>(null);
+
+  let engine: AlertEngine | null = null;
+
+  const alertSettings = $derived(resolveAlertSettings(settingsStore.settings.alertSettings));
+
+  /**
+   * Start, update or stop the alert engine to match the alert settings.
+   * Safe to call on every settings change.
+   */
+  function configure(settings: AlertSettings | undefined) {
+    const resolved = resolveAlertSettings(settings);
+    if (!resolved.enabled) {
+      stop();
+      return;
+    }
+
+    if (engine) {
+      engine.updateSettings(resolved);
+      return;
+    }
+
+    engine = new AlertEngine(getEventService(), getAlertRepository(), resolved, {
+      notifier: new NotificationAlertNotifier(() => settingsStore.settings.defaultBSLUnit),
+      getParameters: (atTime) => settingsStore.getModelParameters(atTime),
+      onStateChange: (next) => (state = next),
+      onAlert: (record) => (history = [record, ...history].slice(0, HISTORY_LIMIT))
+    });
+    engine.start();
+    loadHistory();
+  }
+
+  function stop() {
+    engine?.stop();
+    engine = null;
+    state = INACTIVE_STATE;
+  }
+
+  async function evaluateNow() {
+    await engine?.evaluateNow();
+  }
+
+  async function loadHistory() {
+    loading = true;
+    error = null;
+    try {
+      history = await getAlertRepository().getRecent(HISTORY_LIMIT);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to load alert history';
+    } finally {
+      loading = false;
+    }
+  }
+
+  async function clearHistory() {
+    loading = true;
+    error = null;
+    try {
+      await getAlertRepository().clear();
+      history = [];
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to clear alert history';
+      throw e;
+    } finally {
+      loading = false;
+    }
+  }
+
+  async function requestPermission() {
+    permission = await requestNotificationPermission();
+  }
+
+  /**
+   * Snooze an alert type
+   *
+   * @param type - Alert type to snooze
+   * @param minutes - Snooze length (defaults to the configured snooze length)
+   */
+  async function snooze(type: AlertType, minutes: number = alertSettings.snoozeMinutes) {
+    await settingsStore.update({
+      alertSettings: {
+        ...alertSettings,
+        snoozedUntil: {
+          ...alertSettings.snoozedUntil,
+          [type]: new Date(Date.now() + minutes * 60 * 1000)
+        }
+      }
+    });
+  }
+
+  async function clearSnooze(type: AlertType) {
+    const snoozedUntil = { ...alertSettings.snoozedUntil };
+    delete snoozedUntil[type];
+    await settingsStore.update({ alertSettings: { ...alertSettings, snoozedUntil } });
+  }
+
+  function getSnoozedUntil(type: AlertType): Date | null {
+    const until = alertSettings.snoozedUntil?.[type];
+    return until && new Date(until) > new Date() ? new Date(until) : null;
+  }
+
+  async function acknowledge(id: string) {
+    try {
+      const updated = await getAlertRepository().update(id, { acknowledgedAt: new Date() });
+      history = history.map((record) => (record.id === id ? updated : record));
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to acknowledge alert';
+    }
+  }
+
+  /**
+   * Apply an action chosen on an alert notification (posted by the service worker)
+   */
+  async function handleNotificationAction(message: AlertNotificationMessage) {
+    if (message.action === 'snooze') {
+      await snooze(message.alertType);
+    }
+    await acknowledge(message.alertId);
+  }
+
+  return {
+    get settings() {
+      return alertSettings;
+    },
+    get isActive() {
+      return state.active;
+    },
+    get evaluating() {
+      return state.evaluating;
+    },
+    get lastEvaluatedAt() {
+      return state.lastEvaluatedAt;
+    },
+    get activeAlerts(): PredictedAlert[] {
+      return state.activeAlerts;
+    },
+    get engineError() {
+      return state.error;
+    },
+    get history() {
+      return history;
+    },
+    get permission() {
+      return permission;
+    },
+    get loading() {
+      return loading;
+    },
+    get error() {
+      return error;
+    },
+    configure,
+    stop,
+    evaluateNow,
+    loadHistory,
+    clearHistory,
+    requestPermission,
+    snooze,
+    clearSnooze,
+    getSnoozedUntil,
+    acknowledge,
+    handleNotificationAction
+  };
+}
+
+export const alertsStore = createAlertsStore();
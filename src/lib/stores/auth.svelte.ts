@@ -1,3 +1,4 @@
+import { getEventService } from '$lib/services';
 import { getServerAuthClient, ServerAuthClientError } from '$lib/services/auth';
 import { startAuthentication } from '@simplewebauthn/browser';
 
@@ -9,11 +10,20 @@ export type AuthState = 'unknown' | 'checking' | 'authenticated' | 'unauthentica
 function createAuthStore() {
   let state = $state<AuthState>('unknown');
   let expiresAt = $state<string | null>(null);
+  let credentialId = $state<string | null>(null);
   let error = $state<string | null>(null);
   let loading = $state(false);
 
   const client = getServerAuthClient();
 
+  /**
+   * Record the signed-in credential against event changes
+   */
+  function setCredentialId(id: string | null): void {
+    credentialId = id;
+    getEventService().setCredentialId(id);
+  }
+
   /**
    * Check current session status with the server.
    */
@@ -26,15 +36,18 @@ function createAuthStore() {
       if (status.authenticated) {
         state = 'authenticated';
         expiresAt = status.expiresAt;
+        setCredentialId(status.credentialId);
         return true;
       } else {
         state = 'unauthenticated';
         expiresAt = null;
+        setCredentialId(null);
         return false;
       }
     } catch (e) {
       state = 'unauthenticated';
       expiresAt = null;
+      setCredentialId(null);
       error = e instanceof Error ? e.message : 'Failed to check session';
       return false;
     }
@@ -63,6 +76,7 @@ function createAuthStore() {
       if (result.verified) {
         state = 'authenticated';
         expiresAt = result.expiresAt;
+        setCredentialId(result.credentialId);
         return true;
       } else {
         state = 'unauthenticated';
@@ -102,6 +116,7 @@ function createAuthStore() {
       await client.logout();
       state = 'unauthenticated';
       expiresAt = null;
+      setCredentialId(null);
     } catch (e) {
       error = e instanceof Error ? e.message : 'Failed to logout';
       throw e;
@@ -127,6 +142,9 @@ function createAuthStore() {
     get expiresAt() {
       return expiresAt;
     },
+    get credentialId() {
+      return credentialId;
+    },
     get error() {
       return error;
     },
@@ -0,0 +1,149 @@
+import { getEventService } from '$lib/services';
+import {
+  CGMSyncEngine,
+  NightscoutTreatmentSync,
+  createCGMApiService,
+  createNightscoutApiService,
+  isCGMApiConfigured
+} from '$lib/services/cgm';
+import type { CGMApiConfig, CGMSyncResult, CGMSyncState } from '$lib/types';
+import { settingsStore } from './settings.svelte';
+
+const STOPPED_STATE: CGMSyncState = {
+  status: 'stopped',
+  lastSyncAt: null,
+  lastReadingAt: null,
+  error: null,
+  errorType: null,
+  consecutiveFailures: 0,
+  nextAttemptAt: null
+};
+
+/**
+ * Connection settings that require restarting the sync when changed.
+ * lastSyncTimestamp is excluded - the sync itself updates it after every run.
+ */
+function getConfigKey(config: CGMApiConfig | undefined): string {
+  if (!config || !isCGMApiConfigured(config)) return '';
+  return JSON.stringify({ ...config, lastSyncTimestamp: undefined });
+}
+
+/**
+ * Reactive store for background CGM sync using Svelte 5 runes
+ * Wraps CGMSyncEngine (readings) and NightscoutTreatmentSync (treatments)
+ */
+function createCGMSyncStore() {
+  let state = $state<CGMSyncState>(STOPPED_STATE);
+  let lastResult = $state<CGMSyncResult | null>(null);
+  let now = $state(Date.now());
+
+  let engine: CGMSyncEngine | null = null;
+  let treatmentSync: NightscoutTreatmentSync | null = null;
+  let configKey = '';
+  let ticker: ReturnType<typeof setInterval> | null = null;
+
+  const secondsUntilNextAttempt = $derived(
+    state.nextAttemptAt
+      ? Math.max(0, Math.ceil((state.nextAttemptAt.getTime() - now) / 1000))
+      : null
+  );
+
+  /**
+   * Start, restart or stop syncing to match the CGM API settings.
+   * Safe to call on every settings change.
+   */
+  function configure(config: CGMApiConfig | undefined) {
+    const key = getConfigKey(config);
+    if (key === configKey) return;
+
+    stop();
+    configKey = key;
+    if (!config || !key) return;
+
+    const api = createCGMApiService(config);
+    if (!api) return;
+
+    engine = new CGMSyncEngine(api, getEventService(), {
+      intervalMinutes: config.syncIntervalMinutes,
+      lastSyncTimestamp: config.lastSyncTimestamp,
+      onStateChange: (next) => (state = next),
+      onSynced: handleSynced
+    });
+    engine.start();
+
+    if (config.provider === 'nightscout' && config.nightscout?.syncTreatments) {
+      treatmentSync = new NightscoutTreatmentSync(
+        getEventService(),
+        createNightscoutApiService(config.nightscout),
+        config.syncIntervalMinutes
+      );
+      treatmentSync.start();
+    }
+
+    // Drives the next-attempt countdown
+    ticker = setInterval(() => (now = Date.now()), 1000);
+  }
+
+  async function handleSynced(result: CGMSyncResult, lastReadingAt: Date | null) {
+    lastResult = result;
+
+    const current = settingsStore.settings.cgmApiConfig;
+    if (!current || !lastReadingAt) return;
+    if (current.lastSyncTimestamp && new Date(current.lastSyncTimestamp) >= lastReadingAt) return;
+    await settingsStore.update({
+      cgmApiConfig: { ...current, lastSyncTimestamp: lastReadingAt }
+    });
+  }
+
+  async function syncNow() {
+    if (!engine) return;
+    await engine.syncNow();
+    await treatmentSync?.sync();
+  }
+
+  function stop() {
+    engine?.stop();
+    treatmentSync?.stop();
+    engine = null;
+    treatmentSync = null;
+    configKey = '';
+    if (ticker) clearInterval(ticker);
+    ticker = null;
+    state = STOPPED_STATE;
+  }
+
+  return {
+    get status() {
+      return state.status;
+    },
+    get lastSyncAt() {
+      return state.lastSyncAt;
+    },
+    get lastReadingAt() {
+      return state.lastReadingAt;
+    },
+    get error() {
+      return state.error;
+    },
+    get errorType() {
+      return state.errorType;
+    },
+    get nextAttemptAt() {
+      return state.nextAttemptAt;
+    },
+    get secondsUntilNextAttempt() {
+      return secondsUntilNextAttempt;
+    },
+    get lastResult() {
+      return lastResult;
+    },
+    get isActive() {
+      return state.status !== 'stopped';
+    },
+    configure,
+    syncNow,
+    stop
+  };
+}
+
+export const cgmSyncStore = createCGMSyncStore();
@@ -1,13 +1,24 @@
-import { getEventService } from '$lib/services';
+import { DELETE_UNDO_WINDOW_MS, getEventService } from '$lib/services';
 import type {
   PhysiologicalEvent,
   EventType,
   InsulinType,
+  InsulinProductId,
+  BolusDelivery,
   BSLUnit,
   BSLDataSource,
   MealMetadata,
   ExerciseMetadata,
-  ExerciseIntensity
+  ExerciseIntensity,
+  TempBasalMode,
+  ConditionType,
+  CyclePhase,
+  KetoneUnit,
+  KetoneSampleType,
+  KetoneDataSource,
+  UrineKetoneLevel,
+  HbA1cUnit,
+  EventRevision
 } from '$lib/types';
 
 /**
@@ -17,6 +28,9 @@ function createEventsStore() {
   let events = $state<PhysiologicalEvent[]>([]);
   let loading = $state(false);
   let error = $state<string | null>(null);
+  // Last deleted event while it can still be undone
+  let recentlyDeleted = $state<PhysiologicalEvent | null>(null);
+  let undoTimer: ReturnType<typeof setTimeout> | null = null;
 
   const service = getEventService();
 
@@ -56,6 +70,22 @@ function createEventsStore() {
     }
   }
 
+  /**
+   * Load a date range plus earlier sick days and cycle phases still running,
+   * for predictions over the range
+   */
+  async function loadWithActiveConditions(start: Date, end: Date) {
+    loading = true;
+    error = null;
+    try {
+      events = await service.getEventsWithActiveConditions(start, end);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to load events';
+    } finally {
+      loading = false;
+    }
+  }
+
   async function loadByType(type: EventType, limit?: number) {
     loading = true;
     error = null;
@@ -68,11 +98,16 @@ function createEventsStore() {
     }
   }
 
-  async function logInsulin(units: number, type: InsulinType, timestamp?: Date) {
+  async function logInsulin(
+    units: number,
+    type: InsulinType,
+    timestamp?: Date,
+    options?: { product?: InsulinProductId; delivery?: BolusDelivery }
+  ) {
     loading = true;
     error = null;
     try {
-      const event = await service.logInsulin(units, type, timestamp);
+      const event = await service.logInsulin(units, type, timestamp, options);
       events = [event, ...events];
       return event;
     } catch (e) {
@@ -142,6 +177,91 @@ function createEventsStore() {
     }
   }
 
+  async function logTempBasal(
+    mode: TempBasalMode,
+    value: number,
+    durationMinutes: number,
+    timestamp?: Date
+  ) {
+    loading = true;
+    error = null;
+    try {
+      const event = await service.logTempBasal(mode, value, durationMinutes, timestamp);
+      events = [event, ...events];
+      return event;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to log temp basal';
+      throw e;
+    } finally {
+      loading = false;
+    }
+  }
+
+  async function logCondition(
+    condition: ConditionType,
+    durationHours: number,
+    metadata?: { phase?: CyclePhase; sensitivityMultiplier?: number; notes?: string },
+    timestamp?: Date
+  ) {
+    loading = true;
+    error = null;
+    try {
+      const event = await service.logCondition(condition, durationHours, metadata, timestamp);
+      events = [event, ...events];
+      return event;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to log condition';
+      throw e;
+    } finally {
+      loading = false;
+    }
+  }
+
+  async function logKetone(
+    value: number,
+    unit?: KetoneUnit,
+    timestamp?: Date,
+    options?: {
+      sampleType?: KetoneSampleType;
+      urineLevel?: UrineKetoneLevel;
+      device?: string;
+      source?: KetoneDataSource;
+    }
+  ) {
+    loading = true;
+    error = null;
+    try {
+      const event = await service.logKetone(value, unit, timestamp, options);
+      events = [event, ...events];
+      return event;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to log ketones';
+      throw e;
+    } finally {
+      loading = false;
+    }
+  }
+
+  async function logLabResult(
+    value: number,
+    unit?: HbA1cUnit,
+    timestamp?: Date,
+    options?: { lab?: string; notes?: string }
+  ) {
+    loading = true;
+    error = null;
+    try {
+      const event = await service.logLabResult(value, unit, timestamp, options);
+      events = [event, ...events];
+      return event;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to log lab result';
+      throw e;
+    } finally {
+      loading = false;
+    }
+  }
+
   async function bulkLogBSL(
     readings: Array<{ value: number; unit: BSLUnit; timestamp: Date; source?: BSLDataSource }>
   ) {
@@ -163,8 +283,16 @@ function createEventsStore() {
     loading = true;
     error = null;
     try {
+      const deleted = events.find((e) => e.id === id) ?? (await service.getEvent(id));
       await service.deleteEvent(id);
       events = events.filter((e) => e.id !== id);
+
+      recentlyDeleted = deleted;
+      if (undoTimer) clearTimeout(undoTimer);
+      undoTimer = setTimeout(() => {
+        recentlyDeleted = null;
+        undoTimer = null;
+      }, DELETE_UNDO_WINDOW_MS);
     } catch (e) {
       error = e instanceof Error ? e.message : 'Failed to delete event';
       throw e;
@@ -173,6 +301,71 @@ function createEventsStore() {
     }
   }
 
+  /**
+   * Bring back the last deleted event
+   */
+  async function undoDelete() {
+    if (!recentlyDeleted) return;
+    const id = recentlyDeleted.id;
+    if (undoTimer) clearTimeout(undoTimer);
+    undoTimer = null;
+    recentlyDeleted = null;
+
+    error = null;
+    try {
+      const restored = await service.undoDelete(id);
+      events = [...events, restored].sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+      return restored;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to undo delete';
+      throw e;
+    }
+  }
+
+  /**
+   * Revisions of an event, newest first
+   */
+  async function getEventHistory(id: string): Promise<EventRevision[]> {
+    return service.getEventHistory(id);
+  }
+
+  /**
+   * Events deleted and not brought back, as their delete revisions
+   */
+  async function getDeletedEvents(): Promise<EventRevision[]> {
+    return service.getDeletedEvents();
+  }
+
+  /**
+   * Permanently remove deletes past the undo window
+   */
+  async function purgeDeletedEvents() {
+    try {
+      await service.purgeDeletedEvents();
+    } catch {
+      // Left for the next purge
+    }
+  }
+
+  /**
+   * Put back the version of an event saved in a revision
+   */
+  async function restoreRevision(revisionId: string) {
+    error = null;
+    try {
+      const restored = await service.restoreRevision(revisionId);
+      events = [...events.filter((e) => e.id !== restored.id), restored].sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+      return restored;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to restore event';
+      throw e;
+    }
+  }
+
   async function updateEvent(id: string, updates: Partial<PhysiologicalEvent>) {
     loading = true;
     error = null;
@@ -219,6 +412,20 @@ function createEventsStore() {
     }
   }
 
+  /**
+   * Recalculate BSL trends after readings were written outside the store
+   * (e.g. CSV import)
+   */
+  async function refreshBSLTrends(start: Date, end: Date) {
+    try {
+      const updated = await service.refreshBSLTrends(start, end);
+      const updatedById = new Map(updated.map((e) => [e.id, e]));
+      events = events.map((e) => updatedById.get(e.id) ?? e);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to update BSL trends';
+    }
+  }
+
   async function exportAll() {
     try {
       return await service.exportAllEvents();
@@ -252,21 +459,35 @@ function createEventsStore() {
     get error() {
       return error;
     },
+    get recentlyDeleted() {
+      return recentlyDeleted;
+    },
     loadRecent,
     loadToday,
     loadByDateRange,
+    loadWithActiveConditions,
     loadByType,
     logInsulin,
     logBSL,
     logMeal,
     logExercise,
+    logTempBasal,
+    logCondition,
+    logKetone,
+    logLabResult,
     bulkLogBSL,
     deleteEvent,
+    undoDelete,
     updateEvent,
+    getEventHistory,
+    getDeletedEvents,
+    purgeDeletedEvents,
+    restoreRevision,
     getRecentInsulinDoses,
     getRecentBSLValues,
     getRecentCarbValues,
     importEvents,
+    refreshBSLTrends,
     exportAll,
     clearAll
   };
@@ -0,0 +1,63 @@
+import {
+  GLYCATION_GAP_PARAMS,
+  compareLabA1c,
+  getEventService,
+  summariseGlycationGap
+} from '$lib/services';
+import { isLabResultMetadata } from '$lib/types';
+import type { A1cComparison, GlycationGapReport } from '$lib/types';
+import { DAY_MS } from '$lib/utils';
+
+/**
+ * Reactive store for lab HbA1c results compared with GMI
+ */
+function createGlycationGapStore() {
+  let report = $state<GlycationGapReport | null>(null);
+  let loading = $state(false);
+  let error = $state<string | null>(null);
+
+  /**
+   * Compare every HbA1c lab result with the readings before it
+   * Each result's window is loaded on its own rather than the whole history.
+   */
+  async function refresh() {
+    loading = true;
+    error = null;
+    try {
+      const service = getEventService();
+      const labResults = (await service.getEventsByType('lab-result')).filter((e) =>
+        isLabResultMetadata(e.metadata)
+      );
+      const comparisons: A1cComparison[] = [];
+      for (const labEvent of labResults) {
+        const end = new Date(labEvent.timestamp);
+        const start = new Date(end.getTime() - GLYCATION_GAP_PARAMS.windowDays * DAY_MS);
+        const events = await service.getEventsByDateRange(start, end);
+        comparisons.push(compareLabA1c(labEvent, events));
+      }
+      report = summariseGlycationGap(comparisons);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to compare lab results';
+    } finally {
+      loading = false;
+    }
+  }
+
+  return {
+    get report() {
+      return report;
+    },
+    get calibration() {
+      return report?.calibration ?? null;
+    },
+    get loading() {
+      return loading;
+    },
+    get error() {
+      return error;
+    },
+    refresh
+  };
+}
+
+export const glycationGapStore = createGlycationGapStore();
@@ -3,3 +3,9 @@ export { eventsStore } from './events.svelte';
 export { settingsStore } from './settings.svelte';
 export { validationStore } from './validation.svelte';
 export { presetsStore } from './presets.svelte';
+export { cgmSyncStore } from './cgmSync.svelte';
+export { alertsStore } from './alerts.svelte';
+export { mealSuggestionsStore } from './mealSuggestions.svelte';
+export { rescueCarbsStore } from './rescueCarbs.svelte';
+export { ketoneRiskStore } from './ketoneRisk.svelte';
+export { glycationGapStore } from './glycationGap.svelte';
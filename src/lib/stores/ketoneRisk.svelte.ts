@@ -0,0 +1,52 @@
+import { EVENT_LOOKBACK_MS, assessDKARisk, buildEventWindow, getEventService } from '$lib/services';
+import type { DKARiskAssessment } from '$lib/types';
+import { settingsStore } from './settings.svelte';
+
+/**
+ * Reactive store for the in-app ketone (DKA risk) alert
+ */
+function createKetoneRiskStore() {
+  let assessment = $state<DKARiskAssessment | null>(null);
+  let loading = $state(false);
+  let error = $state<string | null>(null);
+
+  /**
+   * Reassess from events still on board
+   */
+  async function refresh() {
+    loading = true;
+    error = null;
+    try {
+      const now = new Date();
+      // History back to the lookback shows basal taken and insulin on board
+      const events = await getEventService().getEventsWithActiveConditions(
+        new Date(now.getTime() - EVENT_LOOKBACK_MS),
+        now
+      );
+      assessment = assessDKARisk(
+        buildEventWindow(events, now, now),
+        settingsStore.getModelParameters(now),
+        { atTime: now }
+      );
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to check ketone risk';
+    } finally {
+      loading = false;
+    }
+  }
+
+  return {
+    get assessment() {
+      return assessment;
+    },
+    get loading() {
+      return loading;
+    },
+    get error() {
+      return error;
+    },
+    refresh
+  };
+}
+
+export const ketoneRiskStore = createKetoneRiskStore();
@@ -0,0 +1,102 @@
+import { EVENT_LOOKBACK_MS, detectMealSuggestions, getEventService } from '$lib/services';
+import type { MealSuggestion, PhysiologicalEvent } from '$lib/types';
+import { DAY_MS } from '$lib/utils';
+import { eventsStore } from './events.svelte';
+import { settingsStore } from './settings.svelte';
+
+/**
+ * Dismissed suggestion ids kept in settings (oldest are dropped)
+ */
+const DISMISSED_LIMIT = 200;
+
+/**
+ * Reactive store for unannounced meal and missed bolus suggestions
+ * Scans recent history and turns accepted suggestions into meal events
+ */
+function createMealSuggestionsStore() {
+  let suggestions = $state<MealSuggestion[]>([]);
+  let scannedAt = $state<Date | null>(null);
+  let loading = $state(false);
+  let error = $state<string | null>(null);
+
+  const dismissedIds = $derived(new Set(settingsStore.settings.dismissedMealSuggestionIds ?? []));
+  const pending = $derived(suggestions.filter((s) => !dismissedIds.has(s.id)));
+
+  /**
+   * Scan recent history
+   *
+   * @param days - Days of history to scan
+   */
+  async function scan(days: number = 3) {
+    loading = true;
+    error = null;
+    try {
+      const endTime = new Date();
+      const startTime = new Date(endTime.getTime() - days * DAY_MS);
+      // The lookback before the range gives insulin and exercise on board
+      const events = await getEventService().getEventsWithActiveConditions(
+        new Date(startTime.getTime() - EVENT_LOOKBACK_MS),
+        endTime
+      );
+      suggestions = detectMealSuggestions(events, {
+        startTime,
+        endTime,
+        parametersAt: (atTime) => settingsStore.getModelParameters(atTime)
+      });
+      scannedAt = endTime;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to scan for missed meals';
+    } finally {
+      loading = false;
+    }
+  }
+
+  async function dismiss(id: string) {
+    const ids = [...(settingsStore.settings.dismissedMealSuggestionIds ?? []), id];
+    await settingsStore.update({ dismissedMealSuggestionIds: ids.slice(-DISMISSED_LIMIT) });
+  }
+
+  /**
+   * Log an unannounced meal suggestion as a meal event
+   *
+   * @param suggestion - Suggestion to accept
+   * @param carbs - Carbs to log (defaults to the estimate)
+   * @returns The logged meal
+   */
+  async function accept(
+    suggestion: MealSuggestion,
+    carbs: number = suggestion.estimatedCarbs ?? 0
+  ): Promise<PhysiologicalEvent> {
+    const event = await eventsStore.logMeal(
+      carbs,
+      {
+        description: 'Unlogged meal (detected from BSL)',
+        source: 'manual',
+        confidence: suggestion.confidence
+      },
+      suggestion.timestamp
+    );
+    suggestions = suggestions.filter((s) => s.id !== suggestion.id);
+    return event;
+  }
+
+  return {
+    get suggestions() {
+      return pending;
+    },
+    get scannedAt() {
+      return scannedAt;
+    },
+    get loading() {
+      return loading;
+    },
+    get error() {
+      return error;
+    },
+    scan,
+    dismiss,
+    accept
+  };
+}
+
+export const mealSuggestionsStore = createMealSuggestionsStore();
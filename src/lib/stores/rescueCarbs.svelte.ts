@@ -0,0 +1,90 @@
+import {
+  EVENT_LOOKBACK_MS,
+  buildEventWindow,
+  calculateRescueCarbs,
+  getEventService
+} from '$lib/services';
+import { HYPO_TREATMENT_TAG } from '$lib/types';
+import type { PhysiologicalEvent, RescueCarbRecommendation } from '$lib/types';
+import { alertsStore } from './alerts.svelte';
+import { eventsStore } from './events.svelte';
+import { settingsStore } from './settings.svelte';
+
+/**
+ * Reactive store for rescue carb (hypo treatment) recommendations
+ * Logs treatments as tagged meals so predictions include them
+ */
+function createRescueCarbsStore() {
+  let recommendation = $state<RescueCarbRecommendation | null>(null);
+  let lastTreatment = $state<{ event: PhysiologicalEvent; recheckTime: Date } | null>(null);
+  let loading = $state(false);
+  let error = $state<string | null>(null);
+
+  /**
+   * Recalculate from events still on board
+   */
+  async function refresh() {
+    loading = true;
+    error = null;
+    try {
+      const now = new Date();
+      // History back to the lookback gives insulin and exercise on board
+      const events = await getEventService().getEventsWithActiveConditions(
+        new Date(now.getTime() - EVENT_LOOKBACK_MS),
+        now
+      );
+      recommendation = calculateRescueCarbs(
+        buildEventWindow(events, now, now),
+        settingsStore.getModelParameters(now),
+        { hypoThreshold: alertsStore.settings.hypoThreshold, atTime: now }
+      );
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to check for a predicted low';
+    } finally {
+      loading = false;
+    }
+  }
+
+  /**
+   * Log fast carbs taken for a low
+   *
+   * @param carbs - Carbs taken (defaults to the recommendation)
+   * @returns The logged meal
+   */
+  async function logTreatment(
+    carbs: number = recommendation?.carbsGrams ?? 0
+  ): Promise<PhysiologicalEvent> {
+    // The re-check follows the treatment, not the recommendation after it
+    const recheckMinutes = recommendation?.recheckMinutes ?? 15;
+    const event = await eventsStore.logMeal(carbs, {
+      description: 'Hypo treatment',
+      source: 'manual',
+      tags: [HYPO_TREATMENT_TAG]
+    });
+    lastTreatment = {
+      event,
+      recheckTime: new Date(new Date(event.timestamp).getTime() + recheckMinutes * 60 * 1000)
+    };
+    await refresh();
+    return event;
+  }
+
+  return {
+    get recommendation() {
+      return recommendation;
+    },
+    get lastTreatment() {
+      return lastTreatment;
+    },
+    get loading() {
+      return loading;
+    },
+    get error() {
+      return error;
+    },
+    refresh,
+    logTreatment
+  };
+}
+
+export const rescueCarbsStore = createRescueCarbsStore();
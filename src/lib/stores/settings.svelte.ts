@@ -4,9 +4,12 @@ import type {
   AIProvider,
   AzureConfig,
   BedrockConfig,
-  LocalModelConfig
+  LocalModelConfig,
+  TherapyProfile,
+  UserModelParameters
 } from '$lib/types';
 import { DEFAULT_SETTINGS } from '$lib/types';
+import { getTherapyProfileAt, resolveUserModelParameters } from '$lib/services';
 
 /**
  * Reactive store for user settings using Svelte 5 runes
@@ -85,6 +88,26 @@ function createSettingsStore() {
     }
   }
 
+  async function saveTherapyProfile(profile: Omit<TherapyProfile, 'version' | 'effectiveFrom'>) {
+    loading = true;
+    error = null;
+    try {
+      settings = await service.saveTherapyProfile(profile);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Failed to save therapy profile';
+      throw e;
+    } finally {
+      loading = false;
+    }
+  }
+
+  /**
+   * Model parameters from the therapy profile active at a point in time
+   */
+  function getModelParameters(atTime: Date = new Date()): UserModelParameters {
+    return resolveUserModelParameters(settings.therapyProfiles, atTime);
+  }
+
   // Provider config setters for Azure, Bedrock, and Local
   async function setAzureConfig(config: AzureConfig) {
     loading = true;
@@ -138,6 +161,8 @@ function createSettingsStore() {
     }
   }
 
+  const therapyProfile = $derived(getTherapyProfileAt(settings.therapyProfiles));
+
   const isAIConfigured = $derived(
     !!(
       settings.openaiApiKey ||
@@ -213,11 +238,16 @@ function createSettingsStore() {
     get configuredProvider() {
       return configuredProvider;
     },
+    get therapyProfile() {
+      return therapyProfile;
+    },
     load,
     update,
     reset,
     setApiKey,
     clearApiKey,
+    saveTherapyProfile,
+    getModelParameters,
     setAzureConfig,
     setBedrockConfig,
     setLocalModelConfig,
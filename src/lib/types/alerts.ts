@@ -0,0 +1,84 @@
+import type { PredictedAlert } from './modeling';
+
+/**
+ * Predictive alerts
+ * Types for the alert engine, its settings and the persisted alert history.
+ * BSL values are stored in mmol/L.
+ */
+
+export type AlertType = PredictedAlert['type'];
+export type AlertSeverity = PredictedAlert['severity'];
+
+/**
+ * Hours when only urgent alerts are delivered
+ * The window may wrap midnight, e.g. 22:00 - 07:00.
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // 'HH:mm'
+  end: string; // 'HH:mm'
+  allowUrgent: boolean; // Still deliver urgent alerts during quiet hours
+}
+
+/**
+ * User-configured alert settings
+ */
+export interface AlertSettings {
+  enabled: boolean;
+  hypoThreshold: number; // mmol/L
+  hyperThreshold: number; // mmol/L
+  lookaheadMinutes: number; // How far ahead to predict
+  minSeverity: AlertSeverity; // Ignore alerts below this severity
+  repeatAfterMinutes: number; // Same alert again only after this, unless it escalates
+  snoozeMinutes: number; // Default snooze length
+  snoozedUntil?: Partial<Record<AlertType, Date>>;
+  quietHours: QuietHours;
+}
+
+/**
+ * Why an alert was recorded without a notification
+ */
+export type AlertSuppressionReason = 'snoozed' | 'quiet-hours' | 'no-permission';
+
+/**
+ * Alert history entry (persisted to IndexedDB)
+ */
+export interface AlertRecord extends PredictedAlert {
+  id: string;
+  firedAt: Date;
+  triggerEventId?: string; // Event whose arrival caused the evaluation
+  currentBSL?: number; // Latest reading when evaluated (mmol/L)
+  notified: boolean;
+  suppressedReason?: AlertSuppressionReason;
+  acknowledgedAt?: Date;
+}
+
+/**
+ * Observable state of the alert engine
+ */
+export interface AlertEngineState {
+  active: boolean;
+  evaluating: boolean;
+  lastEvaluatedAt: Date | null;
+  activeAlerts: PredictedAlert[]; // Most severe alert of each type from the last evaluation
+  error: string | null;
+}
+
+/**
+ * Default alert settings for new users
+ */
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  enabled: false,
+  hypoThreshold: 4.0,
+  hyperThreshold: 13.9,
+  lookaheadMinutes: 60,
+  minSeverity: 'alert',
+  repeatAfterMinutes: 60,
+  snoozeMinutes: 30,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    allowUrgent: true
+  }
+};
@@ -1,6 +1,6 @@
 /**
  * CGM API Integration Types
- * Task 22: Direct CGM API integration (Freestyle Libre, Dexcom)
+ * Task 22: Direct CGM API integration (Freestyle Libre, Dexcom, Nightscout)
  *
  * Defines types for connecting to CGM cloud services to fetch
  * real-time and historical glucose data.
@@ -43,6 +43,7 @@ export interface NightscoutConfig {
   url: string; // Nightscout site URL
   apiSecret?: string; // API secret (hashed SHA1)
   token?: string; // API token (alternative to secret)
+  syncTreatments?: boolean; // Two-way sync of insulin, meal and exercise treatments
 }
 
 /**
@@ -178,6 +179,78 @@ export interface ICGMApiService {
   getProviderName(): string;
 }
 
+/**
+ * Nightscout treatment types exchanged with MeData events
+ */
+export type NightscoutTreatmentType =
+  | 'Meal Bolus'
+  | 'Correction Bolus'
+  | 'Carb Correction'
+  | 'Exercise';
+
+/**
+ * Nightscout treatment document (/api/v1/treatments)
+ */
+export interface NightscoutTreatment {
+  _id?: string;
+  eventType: NightscoutTreatmentType | string;
+  created_at: string; // ISO timestamp
+  insulin?: number; // units
+  carbs?: number; // grams
+  protein?: number; // grams
+  fat?: number; // grams
+  duration?: number; // minutes (exercise)
+  notes?: string;
+  enteredBy?: string;
+}
+
+/**
+ * Result of a two-way treatment sync run
+ */
+export interface TreatmentSyncResult {
+  pushed: number; // Treatments created or updated on Nightscout
+  pulled: number; // Events created locally from Nightscout treatments
+  updated: number; // Local events updated from Nightscout edits
+  deleted: number; // Deletes propagated in either direction
+  errors: string[];
+  syncedAt: Date;
+}
+
+/**
+ * Background CGM sync status
+ * - idle: waiting for the next scheduled sync
+ * - backoff: last attempt failed, retrying after an increasing delay
+ */
+export type CGMSyncStatus = 'stopped' | 'idle' | 'syncing' | 'backoff';
+
+/**
+ * Failure category, used to pick the backoff and the message shown
+ */
+export type CGMSyncErrorType = 'auth' | 'network' | 'other';
+
+/**
+ * Observable state of the background CGM sync
+ */
+export interface CGMSyncState {
+  status: CGMSyncStatus;
+  lastSyncAt: Date | null; // Last successful sync
+  lastReadingAt: Date | null; // Newest reading imported so far
+  error: string | null;
+  errorType: CGMSyncErrorType | null;
+  consecutiveFailures: number;
+  nextAttemptAt: Date | null;
+}
+
+/**
+ * Result of a single CGM sync run
+ */
+export interface CGMSyncResult {
+  fetched: number;
+  imported: number;
+  duplicates: number;
+  syncedAt: Date;
+}
+
 /**
  * Trend arrow Unicode characters for display
  */
@@ -223,3 +296,30 @@ export function libreTrendToDirection(trend: number): CGMTrendDirection {
   // LibreLink uses similar scale: 1=rising fast, 4=stable, 7=falling fast
   return dexcomTrendToDirection(trend);
 }
+
+/**
+ * Convert Nightscout direction string to direction
+ * Nightscout uses the xDrip/Dexcom direction names (e.g. "FortyFiveUp")
+ */
+export function nightscoutDirectionToTrend(direction: string | undefined): CGMTrendDirection {
+  switch (direction) {
+    case 'TripleUp':
+    case 'DoubleUp':
+      return 'rising-fast';
+    case 'SingleUp':
+      return 'rising';
+    case 'FortyFiveUp':
+      return 'rising-slow';
+    case 'Flat':
+      return 'stable';
+    case 'FortyFiveDown':
+      return 'falling-slow';
+    case 'SingleDown':
+      return 'falling';
+    case 'DoubleDown':
+    case 'TripleDown':
+      return 'falling-fast';
+    default:
+      return 'unknown';
+  }
+}
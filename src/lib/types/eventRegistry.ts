@@ -0,0 +1,71 @@
+import type { EventMetadataMap, EventType, PhysiologicalEvent } from './events';
+
+/**
+ * Kind of value a metadata field holds
+ */
+export type MetadataFieldKind = 'number' | 'string' | 'boolean' | 'object' | 'array';
+
+/**
+ * Schema for one metadata field
+ */
+export interface MetadataFieldSchema {
+  kind: MetadataFieldKind;
+  required?: boolean;
+  /** Allowed values for string fields */
+  values?: readonly string[];
+  /** Range for number fields (inclusive) */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Schema for every declared field of a metadata type
+ * Extra fields allowed by the metadata's index signature are not checked.
+ */
+export type EventMetadataSchema<M> = {
+  [K in keyof M as string extends K ? never : K]-?: MetadataFieldSchema;
+};
+
+/**
+ * Icon for an event type: an SVG path (24x24 outline) and the badge classes
+ */
+export interface EventTypeIcon {
+  path: string;
+  /** Background and text colour classes for the round badge */
+  className: string;
+}
+
+/**
+ * Column in the CSV export
+ * Columns with the same header are shared between event types.
+ */
+export interface EventExportColumn {
+  header: string;
+  value: (event: PhysiologicalEvent) => string | number | boolean | undefined;
+}
+
+/**
+ * Everything the app needs to handle an event type: validation, display
+ * and export
+ */
+export interface EventTypeDefinition<T extends EventType = EventType> {
+  type: T;
+  /** Singular name, e.g. 'Blood sugar' */
+  label: string;
+  /** History filter tab label, e.g. 'BSL' */
+  filterLabel: string;
+  /** Allowed event value range (inclusive) */
+  valueRange?: { min?: number; max?: number };
+  metadataSchema: EventMetadataSchema<EventMetadataMap[T]>;
+  /** Checks across fields the schema cannot express */
+  validate?(value: number, metadata: EventMetadataMap[T]): string[];
+  /** One-line summary, e.g. '5.6 mmol/L ↗' */
+  format(event: PhysiologicalEvent): string;
+  /** Secondary text such as a description or notes */
+  describe?(event: PhysiologicalEvent): string | undefined;
+  icon: EventTypeIcon;
+  /** Per-event icon, e.g. a drink icon for meals with alcohol */
+  iconFor?(event: PhysiologicalEvent): EventTypeIcon;
+  /** Type-specific CSV columns */
+  exportColumns: EventExportColumn[];
+}
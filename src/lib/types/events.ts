@@ -1,14 +1,34 @@
+import type { CGMTrendDirection } from './cgm-api';
+
+/**
+ * Metadata shape for each event type
+ * New event types extend this map through declaration merging and register
+ * a definition with the event type registry (see services/events).
+ */
+export interface EventMetadataMap {
+  meal: MealMetadata;
+  insulin: InsulinMetadata;
+  bsl: BSLMetadata;
+  exercise: ExerciseMetadata;
+  'temp-basal': TempBasalMetadata;
+  condition: ConditionMetadata;
+  ketone: KetoneMetadata;
+  'lab-result': LabResultMetadata;
+}
+
 /**
  * Event types for physiological data logging
  */
-export type EventType = 'meal' | 'insulin' | 'bsl' | 'exercise';
+export type EventType = keyof EventMetadataMap;
 
 /**
  * Data source tracking - identifies how data was captured
  * Used by workstreams to track origin of events
  */
-export type MealDataSource = 'manual' | 'ai' | 'local-estimation';
+export type MealDataSource = 'manual' | 'ai' | 'local-estimation' | 'nightscout';
 export type BSLDataSource = 'manual' | 'cgm-image' | 'csv-import' | 'api';
+export type InsulinDataSource = 'manual' | 'nightscout';
+export type KetoneDataSource = 'manual' | 'meter';
 
 /**
  * Correction record for iterative learning
@@ -26,6 +46,11 @@ export interface CorrectionRecord {
  */
 export type InsulinType = 'bolus' | 'basal';
 
+/**
+ * Insulin products with their own activity curves
+ */
+export type InsulinProductId = 'fiasp' | 'humalog' | 'lyumjev' | 'glargine' | 'degludec' | 'nph';
+
 /**
  * BSL unit of measurement
  */
@@ -53,7 +78,13 @@ export type ExerciseCategory =
 /**
  * Data source for exercise events
  */
-export type ExerciseDataSource = 'manual' | 'apple-health' | 'google-fit' | 'garmin' | 'fitbit';
+export type ExerciseDataSource =
+  | 'manual'
+  | 'apple-health'
+  | 'google-fit'
+  | 'garmin'
+  | 'fitbit'
+  | 'nightscout';
 
 /**
  * Alcohol drink categories
@@ -85,9 +116,15 @@ export interface MealMetadata extends Partial<MacroData> {
   source?: MealDataSource;
   confidence?: number; // 0-1, estimation confidence
   corrections?: CorrectionRecord[]; // user correction history
+  tags?: string[]; // e.g. HYPO_TREATMENT_TAG
   [key: string]: unknown;
 }
 
+/**
+ * Tag for carbs eaten to treat a low rather than as a meal
+ */
+export const HYPO_TREATMENT_TAG = 'hypo-treatment';
+
 /**
  * Individual food item within a meal
  */
@@ -98,11 +135,31 @@ export interface MealItem {
   macros?: Partial<MacroData>;
 }
 
+/**
+ * How a bolus is delivered
+ * - normal: all at once
+ * - extended: evenly over a duration (square wave)
+ * - dual-wave: part at once, the rest evenly over a duration
+ */
+export type BolusDeliveryType = 'normal' | 'extended' | 'dual-wave';
+
+/**
+ * Delivery profile of a bolus, starting at the event timestamp
+ */
+export interface BolusDelivery {
+  type: BolusDeliveryType;
+  durationMinutes?: number; // extended and dual-wave: time the extended part is delivered over
+  immediatePercent?: number; // dual-wave: share delivered at once (0-100)
+}
+
 /**
  * Metadata specific to insulin events
  */
 export interface InsulinMetadata {
   type: InsulinType;
+  product?: InsulinProductId; // Absent on legacy events - falls back to type kinetics
+  source?: InsulinDataSource;
+  delivery?: BolusDelivery; // Absent = normal bolus
   [key: string]: unknown;
 }
 
@@ -115,6 +172,10 @@ export interface BSLMetadata {
   source?: BSLDataSource;
   device?: string; // e.g., "Freestyle Libre 3", "Dexcom G7"
   isFingerPrick?: boolean; // true = higher accuracy than CGM
+  // Rate of change at this reading, from the CGM or calculated from earlier readings
+  trend?: CGMTrendDirection;
+  trendRate?: number; // mmol/L per minute
+  trendSource?: 'device' | 'calculated';
   [key: string]: unknown;
 }
 
@@ -137,10 +198,113 @@ export interface ExerciseMetadata {
   [key: string]: unknown;
 }
 
+/**
+ * Pump temp basal mode
+ * - percent: event value is a percentage of the scheduled rate (e.g. 150)
+ * - absolute: event value is a rate in units per hour
+ * - suspend: delivery stopped, event value is 0
+ */
+export type TempBasalMode = 'percent' | 'absolute' | 'suspend';
+
+/**
+ * Metadata specific to temp basal events
+ * Runs from the event timestamp for `durationMinutes`, or until the next
+ * temp basal event starts (a new temp basal replaces the running one).
+ */
+export interface TempBasalMetadata {
+  mode: TempBasalMode;
+  durationMinutes: number;
+  source?: InsulinDataSource;
+  [key: string]: unknown;
+}
+
+/**
+ * Conditions that change how much insulin is needed
+ */
+export type ConditionType = 'sick-day' | 'menstrual-cycle';
+
+/**
+ * Menstrual cycle phase
+ */
+export type CyclePhase = 'menstrual' | 'follicular' | 'ovulatory' | 'luteal';
+
+/**
+ * Key for a condition's insulin need multiplier: sick days, or a cycle phase
+ */
+export type SensitivityConditionKey = 'sick-day' | CyclePhase;
+
+/**
+ * Metadata specific to condition events
+ * Runs from the event timestamp for `durationHours` (the event value). A
+ * cycle phase also ends when a later phase is logged.
+ */
+export interface ConditionMetadata {
+  condition: ConditionType;
+  /** Cycle phase, for menstrual-cycle events */
+  phase?: CyclePhase;
+  durationHours: number;
+  /** Insulin need multiplier for this event only (1.2 = 20% more insulin) */
+  sensitivityMultiplier?: number;
+  notes?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Ketone sample: blood (beta-hydroxybutyrate meter) or urine (test strip)
+ */
+export type KetoneSampleType = 'blood' | 'urine';
+
+/**
+ * Blood ketone unit (most meters report mmol/L)
+ */
+export type KetoneUnit = 'mmol/L' | 'mg/dL';
+
+/**
+ * Urine ketone strip colour level
+ */
+export type UrineKetoneLevel = 'negative' | 'trace' | 'small' | 'moderate' | 'large';
+
+/**
+ * Metadata specific to ketone events
+ * Blood readings keep the unit they were logged in. Urine strips are logged
+ * by level, with the event value set to the level's approximate mmol/L.
+ */
+export interface KetoneMetadata {
+  sampleType: KetoneSampleType;
+  unit: KetoneUnit;
+  urineLevel?: UrineKetoneLevel;
+  source?: KetoneDataSource;
+  device?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Lab test recorded by a lab-result event
+ */
+export type LabTestType = 'hba1c';
+
+/**
+ * HbA1c unit: NGSP percent or IFCC mmol/mol
+ */
+export type HbA1cUnit = '%' | 'mmol/mol';
+
+/**
+ * Metadata specific to lab-result events
+ * The value keeps the unit the lab reported it in.
+ */
+export interface LabResultMetadata {
+  test: LabTestType;
+  unit: HbA1cUnit;
+  /** Lab or clinic that ran the test */
+  lab?: string;
+  notes?: string;
+  [key: string]: unknown;
+}
+
 /**
  * Union type for all possible metadata
  */
-export type EventMetadata = MealMetadata | InsulinMetadata | BSLMetadata | ExerciseMetadata;
+export type EventMetadata = EventMetadataMap[EventType];
 
 /**
  * Core event structure - all physiological data follows this pattern
@@ -153,7 +317,9 @@ export interface PhysiologicalEvent {
   metadata: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
-  synced?: boolean;
+  synced?: boolean; // false = local changes not yet pushed to the remote (e.g. Nightscout)
+  remoteId?: string; // ID of the matching remote record, e.g. Nightscout treatment _id
+  deletedAt?: Date; // Soft-deleted; purged on a later delete once the undo window has passed
 }
 
 /**
@@ -166,6 +332,42 @@ export type CreateEventInput = Omit<PhysiologicalEvent, 'id' | 'createdAt' | 'up
  */
 export type UpdateEventInput = Partial<Omit<PhysiologicalEvent, 'id' | 'createdAt'>>;
 
+/**
+ * Change notification emitted by EventService after a write
+ */
+export interface EventChange {
+  type: 'created' | 'updated' | 'deleted';
+  event: PhysiologicalEvent;
+}
+
+export type EventChangeListener = (change: EventChange) => void;
+
+/**
+ * Change recorded in an event's revision history
+ * - update: fields edited
+ * - delete: soft-deleted
+ * - undelete: delete undone within the undo window
+ * - restore: an earlier revision put back
+ */
+export type EventRevisionAction = 'update' | 'delete' | 'undelete' | 'restore';
+
+/**
+ * One entry in an event's audit trail, holding the event as it was before
+ * the change
+ */
+export interface EventRevision {
+  id: string;
+  eventId: string;
+  action: EventRevisionAction;
+  /** Event before the change, null when restoring an event that had been purged */
+  previous: PhysiologicalEvent | null;
+  /** Fields changed: 'value', 'timestamp', 'eventType' or 'metadata.<field>' */
+  changedFields: string[];
+  /** WebAuthn credential ID of the signed-in user, null without a session */
+  changedBy: string | null;
+  changedAt: Date;
+}
+
 /**
  * Type guard to check if metadata is MealMetadata
  */
@@ -190,7 +392,11 @@ export function isInsulinMetadata(metadata: Record<string, unknown>): metadata i
  * Type guard to check if metadata is BSLMetadata
  */
 export function isBSLMetadata(metadata: Record<string, unknown>): metadata is BSLMetadata {
-  return 'unit' in metadata && (metadata.unit === 'mmol/L' || metadata.unit === 'mg/dL');
+  return (
+    'unit' in metadata &&
+    !('sampleType' in metadata) &&
+    (metadata.unit === 'mmol/L' || metadata.unit === 'mg/dL')
+  );
 }
 
 /**
@@ -206,3 +412,54 @@ export function isExerciseMetadata(
       metadata.intensity === 'high')
   );
 }
+
+/**
+ * Type guard to check if metadata is TempBasalMetadata
+ */
+export function isTempBasalMetadata(
+  metadata: Record<string, unknown>
+): metadata is TempBasalMetadata {
+  return (
+    'mode' in metadata &&
+    (metadata.mode === 'percent' || metadata.mode === 'absolute' || metadata.mode === 'suspend')
+  );
+}
+
+/**
+ * Type guard to check if metadata is ConditionMetadata
+ */
+export function isConditionMetadata(
+  metadata: Record<string, unknown>
+): metadata is ConditionMetadata {
+  return (
+    'condition' in metadata &&
+    (metadata.condition === 'sick-day' || metadata.condition === 'menstrual-cycle')
+  );
+}
+
+/**
+ * Type guard to check if metadata is KetoneMetadata
+ */
+export function isKetoneMetadata(metadata: Record<string, unknown>): metadata is KetoneMetadata {
+  return (
+    'sampleType' in metadata && (metadata.sampleType === 'blood' || metadata.sampleType === 'urine')
+  );
+}
+
+/**
+ * Type guard to check if metadata is LabResultMetadata
+ */
+export function isLabResultMetadata(
+  metadata: Record<string, unknown>
+): metadata is LabResultMetadata {
+  return 'test' in metadata && metadata.test === 'hba1c';
+}
+
+/**
+ * Check if an event is a meal logged as hypo treatment
+ * These need no bolus and are left out of meal patterns.
+ */
+export function isHypoTreatment(event: PhysiologicalEvent): boolean {
+  const tags = (event.metadata as Partial<MealMetadata>).tags;
+  return event.eventType === 'meal' && Array.isArray(tags) && tags.includes(HYPO_TREATMENT_TAG);
+}
@@ -8,6 +8,7 @@
  */
 
 import type { BSLUnit, PhysiologicalEvent } from './events';
+import type { TherapyProfile } from './settings';
 
 /**
  * Supported CSV format types
@@ -108,12 +109,27 @@ export interface IImportService {
   commitImport(preview: ImportPreview, duplicateStrategy: DuplicateStrategy): Promise<ImportResult>;
 }
 
+/**
+ * Options for the printable clinic report
+ */
+export interface ClinicReportOptions {
+  /** Start of the reporting period */
+  startTime: Date;
+  /** End of the reporting period */
+  endTime: Date;
+  /** Unit to show BSL values in */
+  unit: BSLUnit;
+  /** Therapy profile versions, to list the settings used during the period */
+  therapyProfiles?: TherapyProfile[];
+}
+
 /**
  * Interface for export service
  */
 export interface IExportService {
   exportToJSON(events: PhysiologicalEvent[]): Blob;
   exportToCSV(events: PhysiologicalEvent[]): Blob;
+  exportClinicReport(events: PhysiologicalEvent[], options: ClinicReportOptions): Blob;
   generateBackup(): Promise<Blob>;
   restoreBackup(backup: Blob): Promise<ImportResult>;
 }
@@ -2,6 +2,7 @@
 export type {
   EventType,
   InsulinType,
+  InsulinProductId,
   BSLUnit,
   ExerciseIntensity,
   ExerciseCategory,
@@ -11,8 +12,24 @@ export type {
   MealMetadata,
   MealItem,
   InsulinMetadata,
+  BolusDeliveryType,
+  BolusDelivery,
   BSLMetadata,
   ExerciseMetadata,
+  TempBasalMode,
+  TempBasalMetadata,
+  ConditionType,
+  CyclePhase,
+  SensitivityConditionKey,
+  ConditionMetadata,
+  KetoneSampleType,
+  KetoneUnit,
+  UrineKetoneLevel,
+  KetoneMetadata,
+  LabTestType,
+  HbA1cUnit,
+  LabResultMetadata,
+  EventMetadataMap,
   EventMetadata,
   PhysiologicalEvent,
   CreateEventInput,
@@ -20,10 +37,37 @@ export type {
   // Source tracking types (for workstreams)
   MealDataSource,
   BSLDataSource,
-  CorrectionRecord
+  InsulinDataSource,
+  KetoneDataSource,
+  CorrectionRecord,
+  EventChange,
+  EventChangeListener,
+  EventRevisionAction,
+  EventRevision
 } from './events';
 
-export { isMealMetadata, isInsulinMetadata, isBSLMetadata, isExerciseMetadata } from './events';
+export {
+  isMealMetadata,
+  isInsulinMetadata,
+  isBSLMetadata,
+  isExerciseMetadata,
+  isTempBasalMetadata,
+  isConditionMetadata,
+  isKetoneMetadata,
+  isLabResultMetadata,
+  isHypoTreatment,
+  HYPO_TREATMENT_TAG
+} from './events';
+
+// Event type registry
+export type {
+  MetadataFieldKind,
+  MetadataFieldSchema,
+  EventMetadataSchema,
+  EventTypeIcon,
+  EventExportColumn,
+  EventTypeDefinition
+} from './eventRegistry';
 
 // Vision
 export type {
@@ -43,7 +87,11 @@ export type {
   FoundryConfig,
   AzureConfig,
   BedrockConfig,
-  LocalModelConfig
+  LocalModelConfig,
+  TherapySegment,
+  BasalScheduleBlock,
+  SensitivityMultipliers,
+  TherapyProfile
 } from './settings';
 export { DEFAULT_SETTINGS, ENV_VAR_NAMES } from './settings';
 
@@ -81,9 +129,21 @@ export type {
   CGMFetchResult,
   CGMConnectionStatus,
   CGMFetchOptions,
-  ICGMApiService
+  ICGMApiService,
+  NightscoutTreatment,
+  NightscoutTreatmentType,
+  TreatmentSyncResult,
+  CGMSyncStatus,
+  CGMSyncErrorType,
+  CGMSyncState,
+  CGMSyncResult
+} from './cgm-api';
+export {
+  TREND_ARROWS,
+  dexcomTrendToDirection,
+  libreTrendToDirection,
+  nightscoutDirectionToTrend
 } from './cgm-api';
-export { TREND_ARROWS, dexcomTrendToDirection, libreTrendToDirection } from './cgm-api';
 
 // Workstream C: Local Food Estimation
 export type {
@@ -110,7 +170,8 @@ export type {
   ImportResult,
   CSVImportOptions,
   IImportService,
-  IExportService
+  IExportService,
+  ClinicReportOptions
 } from './import';
 
 // AI Model Validation
@@ -157,6 +218,9 @@ export {
 // Regression & Modeling
 export type {
   InsulinKinetics,
+  InsulinCurveModel,
+  InsulinProduct,
+  InsulinActivityOptions,
   InsulinActivityPoint,
   ActiveInsulinResult,
   DoseContribution,
@@ -164,17 +228,83 @@ export type {
   CarbAbsorptionPoint,
   ActiveCarbsResult,
   MealContribution,
+  FatProteinAbsorption,
   AlcoholMetabolismParams,
   BloodAlcoholResult,
   DrinkContribution,
+  ExerciseEffectParams,
+  ExerciseEffectResult,
+  ExerciseContribution,
   CircadianFactors,
   UserModelParameters,
   BSLPrediction,
+  PredictionPercentiles,
+  PredictionEnsembleOptions,
   BSLPredictionFactors,
   InsulinRecommendation,
+  BolusSplitSuggestion,
   DoseBreakdown,
+  RescueCarbOptions,
+  RescueCarbBreakdown,
+  RescueCarbRecommendation,
+  ConditionContribution,
+  ConditionState,
+  KetoneLevel,
+  DKARiskLevel,
+  DKARiskFactorType,
+  DKARiskFactor,
+  DKARiskOptions,
+  DKARiskAssessment,
   MetabolicState,
   BSLTimeSeries,
   BSLTimeSeriesPoint,
-  EventWindow
+  PredictedAlert,
+  EventWindow,
+  ParameterFitOptions,
+  ParameterEstimate,
+  PredictionAccuracy,
+  ParameterFitResult,
+  SensitivityMultiplierFitResult,
+  ErrorGridZone,
+  TimeOfDayPeriod,
+  BacktestOptions,
+  BacktestSample,
+  BacktestMetrics,
+  BacktestHorizonResult,
+  BacktestReport,
+  TimeInRanges,
+  GlucoseEpisode,
+  AGPPoint,
+  GlycaemicMetricsOptions,
+  GlycaemicMetrics,
+  A1cComparisonOptions,
+  A1cComparison,
+  GlycationGapCalibration,
+  GlycationGapReport,
+  BSLTrendOptions,
+  BSLTrend,
+  MealSuggestionType,
+  MealDetectionOptions,
+  MealSuggestion,
+  PatternInsightType,
+  PatternInsightOptions,
+  PatternInsight,
+  WhatIfEvent,
+  WhatIfScenario,
+  WhatIfOptions,
+  WhatIfSummary,
+  WhatIfScenarioResult,
+  WhatIfSimulation
 } from './modeling';
+
+// Predictive alerts
+export type {
+  AlertType,
+  AlertSeverity,
+  QuietHours,
+  AlertSettings,
+  AlertSuppressionReason,
+  AlertRecord,
+  AlertEngineState
+} from './alerts';
+export { DEFAULT_ALERT_SETTINGS } from './alerts';
@@ -2,7 +2,21 @@
  * Types for regression and modeling (BSL prediction, insulin decay, etc.)
  */
 
-import type { InsulinType, AlcoholType, PhysiologicalEvent } from './events';
+import type {
+  InsulinType,
+  InsulinProductId,
+  AlcoholType,
+  ExerciseCategory,
+  ExerciseIntensity,
+  PhysiologicalEvent,
+  ConditionType,
+  CyclePhase,
+  SensitivityConditionKey,
+  KetoneSampleType,
+  UrineKetoneLevel
+} from './events';
+import type { CGMTrendDirection } from './cgm-api';
+import type { BasalScheduleBlock, SensitivityMultipliers } from './settings';
 
 /**
  * Insulin pharmacokinetic parameters by type
@@ -18,6 +32,43 @@ export interface InsulinKinetics {
   halfLifeMinutes: number;
 }
 
+/**
+ * Shape of an insulin activity curve
+ * - exponential: Loop/OpenAPS model, defined by peak and duration
+ * - biexponential: difference of two exponentials, defined by onset and half-life
+ */
+export type InsulinCurveModel = 'exponential' | 'biexponential';
+
+/**
+ * Insulin product with its activity curve
+ */
+export interface InsulinProduct {
+  /** Product identifier */
+  id: InsulinProductId;
+  /** Display name */
+  name: string;
+  /** Generic (active ingredient) name */
+  genericName: string;
+  /** Whether the product is used for bolus or basal doses */
+  insulinType: InsulinType;
+  /** Activity curve model */
+  curve: InsulinCurveModel;
+  /** Curve parameters */
+  kinetics: InsulinKinetics;
+}
+
+/**
+ * Options for insulin activity calculations
+ */
+export interface InsulinActivityOptions {
+  /** User's duration of bolus insulin action in minutes (stretches bolus curves) */
+  bolusDurationMinutes?: number;
+  /** Product assumed for bolus events logged without one */
+  defaultBolusProduct?: InsulinProductId;
+  /** Pump basal schedule; temp basals are modelled as deviations from it */
+  basalSchedule?: BasalScheduleBlock[];
+}
+
 /**
  * Insulin activity curve point
  */
@@ -42,6 +93,8 @@ export interface ActiveInsulinResult {
   doseContributions: DoseContribution[];
   /** Time when IOB will be negligible (<0.1 units) */
   estimatedClearTime: Date;
+  /** IOB from temp basals and suspends relative to the basal schedule (included in totalIOB, may be negative) */
+  netBasalIOB: number;
 }
 
 /**
@@ -56,12 +109,16 @@ export interface DoseContribution {
   originalUnits: number;
   /** Insulin type */
   insulinType: InsulinType;
+  /** Insulin product, if known */
+  product?: InsulinProductId;
   /** Remaining IOB from this dose */
   remainingIOB: number;
   /** Current activity level (0-1) */
   activityLevel: number;
   /** Minutes since dose */
   minutesSinceDose: number;
+  /** Units delivered so far, for extended and dual-wave doses */
+  deliveredUnits?: number;
 }
 
 /**
@@ -102,6 +159,8 @@ export interface ActiveCarbsResult {
   absorptionRate: number;
   /** Breakdown by meal */
   mealContributions: MealContribution[];
+  /** Carbs on board from fat and protein, in grams (included in totalCOB) */
+  fatProteinCOB: number;
   /** Estimated time when all carbs absorbed */
   estimatedAbsorptionComplete: Date;
 }
@@ -124,6 +183,24 @@ export interface MealContribution {
   minutesSinceMeal: number;
   /** Glycemic index used */
   glycemicIndex: number;
+  /** Fat-protein units in the meal, if it has at least one */
+  fatProteinUnits?: number;
+  /** Remaining COB from the meal's fat and protein (included in remainingCOB) */
+  remainingFatProteinCOB?: number;
+}
+
+/**
+ * Delayed carb equivalents from a meal's fat and protein (Warsaw method)
+ */
+export interface FatProteinAbsorption {
+  /** Fat-protein units (1 FPU = 100 kcal from fat and protein) */
+  fatProteinUnits: number;
+  /** Carb equivalents in grams */
+  carbEquivalents: number;
+  /** Minutes after the meal before absorption starts */
+  delayMinutes: number;
+  /** Absorption duration in minutes, after the delay */
+  durationMinutes: number;
 }
 
 /**
@@ -182,6 +259,62 @@ export interface DrinkContribution {
   minutesSinceDrink: number;
 }
 
+/**
+ * Exercise effect parameters by activity category
+ */
+export interface ExerciseEffectParams {
+  /** Activity category */
+  category: ExerciseCategory;
+  /** Acute BSL drop during moderate activity (mmol/L per hour, negative = rise) */
+  glucoseUptakePerHour: number;
+  /** Insulin sensitivity modifier after 45 min at moderate intensity (<1.0 = increased sensitivity) */
+  insulinSensitivityModifier: number;
+  /** Hours after the session ends when increased sensitivity peaks */
+  sensitivityPeakHours: number;
+  /** Duration of insulin sensitivity effect in hours (from session start) */
+  sensitivityEffectDurationHours: number;
+}
+
+/**
+ * Exercise effect calculation result
+ */
+export interface ExerciseEffectResult {
+  /** Whether a session is in progress */
+  isExercising: boolean;
+  /** Current acute BSL drop rate (mmol/L per hour) */
+  glucoseUptakeRate: number;
+  /** Current insulin sensitivity modifier (1.0 = normal, <1.0 = increased sensitivity) */
+  insulinSensitivityModifier: number;
+  /** Time when all exercise effects end */
+  estimatedEffectEndTime: Date | null;
+  /** Breakdown by session */
+  sessionContributions: ExerciseContribution[];
+}
+
+/**
+ * Contribution from a single exercise session
+ */
+export interface ExerciseContribution {
+  /** Original exercise event ID */
+  eventId: string;
+  /** Session start */
+  timestamp: Date;
+  /** Session duration in minutes */
+  durationMinutes: number;
+  /** Logged intensity */
+  intensity: ExerciseIntensity;
+  /** Activity category */
+  category: ExerciseCategory;
+  /** Intensity scaling applied (1.0 = moderate) */
+  intensityFactor: number;
+  /** Acute BSL drop rate during the session (mmol/L per hour) */
+  glucoseUptakePerHour: number;
+  /** Current insulin sensitivity modifier from this session */
+  sensitivityModifier: number;
+  /** Minutes since session start */
+  minutesSinceStart: number;
+}
+
 /**
  * Time-of-day sensitivity factors
  */
@@ -210,6 +343,14 @@ export interface UserModelParameters {
   bodyWeightKg: number;
   /** Custom time-of-day adjustments */
   circadianAdjustments?: Partial<Record<number, number>>;
+  /** Duration of bolus insulin action in minutes (defaults to the insulin type's kinetics) */
+  insulinDurationMinutes?: number;
+  /** Rapid-acting product assumed for bolus events logged without one */
+  insulinProduct?: InsulinProductId;
+  /** Pump basal schedule, for net basal IOB from temp basals and suspends */
+  basalSchedule?: BasalScheduleBlock[];
+  /** Insulin need multipliers for sick days and cycle phases (defaults when absent) */
+  sensitivityMultipliers?: SensitivityMultipliers;
 }
 
 /**
@@ -220,10 +361,15 @@ export interface BSLPrediction {
   predictedBSL: number;
   /** Current BSL used as baseline */
   currentBSL: number;
-  /** Confidence interval (low, high) */
+  /**
+   * Confidence interval (low, high): the 10th-90th percentile of the ensemble,
+   * or a fixed-width interval when run without one
+   */
   confidenceInterval: [number, number];
   /** Confidence level (0-1) */
   confidence: number;
+  /** Ensemble percentiles (absent when run without an ensemble) */
+  percentiles?: PredictionPercentiles;
   /** Factors contributing to prediction */
   factors: BSLPredictionFactors;
   /** Prediction timestamp */
@@ -232,20 +378,45 @@ export interface BSLPrediction {
   targetTime: Date;
 }
 
+/**
+ * 10th, 50th and 90th percentiles of an ensemble forecast (mmol/L)
+ */
+export interface PredictionPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * Options for the prediction ensemble
+ */
+export interface PredictionEnsembleOptions {
+  /** Ensemble members (default 100; 0 skips the ensemble for a fixed-width interval) */
+  memberCount?: number;
+  /** Random seed, so the same inputs give the same bands (default 1) */
+  seed?: number;
+}
+
 /**
  * Factors contributing to BSL prediction
  */
 export interface BSLPredictionFactors {
-  /** Expected BSL change from active insulin */
+  /** Expected BSL change from active insulin (boluses and injected basal) */
   insulinEffect: number;
+  /** Expected BSL change from temp basals and suspends relative to the basal schedule */
+  basalEffect: number;
   /** Expected BSL change from active carbs */
   carbEffect: number;
   /** Expected BSL change from alcohol effects */
   alcoholEffect: number;
+  /** Expected BSL change from exercise (acute uptake plus increased insulin sensitivity) */
+  exerciseEffect: number;
   /** Time-of-day adjustment */
   circadianAdjustment: number;
   /** Baseline drift (without any inputs) */
   baselineDrift: number;
+  /** Short-horizon blend towards the current trend (0 beyond 30 minutes or without a trend) */
+  momentumEffect: number;
 }
 
 /**
@@ -262,10 +433,31 @@ export interface InsulinRecommendation {
   breakdown: DoseBreakdown;
   /** Warnings or alerts */
   warnings: string[];
+  /** How to deliver the dose when part of it covers fat and protein */
+  bolusSplit?: BolusSplitSuggestion;
   /** Recommendation timestamp */
   timestamp: Date;
 }
 
+/**
+ * Split of a meal dose into a part taken now and a part delivered later
+ * A pump can extend the later part; with pens it is a second injection.
+ */
+export interface BolusSplitSuggestion {
+  /** Units to take now (carbs and correction) */
+  immediateUnits: number;
+  /** Units covering fat and protein */
+  extendedUnits: number;
+  /** Share of the dose taken now (0-100) */
+  immediatePercent: number;
+  /** Time to extend the later part over on a pump */
+  extendedDurationMinutes: number;
+  /** When to inject the later part with pens, in minutes after eating */
+  splitDelayMinutes: number;
+  /** Fat-protein units being covered */
+  fatProteinUnits: number;
+}
+
 /**
  * Breakdown of insulin dose calculation
  */
@@ -280,8 +472,159 @@ export interface DoseBreakdown {
   cobAdjustment: number;
   /** Adjustment for alcohol effects */
   alcoholAdjustment: number;
+  /** Adjustment for recent exercise */
+  exerciseAdjustment: number;
+  /** Adjustment for sick days and cycle phases */
+  conditionAdjustment: number;
   /** Time-of-day adjustment */
   circadianAdjustment: number;
+  /** Dose for fat and protein carb equivalents */
+  fatProteinCoverage: number;
+}
+
+/**
+ * Options for a rescue carb recommendation
+ */
+export interface RescueCarbOptions {
+  /** Stay above this BSL in mmol/L (default 4.0) */
+  hypoThreshold?: number;
+  /** Minutes ahead searched for the lowest predicted BSL (default 180) */
+  horizonMinutes?: number;
+  /** Time of the recommendation (default now) */
+  atTime?: Date;
+}
+
+/**
+ * Breakdown of a rescue carb recommendation (grams)
+ */
+export interface RescueCarbBreakdown {
+  /** Carbs to lift the predicted nadir above the threshold (covers IOB and COB) */
+  nadirCarbs: number;
+  /** Carbs for the fall before fast carbs start to act */
+  trendCarbs: number;
+  /** Extra carbs while alcohol holds back the liver's glucose output */
+  alcoholCarbs: number;
+  /** Carbs added to reach the 15 g minimum treatment of a current low */
+  minimumTreatmentCarbs: number;
+}
+
+/**
+ * Fast carb recommendation when a hypo is predicted
+ */
+export interface RescueCarbRecommendation {
+  /** Fast-acting carbs to take now in grams (0 when none are needed) */
+  carbsGrams: number;
+  /** Latest BSL in mmol/L (null without a recent reading) */
+  currentBSL: number | null;
+  /** Lowest predicted BSL without treatment in mmol/L */
+  predictedNadir: number;
+  /** When the lowest BSL is predicted */
+  nadirTime: Date;
+  /** Insulin on board in units */
+  insulinOnBoard: number;
+  breakdown: RescueCarbBreakdown;
+  /** Minutes until BSL should be checked again */
+  recheckMinutes: number;
+  /** When BSL should be checked again */
+  recheckTime: Date;
+  /** 15/15 rule steps after taking the carbs */
+  followUp: string[];
+  /** Warnings (alcohol, insulin still active, severe lows) */
+  warnings: string[];
+  /** Recommendation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * A sick day or cycle phase in effect
+ */
+export interface ConditionContribution {
+  /** Original condition event ID */
+  eventId: string;
+  condition: ConditionType;
+  phase?: CyclePhase;
+  /** Key the multiplier was looked up by */
+  key: SensitivityConditionKey;
+  /** Insulin need multiplier applied (1.2 = 20% more insulin) */
+  multiplier: number;
+  /** Where the multiplier came from */
+  source: 'event' | 'user' | 'default';
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Combined effect of the conditions in effect at a time
+ */
+export interface ConditionState {
+  /** Product of the active multipliers (1.0 = no change) */
+  insulinNeedMultiplier: number;
+  /** Whether a sick day is in effect (ketone checks advised) */
+  isSickDay: boolean;
+  /** Active conditions, newest first */
+  activeConditions: ConditionContribution[];
+}
+
+/**
+ * Ketone level band (blood beta-hydroxybutyrate, or urine strip equivalent)
+ */
+export type KetoneLevel = 'normal' | 'elevated' | 'high' | 'very-high';
+
+/**
+ * Overall DKA risk from the ketone rule set
+ */
+export type DKARiskLevel = 'none' | 'low' | 'moderate' | 'high' | 'urgent';
+
+/**
+ * Rule that contributed to a DKA risk assessment
+ */
+export type DKARiskFactorType =
+  | 'elevated-ketones'
+  | 'high-bsl'
+  | 'pump-suspended'
+  | 'missed-basal'
+  | 'correction-not-working'
+  | 'sick-day';
+
+export interface DKARiskFactor {
+  type: DKARiskFactorType;
+  description: string;
+}
+
+/**
+ * Options for a DKA risk assessment
+ */
+export interface DKARiskOptions {
+  /** Time to assess at (default now) */
+  atTime?: Date;
+  /** Current BSL in mmol/L (default: latest reading in the window) */
+  currentBSL?: number | null;
+}
+
+/**
+ * DKA risk from recent ketones, BSL and insulin delivery
+ */
+export interface DKARiskAssessment {
+  risk: DKARiskLevel;
+  /** Latest ketone reading within the recent window */
+  latestKetone: {
+    eventId: string;
+    /** Blood mmol/L, or the urine level's approximate equivalent */
+    valueMmolL: number;
+    sampleType: KetoneSampleType;
+    urineLevel?: UrineKetoneLevel;
+    level: KetoneLevel;
+    timestamp: Date;
+  } | null;
+  /** BSL used for the assessment (mmol/L) */
+  currentBSL: number | null;
+  /** Total insulin on board (U) */
+  insulinOnBoard: number;
+  /** Rules that matched */
+  factors: DKARiskFactor[];
+  /** What to do, most urgent first */
+  warnings: string[];
+  timestamp: Date;
 }
 
 /**
@@ -296,13 +639,19 @@ export interface MetabolicState {
   carbs: ActiveCarbsResult;
   /** Alcohol state */
   alcohol: BloodAlcoholResult;
+  /** Exercise state */
+  exercise: ExerciseEffectResult;
   /** Circadian factors */
   circadian: CircadianFactors;
+  /** Sick day and cycle phase state */
+  conditions: ConditionState;
   /** Last known BSL */
   lastBSL?: {
     value: number;
     timestamp: Date;
     source: string;
+    /** Rate of change at the reading (mmol/L/min), if known */
+    trendRate?: number;
   };
 }
 
@@ -328,26 +677,604 @@ export interface BSLTimeSeriesPoint {
   timestamp: Date;
   /** Predicted BSL */
   predictedBSL: number;
-  /** Lower confidence bound */
+  /** Lower confidence bound (ensemble 10th percentile) */
   lowerBound: number;
-  /** Upper confidence bound */
+  /** Upper confidence bound (ensemble 90th percentile) */
   upperBound: number;
+  /** Ensemble median (the predicted BSL when run without an ensemble) */
+  median: number;
+  /** Ensemble member values in ascending order (absent without an ensemble) */
+  samples?: number[];
   /** Metabolic state at this point */
   state: MetabolicState;
 }
 
+/**
+ * Predicted excursion outside the alert thresholds
+ */
+export interface PredictedAlert {
+  /** Below the hypo threshold or above the hyper threshold */
+  type: 'hypo' | 'hyper';
+  /** When the excursion is predicted */
+  predictedTime: Date;
+  /** Predicted BSL at that time (mmol/L) */
+  predictedBSL: number;
+  /** Probability of being beyond the threshold at that time, from the ensemble (0-1) */
+  probability: number;
+  /** 'warning' when only the interval crosses, 'alert' when the prediction does, 'urgent' below 3.5 or above 15 */
+  severity: 'warning' | 'alert' | 'urgent';
+}
+
 /**
  * Event window for model calculations
  */
 export interface EventWindow {
-  /** Insulin events in window */
+  /** Insulin and temp basal events in window */
   insulinEvents: PhysiologicalEvent[];
   /** Meal events in window */
   mealEvents: PhysiologicalEvent[];
   /** BSL events in window */
   bslEvents: PhysiologicalEvent[];
+  /** Exercise events in window */
+  exerciseEvents: PhysiologicalEvent[];
+  /** Sick day and cycle phase events overlapping the window */
+  conditionEvents: PhysiologicalEvent[];
+  /** Blood and urine ketone readings in window */
+  ketoneEvents: PhysiologicalEvent[];
   /** Window start time */
   startTime: Date;
   /** Window end time */
   endTime: Date;
 }
+
+/**
+ * Options for fitting user parameters to history
+ */
+export interface ParameterFitOptions {
+  /** Shortest gap between baseline and observed BSL in minutes (default 30) */
+  minHorizonMinutes?: number;
+  /** Longest gap between baseline and observed BSL in minutes (default 180) */
+  maxHorizonMinutes?: number;
+  /** Most recent observations to use (default 500) */
+  maxObservations?: number;
+  /** Readings with carbs on board needed before an hour gets its own circadian adjustment (default 8) */
+  minObservationsPerHour?: number;
+  /** Whether to fit per-hour circadian adjustments (default true) */
+  fitCircadian?: boolean;
+}
+
+/**
+ * A single fitted parameter value
+ */
+export interface ParameterEstimate {
+  /** Fitted value */
+  value: number;
+  /** Value before fitting */
+  previousValue: number;
+  /** Approximate 95% confidence interval (low, high) */
+  confidenceInterval: [number, number];
+  /** Number of observations that informed this estimate */
+  dataPoints: number;
+}
+
+/**
+ * Prediction accuracy against observed BSL readings
+ */
+export interface PredictionAccuracy {
+  /** Mean absolute error in mmol/L */
+  mae: number;
+  /** Root mean squared error in mmol/L */
+  rmse: number;
+  /** Mean signed error (predicted - observed) in mmol/L */
+  bias: number;
+  /** Number of predictions compared */
+  count: number;
+}
+
+/**
+ * Result of fitting user parameters to history
+ */
+export interface ParameterFitResult {
+  /** Fitted insulin-to-carb ratio */
+  insulinToCarbRatio: ParameterEstimate;
+  /** Fitted correction factor */
+  correctionFactor: ParameterEstimate;
+  /** Fitted circadian adjustments by hour (only hours with enough data) */
+  circadianAdjustments: Partial<Record<number, ParameterEstimate>>;
+  /** Full parameter set with fitted values applied */
+  parameters: UserModelParameters;
+  /** Accuracy with the starting parameters */
+  before: PredictionAccuracy;
+  /** Accuracy with the fitted parameters */
+  after: PredictionAccuracy;
+  /** Total observations used */
+  observationCount: number;
+  /** Reasons the fit may be unreliable */
+  warnings: string[];
+  /** When the fit was run */
+  fittedAt: Date;
+}
+
+/**
+ * Result of fitting sick day and cycle phase multipliers to history
+ */
+export interface SensitivityMultiplierFitResult {
+  /** Fitted insulin need multipliers (only conditions with enough data) */
+  multipliers: Partial<Record<SensitivityConditionKey, ParameterEstimate>>;
+  /** Accuracy during condition periods with the starting multipliers */
+  before: PredictionAccuracy;
+  /** Accuracy during condition periods with the fitted multipliers */
+  after: PredictionAccuracy;
+  /** Observations inside condition periods */
+  observationCount: number;
+  /** Reasons the fit may be unreliable */
+  warnings: string[];
+  /** When the fit was run */
+  fittedAt: Date;
+}
+
+/**
+ * Error grid zone (A = clinically accurate ... E = erroneous treatment)
+ */
+export type ErrorGridZone = 'A' | 'B' | 'C' | 'D' | 'E';
+
+/**
+ * Time-of-day period used to break down analysis results
+ */
+export type TimeOfDayPeriod = 'overnight' | 'morning' | 'afternoon' | 'evening';
+
+/**
+ * Options for backtesting predictions against stored history
+ */
+export interface BacktestOptions {
+  /** Prediction horizons in minutes (default 30, 60, 120) */
+  horizonsMinutes?: number[];
+  /** Maximum gap between the horizon and the actual reading in minutes (default 10) */
+  toleranceMinutes?: number;
+  /** Minimum spacing between prediction origins in minutes (default 15) */
+  originIntervalMinutes?: number;
+  /** Most recent prediction origins to replay (default 2000) */
+  maxOrigins?: number;
+  /** Only replay origins from this time */
+  startTime?: Date;
+  /** Only replay origins up to this time */
+  endTime?: Date;
+  /** Model parameters in effect at a point in time (default DEFAULT_USER_PARAMETERS) */
+  parametersAt?: (atTime: Date) => UserModelParameters;
+}
+
+/**
+ * A single replayed prediction compared with the actual reading
+ */
+export interface BacktestSample {
+  /** Time of the BSL reading the prediction was made from */
+  originTime: Date;
+  /** Time of the actual reading compared against */
+  targetTime: Date;
+  /** Prediction horizon in minutes */
+  horizonMinutes: number;
+  /** Predicted BSL in mmol/L */
+  predicted: number;
+  /** Actual BSL in mmol/L */
+  actual: number;
+  /** Prediction confidence interval (low, high) in mmol/L */
+  confidenceInterval: [number, number];
+  /** Whether the actual reading fell inside the confidence interval */
+  withinInterval: boolean;
+  /** Clarke error grid zone */
+  clarkeZone: ErrorGridZone;
+  /** Parkes (consensus) error grid zone, type 1 diabetes */
+  parkesZone: ErrorGridZone;
+  /** Time of day of the target reading */
+  timeOfDay: TimeOfDayPeriod;
+  /** Whether alcohol affected the prediction */
+  hasAlcohol: boolean;
+  /** Whether exercise affected the prediction */
+  hasExercise: boolean;
+}
+
+/**
+ * Accuracy metrics for a set of backtest samples
+ */
+export interface BacktestMetrics extends PredictionAccuracy {
+  /** Fraction of actual readings inside the confidence interval (0-1) */
+  intervalCoverage: number;
+  /** Sample counts by Clarke error grid zone */
+  clarkeZones: Record<ErrorGridZone, number>;
+  /** Sample counts by Parkes error grid zone */
+  parkesZones: Record<ErrorGridZone, number>;
+}
+
+/**
+ * Backtest results for one prediction horizon
+ */
+export interface BacktestHorizonResult {
+  /** Prediction horizon in minutes */
+  horizonMinutes: number;
+  /** Metrics over all samples */
+  overall: BacktestMetrics;
+  /** Metrics by time of day */
+  byTimeOfDay: Record<TimeOfDayPeriod, BacktestMetrics>;
+  /** Metrics by whether alcohol or exercise affected the prediction */
+  byContext: {
+    alcohol: BacktestMetrics;
+    exercise: BacktestMetrics;
+    neither: BacktestMetrics;
+  };
+}
+
+/**
+ * Result of backtesting predictions against stored history
+ */
+export interface BacktestReport {
+  /** Results by prediction horizon */
+  horizons: BacktestHorizonResult[];
+  /** All compared predictions */
+  samples: BacktestSample[];
+  /** Number of BSL readings predictions were made from */
+  originCount: number;
+  /** Earliest prediction origin */
+  startTime?: Date;
+  /** Latest prediction origin */
+  endTime?: Date;
+  /** Reasons the results may be unreliable */
+  warnings: string[];
+  /** When the backtest was run */
+  generatedAt: Date;
+}
+
+/**
+ * Percentage of readings in each consensus glucose range (0-100)
+ */
+export interface TimeInRanges {
+  /** Below 3.0 mmol/L (54 mg/dL), level 2 hypoglycaemia */
+  veryLow: number;
+  /** 3.0-3.8 mmol/L (54-69 mg/dL), level 1 hypoglycaemia */
+  low: number;
+  /** 3.9-10.0 mmol/L (70-180 mg/dL), target range */
+  inRange: number;
+  /** 10.1-13.9 mmol/L (181-250 mg/dL), level 1 hyperglycaemia */
+  high: number;
+  /** Above 13.9 mmol/L (250 mg/dL), level 2 hyperglycaemia */
+  veryHigh: number;
+}
+
+/**
+ * A continuous period below or above range
+ */
+export interface GlucoseEpisode {
+  /** Below range (hypo) or above range (hyper) */
+  type: 'hypo' | 'hyper';
+  /** 1 = outside target range, 2 = very low or very high */
+  level: 1 | 2;
+  /** First reading out of range */
+  startTime: Date;
+  /** First reading back in range (or the last reading, if data stops) */
+  endTime: Date;
+  /** Duration in minutes */
+  durationMinutes: number;
+  /** Lowest (hypo) or highest (hyper) reading in mmol/L */
+  extremeBSL: number;
+}
+
+/**
+ * Ambulatory Glucose Profile percentiles for one time-of-day bin (mmol/L)
+ */
+export interface AGPPoint {
+  /** Start of the bin in minutes since midnight */
+  minuteOfDay: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  /** Readings in the bin */
+  count: number;
+}
+
+/**
+ * Options for calculating glycaemic metrics
+ */
+export interface GlycaemicMetricsOptions {
+  /** Start of the reporting period */
+  startTime: Date;
+  /** End of the reporting period */
+  endTime: Date;
+  /** AGP time-of-day bin width in minutes (default 30) */
+  agpBinMinutes?: number;
+  /** Shortest time out of range that counts as an episode in minutes (default 15) */
+  minEpisodeMinutes?: number;
+  /** Current time, for a period still in progress; coverage counts up to it (default endTime) */
+  atTime?: Date;
+}
+
+/**
+ * Glycaemic metrics for a reporting period (values in mmol/L)
+ */
+export interface GlycaemicMetrics {
+  /** Start of the reporting period */
+  startTime: Date;
+  /** End of the reporting period */
+  endTime: Date;
+  /** BSL readings in the period */
+  readingCount: number;
+  /** Percentage of the period covered by readings, assuming 5-minute CGM data */
+  coveragePercent: number;
+  /** Time in, below and above range */
+  timeInRanges: TimeInRanges;
+  /** Mean BSL */
+  meanBSL: number;
+  /** Standard deviation of BSL */
+  standardDeviation: number;
+  /** Coefficient of variation in percent (target 36% or less) */
+  coefficientOfVariation: number;
+  /** Glucose Management Indicator, estimated HbA1c in percent */
+  gmi: number;
+  /** Periods below range */
+  hypoEpisodes: GlucoseEpisode[];
+  /** Periods above range */
+  hyperEpisodes: GlucoseEpisode[];
+  /** Ambulatory Glucose Profile by time of day (bins without readings are omitted) */
+  agp: AGPPoint[];
+  /** Reasons the metrics may be unreliable */
+  warnings: string[];
+}
+
+/**
+ * Options for comparing lab HbA1c results with GMI
+ */
+export interface A1cComparisonOptions {
+  /** Days of BSL readings before each lab result used for GMI (default 90) */
+  windowDays?: number;
+  /** Lowest reading coverage in percent for a comparison to calibrate from (default 70) */
+  minCoveragePercent?: number;
+  /** Most recent calibrating comparisons averaged into the offset (default 3) */
+  calibrationCount?: number;
+}
+
+/**
+ * A lab HbA1c compared with GMI from the readings before it (percent)
+ */
+export interface A1cComparison {
+  /** ID of the lab result event */
+  eventId: string;
+  /** Time the sample was taken */
+  timestamp: Date;
+  /** Lab HbA1c in percent */
+  labA1c: number;
+  /** GMI from the preceding window, null without readings */
+  gmi: number | null;
+  /** Lab HbA1c minus GMI in percentage points, null without readings */
+  glycationGap: number | null;
+  /** Mean BSL over the window in mmol/L, null without readings */
+  meanBSL: number | null;
+  /** BSL readings in the window */
+  readingCount: number;
+  /** Percentage of the window covered by readings, assuming 5-minute CGM data */
+  coveragePercent: number;
+  /** Whether the window has enough readings to calibrate from */
+  reliable: boolean;
+}
+
+/**
+ * Personal offset between lab HbA1c and GMI
+ */
+export interface GlycationGapCalibration {
+  /** Added to GMI to estimate lab HbA1c, in percentage points */
+  offset: number;
+  /** Comparisons averaged into the offset */
+  comparisonCount: number;
+  /** Standard deviation of those gaps, null for a single comparison */
+  spread: number | null;
+  /** Most recent lab result used */
+  latestLabTime: Date;
+}
+
+/**
+ * Lab HbA1c results compared with GMI over time
+ */
+export interface GlycationGapReport {
+  /** One per lab result, oldest first */
+  comparisons: A1cComparison[];
+  /** Null until a lab result has enough readings before it */
+  calibration: GlycationGapCalibration | null;
+  /** Reasons the comparison may be unreliable */
+  warnings: string[];
+}
+
+/**
+ * Options for calculating BSL rate of change
+ */
+export interface BSLTrendOptions {
+  /** Readings up to this long before the reading are used (default 15) */
+  windowMinutes?: number;
+  /** A longer gap between consecutive readings ends the window (default 20) */
+  maxGapMinutes?: number;
+  /** Shortest span of readings that gives a trend (default 4) */
+  minSpanMinutes?: number;
+}
+
+/**
+ * Rate of change at a BSL reading
+ */
+export interface BSLTrend {
+  /** Trend arrow */
+  trend: CGMTrendDirection;
+  /** Smoothed rate of change in mmol/L per minute */
+  rate: number;
+  /** Readings the rate was calculated from */
+  readingCount: number;
+  /** Minutes from the first to the last reading used */
+  spanMinutes: number;
+}
+
+/**
+ * Kind of meal suggestion
+ * - unannounced-meal: a BSL rise the logged events do not explain
+ * - missed-bolus: a logged meal with no bolus around it
+ */
+export type MealSuggestionType = 'unannounced-meal' | 'missed-bolus';
+
+/**
+ * Options for scanning history for unlogged meals and missed boluses
+ */
+export interface MealDetectionOptions {
+  /** Only scan from this time */
+  startTime?: Date;
+  /** Only scan up to this time */
+  endTime?: Date;
+  /** Length of each residual window in minutes (default 30) */
+  windowMinutes?: number;
+  /** Unexplained rise per window that counts as a meal in mmol/L (default 1.5) */
+  minUnexplainedRise?: number;
+  /** Smallest logged meal checked for a bolus in grams (default 10) */
+  minBolusCarbs?: number;
+  /** Model parameters in effect at a point in time (default DEFAULT_USER_PARAMETERS) */
+  parametersAt?: (atTime: Date) => UserModelParameters;
+}
+
+/**
+ * A detected unlogged meal or missed bolus for the user to review
+ */
+export interface MealSuggestion {
+  /** Stable id, so a dismissed suggestion stays dismissed on the next scan */
+  id: string;
+  type: MealSuggestionType;
+  /** Estimated meal time, or the logged meal's time for a missed bolus */
+  timestamp: Date;
+  /** Estimated carbs in grams (unannounced meals) */
+  estimatedCarbs?: number;
+  /** BSL rise the logged events do not explain in mmol/L */
+  unexplainedRise?: number;
+  /** How likely the suggestion is to be right (0-1) */
+  confidence: number;
+  /** Logged meal without a bolus (missed boluses) */
+  mealEventId?: string;
+  /** BSL readings or meal the suggestion is based on */
+  supportingEventIds: string[];
+}
+
+/**
+ * Kind of pattern found in event history
+ */
+export type PatternInsightType =
+  | 'post-meal-high'
+  | 'overnight-low-after-exercise'
+  | 'alcohol-hypo'
+  | 'dawn-phenomenon';
+
+/**
+ * Options for finding patterns in event history
+ */
+export interface PatternInsightOptions {
+  /** Start of the period */
+  startTime: Date;
+  /** End of the period */
+  endTime: Date;
+  /** Weakest insight reported (0-1, default 0.2) */
+  minStrength?: number;
+}
+
+/**
+ * A recurring pattern found in event history
+ */
+export interface PatternInsight {
+  /** Stable id for the kind of pattern, e.g. 'post-meal-high-breakfast' */
+  id: string;
+  type: PatternInsightType;
+  /** Short summary, e.g. 'Post-breakfast highs on 5 of 7 days' */
+  title: string;
+  /** What was measured */
+  detail: string;
+  /** Suggested action */
+  action: string;
+  /** Days, nights or occasions the pattern occurred */
+  occurrences: number;
+  /** Days, nights or occasions with enough data to see it */
+  opportunities: number;
+  /**
+   * Statistical strength (0-1): the 95% Wilson lower bound of the occurrence
+   * rate, less the rate without the trigger where there is one to compare
+   */
+  strength: number;
+  /** Events showing the pattern (triggers and the readings affected) */
+  supportingEventIds: string[];
+}
+
+/**
+ * Hypothetical event in a what-if scenario (never persisted)
+ * Value and metadata follow the logged event of the same type.
+ */
+export interface WhatIfEvent {
+  eventType: 'meal' | 'insulin' | 'exercise';
+  /** Minutes after the simulation start (negative for already past) */
+  offsetMinutes: number;
+  value: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A named set of hypothetical events, e.g. '60 g + 5 U now'
+ */
+export interface WhatIfScenario {
+  id: string;
+  name: string;
+  events: WhatIfEvent[];
+}
+
+/**
+ * Options for simulating what-if scenarios
+ */
+export interface WhatIfOptions {
+  /** Simulation start (default now) */
+  startTime?: Date;
+  /** Minutes simulated (default 240) */
+  horizonMinutes?: number;
+  /** Minutes between points (default 5) */
+  resolutionMinutes?: number;
+  /** Model parameters (default DEFAULT_USER_PARAMETERS) */
+  userParams?: UserModelParameters;
+  /** Hypo alert threshold in mmol/L (default 4.0) */
+  hypoThreshold?: number;
+  /** Hyper alert threshold in mmol/L (default 10.0) */
+  hyperThreshold?: number;
+  /** Ensemble size and seed, shared by every scenario so they differ only by their events */
+  ensemble?: PredictionEnsembleOptions;
+}
+
+/**
+ * Key numbers of a simulated curve (mmol/L)
+ */
+export interface WhatIfSummary {
+  lowestBSL: number;
+  lowestTime: Date;
+  highestBSL: number;
+  highestTime: Date;
+  /** Predicted BSL at the end of the simulation */
+  endBSL: number;
+  /** Fraction of points between the hypo and hyper thresholds (0-1) */
+  timeInRange: number;
+}
+
+/**
+ * Simulated curve and alerts for one scenario
+ */
+export interface WhatIfScenarioResult {
+  scenarioId: string;
+  name: string;
+  timeSeries: BSLTimeSeries;
+  alerts: PredictedAlert[];
+  summary: WhatIfSummary;
+}
+
+/**
+ * What-if scenarios compared with the current prediction
+ */
+export interface WhatIfSimulation {
+  startTime: Date;
+  endTime: Date;
+  /** Logged events only */
+  current: WhatIfScenarioResult;
+  /** In the order given */
+  scenarios: WhatIfScenarioResult[];
+}
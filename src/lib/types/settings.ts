@@ -1,5 +1,6 @@
-import type { BSLUnit, InsulinType } from './events';
+import type { BSLUnit, InsulinProductId, InsulinType, SensitivityConditionKey } from './events';
 import type { CGMApiConfig } from './cgm-api';
+import type { AlertSettings } from './alerts';
 
 /**
  * AI provider options for food recognition
@@ -45,6 +46,49 @@ export interface LocalModelConfig {
   type?: 'ollama' | 'lmstudio' | 'openai-compatible';
 }
 
+/**
+ * Therapy settings for one block of the day, applying from `startTime`
+ * until the next segment starts. BSL values are stored in mmol/L.
+ */
+export interface TherapySegment {
+  startTime: string; // 'HH:mm' - the first segment always starts at '00:00'
+  insulinToCarbRatio: number; // Grams of carbs covered by 1 unit
+  insulinSensitivityFactor: number; // BSL drop per unit in mmol/L (correction factor)
+  targetLow: number; // mmol/L
+  targetHigh: number; // mmol/L
+}
+
+/**
+ * Pump basal rate from its start time until the next block starts
+ */
+export interface BasalScheduleBlock {
+  startTime: string; // 'HH:mm' - the first block always starts at '00:00'
+  ratePerHour: number; // units per hour
+}
+
+/**
+ * Insulin need multipliers for sick days and cycle phases
+ * 1.2 means 20% more insulin than usual; missing keys use the model defaults.
+ */
+export type SensitivityMultipliers = Partial<Record<SensitivityConditionKey, number>>;
+
+/**
+ * Versioned therapy profile
+ * Every change is saved as a new version so past predictions can be
+ * re-evaluated with the profile that was active at the time.
+ */
+export interface TherapyProfile {
+  version: number;
+  effectiveFrom: Date;
+  segments: TherapySegment[];
+  insulinProduct?: InsulinProductId; // Rapid-acting insulin, e.g. Humalog
+  durationOfInsulinActionHours: number;
+  bodyWeightKg: number;
+  basalSchedule?: BasalScheduleBlock[]; // Pump users only; absent with injected basal
+  sensitivityMultipliers?: SensitivityMultipliers; // Sick days and cycle phases
+  note?: string;
+}
+
 /**
  * User preferences and settings
  */
@@ -70,8 +114,18 @@ export interface UserSettings {
   // CGM API Integration (Task 22)
   cgmApiConfig?: CGMApiConfig;
 
+  // Therapy profile versions, oldest first
+  therapyProfiles?: TherapyProfile[];
+
+  // Predictive hypo/hyper alerts
+  alertSettings?: AlertSettings;
+
+  // Unannounced meal and missed bolus suggestions the user dismissed
+  dismissedMealSuggestionIds?: string[];
+
   // Defaults
   defaultInsulinType: InsulinType;
+  defaultInsulinProducts?: Partial<Record<InsulinType, InsulinProductId>>;
   defaultBSLUnit: BSLUnit;
 
   // Display
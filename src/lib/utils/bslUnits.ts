@@ -0,0 +1,85 @@
+/**
+ * BSL unit conversion utilities
+ *
+ * BSL readings are stored in mmol/L and tagged 'mmol/L', whatever unit they
+ * were entered or imported in, and converted to the user's preferred unit for
+ * display and input. Writers convert with `toStoredBSL`.
+ */
+
+import type { BSLMetadata, BSLUnit, PhysiologicalEvent } from '$lib/types';
+
+/**
+ * mg/dL per mmol/L of glucose
+ */
+export const MGDL_PER_MMOL = 18.0182;
+
+/**
+ * Highest plausible reading in mmol/L. Manual readings were once stored in
+ * mmol/L but tagged with the display unit, so a 'mg/dL' reading at or below
+ * this is already in mmol/L (CGMs read no lower than 40 mg/dL).
+ */
+const MAX_MMOL_READING = 35;
+
+/**
+ * Convert a BSL value in the given unit to mmol/L
+ *
+ * @param value - BSL value
+ * @param unit - Unit of the value
+ * @returns Value in mmol/L
+ */
+export function toMmolL(value: number, unit: BSLUnit): number {
+  return unit === 'mg/dL' ? value / MGDL_PER_MMOL : value;
+}
+
+/**
+ * Convert a BSL value in mmol/L to the given unit
+ *
+ * @param value - BSL value in mmol/L
+ * @param unit - Target unit
+ * @returns Value in the target unit, rounded to its usual precision
+ */
+export function fromMmolL(value: number, unit: BSLUnit): number {
+  return unit === 'mg/dL' ? Math.round(value * MGDL_PER_MMOL) : Math.round(value * 10) / 10;
+}
+
+/**
+ * Convert a BSL reading to the stored unit (mmol/L, 2 decimal places)
+ *
+ * @param value - BSL value
+ * @param unit - Unit of the value
+ * @returns Value in mmol/L
+ */
+export function toStoredBSL(value: number, unit: BSLUnit): number {
+  return Math.round(toMmolL(value, unit) * 100) / 100;
+}
+
+/**
+ * Get a BSL event's reading in mmol/L
+ * The value is read in the unit it is tagged with, which for stored readings
+ * is always mmol/L.
+ *
+ * @param event - BSL event
+ * @returns Value in mmol/L
+ */
+export function getBSLValueMmolL(event: PhysiologicalEvent): number {
+  const unit = (event.metadata as BSLMetadata | undefined)?.unit ?? 'mmol/L';
+  return toMmolL(event.value, unit);
+}
+
+/**
+ * Bring a BSL event from before readings were normalised to the stored unit
+ * A 'mg/dL' reading is converted, unless it is a manual reading that was
+ * already stored in mmol/L, which is only retagged.
+ *
+ * @param event - Event (returned unchanged unless it is a mg/dL BSL reading)
+ * @returns Event with its reading in mmol/L
+ */
+export function normaliseBSLEvent<T extends PhysiologicalEvent>(event: T): T {
+  const metadata = event.metadata as BSLMetadata | undefined;
+  if (event.eventType !== 'bsl' || metadata?.unit !== 'mg/dL') return event;
+  return {
+    ...event,
+    value: event.value > MAX_MMOL_READING ? toStoredBSL(event.value, 'mg/dL') : event.value,
+    metadata: { ...metadata, unit: 'mmol/L' }
+  };
+}
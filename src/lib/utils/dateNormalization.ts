@@ -134,3 +134,17 @@ export function formatDateForDisplay(date: Date): string {
 export function formatDateLocal(date: Date): string {
   return date.toLocaleString();
 }
+
+/**
+ * Milliseconds in a day
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date for a date input (YYYY-MM-DD, local time)
+ */
+export function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
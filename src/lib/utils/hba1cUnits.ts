@@ -0,0 +1,56 @@
+/**
+ * HbA1c unit conversion utilities
+ *
+ * Labs report HbA1c either as an NGSP/DCCT percentage or as IFCC mmol/mol.
+ * GMI is defined in percent, so lab results are compared in percent.
+ *
+ * Reference: IFCC-NGSP master equation, Hoelzel et al. (2004)
+ */
+
+import type { HbA1cUnit, LabResultMetadata, PhysiologicalEvent } from '$lib/types';
+
+/**
+ * NGSP percent at an IFCC value of zero
+ */
+const IFCC_NGSP_INTERCEPT = 2.15;
+
+/**
+ * IFCC mmol/mol per NGSP percent
+ */
+const IFCC_PER_NGSP_PERCENT = 10.929;
+
+/**
+ * Convert an HbA1c value in the given unit to percent
+ *
+ * @param value - HbA1c value
+ * @param unit - Unit of the value
+ * @returns HbA1c in percent
+ */
+export function hba1cToPercent(value: number, unit: HbA1cUnit): number {
+  return unit === 'mmol/mol' ? value / IFCC_PER_NGSP_PERCENT + IFCC_NGSP_INTERCEPT : value;
+}
+
+/**
+ * Convert an HbA1c percentage to the given unit
+ *
+ * @param percent - HbA1c in percent
+ * @param unit - Target unit
+ * @returns Value in the target unit (mmol/mol rounded to whole numbers, percent to 1 decimal)
+ */
+export function fromHbA1cPercent(percent: number, unit: HbA1cUnit): number {
+  if (unit === 'mmol/mol') {
+    return Math.round((percent - IFCC_NGSP_INTERCEPT) * IFCC_PER_NGSP_PERCENT);
+  }
+  return Math.round(percent * 10) / 10;
+}
+
+/**
+ * Get an HbA1c lab result in percent
+ *
+ * @param event - Lab result event
+ * @returns HbA1c in percent
+ */
+export function getHbA1cPercent(event: PhysiologicalEvent): number {
+  const metadata = event.metadata as Partial<LabResultMetadata> | undefined;
+  return hba1cToPercent(event.value, metadata?.unit ?? '%');
+}
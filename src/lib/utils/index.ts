@@ -4,3 +4,6 @@
 
 export * from './csvHelpers';
 export * from './dateNormalization';
+export * from './bslUnits';
+export * from './ketoneUnits';
+export * from './hba1cUnits';
@@ -0,0 +1,55 @@
+/**
+ * Ketone unit conversion utilities
+ *
+ * Blood ketone meters measure beta-hydroxybutyrate, reported in mmol/L by
+ * almost every meter. Urine strips give a colour level rather than a number;
+ * each level is stored with an approximate blood-equivalent value so both
+ * sample types can be compared against the same thresholds.
+ */
+
+import type { KetoneMetadata, KetoneUnit, PhysiologicalEvent, UrineKetoneLevel } from '$lib/types';
+
+/**
+ * mg/dL per mmol/L of beta-hydroxybutyrate
+ */
+export const KETONE_MGDL_PER_MMOL = 10.41;
+
+/**
+ * Approximate blood ketone (mmol/L) for each urine strip level
+ * Urine lags blood by several hours and reads acetoacetate, so these are a
+ * rough guide only.
+ */
+export const URINE_KETONE_MMOL: Record<UrineKetoneLevel, number> = {
+  negative: 0,
+  trace: 0.5,
+  small: 1.5,
+  moderate: 4,
+  large: 8
+};
+
+/**
+ * Convert a blood ketone value in the given unit to mmol/L
+ *
+ * @param value - Ketone value
+ * @param unit - Unit of the value
+ * @returns Value in mmol/L
+ */
+export function ketoneToMmolL(value: number, unit: KetoneUnit): number {
+  return unit === 'mg/dL' ? value / KETONE_MGDL_PER_MMOL : value;
+}
+
+/**
+ * Get a ketone event's reading in mmol/L
+ * Blood readings keep the unit they were logged in; urine readings use their
+ * level's approximate equivalent.
+ *
+ * @param event - Ketone event
+ * @returns Value in mmol/L
+ */
+export function getKetoneValueMmolL(event: PhysiologicalEvent): number {
+  const metadata = event.metadata as Partial<KetoneMetadata> | undefined;
+  if (metadata?.sampleType === 'urine' && metadata.urineLevel) {
+    return URINE_KETONE_MMOL[metadata.urineLevel];
+  }
+  return ketoneToMmolL(event.value, metadata?.unit ?? 'mmol/L');
+}
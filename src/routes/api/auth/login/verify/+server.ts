@@ -118,7 +118,8 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 
     return json({
       verified: true,
-      expiresAt: new Date(expiresAt * 1000).toISOString()
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+      credentialId
     });
   } catch (error) {
     console.error('Authentication verification error:', error);
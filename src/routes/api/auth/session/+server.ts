@@ -35,7 +35,8 @@ export const GET: RequestHandler = async ({ cookies }) => {
     if (!token) {
       const response: SessionStatusResponse = {
         authenticated: false,
-        expiresAt: null
+        expiresAt: null,
+        credentialId: null
       };
       return json(response);
     }
@@ -46,14 +47,16 @@ export const GET: RequestHandler = async ({ cookies }) => {
     if (!sessionData) {
       const response: SessionStatusResponse = {
         authenticated: false,
-        expiresAt: null
+        expiresAt: null,
+        credentialId: null
       };
       return json(response);
     }
 
     const response: SessionStatusResponse = {
       authenticated: true,
-      expiresAt: new Date(sessionData.expiresAt * 1000).toISOString()
+      expiresAt: new Date(sessionData.expiresAt * 1000).toISOString(),
+      credentialId: sessionData.credentialId
     };
 
     return json(response);
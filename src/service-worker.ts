@@ -79,3 +79,34 @@ self.addEventListener('fetch', (event) => {
     }) as Promise<Response>
   );
 });
+
+// Predictive alert notifications: focus the app and pass the action on to it
+// (see NotificationAlertNotifier). Snooze is applied by the app, which owns
+// the alert settings.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const data = event.notification.data as { alertId?: string; alertType?: string } | null;
+  if (!data?.alertId) return;
+
+  const message = {
+    type: 'alert-notification',
+    action: event.action === 'snooze' ? 'snooze' : 'open',
+    alertId: data.alertId,
+    alertType: data.alertType
+  };
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async (clients) => {
+      const client = clients[0];
+      if (client) {
+        client.postMessage(message);
+        if (message.action === 'open') await client.focus();
+        return;
+      }
+      if (message.action === 'open') {
+        await self.clients.openWindow('/');
+      }
+    })
+  );
+});